@@ -0,0 +1,214 @@
+import React, {
+  useCallback,
+  useImperativeHandle,
+  useMemo,
+  useRef,
+} from 'react';
+import type { NativeScrollEvent, NativeSyntheticEvent } from 'react-native';
+import { StyleSheet, View } from 'react-native';
+import { runOnUI } from 'react-native-reanimated';
+import AgendaItem from './components/AgendaItem';
+import {
+  AGENDA_DAY_WIDTH,
+  AGENDA_EVENT_HEIGHT,
+  AGENDA_SECTION_PADDING,
+} from './constants';
+import { useActions } from './context/ActionsProvider';
+import { useCalendar } from './context/CalendarProvider';
+import { useAgendaSections } from './context/EventsProvider';
+import { useLocale } from './context/LocaleProvider';
+import { useTheme } from './context/ThemeProvider';
+import { useNotifyDateChanged } from './context/VisibleDateProvider';
+import {
+  RecyclerListView,
+  VerticalLayoutProvider,
+} from './service/recyclerlistview';
+import type {
+  RecyclerListViewProps,
+  RecyclerListViewState,
+} from './service/recyclerlistview';
+import type { CalendarAgendaProps } from './types';
+import { dateTimeToISOString, parseDateTime } from './utils/dateUtils';
+import type { AgendaSection } from './utils/eventUtils';
+
+/** Index of the first section on or after `dateUnix` */
+const findSectionIndex = (sections: AgendaSection[], dateUnix: number) => {
+  const index = sections.findIndex((section) => section.dayUnix >= dateUnix);
+  return index === -1 ? Math.max(sections.length - 1, 0) : index;
+};
+
+const CalendarAgenda: React.FC<CalendarAgendaProps> = ({
+  agendaDayWidth = AGENDA_DAY_WIDTH,
+  agendaEventHeight = AGENDA_EVENT_HEIGHT,
+  hourFormat: initialHourFormat,
+  renderAgendaEvent,
+}) => {
+  const {
+    calendarLayout,
+    monthData,
+    visibleDateUnix,
+    visibleDateUnixAnim,
+    pageViewRef,
+  } = useCalendar();
+  const locale = useLocale();
+  const hourFormat = initialHourFormat ?? locale.hourFormat;
+  const { onChange, onDateChanged, onLoad } = useActions();
+  const notifyDateChanged = useNotifyDateChanged();
+  const backgroundColor = useTheme(
+    useCallback((state) => state.colors.background, [])
+  );
+
+  const sections = useAgendaSections(
+    monthData.originalMinDateUnix,
+    monthData.originalMaxDateUnix
+  );
+
+  const listRef =
+    useRef<RecyclerListView<RecyclerListViewProps, RecyclerListViewState>>(
+      null
+    );
+  const committedDateUnix = useRef(visibleDateUnix.current);
+
+  const layoutProvider = useMemo(
+    () =>
+      new VerticalLayoutProvider(calendarLayout, (index) => {
+        const section = sections[index];
+        const rows = section
+          ? section.allDayEvents.length + section.events.length
+          : 0;
+        return (
+          Math.max(rows, 1) * agendaEventHeight + AGENDA_SECTION_PADDING * 2
+        );
+      }),
+    [agendaEventHeight, calendarLayout, sections]
+  );
+
+  const initialOffset = useMemo(() => {
+    if (!sections.length) {
+      return 0;
+    }
+    const layoutManager = layoutProvider.createLayoutManager();
+    layoutManager.relayout(sections.length);
+    const index = findSectionIndex(sections, visibleDateUnix.current);
+    return layoutManager.getLayout(index)?.y ?? 0;
+  }, [layoutProvider, sections, visibleDateUnix]);
+
+  const _updateVisibleDate = useCallback(
+    (dateUnix: number) => {
+      if (visibleDateUnix.current === dateUnix) {
+        return;
+      }
+      visibleDateUnix.current = dateUnix;
+      onChange?.(dateTimeToISOString(parseDateTime(dateUnix)));
+      runOnUI(() => {
+        visibleDateUnixAnim.value = dateUnix;
+      })();
+    },
+    [onChange, visibleDateUnix, visibleDateUnixAnim]
+  );
+
+  const _commitVisibleDate = useCallback(() => {
+    if (committedDateUnix.current === visibleDateUnix.current) {
+      return;
+    }
+    committedDateUnix.current = visibleDateUnix.current;
+    onDateChanged?.(
+      dateTimeToISOString(parseDateTime(visibleDateUnix.current))
+    );
+    notifyDateChanged(visibleDateUnix.current);
+  }, [notifyDateChanged, onDateChanged, visibleDateUnix]);
+
+  const _onVisibleIndicesChanged = useCallback(
+    (all: number[]) => {
+      if (!all.length) {
+        return;
+      }
+      const section = sections[Math.min(...all)];
+      if (section) {
+        _updateVisibleDate(section.dayUnix);
+      }
+    },
+    [_updateVisibleDate, sections]
+  );
+
+  const _onScrollEndDrag = (event: NativeSyntheticEvent<NativeScrollEvent>) => {
+    // Wait for the momentum end when the list keeps scrolling
+    if (!event.nativeEvent.velocity?.y) {
+      _commitVisibleDate();
+    }
+  };
+
+  const _scrollToSection = (index: number, animated: boolean) => {
+    const section = sections[index];
+    if (!section) {
+      return;
+    }
+    listRef.current?.scrollToIndex(index, animated);
+    _updateVisibleDate(section.dayUnix);
+    _commitVisibleDate();
+  };
+
+  useImperativeHandle(pageViewRef, () => ({
+    goToDate: (dateUnix: number, animated: boolean = true) => {
+      _scrollToSection(findSectionIndex(sections, dateUnix), animated);
+    },
+    goToSection: (step: number, animated: boolean = true) => {
+      const currentIndex = findSectionIndex(sections, visibleDateUnix.current);
+      _scrollToSection(currentIndex + step, animated);
+    },
+  }));
+
+  const extraData = useMemo(
+    () => ({ sections, agendaDayWidth, agendaEventHeight, hourFormat }),
+    [agendaDayWidth, agendaEventHeight, hourFormat, sections]
+  );
+
+  const _renderItem = (index: number, extra?: object) => {
+    const { sections: data } = extra as typeof extraData;
+    const section = data[index];
+    if (!section) {
+      return null;
+    }
+    return (
+      <AgendaItem
+        section={section}
+        width={calendarLayout.width}
+        dayWidth={agendaDayWidth}
+        eventHeight={agendaEventHeight}
+        hourFormat={hourFormat}
+        renderAgendaEvent={renderAgendaEvent}
+      />
+    );
+  };
+
+  return (
+    <View style={[styles.container, { backgroundColor }]}>
+      {calendarLayout.width > 0 && calendarLayout.height > 0 && (
+        <RecyclerListView
+          ref={listRef}
+          isHorizontal={false}
+          layoutProvider={layoutProvider}
+          rowRenderer={_renderItem}
+          itemCount={sections.length}
+          initialOffset={initialOffset}
+          renderAheadOffset={calendarLayout.height}
+          extendedState={extraData}
+          onVisibleIndicesChanged={_onVisibleIndicesChanged}
+          scrollViewProps={{
+            showsVerticalScrollIndicator: false,
+            overScrollMode: 'never',
+            onScrollEndDrag: _onScrollEndDrag,
+            onMomentumScrollEnd: _commitVisibleDate,
+          }}
+          onLoad={onLoad}
+        />
+      )}
+    </View>
+  );
+};
+
+export default React.memo(CalendarAgenda);
+
+const styles = StyleSheet.create({
+  container: { flex: 1 },
+});
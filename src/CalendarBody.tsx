@@ -14,6 +14,7 @@ import Animated, { useAnimatedStyle } from 'react-native-reanimated';
 import BodyItem from './components/BodyItem';
 import CalendarListView from './components/CalendarListView';
 import DragEventPlaceholder from './components/DraggingEvent';
+import DraggingGroupEvents from './components/DraggingGroupEvents';
 import DraggingHour from './components/DraggingHour';
 import TimeColumn from './components/TimeColumn';
 import { EXTRA_HEIGHT, ScrollType } from './constants';
@@ -36,7 +37,7 @@ import {
 const AnimatedScrollView = Animated.createAnimatedComponent(ScrollView);
 
 const CalendarBody: React.FC<CalendarBodyProps> = ({
-  hourFormat = 'HH:mm',
+  hourFormat: initialHourFormat,
   renderHour,
   showNowIndicator = true,
   renderCustomOutOfRange,
@@ -50,6 +51,7 @@ const CalendarBody: React.FC<CalendarBodyProps> = ({
   const {
     calendarLayout,
     hourWidth,
+    secondaryTimeZones,
     columnWidthAnim,
     numberOfDays,
     offsetY,
@@ -85,8 +87,12 @@ const CalendarBody: React.FC<CalendarBodyProps> = ({
     pagesPerSide,
     rightEdgeSpacing,
     overlapEventsSpacing,
+    resources,
+    resourceWidthAnim,
+    orientation,
   } = useCalendar();
   const locale = useLocale();
+  const hourFormat = initialHourFormat ?? locale.hourFormat;
   const { onRefresh, onLoad } = useActions();
 
   const { onScroll, onVisibleColumnChanged } = useSyncedList({
@@ -163,10 +169,15 @@ const CalendarBody: React.FC<CalendarBodyProps> = ({
     return slots.map((slot) => {
       return {
         slot,
-        time: toHourStr(slot, hourFormat, locale.meridiem),
+        time: toHourStr(
+          slot,
+          hourFormat,
+          locale.meridiem,
+          locale.numberingSystem
+        ),
       };
     });
-  }, [hourFormat, locale.meridiem, slots]);
+  }, [hourFormat, locale.meridiem, locale.numberingSystem, slots]);
 
   const value = useMemo<BodyContextProps>(
     () => ({
@@ -187,6 +198,7 @@ const CalendarBody: React.FC<CalendarBodyProps> = ({
       columnWidthAnim,
       numberOfDays,
       hourWidth,
+      secondaryTimeZones,
       start,
       end,
       timeInterval,
@@ -204,6 +216,9 @@ const CalendarBody: React.FC<CalendarBodyProps> = ({
       overlapEventsSpacing,
       visibleDateUnixAnim,
       NowIndicatorComponent,
+      resources,
+      resourceWidthAnim,
+      orientation,
     }),
     [
       renderHour,
@@ -223,6 +238,7 @@ const CalendarBody: React.FC<CalendarBodyProps> = ({
       columnWidthAnim,
       numberOfDays,
       hourWidth,
+      secondaryTimeZones,
       start,
       end,
       timeInterval,
@@ -240,6 +256,9 @@ const CalendarBody: React.FC<CalendarBodyProps> = ({
       overlapEventsSpacing,
       visibleDateUnixAnim,
       NowIndicatorComponent,
+      resources,
+      resourceWidthAnim,
+      orientation,
     ]
   );
 
@@ -250,6 +269,7 @@ const CalendarBody: React.FC<CalendarBodyProps> = ({
   );
 
   const leftSize = numberOfDays > 1 ? hourWidth : 0;
+  const listOffset = Math.max(0, leftSize - 1);
 
   return (
     <View style={styles.container}>
@@ -290,7 +310,7 @@ const CalendarBody: React.FC<CalendarBodyProps> = ({
                   style={[
                     styles.absolute,
                     {
-                      left: Math.max(0, leftSize - 1),
+                      ...(isRTL ? { right: listOffset } : { left: listOffset }),
                       width: calendarLayout.width - leftSize,
                     },
                   ]}>
@@ -322,12 +342,16 @@ const CalendarBody: React.FC<CalendarBodyProps> = ({
                   pointerEvents="box-none"
                   style={[
                     styles.absolute,
-                    { top: EXTRA_HEIGHT + spaceFromTop },
+                    {
+                      top: EXTRA_HEIGHT + spaceFromTop,
+                      width: calendarLayout.width,
+                    },
                     styles.dragContainer,
                   ]}>
                   <DragEventPlaceholder
                     renderDraggingEvent={renderDraggingEvent}
                   />
+                  <DraggingGroupEvents />
                   <DraggingHour renderHour={renderDraggingHour} />
                 </View>
               </View>
@@ -26,7 +26,10 @@ import {
   ScrollType,
 } from './constants';
 import ActionsProvider from './context/ActionsProvider';
-import type { CalendarContextProps } from './context/CalendarProvider';
+import type {
+  CalendarContextProps,
+  PageViewHandle,
+} from './context/CalendarProvider';
 import CalendarProvider from './context/CalendarProvider';
 import DragEventProvider from './context/DragEventProvider';
 import type { EventsRef } from './context/EventsProvider';
@@ -40,27 +43,39 @@ import ThemeProvider from './context/ThemeProvider';
 import TimezoneProvider from './context/TimeZoneProvider';
 import UnavailableHoursProvider from './context/UnavailableHoursProvider';
 import VisibleDateProvider from './context/VisibleDateProvider';
+import type { VisibleDateRef } from './context/VisibleDateProvider';
 import useLatestCallback from './hooks/useLatestCallback';
 import useLazyRef from './hooks/useLazyRef';
 import HapticService from './service/HapticService';
+import HistoryService from './service/HistoryService';
 import type {
   CalendarKitHandle,
   CalendarProviderProps,
+  DateRange,
   DateType,
   EventItem,
   GoToDateOptions,
+  SecondaryTimeZone,
 } from './types';
 import {
   dateTimeToISOString,
   forceUpdateZone,
+  getLocaleDefaults,
   parseDateTime,
   startOfWeek,
+  toZonedDay,
 } from './utils/dateUtils';
 import {
   calculateSlots,
   clampValues,
+  extendDateRange,
   findNearestNumber,
+  getMonthIndex,
+  getMonthStartByIndex,
+  getPrependedDays,
+  getPrependedMonths,
   prepareCalendarRange,
+  prepareMonthData,
 } from './utils/utils';
 
 const CalendarContainer: React.ForwardRefRenderFunction<
@@ -69,15 +84,22 @@ const CalendarContainer: React.ForwardRefRenderFunction<
 > = (
   {
     calendarWidth,
+    viewMode = 'week',
+    orientation: initialOrientation = 'vertical',
     theme,
     children,
     hourWidth: initialHourWidth = HOUR_WIDTH,
-    firstDay = 1,
-    minDate = MIN_DATE,
-    maxDate = MAX_DATE,
+    secondaryTimeZones: initialSecondaryTimeZones,
+    firstDay: initialFirstDay,
+    minDate: minDateProp,
+    maxDate: maxDateProp,
+    onRangeExtended,
     initialDate = INITIAL_DATE,
     initialLocales,
     locale,
+    useLocaleDefaults = false,
+    outputCalendar,
+    dualCalendar,
     isLoading = false,
     spaceFromTop = 16,
     spaceFromBottom = 16,
@@ -89,6 +111,7 @@ const CalendarContainer: React.ForwardRefRenderFunction<
     allowPinchToZoom = false,
     initialTimeIntervalHeight = 60,
     timeZone: initialTimeZone,
+    onTimeZoneChange,
     showWeekNumber = false,
     onChange,
     onDateChanged,
@@ -98,8 +121,10 @@ const CalendarContainer: React.ForwardRefRenderFunction<
     unavailableHours,
     highlightDates,
     events,
+    onLoadRange,
+    onLoadRangeError,
     onPressEvent,
-    numberOfDays: initialNumberOfDays = 7,
+    numberOfDays: numberOfDaysProp = 7,
     scrollByDay: initialScrollByDay,
     scrollToNow = true,
     useHaptic = false,
@@ -109,12 +134,22 @@ const CalendarContainer: React.ForwardRefRenderFunction<
     onDragEventEnd,
     onLongPressEvent,
     selectedEvent,
+    selectedEvents,
+    onSelectedEventsChange,
+    onDragEventsEnd,
     pagesPerSide = 2,
     hideWeekDays: initialHideWeekDays,
     onDragSelectedEventStart,
     onDragSelectedEventEnd,
     allowDragToCreate = false,
     defaultDuration = 30,
+    minEventDuration,
+    maxEventDuration,
+    enableHistory = false,
+    historyLimit,
+    dragConstraints,
+    validateDrop,
+    onHistoryChange,
     onDragCreateEventStart,
     onDragCreateEventEnd,
     useAllDayEvent = true,
@@ -124,11 +159,13 @@ const CalendarContainer: React.ForwardRefRenderFunction<
     onLoad,
     overlapType,
     minStartDifference,
+    resources,
+    isRTL: initialIsRTL = false,
   },
   ref
 ) => {
-  // TODO: Implement RTL
-  const isRTL = false;
+  // Resource view shows a single day split into one column per resource
+  const initialNumberOfDays = resources?.length ? 1 : numberOfDaysProp;
 
   if (initialNumberOfDays > 7) {
     throw new Error('The maximum number of days is 7');
@@ -144,6 +181,17 @@ const CalendarContainer: React.ForwardRefRenderFunction<
       : initialScrollByDay;
   }, [initialNumberOfDays, initialScrollByDay]);
 
+  const firstDay = useMemo(() => {
+    if (initialFirstDay) {
+      return initialFirstDay;
+    }
+    const localeCode = locale ?? 'en';
+    return (
+      initialLocales?.[localeCode]?.firstDay ??
+      getLocaleDefaults(localeCode, useLocaleDefaults).firstDay
+    );
+  }, [initialFirstDay, initialLocales, locale, useLocaleDefaults]);
+
   const timeZone = useMemo(() => {
     const parsedTimeZone = parseDateTime(undefined, { zone: initialTimeZone });
     if (!parsedTimeZone.isValid) {
@@ -154,6 +202,8 @@ const CalendarContainer: React.ForwardRefRenderFunction<
   }, [initialTimeZone]);
 
   const hapticService = useRef(new HapticService()).current;
+  const historyService = useRef(new HistoryService()).current;
+  const _onHistoryChange = useLatestCallback(onHistoryChange);
   const [hideWeekDays, setHideWeekDays] = useState(initialHideWeekDays ?? []);
   const hideWeekDaysRef = useRef(initialHideWeekDays ?? []);
   useEffect(() => {
@@ -177,6 +227,12 @@ const CalendarContainer: React.ForwardRefRenderFunction<
   const numberOfDays =
     initialNumberOfDays > daysToShow ? daysToShow : initialNumberOfDays;
 
+  const isMonthView = viewMode === 'month';
+  const isAgendaView = viewMode === 'agenda';
+  const isHorizontal =
+    initialOrientation === 'horizontal' && !isMonthView && !isAgendaView;
+  const orientation = isHorizontal ? 'horizontal' : 'vertical';
+  const isRTL = initialIsRTL && !isHorizontal;
   const isSingleDay = numberOfDays === 1;
   const columns = isSingleDay ? 1 : daysToShow;
 
@@ -188,15 +244,68 @@ const CalendarContainer: React.ForwardRefRenderFunction<
     };
   }, [calendarWidth, defaultLayout.height, defaultLayout.width]);
 
+  // The horizontal timeline shows the hours in a row, without extra columns
+  const secondaryTimeZonesKey = JSON.stringify(
+    isHorizontal ? [] : (initialSecondaryTimeZones ?? [])
+  );
+  const secondaryTimeZones = useMemo(() => {
+    const zones: SecondaryTimeZone[] = JSON.parse(secondaryTimeZonesKey);
+    return zones.filter((zone) => {
+      const isValid = parseDateTime(undefined, { zone: zone.timeZone }).isValid;
+      if (!isValid) {
+        console.warn(`TimeZone ${zone.timeZone} is invalid, column skipped`);
+      }
+      return isValid;
+    });
+  }, [secondaryTimeZonesKey]);
+
   const hourWidth = useMemo(
-    () => PixelRatio.roundToNearestPixel(initialHourWidth),
-    [initialHourWidth]
+    () =>
+      PixelRatio.roundToNearestPixel(initialHourWidth) *
+      (secondaryTimeZones.length + 1),
+    [initialHourWidth, secondaryTimeZones.length]
   );
 
   useEffect(() => {
     hapticService.setEnabled(useHaptic);
   }, [hapticService, useHaptic]);
 
+  useEffect(() => {
+    historyService.onChange = _onHistoryChange;
+    historyService.setEnabled(enableHistory, historyLimit);
+  }, [_onHistoryChange, enableHistory, historyLimit, historyService]);
+
+  // Sides without `minDate` or `maxDate` are extended around the visible date
+  const extendableSides = useMemo(
+    () => ({ min: !minDateProp, max: !maxDateProp }),
+    [minDateProp, maxDateProp]
+  );
+  const [dateRange, setDateRange] = useState<DateRange>(() => {
+    const initialIsoDate = parseDateTime(initialDate, {
+      zone: timeZone,
+    }).toISODate();
+    return extendDateRange(
+      {
+        minDate: parseDateTime(MIN_DATE, { zone: timeZone }).toISODate()!,
+        maxDate: parseDateTime(MAX_DATE, { zone: timeZone }).toISODate()!,
+      },
+      parseDateTime(initialIsoDate).toMillis(),
+      extendableSides
+    );
+  });
+  const minDate = minDateProp ?? dateRange.minDate;
+  const maxDate = maxDateProp ?? dateRange.maxDate;
+
+  /** Extends the range when the date is close to its ends */
+  const extendRange = useLatestCallback((dateUnix: number) => {
+    const nextRange = extendDateRange(dateRange, dateUnix, extendableSides);
+    if (nextRange === dateRange) {
+      return false;
+    }
+    setDateRange(nextRange);
+    return true;
+  });
+
   const calendarData = useMemo(
     () =>
       prepareCalendarRange({
@@ -210,15 +319,30 @@ const CalendarContainer: React.ForwardRefRenderFunction<
     [minDate, maxDate, firstDay, isSingleDay, hideWeekDays, timeZone]
   );
 
+  const monthData = useMemo(
+    () => prepareMonthData({ minDate, maxDate, firstDay, timeZone }),
+    [minDate, maxDate, firstDay, timeZone]
+  );
+
   const slots = useMemo(
     () => calculateSlots(start, end, timeInterval),
     [start, end, timeInterval]
   );
   const totalSlots = slots.length;
 
+  // Width of a day column, or height of a day row when horizontal
   const columnWidth = useMemo(() => {
+    if (isHorizontal) {
+      return (calendarLayout.height - hourWidth) / numberOfDays;
+    }
     return (calendarLayout.width - hourWidth) / numberOfDays;
-  }, [calendarLayout.width, hourWidth, numberOfDays]);
+  }, [
+    calendarLayout.height,
+    calendarLayout.width,
+    hourWidth,
+    isHorizontal,
+    numberOfDays,
+  ]);
 
   const calendarGridWidth = useMemo(() => {
     if (isSingleDay) {
@@ -237,25 +361,62 @@ const CalendarContainer: React.ForwardRefRenderFunction<
   const scrollVisibleHeight = useRef(0);
   const triggerDateChanged = useRef<number>();
 
+  const pageViewRef = useRef<PageViewHandle>(null);
+  // `goToDate` out of the range, called again once the range is extended
+  const pendingGoToDate = useRef<GoToDateOptions>();
+
+  const getVisibleDateByMode = (dateUnix: number) => {
+    if (isMonthView) {
+      const monthIndex = getMonthIndex(monthData, dateUnix);
+      return getMonthStartByIndex(monthData, monthIndex);
+    }
+
+    if (isAgendaView) {
+      return dateUnix;
+    }
+
+    let date;
+    if (scrollByDay) {
+      date = parseDateTime(dateUnix);
+    } else {
+      date = startOfWeek(dateUnix, firstDay);
+    }
+    return findNearestNumber(calendarData.visibleDatesArray, date.toMillis());
+  };
+
   // Current visible date
   const visibleDateUnix = useLazyRef(() => {
     const zonedInitialDate = parseDateTime(initialDate, {
       zone: timeZone,
     }).toISODate();
-    let date;
-    if (scrollByDay) {
-      date = parseDateTime(zonedInitialDate);
-    } else {
-      date = startOfWeek(zonedInitialDate, firstDay);
-    }
-    const dateUnix = date.toMillis();
-    return findNearestNumber(calendarData.visibleDatesArray, dateUnix);
+    return getVisibleDateByMode(parseDateTime(zonedInitialDate).toMillis());
   });
 
+  // Keep the same visible date when switching between view modes
+  const prevViewMode = useRef(viewMode);
+  if (prevViewMode.current !== viewMode) {
+    prevViewMode.current = viewMode;
+    visibleDateUnix.current = getVisibleDateByMode(
+      parseDateTime(visibleDateUnix.current).startOf('day').toMillis()
+    );
+  }
+
   const visibleDateUnixAnim = useSharedValue(visibleDateUnix.current);
+  useEffect(() => {
+    visibleDateUnixAnim.value = visibleDateUnix.current;
+  }, [viewMode, visibleDateUnix, visibleDateUnixAnim]);
   const visibleWeeks = useSharedValue([visibleDateUnix.current]);
 
   const initialOffset = useMemo(() => {
+    if (isAgendaView) {
+      // The agenda list computes its own offset from the event sections
+      return 0;
+    }
+    if (isMonthView) {
+      const monthIndex = getMonthIndex(monthData, visibleDateUnix.current);
+      return monthIndex * calendarLayout.width;
+    }
+
     const visibleDatesArray = calendarData.visibleDatesArray;
     const visibleDates = calendarData.visibleDates;
     const nearestNumber = findNearestNumber(
@@ -282,14 +443,24 @@ const CalendarContainer: React.ForwardRefRenderFunction<
     isSingleDay,
     scrollByDay,
     visibleDateUnix,
+    isMonthView,
+    monthData,
+    calendarLayout.width,
+    isAgendaView,
   ]);
 
   const columnWidthAnim = useSharedValue(columnWidth);
+  const resourceCount = resources?.length ?? 0;
+  const resourceWidthAnim = useDerivedValue(
+    () => columnWidthAnim.value / Math.max(resourceCount, 1),
+    [resourceCount]
+  );
   const offsetY = useSharedValue(0);
   const offsetX = useSharedValue(initialOffset);
   const scrollVisibleHeightAnim = useSharedValue(0);
   const timeIntervalHeight = useSharedValue(initialTimeIntervalHeight);
   const eventsRef = useRef<EventsRef>(null);
+  const visibleDateRef = useRef<VisibleDateRef>(null);
 
   const extraHeight = spaceFromTop + spaceFromBottom;
   const maxTimelineHeight = totalSlots * maxTimeIntervalHeight + extraHeight;
@@ -302,9 +473,46 @@ const CalendarContainer: React.ForwardRefRenderFunction<
   );
   const startOffset = useDerivedValue(() => start * minuteHeight.value);
 
+  const goToMonth = useLatestCallback(
+    (monthIndex: number, animated: boolean = true) => {
+      const offset = monthIndex * calendarLayout.width;
+      const isScrollable = calendarListRef.current?.isScrollable(offset);
+      if (monthIndex < 0 || monthIndex > monthData.count || !isScrollable) {
+        triggerDateChanged.current = undefined;
+        return;
+      }
+
+      triggerDateChanged.current = getMonthStartByIndex(monthData, monthIndex);
+      scrollType.current = ScrollType.calendarGrid;
+      runOnUI(() => {
+        scrollTo(gridListRef, offset, 0, animated);
+      })();
+    }
+  );
+
   const goToDate = useLatestCallback((props?: GoToDateOptions) => {
     const date = parseDateTime(props?.date, { zone: timeZone });
     const isoDate = date.toISODate();
+    if (extendRange(parseDateTime(isoDate).toMillis())) {
+      pendingGoToDate.current = props ?? {};
+      return;
+    }
+    if (isMonthView) {
+      const monthIndex = getMonthIndex(
+        monthData,
+        parseDateTime(isoDate).toMillis()
+      );
+      goToMonth(monthIndex, props?.animatedDate ?? true);
+      return;
+    }
+    if (isAgendaView) {
+      pageViewRef.current?.goToDate(
+        parseDateTime(isoDate).toMillis(),
+        props?.animatedDate ?? true
+      );
+      return;
+    }
+
     let targetDateUnix = parseDateTime(isoDate).toMillis();
     if (!scrollByDay) {
       targetDateUnix = startOfWeek(isoDate, firstDay).toMillis();
@@ -312,7 +520,9 @@ const CalendarContainer: React.ForwardRefRenderFunction<
     const visibleDates = calendarData.visibleDatesArray;
     const nearestUnix = findNearestNumber(visibleDates, targetDateUnix);
     const visibleDayIndex = visibleDates.indexOf(nearestUnix);
-    if (visibleDayIndex !== -1) {
+    if (isHorizontal) {
+      pageViewRef.current?.goToDate(nearestUnix, props?.animatedDate ?? true);
+    } else if (visibleDayIndex !== -1) {
       let offset = 0;
       if (isSingleDay || scrollByDay) {
         const colWidth = isSingleDay ? calendarGridWidth : columnWidth;
@@ -346,18 +556,97 @@ const CalendarContainer: React.ForwardRefRenderFunction<
       const scrollOffset = scrollVisibleHeight.current / 2;
       const animatedHour =
         props?.animatedHour !== undefined ? props.animatedHour : true;
+      const offset = position - scrollOffset;
       runOnUI(() => {
-        scrollTo(verticalListRef, 0, position - scrollOffset, animatedHour);
+        if (isHorizontal) {
+          scrollTo(verticalListRef, offset, 0, animatedHour);
+        } else {
+          scrollTo(verticalListRef, 0, offset, animatedHour);
+        }
       })();
     }
   });
 
+  // Days added before the range shift the pages, move the lists by as many
+  // to stay on the visible date
+  const prevRangeData = useRef({ dateRange, calendarData, monthData });
+  useEffect(() => {
+    const prevData = prevRangeData.current;
+    prevRangeData.current = { dateRange, calendarData, monthData };
+    if (prevData.dateRange === dateRange || isAgendaView || isHorizontal) {
+      return;
+    }
+
+    let shift = 0;
+    if (isMonthView) {
+      shift =
+        getPrependedMonths(prevData.monthData, monthData) *
+        calendarLayout.width;
+    } else {
+      const colWidth = isSingleDay ? calendarGridWidth : columnWidth;
+      shift = getPrependedDays(prevData.calendarData, calendarData) * colWidth;
+    }
+    if (!shift) {
+      return;
+    }
+
+    runOnUI(() => {
+      const offset = offsetX.value + shift;
+      offsetX.value = offset;
+      if (Platform.OS === 'web') {
+        scrollTo(dayBarListRef, offset, 0, false);
+      }
+      scrollTo(gridListRef, offset, 0, false);
+    })();
+  }, [
+    calendarData,
+    calendarGridWidth,
+    calendarLayout.width,
+    columnWidth,
+    dateRange,
+    dayBarListRef,
+    gridListRef,
+    isAgendaView,
+    isHorizontal,
+    isMonthView,
+    isSingleDay,
+    monthData,
+    offsetX,
+  ]);
+
+  // Scroll to the date once the lists are back on the visible date
+  useEffect(() => {
+    const pendingProps = pendingGoToDate.current;
+    if (!pendingProps) {
+      return;
+    }
+    pendingGoToDate.current = undefined;
+    const timeout = setTimeout(() => goToDate(pendingProps), 0);
+    return () => clearTimeout(timeout);
+  }, [calendarData, monthData, goToDate]);
+
+  const prevDateRange = useRef(dateRange);
+  useEffect(() => {
+    if (prevDateRange.current === dateRange) {
+      return;
+    }
+    prevDateRange.current = dateRange;
+    onRangeExtended?.({
+      minDate: parseDateTime(monthData.originalMinDateUnix).toISODate()!,
+      maxDate: parseDateTime(monthData.originalMaxDateUnix).toISODate()!,
+    });
+  }, [dateRange, monthData, onRangeExtended]);
+
   const goToHour = useLatestCallback(
     (hour: number, animated: boolean = true) => {
       const minutes = (hour - start) * 60;
       const position = minutes * minuteHeight.value;
       runOnUI(() => {
-        scrollTo(verticalListRef, 0, position, animated);
+        if (isHorizontal) {
+          scrollTo(verticalListRef, position, 0, animated);
+        } else {
+          scrollTo(verticalListRef, 0, position, animated);
+        }
       })();
     }
   );
@@ -367,6 +656,17 @@ const CalendarContainer: React.ForwardRefRenderFunction<
       if (triggerDateChanged.current) {
         return;
       }
+      if (isMonthView) {
+        goToMonth(
+          getMonthIndex(monthData, visibleDateUnix.current) + 1,
+          animated
+        );
+        return;
+      }
+      if (isAgendaView) {
+        pageViewRef.current?.goToSection(1, animated);
+        return;
+      }
       const visibleDatesArray = calendarData.visibleDatesArray;
       const currentIndex = visibleDatesArray.indexOf(visibleDateUnix.current);
       if (currentIndex === -1) {
@@ -385,11 +685,18 @@ const CalendarContainer: React.ForwardRefRenderFunction<
         nextOffset = pageIndex * (columnWidth * columns);
       }
 
+      const nextDateUnix = visibleDatesArray[nextVisibleDayIndex];
+      if (isHorizontal) {
+        if (nextDateUnix) {
+          pageViewRef.current?.goToDate(nextDateUnix, animated);
+        }
+        return;
+      }
+
       const isScrollable = calendarListRef.current?.isScrollable(
         nextOffset,
         numberOfDays
       );
-      const nextDateUnix = visibleDatesArray[nextVisibleDayIndex];
       if (!nextDateUnix || !isScrollable) {
         triggerDateChanged.current = undefined;
         return;
@@ -411,6 +718,17 @@ const CalendarContainer: React.ForwardRefRenderFunction<
       if (triggerDateChanged.current) {
         return;
       }
+      if (isMonthView) {
+        goToMonth(
+          getMonthIndex(monthData, visibleDateUnix.current) - 1,
+          animated
+        );
+        return;
+      }
+      if (isAgendaView) {
+        pageViewRef.current?.goToSection(-1, animated);
+        return;
+      }
       const visibleDatesArray = calendarData.visibleDatesArray;
       const currentIndex = visibleDatesArray.indexOf(visibleDateUnix.current);
       if (currentIndex === -1) {
@@ -428,11 +746,18 @@ const CalendarContainer: React.ForwardRefRenderFunction<
         const pageIndex = Math.floor(nextVisibleDayIndex / columns);
         nextOffset = pageIndex * (columnWidth * columns);
       }
+      const nextDateUnix = visibleDatesArray[nextVisibleDayIndex];
+      if (isHorizontal) {
+        if (nextDateUnix) {
+          pageViewRef.current?.goToDate(nextDateUnix, animated);
+        }
+        return;
+      }
+
       const isScrollable = calendarListRef.current?.isScrollable(
         nextOffset,
         numberOfDays
       );
-      const nextDateUnix = visibleDatesArray[nextVisibleDayIndex];
       if (!nextDateUnix || !isScrollable) {
         triggerDateChanged.current = undefined;
         return;
@@ -465,7 +790,11 @@ const CalendarContainer: React.ForwardRefRenderFunction<
         const pinchYScale = clampedHeight * pinchYNormalized;
         const y = pinchYScale;
         timeIntervalHeight.value = withTiming(clampedHeight);
-        scrollTo(verticalListRef, 0, y, true);
+        if (isHorizontal) {
+          scrollTo(verticalListRef, y, 0, true);
+        } else {
+          scrollTo(verticalListRef, 0, y, true);
+        }
       })();
     }
   );
@@ -474,14 +803,85 @@ const CalendarContainer: React.ForwardRefRenderFunction<
     const dateObj = parseDateTime(initDate, { zone: timeZone });
     const isoDate = dateObj.toISODate();
     const targetDateUnix = parseDateTime(isoDate).toMillis();
+    if (isMonthView) {
+      const monthIndex = getMonthIndex(monthData, targetDateUnix);
+      const monthStartUnix = getMonthStartByIndex(monthData, monthIndex);
+      visibleDateUnix.current = monthStartUnix;
+      visibleDateUnixAnim.value = monthStartUnix;
+      return;
+    }
+    if (isAgendaView) {
+      visibleDateUnix.current = targetDateUnix;
+      visibleDateUnixAnim.value = targetDateUnix;
+      return;
+    }
     const visibleDates = calendarData.visibleDatesArray;
     const nearestUnix = findNearestNumber(visibleDates, targetDateUnix);
     visibleDateUnix.current = nearestUnix;
     visibleDateUnixAnim.value = nearestUnix;
   });
 
+  /** Keeps the instant in the middle of the timeline in the new time zone */
+  const keepVisibleInstant = useLatestCallback((previousTimeZone: string) => {
+    const isTimeline = !isMonthView && !isAgendaView;
+    const minutes = isTimeline
+      ? (offsetY.value + scrollVisibleHeight.current / 2) / minuteHeight.value +
+        start
+      : 0;
+    const instant = forceUpdateZone(visibleDateUnix.current, previousTimeZone)
+      .plus({ minutes })
+      .toMillis();
+
+    // The day of the instant in the new zone may stay on the visible page,
+    // so the visible date is moved here instead of by the scroll
+    const nextVisibleDateUnix = getVisibleDateByMode(
+      toZonedDay(instant, timeZone)
+    );
+    if (nextVisibleDateUnix !== visibleDateUnix.current) {
+      visibleDateUnix.current = nextVisibleDateUnix;
+      visibleDateUnixAnim.value = nextVisibleDateUnix;
+      visibleDateRef.current?.updateVisibleDate(nextVisibleDateUnix);
+      const dateIsoStr = dateTimeToISOString(
+        parseDateTime(nextVisibleDateUnix)
+      );
+      onChange?.(dateIsoStr);
+      _onDateChanged(dateIsoStr);
+    }
+    goToDate({
+      date: instant,
+      hourScroll: isTimeline,
+      animatedDate: false,
+      animatedHour: false,
+    });
+    // Already notified above, the scroll lands on the visible date
+    triggerDateChanged.current = undefined;
+  });
+
+  const prevTimeZone = useRef(timeZone);
+  useEffect(() => {
+    const previousTimeZone = prevTimeZone.current;
+    if (previousTimeZone === timeZone) {
+      return;
+    }
+    prevTimeZone.current = timeZone;
+    keepVisibleInstant(previousTimeZone);
+    onTimeZoneChange?.(timeZone, previousTimeZone);
+  }, [keepVisibleInstant, onTimeZoneChange, timeZone]);
+
+  /** Offset along the days (`x`) and time (`y`) axes of the timeline */
+  const toTimelineOffset = (position: { x: number; y: number }) => {
+    if (isHorizontal) {
+      return { x: position.y, y: position.x };
+    }
+    if (isRTL) {
+      return { x: columnWidth * numberOfDays - position.x, y: position.y };
+    }
+    return position;
+  };
+
   const getDateByOffset = useLatestCallback(
-    (position: { x: number; y: number }) => {
+    (offset: { x: number; y: number }) => {
+      const position = toTimelineOffset(offset);
       const visibleDatesArray = calendarData.visibleDatesArray;
       const dayIndex = visibleDatesArray.indexOf(visibleDateUnix.current);
       if (dayIndex === -1) {
@@ -510,8 +910,9 @@ const CalendarContainer: React.ForwardRefRenderFunction<
   );
 
   const getEventByOffset = useLatestCallback(
-    (position: { x: number; y: number }) => {
-      const date = getDateByOffset(position);
+    (offset: { x: number; y: number }) => {
+      const date = getDateByOffset(offset);
+      const position = toTimelineOffset(offset);
       if (!date) {
         return null;
       }
@@ -544,10 +945,21 @@ const CalendarContainer: React.ForwardRefRenderFunction<
   );
 
   const getSizeByDuration = useLatestCallback((duration: number) => {
-    const height = duration * minuteHeight.value;
-    return { width: columnWidth, height };
+    const size = duration * minuteHeight.value;
+    if (isHorizontal) {
+      return { width: size, height: columnWidth };
+    }
+    return { width: columnWidth, height: size };
   });
 
+  const undo = useLatestCallback(() => historyService.undo());
+  const redo = useLatestCallback(() => historyService.redo());
+  const canUndo = useLatestCallback(() => historyService.canUndo());
+  const canRedo = useLatestCallback(() => historyService.canRedo());
+  const invalidateLoadedRanges = useLatestCallback(() =>
+    eventsRef.current?.invalidateLoadedRanges()
+  );
+
   const getVisibleStart = useLatestCallback(() => {
     const currentDate = forceUpdateZone(visibleDateUnix.current, timeZone);
     const startMinutes = offsetY.value / minuteHeight.value - start;
@@ -568,6 +980,11 @@ const CalendarContainer: React.ForwardRefRenderFunction<
       getEventByOffset,
       getSizeByDuration,
       getVisibleStart,
+      undo,
+      redo,
+      canUndo,
+      canRedo,
+      invalidateLoadedRanges,
     }),
     [
       getDateStringByOffset,
@@ -580,6 +997,11 @@ const CalendarContainer: React.ForwardRefRenderFunction<
       setVisibleDate,
       zoom,
       getVisibleStart,
+      undo,
+      redo,
+      canUndo,
+      canRedo,
+      invalidateLoadedRanges,
     ]
   );
 
@@ -600,7 +1022,11 @@ const CalendarContainer: React.ForwardRefRenderFunction<
     () => ({
       calendarLayout,
       hourWidth,
+      secondaryTimeZones,
       calendarData,
+      monthData,
+      viewMode,
+      orientation,
       numberOfDays,
       visibleDateUnix,
       verticalListRef,
@@ -638,6 +1064,9 @@ const CalendarContainer: React.ForwardRefRenderFunction<
       triggerDateChanged,
       visibleDateUnixAnim,
       calendarListRef,
+      pageViewRef,
+      resources,
+      resourceWidthAnim,
       startOffset,
       scrollVisibleHeightAnim,
       pagesPerSide,
@@ -651,7 +1080,11 @@ const CalendarContainer: React.ForwardRefRenderFunction<
     [
       calendarLayout,
       hourWidth,
+      secondaryTimeZones,
       calendarData,
+      monthData,
+      viewMode,
+      orientation,
       numberOfDays,
       visibleDateUnix,
       verticalListRef,
@@ -684,6 +1117,8 @@ const CalendarContainer: React.ForwardRefRenderFunction<
       snapToInterval,
       columns,
       visibleDateUnixAnim,
+      resources,
+      resourceWidthAnim,
       startOffset,
       scrollVisibleHeightAnim,
       pagesPerSide,
@@ -696,8 +1131,13 @@ const CalendarContainer: React.ForwardRefRenderFunction<
     ]
   );
 
+  const _onDateChanged = useLatestCallback((date: string) => {
+    extendRange(parseDateTime(date).toMillis());
+    onDateChanged?.(date);
+  });
+
   const _onLoad = useLatestCallback(() => {
-    if (scrollToNow) {
+    if (scrollToNow && viewMode === 'week') {
       goToDate({ hourScroll: true, animatedHour: true });
     }
     onLoad?.();
@@ -708,11 +1148,13 @@ const CalendarContainer: React.ForwardRefRenderFunction<
     onPressDayNumber,
     onRefresh,
     onChange,
-    onDateChanged,
+    onDateChanged: _onDateChanged,
     onPressEvent,
     onDragEventStart,
     onDragEventEnd,
     onLongPressEvent,
+    onSelectedEventsChange,
+    onDragEventsEnd,
     onDragSelectedEventStart,
     onDragSelectedEventEnd,
     onDragCreateEventStart,
@@ -724,13 +1166,20 @@ const CalendarContainer: React.ForwardRefRenderFunction<
 
   return (
     <CalendarProvider value={value}>
-      <LocaleProvider initialLocales={initialLocales} locale={locale}>
+      <LocaleProvider
+        initialLocales={initialLocales}
+        locale={locale}
+        useLocaleDefaults={useLocaleDefaults}
+        outputCalendar={outputCalendar}
+        dualCalendar={dualCalendar}>
         <TimezoneProvider timeZone={timeZone}>
           <NowIndicatorProvider>
             <ThemeProvider theme={theme}>
               <ActionsProvider {...actionsProps}>
                 <LoadingContext.Provider value={loadingValue}>
-                  <VisibleDateProvider initialStart={visibleDateUnix}>
+                  <VisibleDateProvider
+                    ref={visibleDateRef}
+                    initialStart={visibleDateUnix}>
                     <HighlightDatesProvider highlightDates={highlightDates}>
                       <UnavailableHoursProvider
                         unavailableHours={unavailableHours}
@@ -745,15 +1194,25 @@ const CalendarContainer: React.ForwardRefRenderFunction<
                           pagesPerSide={pagesPerSide}
                           minRegularEventMinutes={minRegularEventMinutes}
                           hideWeekDays={hideWeekDays}
+                          defaultOffset={isMonthView ? 42 : undefined}
                           overlapType={overlapType}
-                          minStartDifference={minStartDifference}>
+                          minStartDifference={minStartDifference}
+                          resources={resources}
+                          onLoadRange={onLoadRange}
+                          onLoadRangeError={onLoadRangeError}>
                           <DragEventProvider
                             dragStep={dragStep}
                             allowDragToEdit={allowDragToEdit}
                             selectedEvent={selectedEvent}
+                            selectedEvents={selectedEvents}
                             allowDragToCreate={allowDragToCreate}
                             defaultDuration={defaultDuration}
-                            hapticService={hapticService}>
+                            minEventDuration={minEventDuration}
+                            maxEventDuration={maxEventDuration}
+                            dragConstraints={dragConstraints}
+                            validateDrop={validateDrop}
+                            hapticService={hapticService}
+                            historyService={historyService}>
                             {children}
                           </DragEventProvider>
                         </EventsProvider>
@@ -1,6 +1,7 @@
 import React, { useCallback, useMemo } from 'react';
+import type { LayoutChangeEvent } from 'react-native';
 import { Platform, StyleSheet, View } from 'react-native';
-import { ScrollView } from 'react-native-gesture-handler';
+import { GestureDetector, ScrollView } from 'react-native-gesture-handler';
 import Animated, {
   useAnimatedStyle,
   useDerivedValue,
@@ -8,8 +9,10 @@ import Animated, {
   withTiming,
 } from 'react-native-reanimated';
 import CalendarListView from './components/CalendarListView';
+import DraggingAllDayEvent from './components/DraggingAllDayEvent';
 import ExpandButton from './components/ExpandButton';
 import MultiDayBarItem from './components/MultiDayBarItem';
+import ResourceHeader from './components/ResourceHeader';
 import SingleDayBarItem from './components/SingleDayBarItem';
 import WeekNumber from './components/WeekNumber';
 import {
@@ -19,15 +22,19 @@ import {
   HEADER_BOTTOM_HEIGHT,
   MAX_ALL_DAY_MINUTES,
   MIN_ALL_DAY_MINUTES,
+  RESOURCE_HEADER_HEIGHT,
   ScrollType,
 } from './constants';
 import { useCalendar } from './context/CalendarProvider';
 import { HeaderContext } from './context/DayBarContext';
 import type { HeaderContextProps } from './context/DayBarContext';
 import { useEventCountsByWeek } from './context/EventsProvider';
+import { useLocale } from './context/LocaleProvider';
 import { useTheme } from './context/ThemeProvider';
+import useDragAllDayEventGesture from './hooks/useDragAllDayEventGesture';
 import useSyncedList from './hooks/useSyncedList';
 import type { CalendarHeaderProps } from './types';
+import { getCalendarDate } from './utils/dateUtils';
 import { clampValues } from './utils/utils';
 
 const CalendarHeader: React.FC<CalendarHeaderProps> = ({
@@ -41,6 +48,8 @@ const CalendarHeader: React.FC<CalendarHeaderProps> = ({
   eventMinMinutes = MIN_ALL_DAY_MINUTES,
   eventMaxMinutes = MAX_ALL_DAY_MINUTES,
   eventInitialMinutes = DEFAULT_ALL_DAY_MINUTES,
+  resourceHeaderHeight = RESOURCE_HEADER_HEIGHT,
+  renderResource,
 }) => {
   const {
     calendarLayout,
@@ -63,7 +72,9 @@ const CalendarHeader: React.FC<CalendarHeaderProps> = ({
     useAllDayEvent,
     rightEdgeSpacing,
     overlapEventsSpacing,
+    resources,
   } = useCalendar();
+  const { locale, outputCalendar, numberingSystem } = useLocale();
 
   const headerStyles = useTheme(
     useCallback(
@@ -81,6 +92,14 @@ const CalendarHeader: React.FC<CalendarHeaderProps> = ({
     id: ScrollType.dayBar,
   });
 
+  const headerHeight = useSharedValue(0);
+  const { gesture: dragGesture, isDragging } =
+    useDragAllDayEventGesture(headerHeight);
+
+  const _onLayout = (event: LayoutChangeEvent) => {
+    headerHeight.value = event.nativeEvent.layout.height;
+  };
+
   const isExpanded = useSharedValue(false);
   const eventHeight = useDerivedValue(
     () =>
@@ -192,6 +211,9 @@ const CalendarHeader: React.FC<CalendarHeaderProps> = ({
       renderHeaderItem,
       renderEvent,
       renderExpandIcon,
+      locale,
+      outputCalendar,
+      numberingSystem,
     }),
     [
       calendarData.minDateUnix,
@@ -200,6 +222,9 @@ const CalendarHeader: React.FC<CalendarHeaderProps> = ({
       renderHeaderItem,
       renderEvent,
       renderExpandIcon,
+      locale,
+      outputCalendar,
+      numberingSystem,
     ]
   );
 
@@ -210,10 +235,24 @@ const CalendarHeader: React.FC<CalendarHeaderProps> = ({
     }
 
     if (extra.renderHeaderItem) {
+      const { outputCalendar: calendar } = extra;
+      const calendarDates = calendar
+        ? extra.visibleDatesArray
+            .slice(index * extra.columns, (index + 1) * extra.columns)
+            .map((dateUnix) =>
+              getCalendarDate(dateUnix, {
+                locale: extra.locale,
+                calendar,
+                numberingSystem: extra.numberingSystem,
+              })
+            )
+        : undefined;
       return extra.renderHeaderItem({
         startUnix: dateUnixByIndex,
         index,
         extra,
+        outputCalendar: calendar,
+        calendarDates,
       });
     }
 
@@ -245,18 +284,20 @@ const CalendarHeader: React.FC<CalendarHeaderProps> = ({
   }, [calendarData.visibleDatesArray, numberOfDays]);
 
   const leftSize = numberOfDays > 1 ? hourWidth : 0;
+  const listOffset = Math.max(0, leftSize - 1);
+  const leftAreaStyle = [
+    styles.leftArea,
+    isRTL && styles.leftAreaRTL,
+    { width: hourWidth },
+  ];
 
   const _renderLeftArea = () => {
     if (LeftAreaComponent) {
-      return (
-        <View style={[styles.leftArea, { width: hourWidth }]}>
-          {LeftAreaComponent}
-        </View>
-      );
+      return <View style={leftAreaStyle}>{LeftAreaComponent}</View>;
     }
 
     return (
-      <View style={[styles.leftArea, { width: hourWidth }]}>
+      <View style={leftAreaStyle}>
         {showWeekNumber && <WeekNumber date={visibleDateUnixAnim} />}
         {useAllDayEvent && (
           <ExpandButton
@@ -266,53 +307,69 @@ const CalendarHeader: React.FC<CalendarHeaderProps> = ({
           />
         )}
         <View
-          style={[styles.border, { backgroundColor: headerStyles.borderColor }]}
+          style={[
+            isRTL ? styles.borderRTL : styles.border,
+            { backgroundColor: headerStyles.borderColor },
+          ]}
         />
       </View>
     );
   };
 
   return (
-    <View
-      style={[
-        styles.headerContainer,
-        { backgroundColor: headerStyles.headerBackgroundColor },
-        headerStyles.headerContainer,
-        { width: calendarLayout.width },
-      ]}>
-      <ScrollView alwaysBounceVertical={false} overScrollMode="never">
-        <HeaderContext.Provider value={value}>
-          <Animated.View style={contentStyle}>
-            {numberOfDays > 1 && _renderLeftArea()}
-            <View
-              style={[
-                styles.absolute,
-                {
-                  left: Math.max(0, leftSize - 1),
-                  width: calendarLayout.width - leftSize,
-                },
-              ]}>
-              <CalendarListView
-                animatedRef={dayBarListRef}
-                count={calendarData.count}
-                width={calendarGridWidth}
-                height={calendarLayout.height}
-                renderItem={_renderHeaderItem}
-                extraData={extraData}
-                inverted={isRTL}
-                snapToInterval={snapToInterval}
-                initialOffset={initialOffset}
-                onScroll={onScroll}
-                columnsPerPage={columns}
-                onVisibleColumnChanged={onVisibleColumnChanged}
-                extraScrollData={extraScrollData}
-                scrollEnabled={Platform.OS !== 'web'}
-              />
-            </View>
-          </Animated.View>
-        </HeaderContext.Provider>
-      </ScrollView>
-    </View>
+    <GestureDetector gesture={dragGesture}>
+      <View
+        onLayout={_onLayout}
+        style={[
+          styles.headerContainer,
+          { backgroundColor: headerStyles.headerBackgroundColor },
+          headerStyles.headerContainer,
+          { width: calendarLayout.width },
+        ]}>
+        <ScrollView
+          alwaysBounceVertical={false}
+          overScrollMode="never"
+          scrollEnabled={!isDragging}>
+          <HeaderContext.Provider value={value}>
+            <Animated.View style={contentStyle}>
+              {numberOfDays > 1 && _renderLeftArea()}
+              <View
+                style={[
+                  styles.absolute,
+                  {
+                    ...(isRTL ? { right: listOffset } : { left: listOffset }),
+                    width: calendarLayout.width - leftSize,
+                  },
+                ]}>
+                <CalendarListView
+                  animatedRef={dayBarListRef}
+                  count={calendarData.count}
+                  width={calendarGridWidth}
+                  height={calendarLayout.height}
+                  renderItem={_renderHeaderItem}
+                  extraData={extraData}
+                  inverted={isRTL}
+                  snapToInterval={snapToInterval}
+                  initialOffset={initialOffset}
+                  onScroll={onScroll}
+                  columnsPerPage={columns}
+                  onVisibleColumnChanged={onVisibleColumnChanged}
+                  extraScrollData={extraScrollData}
+                  scrollEnabled={Platform.OS !== 'web' && !isDragging}
+                />
+              </View>
+              {useAllDayEvent && <DraggingAllDayEvent />}
+            </Animated.View>
+          </HeaderContext.Provider>
+        </ScrollView>
+        {!!resources?.length && (
+          <ResourceHeader
+            height={resourceHeaderHeight}
+            renderResource={renderResource}
+          />
+        )}
+      </View>
+    </GestureDetector>
   );
 };
 
@@ -326,5 +383,7 @@ const styles = StyleSheet.create({
   },
   absolute: { position: 'absolute' },
   leftArea: { height: '100%' },
+  leftAreaRTL: { alignSelf: 'flex-end' },
   border: { right: 0, height: '100%', position: 'absolute', width: 1 },
+  borderRTL: { left: 0, height: '100%', position: 'absolute', width: 1 },
 });
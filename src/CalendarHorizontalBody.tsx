@@ -0,0 +1,357 @@
+import React, { useImperativeHandle, useMemo, useRef, useState } from 'react';
+import { StyleSheet, View } from 'react-native';
+import type {
+  LayoutChangeEvent,
+  NativeScrollEvent,
+  NativeSyntheticEvent,
+} from 'react-native';
+import {
+  Gesture,
+  GestureDetector,
+  ScrollView,
+} from 'react-native-gesture-handler';
+import Animated, { runOnUI, useAnimatedStyle } from 'react-native-reanimated';
+import DraggableEvent from './components/DraggableEvent';
+import DragEventPlaceholder from './components/DraggingEvent';
+import DraggingGroupEvents from './components/DraggingGroupEvents';
+import Events from './components/Events';
+import LoadingOverlay from './components/Loading/Overlay';
+import NowIndicator from './components/NowIndicator';
+import RowLabels from './components/RowLabels';
+import HorizontalTimelineBoard from './components/TimelineBoard/HorizontalTimelineBoard';
+import TimeRow from './components/TimeRow';
+import { useActions } from './context/ActionsProvider';
+import { BodyContext } from './context/BodyContext';
+import type { BodyContextProps } from './context/BodyContext';
+import { useCalendar } from './context/CalendarProvider';
+import { useLocale } from './context/LocaleProvider';
+import { useNotifyDateChanged } from './context/VisibleDateProvider';
+import useDragEventGesture from './hooks/useDragEventGesture';
+import useDragToCreateGesture from './hooks/useDragToCreateGesture';
+import usePinchToZoom from './hooks/usePinchToZoom';
+import type { CalendarBodyProps, CalendarHeaderProps } from './types';
+import {
+  dateTimeToISOString,
+  parseDateTime,
+  toHourStr,
+} from './utils/dateUtils';
+import { clampValues, findNearestNumber } from './utils/utils';
+
+const AnimatedScrollView = Animated.createAnimatedComponent(ScrollView);
+
+type CalendarHorizontalBodyProps = CalendarBodyProps &
+  Pick<CalendarHeaderProps, 'renderResource'>;
+
+const CalendarHorizontalBody: React.FC<CalendarHorizontalBodyProps> = ({
+  hourFormat: initialHourFormat,
+  renderHour,
+  showNowIndicator = true,
+  renderCustomOutOfRange,
+  renderCustomUnavailableHour,
+  renderEvent,
+  renderDraggableEvent,
+  renderDraggingEvent,
+  NowIndicatorComponent,
+  renderResource,
+}) => {
+  const {
+    calendarLayout,
+    hourWidth,
+    secondaryTimeZones,
+    columnWidthAnim,
+    numberOfDays,
+    offsetY,
+    minuteHeight,
+    maxTimelineHeight,
+    maxTimeIntervalHeight,
+    minTimeIntervalHeight,
+    timeIntervalHeight,
+    allowPinchToZoom,
+    spaceFromTop,
+    spaceFromBottom,
+    timelineHeight,
+    slots,
+    totalSlots,
+    start,
+    end,
+    timeInterval,
+    columnWidth,
+    scrollVisibleHeight,
+    verticalListRef,
+    visibleDateUnix,
+    calendarData,
+    isRTL,
+    columns,
+    scrollByDay,
+    startOffset,
+    scrollVisibleHeightAnim,
+    visibleDateUnixAnim,
+    rightEdgeSpacing,
+    overlapEventsSpacing,
+    resources,
+    resourceWidthAnim,
+    orientation,
+    pageViewRef,
+  } = useCalendar();
+  const locale = useLocale();
+  const hourFormat = initialHourFormat ?? locale.hourFormat;
+  const { onChange, onDateChanged, onLoad } = useActions();
+  const notifyDateChanged = useNotifyDateChanged();
+
+  const [startUnix, setStartUnix] = useState(visibleDateUnix.current);
+  const isLoaded = useRef(false);
+
+  const { pinchGesture, pinchGestureRef } = usePinchToZoom();
+  const { gesture: dragEventGesture, isDragging: isDraggingEvent } =
+    useDragEventGesture();
+  const { isDragging: isDraggingCreate, gesture: dragToCreateGesture } =
+    useDragToCreateGesture();
+
+  const pageIndex = calendarData.visibleDatesArray.indexOf(startUnix);
+  const dates = useMemo(
+    () =>
+      calendarData.visibleDatesArray.slice(
+        Math.max(pageIndex, 0),
+        Math.max(pageIndex, 0) + numberOfDays
+      ),
+    [calendarData.visibleDatesArray, numberOfDays, pageIndex]
+  );
+
+  const visibleDates = useMemo(() => {
+    const data: Record<string, { diffDays: number; unix: number }> = {};
+    dates.forEach((unix, index) => {
+      data[unix] = { unix, diffDays: index + 1 };
+    });
+    return data;
+  }, [dates]);
+
+  const _goToPage = (dateUnix: number) => {
+    const nextUnix = findNearestNumber(
+      calendarData.visibleDatesArray,
+      dateUnix
+    );
+    if (nextUnix === visibleDateUnix.current) {
+      return;
+    }
+
+    visibleDateUnix.current = nextUnix;
+    setStartUnix(nextUnix);
+    runOnUI(() => {
+      visibleDateUnixAnim.value = nextUnix;
+    })();
+    const dateStr = dateTimeToISOString(parseDateTime(nextUnix));
+    onChange?.(dateStr);
+    onDateChanged?.(dateStr);
+    notifyDateChanged(nextUnix);
+  };
+
+  useImperativeHandle(pageViewRef, () => ({
+    goToDate: (dateUnix: number) => {
+      _goToPage(dateUnix);
+    },
+    goToSection: (step: number) => {
+      const pageSize = scrollByDay ? 1 : columns;
+      const nextIndex = clampValues(
+        Math.max(pageIndex, 0) + step * pageSize,
+        0,
+        calendarData.visibleDatesArray.length - 1
+      );
+      _goToPage(calendarData.visibleDatesArray[nextIndex]!);
+    },
+  }));
+
+  const _onLayout = (event: LayoutChangeEvent) => {
+    scrollVisibleHeight.current = event.nativeEvent.layout.width;
+    scrollVisibleHeightAnim.value = event.nativeEvent.layout.width;
+    if (!isLoaded.current) {
+      isLoaded.current = true;
+      onLoad?.();
+    }
+  };
+
+  const _onScroll = (e: NativeSyntheticEvent<NativeScrollEvent>) => {
+    offsetY.value = e.nativeEvent.contentOffset.x;
+  };
+
+  const hours = useMemo(() => {
+    return slots.map((slot) => {
+      return {
+        slot,
+        time: toHourStr(
+          slot,
+          hourFormat,
+          locale.meridiem,
+          locale.numberingSystem
+        ),
+      };
+    });
+  }, [hourFormat, locale.meridiem, locale.numberingSystem, slots]);
+
+  const value = useMemo<BodyContextProps>(
+    () => ({
+      renderHour,
+      offsetY,
+      minuteHeight,
+      maxTimelineHeight,
+      maxTimeIntervalHeight,
+      minTimeIntervalHeight,
+      timeIntervalHeight,
+      allowPinchToZoom,
+      spaceFromTop,
+      spaceFromBottom,
+      timelineHeight,
+      hours,
+      hourFormat,
+      totalSlots,
+      columnWidthAnim,
+      numberOfDays,
+      hourWidth,
+      secondaryTimeZones,
+      start,
+      end,
+      timeInterval,
+      showNowIndicator,
+      columnWidth,
+      calendarLayout,
+      isRTL,
+      columns,
+      calendarData,
+      renderCustomOutOfRange,
+      renderCustomUnavailableHour,
+      renderEvent,
+      startOffset,
+      rightEdgeSpacing,
+      overlapEventsSpacing,
+      visibleDateUnixAnim,
+      NowIndicatorComponent,
+      resources,
+      resourceWidthAnim,
+      orientation,
+    }),
+    [
+      renderHour,
+      offsetY,
+      minuteHeight,
+      maxTimelineHeight,
+      maxTimeIntervalHeight,
+      minTimeIntervalHeight,
+      timeIntervalHeight,
+      allowPinchToZoom,
+      spaceFromTop,
+      spaceFromBottom,
+      timelineHeight,
+      hours,
+      hourFormat,
+      totalSlots,
+      columnWidthAnim,
+      numberOfDays,
+      hourWidth,
+      secondaryTimeZones,
+      start,
+      end,
+      timeInterval,
+      showNowIndicator,
+      columnWidth,
+      calendarLayout,
+      isRTL,
+      columns,
+      calendarData,
+      renderCustomOutOfRange,
+      renderCustomUnavailableHour,
+      renderEvent,
+      startOffset,
+      rightEdgeSpacing,
+      overlapEventsSpacing,
+      visibleDateUnixAnim,
+      NowIndicatorComponent,
+      resources,
+      resourceWidthAnim,
+      orientation,
+    ]
+  );
+
+  const animContentStyle = useAnimatedStyle(() => ({
+    width: timelineHeight.value,
+  }));
+
+  const animRowsStyle = useAnimatedStyle(() => ({
+    width: timeIntervalHeight.value * totalSlots,
+  }));
+
+  const composedGesture = Gesture.Race(
+    pinchGesture,
+    dragEventGesture,
+    dragToCreateGesture
+  );
+
+  const rowsHeight = columnWidth * numberOfDays;
+
+  return (
+    <View style={styles.container}>
+      <RowLabels dates={dates} renderResource={renderResource} />
+      <GestureDetector gesture={composedGesture}>
+        <AnimatedScrollView
+          ref={verticalListRef}
+          horizontal
+          scrollEventThrottle={16}
+          pinchGestureEnabled={false}
+          showsHorizontalScrollIndicator={false}
+          onLayout={_onLayout}
+          scrollEnabled={!isDraggingEvent && !isDraggingCreate}
+          onScroll={_onScroll}
+          simultaneousHandlers={pinchGestureRef}>
+          <BodyContext.Provider value={value}>
+            <Animated.View
+              style={[{ height: hourWidth + rowsHeight }, animContentStyle]}>
+              <TimeRow />
+              <Animated.View
+                style={[
+                  styles.absolute,
+                  { top: hourWidth, left: spaceFromTop, height: rowsHeight },
+                  animRowsStyle,
+                ]}>
+                <HorizontalTimelineBoard
+                  pageIndex={Math.max(pageIndex, 0)}
+                  rows={dates.length}
+                />
+                <View pointerEvents="box-none" style={StyleSheet.absoluteFill}>
+                  <Events startUnix={startUnix} visibleDates={visibleDates} />
+                  <NowIndicator
+                    startUnix={startUnix}
+                    visibleDates={visibleDates}
+                  />
+                  <DraggableEvent
+                    startUnix={startUnix}
+                    visibleDates={visibleDates}
+                    renderDraggableEvent={renderDraggableEvent}
+                  />
+                </View>
+                <LoadingOverlay />
+              </Animated.View>
+              <View
+                pointerEvents="box-none"
+                style={[
+                  styles.absolute,
+                  { left: spaceFromTop },
+                  styles.dragContainer,
+                ]}>
+                <DragEventPlaceholder
+                  renderDraggingEvent={renderDraggingEvent}
+                />
+                <DraggingGroupEvents />
+              </View>
+            </Animated.View>
+          </BodyContext.Provider>
+        </AnimatedScrollView>
+      </GestureDetector>
+    </View>
+  );
+};
+
+export default React.memo(CalendarHorizontalBody);
+
+const styles = StyleSheet.create({
+  container: { flex: 1, flexDirection: 'row' },
+  absolute: { position: 'absolute' },
+  dragContainer: { zIndex: 99999 },
+});
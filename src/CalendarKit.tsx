@@ -1,17 +1,24 @@
 import React, { forwardRef } from 'react';
+import CalendarAgenda from './CalendarAgenda';
 import CalendarBody from './CalendarBody';
 import CalendarContainer from './CalendarContainer';
 import CalendarDayBar from './CalendarHeader';
+import CalendarHorizontalBody from './CalendarHorizontalBody';
+import CalendarMonth from './CalendarMonth';
 import type {
+  CalendarAgendaProps,
   CalendarBodyProps,
   CalendarHeaderProps,
   CalendarKitHandle,
+  CalendarMonthProps,
   CalendarProviderProps,
 } from './types';
 
 type CalendarKitProps = CalendarProviderProps &
   CalendarBodyProps &
-  CalendarHeaderProps;
+  CalendarHeaderProps &
+  CalendarMonthProps &
+  CalendarAgendaProps;
 
 const CalendarKit: React.ForwardRefRenderFunction<
   CalendarKitHandle,
@@ -37,6 +44,14 @@ const CalendarKit: React.ForwardRefRenderFunction<
     eventMaxMinutes,
     eventInitialMinutes,
     eventMinMinutes,
+    resourceHeaderHeight,
+    renderResource,
+    weekDayBarHeight,
+    monthEventHeight,
+    renderMonthEvent,
+    agendaDayWidth,
+    agendaEventHeight,
+    renderAgendaEvent,
     ...rest
   } = props;
 
@@ -51,6 +66,8 @@ const CalendarKit: React.ForwardRefRenderFunction<
     eventMaxMinutes,
     eventInitialMinutes,
     eventMinMinutes,
+    resourceHeaderHeight,
+    renderResource,
   };
 
   const bodyProps: CalendarBodyProps = {
@@ -66,6 +83,47 @@ const CalendarKit: React.ForwardRefRenderFunction<
     NowIndicatorComponent,
   };
 
+  if (rest.viewMode === 'month') {
+    const monthProps: CalendarMonthProps = {
+      weekDayBarHeight,
+      monthEventHeight,
+      hourFormat,
+      renderMonthEvent,
+    };
+
+    return (
+      <CalendarContainer {...rest} ref={ref}>
+        <CalendarMonth {...monthProps} />
+      </CalendarContainer>
+    );
+  }
+
+  if (rest.viewMode === 'agenda') {
+    const agendaProps: CalendarAgendaProps = {
+      agendaDayWidth,
+      agendaEventHeight,
+      hourFormat,
+      renderAgendaEvent,
+    };
+
+    return (
+      <CalendarContainer {...rest} ref={ref}>
+        <CalendarAgenda {...agendaProps} />
+      </CalendarContainer>
+    );
+  }
+
+  if (rest.orientation === 'horizontal') {
+    return (
+      <CalendarContainer {...rest} ref={ref}>
+        <CalendarHorizontalBody
+          {...bodyProps}
+          renderResource={renderResource}
+        />
+      </CalendarContainer>
+    );
+  }
+
   return (
     <CalendarContainer {...rest} ref={ref}>
       <CalendarDayBar {...dayBarProps} />
@@ -0,0 +1,177 @@
+import type { WeekdayNumbers } from 'luxon';
+import React, { useCallback, useMemo } from 'react';
+import { Platform, StyleSheet, View } from 'react-native';
+import CalendarListView from './components/CalendarListView';
+import MonthItem from './components/MonthItem';
+import Text from './components/Text';
+import { MONTH_EVENT_HEIGHT, MONTH_WEEK_DAY_BAR_HEIGHT } from './constants';
+import { useActions } from './context/ActionsProvider';
+import { useCalendar } from './context/CalendarProvider';
+import { useLocale } from './context/LocaleProvider';
+import { MonthContext } from './context/MonthContext';
+import type { MonthContextProps } from './context/MonthContext';
+import { useTheme } from './context/ThemeProvider';
+import useSyncedMonthList from './hooks/useSyncedMonthList';
+import type { CalendarMonthProps } from './types';
+import { getMonthStartByIndex } from './utils/utils';
+
+const CalendarMonth: React.FC<CalendarMonthProps> = ({
+  weekDayBarHeight = MONTH_WEEK_DAY_BAR_HEIGHT,
+  monthEventHeight = MONTH_EVENT_HEIGHT,
+  hourFormat: initialHourFormat,
+  renderMonthEvent,
+}) => {
+  const {
+    calendarLayout,
+    monthData,
+    firstDay,
+    hideWeekDays,
+    calendarListRef,
+    gridListRef,
+    initialOffset,
+    isRTL,
+    pagesPerSide,
+    rightEdgeSpacing,
+  } = useCalendar();
+  const { weekDayShort, hourFormat: localeHourFormat } = useLocale();
+  const hourFormat = initialHourFormat ?? localeHourFormat;
+  const { onLoad } = useActions();
+  const monthStyles = useTheme(
+    useCallback(
+      (state) => ({
+        backgroundColor: state.colors.background,
+        borderColor: state.colors.border,
+        weekDayBarContainer: state.monthWeekDayBarContainer,
+        weekDayName: state.monthWeekDayName,
+      }),
+      []
+    )
+  );
+
+  const { onScroll, onVisibleColumnChanged } = useSyncedMonthList();
+
+  const weekDays = useMemo(() => {
+    const days: WeekdayNumbers[] = [];
+    for (let i = 0; i < 7; i++) {
+      const weekday = (((firstDay - 1 + i) % 7) + 1) as WeekdayNumbers;
+      if (!hideWeekDays.includes(weekday)) {
+        days.push(weekday);
+      }
+    }
+    return days;
+  }, [firstDay, hideWeekDays]);
+
+  const columnWidth = calendarLayout.width / weekDays.length;
+  const pageHeight = Math.max(calendarLayout.height - weekDayBarHeight, 0);
+
+  const value = useMemo<MonthContextProps>(
+    () => ({
+      calendarLayout,
+      monthData,
+      firstDay,
+      hideWeekDays,
+      weekDays,
+      columnWidth,
+      pageHeight,
+      eventHeight: monthEventHeight,
+      hourFormat,
+      rightEdgeSpacing,
+      isRTL,
+      renderMonthEvent,
+    }),
+    [
+      calendarLayout,
+      monthData,
+      firstDay,
+      hideWeekDays,
+      weekDays,
+      columnWidth,
+      pageHeight,
+      monthEventHeight,
+      hourFormat,
+      rightEdgeSpacing,
+      isRTL,
+      renderMonthEvent,
+    ]
+  );
+
+  const extraData = useMemo(() => ({ monthData }), [monthData]);
+
+  const _renderMonthItem = useCallback(
+    (index: number, extra: typeof extraData) => {
+      const startOfMonthUnix = getMonthStartByIndex(extra.monthData, index);
+      return <MonthItem startOfMonthUnix={startOfMonthUnix} />;
+    },
+    []
+  );
+
+  const extraScrollData = useMemo(() => {
+    const visibleMonths: number[] = [];
+    for (let i = 0; i <= monthData.count; i++) {
+      visibleMonths.push(getMonthStartByIndex(monthData, i));
+    }
+    return { visibleMonths };
+  }, [monthData]);
+
+  return (
+    <View
+      style={[
+        styles.container,
+        { backgroundColor: monthStyles.backgroundColor },
+      ]}>
+      <View
+        style={[
+          styles.weekDayBar,
+          isRTL && styles.rowReverse,
+          {
+            height: weekDayBarHeight,
+            borderColor: monthStyles.borderColor,
+          },
+          monthStyles.weekDayBarContainer,
+        ]}>
+        {weekDays.map((weekday) => (
+          <View
+            key={`weekday_${weekday}`}
+            style={[styles.weekDayItem, { width: columnWidth }]}>
+            <Text style={[styles.weekDayText, monthStyles.weekDayName]}>
+              {weekDayShort[weekday % 7]}
+            </Text>
+          </View>
+        ))}
+      </View>
+      <MonthContext.Provider value={value}>
+        <CalendarListView
+          ref={calendarListRef}
+          animatedRef={gridListRef}
+          count={monthData.count + 1}
+          width={calendarLayout.width}
+          height={pageHeight}
+          renderItem={_renderMonthItem}
+          extraData={extraData}
+          inverted={isRTL}
+          initialOffset={initialOffset}
+          onScroll={onScroll}
+          columnsPerPage={1}
+          onVisibleColumnChanged={onVisibleColumnChanged}
+          renderAheadItem={pagesPerSide}
+          extraScrollData={extraScrollData}
+          scrollEnabled={Platform.OS !== 'web'}
+          onLoad={onLoad}
+        />
+      </MonthContext.Provider>
+    </View>
+  );
+};
+
+export default React.memo(CalendarMonth);
+
+const styles = StyleSheet.create({
+  container: { flex: 1 },
+  weekDayBar: {
+    flexDirection: 'row',
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  rowReverse: { flexDirection: 'row-reverse' },
+  weekDayItem: { alignItems: 'center', justifyContent: 'center' },
+  weekDayText: { fontSize: 12 },
+});
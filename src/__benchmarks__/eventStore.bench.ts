@@ -0,0 +1,45 @@
+import { createEvents, getWindow, OPTIONS } from '../__fixtures__/events';
+import EventStoreService from '../service/EventStoreService';
+
+const EVENT_COUNT = 20000;
+const SERIES_COUNT = 500;
+const FRAME_BUDGET = 16;
+
+const median = (values: number[]) => {
+  const sorted = values.slice().sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)]!;
+};
+
+const format = (duration: number) => `${duration.toFixed(1)} ms`;
+
+describe('EventStoreService', () => {
+  const events = createEvents(EVENT_COUNT, SERIES_COUNT);
+
+  it('reports the page turn times against a frame budget', () => {
+    const service = new EventStoreService();
+    const start = performance.now();
+    service.update(events, ...getWindow(0), OPTIONS);
+    const firstLoad = performance.now() - start;
+
+    // Forward to new pages, back over the loaded ones, then past the start
+    const pages = [1, 2, 3, 4, 5, 6, 5, 4, 3, 2, 1, 0, -1, -2, -3, -4];
+    const durations = pages.map((page) => {
+      const turnStart = performance.now();
+      service.update(events, ...getWindow(page), OPTIONS);
+      return performance.now() - turnStart;
+    });
+    const overBudget = durations.filter((duration) => duration > FRAME_BUDGET);
+
+    console.log(
+      [
+        `${EVENT_COUNT} events and ${SERIES_COUNT} recurring series`,
+        `First load: ${format(firstLoad)}`,
+        `Page turns: ${durations.map(format).join(', ')}`,
+        `Median ${format(median(durations))}, ` +
+          `max ${format(Math.max(...durations))}, ` +
+          `${overBudget.length}/${pages.length} over the ` +
+          `${format(FRAME_BUDGET)} frame budget`,
+      ].join('\n')
+    );
+  });
+});
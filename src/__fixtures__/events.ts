@@ -0,0 +1,78 @@
+import { DateTime } from 'luxon';
+import type { EventStoreOptions } from '../service/EventStoreService';
+import type { EventItem } from '../types';
+
+const RULES = [
+  'RRULE:FREQ=WEEKLY',
+  'RRULE:FREQ=WEEKLY;BYDAY=TU,TH',
+  'RRULE:FREQ=WEEKLY;INTERVAL=2',
+  'RRULE:FREQ=MONTHLY;BYMONTHDAY=15',
+];
+
+export const OPTIONS: EventStoreOptions = {
+  timeZone: 'Europe/Paris',
+  firstDay: 1,
+  hideWeekDays: [],
+  useAllDayEvent: true,
+  minRegularEventMinutes: 1,
+  overlapType: 'no-overlap',
+  minStartDifference: 0,
+};
+
+export const rangeStart = DateTime.fromISO('2024-01-01', {
+  zone: OPTIONS.timeZone,
+});
+
+// Deterministic spread of the events over two years
+const pick = (index: number, count: number) => (index * 7919) % count;
+
+/** Single events, one in 20 all day, and weekly or monthly series */
+export const createEvents = (
+  eventCount: number,
+  seriesCount: number
+): EventItem[] => {
+  const events: EventItem[] = [];
+  for (let i = 0; i < eventCount; i++) {
+    const start = rangeStart.plus({
+      days: pick(i, 730),
+      minutes: pick(i, 64) * 15 + 7 * 60,
+    });
+    if (i % 20 === 0) {
+      events.push({
+        id: `event_${i}`,
+        start: { date: start.toISODate()! },
+        end: { date: start.plus({ days: pick(i, 3) + 1 }).toISODate()! },
+      });
+      continue;
+    }
+    const end = start.plus({ minutes: (pick(i, 8) + 1) * 30 });
+    events.push({
+      id: `event_${i}`,
+      start: { dateTime: start.toISO()! },
+      end: { dateTime: end.toISO()! },
+    });
+  }
+
+  for (let i = 0; i < seriesCount; i++) {
+    const start = rangeStart.plus({ days: pick(i, 60), hours: 8 + (i % 10) });
+    events.push({
+      id: `series_${i}`,
+      start: { dateTime: start.toISO()!, timeZone: OPTIONS.timeZone },
+      end: {
+        dateTime: start.plus({ hours: 1 }).toISO()!,
+        timeZone: OPTIONS.timeZone,
+      },
+      recurrence: RULES[i % RULES.length],
+    });
+  }
+  return events;
+};
+
+/** Same window as the events provider, 2 pages before and 3 after the date */
+export const getWindow = (page: number): [number, number] => {
+  const date = rangeStart.plus({ months: 6, weeks: page });
+  return [
+    date.minus({ days: 14 }).toMillis(),
+    date.plus({ days: 21 }).toMillis(),
+  ];
+};
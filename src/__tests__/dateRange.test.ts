@@ -0,0 +1,84 @@
+import type { WeekdayNumbers } from 'luxon';
+import type { DateRange } from '../types';
+import { parseDateTime } from '../utils/dateUtils';
+import {
+  extendDateRange,
+  getMonthIndex,
+  getMonthStartByIndex,
+  getPrependedDays,
+  getPrependedMonths,
+  prepareCalendarRange,
+  prepareMonthData,
+} from '../utils/utils';
+
+const RANGE: DateRange = { minDate: '2024-01-01', maxDate: '2026-12-31' };
+const VISIBLE_DATE = parseDateTime('2024-03-13').toMillis();
+const SIDES = { min: true, max: true };
+
+const prepareRange = (
+  range: DateRange,
+  options: { isSingleDay?: boolean; hideWeekDays?: WeekdayNumbers[] } = {}
+) =>
+  prepareCalendarRange({
+    ...range,
+    firstDay: 1,
+    isSingleDay: false,
+    ...options,
+  });
+
+describe('extendDateRange', () => {
+  it('extends the range near its edges', () => {
+    const range = extendDateRange(RANGE, VISIBLE_DATE, SIDES);
+
+    expect(parseDateTime(range.minDate).toMillis()).toBeLessThan(
+      parseDateTime(RANGE.minDate).toMillis()
+    );
+    expect(range.maxDate).toBe(RANGE.maxDate);
+    expect(extendDateRange(range, VISIBLE_DATE, SIDES)).toBe(range);
+  });
+});
+
+describe('getPrependedDays', () => {
+  it.each([
+    ['weeks', {}],
+    ['single days', { isSingleDay: true }],
+    ['weeks with hidden days', { hideWeekDays: [6, 7] as WeekdayNumbers[] }],
+  ])('keeps the visible date of %s when extended backward', (_, options) => {
+    const prevData = prepareRange(RANGE, options);
+    const data = prepareRange(
+      extendDateRange(RANGE, VISIBLE_DATE, SIDES),
+      options
+    );
+    const prevIndex = prevData.visibleDates[VISIBLE_DATE]!.index;
+    const prepended = getPrependedDays(prevData, data);
+
+    expect(prepended).toBeGreaterThan(0);
+    expect(data.visibleDatesArray[prevIndex + prepended]).toBe(VISIBLE_DATE);
+  });
+
+  it('adds no days when extended forward', () => {
+    const range = { minDate: '2020-01-01', maxDate: '2024-04-30' };
+    const prevData = prepareRange(range);
+    const data = prepareRange(extendDateRange(range, VISIBLE_DATE, SIDES));
+
+    expect(data.count).toBeGreaterThan(prevData.count);
+    expect(getPrependedDays(prevData, data)).toBe(0);
+  });
+});
+
+describe('getPrependedMonths', () => {
+  it('keeps the visible month when extended backward', () => {
+    const prevData = prepareMonthData({ ...RANGE, firstDay: 1 });
+    const data = prepareMonthData({
+      ...extendDateRange(RANGE, VISIBLE_DATE, SIDES),
+      firstDay: 1,
+    });
+    const prevIndex = getMonthIndex(prevData, VISIBLE_DATE);
+    const prepended = getPrependedMonths(prevData, data);
+
+    expect(prepended).toBeGreaterThan(0);
+    expect(getMonthStartByIndex(data, prevIndex + prepended)).toBe(
+      parseDateTime('2024-03-01').toMillis()
+    );
+  });
+});
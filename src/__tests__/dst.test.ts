@@ -0,0 +1,157 @@
+import { DateTime, IANAZone, Settings } from 'luxon';
+import {
+  daysBetween,
+  getDSTTransition,
+  plusDays,
+  wallClockMinutes,
+} from '../utils/dateUtils';
+import type { EventItemInternal } from '../types';
+import { divideEvents } from '../utils/eventUtils';
+import { prepareCalendarRange } from '../utils/utils';
+
+const toDayUnix = (isoDate: string) => DateTime.fromISO(isoDate).toMillis();
+
+const isMidnight = (dateUnix: number) => {
+  const dateTime = DateTime.fromMillis(dateUnix);
+  return dateTime.hour === 0 && dateTime.minute === 0;
+};
+
+const createEvent = (start: DateTime, end: DateTime): EventItemInternal => ({
+  id: '1',
+  localId: '1',
+  start: { dateTime: start.toISO()! },
+  end: { dateTime: end.toISO()! },
+  _internal: {
+    startUnix: start.toMillis(),
+    endUnix: end.toMillis(),
+    duration: end.diff(start, 'minutes').minutes,
+  },
+});
+
+const cases = [
+  {
+    timeZone: 'America/New_York',
+    springForward: '2024-03-10',
+    fallBack: '2024-11-03',
+    skipped: { minutes: 120, offsetChange: 60 },
+    repeated: { minutes: 120, offsetChange: -60 },
+  },
+  {
+    // 30 minutes DST shift
+    timeZone: 'Australia/Lord_Howe',
+    springForward: '2024-10-06',
+    fallBack: '2024-04-07',
+    skipped: { minutes: 120, offsetChange: 30 },
+    repeated: { minutes: 120, offsetChange: -30 },
+  },
+];
+
+describe.each(cases)(
+  'DST transitions in $timeZone',
+  ({ timeZone, springForward, fallBack, skipped, repeated }) => {
+    const defaultZone = Settings.defaultZone;
+
+    // The days of the calendar are midnights of the device time zone, read
+    // by Luxon and by `Date` (in the worklets)
+    beforeAll(() => {
+      const zone = IANAZone.create(timeZone);
+      Settings.defaultZone = zone;
+      jest
+        .spyOn(Date.prototype, 'getTimezoneOffset')
+        .mockImplementation(function (this: Date) {
+          return -zone.offset(this.getTime());
+        });
+    });
+
+    afterAll(() => {
+      Settings.defaultZone = defaultZone;
+      jest.restoreAllMocks();
+    });
+
+    it('moves to the next midnight on short and long days', () => {
+      [springForward, fallBack].forEach((date) => {
+        const dayUnix = toDayUnix(date);
+        const nextDay = plusDays(dayUnix, 1);
+        expect(DateTime.fromMillis(nextDay).toISODate()).toBe(
+          DateTime.fromISO(date).plus({ days: 1 }).toISODate()
+        );
+        expect(isMidnight(nextDay)).toBe(true);
+        expect(plusDays(nextDay, -1)).toBe(dayUnix);
+        expect(daysBetween(dayUnix, nextDay)).toBe(1);
+      });
+    });
+
+    it('keeps one midnight per day in the calendar range', () => {
+      [springForward, fallBack].forEach((date) => {
+        const range = prepareCalendarRange({
+          minDate: DateTime.fromISO(date).minus({ days: 10 }).toISODate()!,
+          maxDate: DateTime.fromISO(date).plus({ days: 10 }).toISODate()!,
+          firstDay: 1,
+          isSingleDay: false,
+          timeZone,
+        });
+        const isoDates = range.visibleDatesArray.map((dateUnix) =>
+          DateTime.fromMillis(dateUnix).toISODate()
+        );
+
+        expect(range.visibleDatesArray.every(isMidnight)).toBe(true);
+        expect(new Set(isoDates).size).toBe(isoDates.length);
+        expect(isoDates).toContain(date);
+        expect(range.visibleDatesArray.length).toBe(range.count * 7);
+      });
+    });
+
+    it('finds the skipped and repeated parts of the day', () => {
+      expect(getDSTTransition(toDayUnix(springForward), timeZone)).toEqual(
+        skipped
+      );
+      expect(getDSTTransition(toDayUnix(fallBack), timeZone)).toEqual(repeated);
+      expect(
+        getDSTTransition(plusDays(toDayUnix(springForward), 1), timeZone)
+      ).toBeUndefined();
+    });
+
+    it('places events on the wall clock of the transition days', () => {
+      [springForward, fallBack].forEach((date) => {
+        const dayStart = DateTime.fromISO(date);
+        const [event] = divideEvents(
+          createEvent(dayStart.set({ hour: 1 }), dayStart.set({ hour: 4 })),
+          timeZone
+        );
+
+        expect(event?._internal.startMinutes).toBe(60);
+        expect(event?._internal.duration).toBe(180);
+      });
+    });
+
+    it('splits multi-day events at the midnights around the transition', () => {
+      const dayStart = DateTime.fromISO(springForward);
+      const events = divideEvents(
+        createEvent(
+          dayStart.minus({ hours: 2 }),
+          dayStart.plus({ days: 1, hours: 2 })
+        ),
+        timeZone
+      );
+
+      expect(
+        events.map((event) =>
+          DateTime.fromMillis(event._internal.startUnix).toISODate()
+        )
+      ).toEqual([
+        dayStart.minus({ days: 1 }).toISODate(),
+        dayStart.toISODate(),
+        dayStart.plus({ days: 1 }).toISODate(),
+      ]);
+      expect(events.slice(1).every((e) => e._internal.startMinutes === 0)).toBe(
+        true
+      );
+      expect(
+        wallClockMinutes(
+          events[1]!._internal.startUnix,
+          events[2]!._internal.startUnix
+        )
+      ).toBe(1440);
+    });
+  }
+);
@@ -0,0 +1,159 @@
+import { DateTime } from 'luxon';
+import { RRuleGenerator, editRecurringEvent } from '../service/rrule';
+import type { EventItem } from '../types';
+
+const TIME_ZONE = 'America/New_York';
+
+const master: EventItem = {
+  id: 'standup',
+  title: 'Standup',
+  start: { dateTime: '2024-01-08T09:00:00-05:00', timeZone: TIME_ZONE },
+  end: { dateTime: '2024-01-08T09:30:00-05:00', timeZone: TIME_ZONE },
+  recurrence: 'RRULE:FREQ=DAILY',
+};
+
+const allDayMaster: EventItem = {
+  id: 'holiday',
+  start: { date: '2024-01-08' },
+  end: { date: '2024-01-08' },
+  recurrence: 'RRULE:FREQ=DAILY',
+};
+
+/** Instance of `event` on `date`, moved by `minutes` */
+const createInstance = (
+  event: EventItem,
+  date: string,
+  minutes: number = 0
+): EventItem => {
+  if (event.start.date) {
+    const start = DateTime.fromISO(date).plus({ days: minutes / 1440 });
+    return {
+      ...event,
+      id: `${event.id}_${date}`,
+      start: { date: start.toISODate()! },
+      end: { date: start.toISODate()! },
+      originalStartTime: { date },
+      originalRecurringEvent: event,
+    };
+  }
+  const originalStart = DateTime.fromISO(`${date}T09:00`, { zone: TIME_ZONE });
+  const start = originalStart.plus({ minutes });
+  return {
+    ...event,
+    id: `${event.id}_${date}`,
+    start: { dateTime: start.toISO()!, timeZone: TIME_ZONE },
+    end: {
+      dateTime: start.plus({ minutes: 30 }).toISO()!,
+      timeZone: TIME_ZONE,
+    },
+    originalStartTime: {
+      dateTime: originalStart.toISO()!,
+      timeZone: TIME_ZONE,
+    },
+    originalRecurringEvent: event,
+  };
+};
+
+/** ISO dates of the occurrences of `event` in January 2024 */
+const getOccurrenceDates = (event: EventItem) =>
+  new RRuleGenerator(
+    event.recurrence!,
+    DateTime.fromISO(event.start.dateTime ?? event.start.date!, {
+      zone: event.start.timeZone,
+    }),
+    event.excludeDates
+  )
+    .generateOccurrences('2024-01-01', '2024-02-01', event.start.timeZone)
+    .map((date) => date.toISODate());
+
+describe('editRecurringEvent', () => {
+  it('excludes the instance from the series for the "this" scope', () => {
+    const instance = createInstance(master, '2024-01-10', 60);
+    const result = editRecurringEvent(instance, 'this');
+
+    expect(result.excludeDates).toEqual({
+      added: ['2024-01-10T14:00:00.000Z'],
+      removed: [],
+    });
+    expect(result.master.excludeDates).toEqual(['2024-01-10T14:00:00.000Z']);
+    expect(result.exception?.recurringEventId).toBe('standup');
+    expect(result.exception?.recurrence).toBeUndefined();
+    expect(result.exception?.start.dateTime).toBe(instance.start.dateTime);
+    expect(getOccurrenceDates(result.master)).not.toContain('2024-01-10');
+  });
+
+  it('moves the whole series for the "all" scope', () => {
+    const result = editRecurringEvent(
+      createInstance(master, '2024-01-10', 60),
+      'all'
+    );
+
+    expect(result.exception).toBeUndefined();
+    expect(result.master.recurrence).toBe('RRULE:FREQ=DAILY');
+    expect(
+      DateTime.fromISO(result.master.start.dateTime!, {
+        zone: TIME_ZONE,
+      }).toFormat('yyyy-MM-dd HH:mm')
+    ).toBe('2024-01-08 10:00');
+  });
+
+  it('ends the series at the instant before the instance for "following"', () => {
+    const result = editRecurringEvent(
+      createInstance(master, '2024-01-10', 60),
+      'following'
+    );
+
+    // 2024-01-10 08:59:59 in New York
+    expect(result.master.recurrence).toBe(
+      'RRULE:FREQ=DAILY;UNTIL=20240110T135959Z'
+    );
+    expect(getOccurrenceDates(result.master)).toEqual([
+      '2024-01-08',
+      '2024-01-09',
+    ]);
+
+    const series = result.exception!;
+    expect(series.id).toBe('standup_R20240110T150000Z');
+    expect(series.recurrence).toBe('RRULE:FREQ=DAILY');
+    expect(getOccurrenceDates(series)[0]).toBe('2024-01-10');
+  });
+
+  it('splits the count of the series for "following"', () => {
+    const countMaster = { ...master, recurrence: 'RRULE:FREQ=DAILY;COUNT=5' };
+    const result = editRecurringEvent(
+      createInstance(countMaster, '2024-01-10'),
+      'following'
+    );
+
+    expect(result.master.recurrence).toBe('RRULE:FREQ=DAILY;COUNT=2');
+    expect(result.exception?.recurrence).toBe('RRULE:FREQ=DAILY;COUNT=3');
+  });
+
+  it('ends an all-day series on the day before for "following"', () => {
+    const result = editRecurringEvent(
+      createInstance(allDayMaster, '2024-01-10'),
+      'following'
+    );
+
+    expect(result.master.recurrence).toBe('RRULE:FREQ=DAILY;UNTIL=20240109');
+    expect(getOccurrenceDates(result.master)).toEqual([
+      '2024-01-08',
+      '2024-01-09',
+    ]);
+  });
+
+  it('keeps a floating UNTIL of the series as written', () => {
+    const untilMaster = {
+      ...master,
+      recurrence: 'RRULE:FREQ=DAILY;UNTIL=20240120T090000',
+    };
+    const result = editRecurringEvent(
+      createInstance(untilMaster, '2024-01-10', 60),
+      'following'
+    );
+
+    expect(result.exception?.recurrence).toBe(
+      'RRULE:FREQ=DAILY;UNTIL=20240120T090000'
+    );
+  });
+});
@@ -0,0 +1,124 @@
+import type { EventItemInternal, EventLayout, PackedEvent } from '../types';
+import { populateEvents } from '../utils/eventUtils';
+
+const DAY = '2024-01-08';
+
+const createEvent = (
+  id: string,
+  start: string,
+  end: string,
+  lane?: string
+): EventItemInternal => {
+  const startUnix = Date.parse(`${DAY}T${start}:00Z`);
+  const endUnix = Date.parse(`${DAY}T${end}:00Z`);
+  return {
+    id,
+    localId: id,
+    lane,
+    start: { dateTime: `${DAY}T${start}:00Z` },
+    end: { dateTime: `${DAY}T${end}:00Z` },
+    _internal: { startUnix, endUnix, duration: (endUnix - startUnix) / 60000 },
+  };
+};
+
+const getGeometry = (events: PackedEvent[]) =>
+  Object.fromEntries(
+    events.map(({ id, _internal }) => [
+      id,
+      [_internal.xOffsetPercentage, _internal.widthPercentage],
+    ])
+  );
+
+describe('populateEvents', () => {
+  it('offsets each level of the cascade', () => {
+    const events = populateEvents(
+      [
+        createEvent('first', '09:00', '12:00'),
+        createEvent('second', '10:00', '11:00'),
+        createEvent('third', '10:30', '11:30'),
+        createEvent('later', '13:00', '14:00'),
+      ],
+      { overlapType: 'cascade' }
+    );
+
+    expect(getGeometry(events)).toEqual({
+      first: [0, 100],
+      second: [10, 90],
+      third: [20, 80],
+      later: [0, 100],
+    });
+  });
+
+  it('caps the offset of deep cascades', () => {
+    const events = populateEvents(
+      Array.from({ length: 8 }, (_, index) =>
+        createEvent(`event_${index}`, `0${index + 1}:00`, '10:00')
+      ),
+      { overlapType: 'cascade' }
+    );
+
+    expect(getGeometry(events).event_7).toEqual([50, 50]);
+  });
+
+  it('splits the day between the lanes', () => {
+    const events = populateEvents(
+      [
+        createEvent('room_b', '09:00', '10:00', 'b'),
+        createEvent('room_a_1', '09:00', '11:00', 'a'),
+        createEvent('room_a_2', '10:00', '12:00', 'a'),
+      ],
+      { overlapType: 'lane' }
+    );
+
+    expect(getGeometry(events)).toEqual({
+      room_a_1: [0, 25],
+      room_a_2: [25, 25],
+      room_b: [50, 50],
+    });
+  });
+
+  it('lays out the events with a custom layout', () => {
+    const original = createEvent('meeting', '09:00', '10:00');
+    const layout: EventLayout = jest.fn((events: EventItemInternal[]) =>
+      events.map((event) => {
+        event._internal.startUnix = 0;
+        return {
+          ...event,
+          _internal: {
+            ...event._internal,
+            widthPercentage: 40,
+            xOffsetPercentage: 60,
+          },
+        };
+      })
+    );
+    const events = populateEvents([original], { overlapType: layout });
+
+    expect(layout).toHaveBeenCalledTimes(1);
+    expect(getGeometry(events)).toEqual({ meeting: [60, 40] });
+    // The layout works on copies of the occurrences
+    expect(original._internal.startUnix).toBe(Date.parse(`${DAY}T09:00:00Z`));
+  });
+
+  it('packs a custom layout per resource', () => {
+    const layout: EventLayout = (events) =>
+      events.map((event) => ({
+        ...event,
+        _internal: { ...event._internal, index: 0, total: 1 },
+      }));
+    const events = populateEvents(
+      [
+        { ...createEvent('room_a', '09:00', '10:00'), resourceId: 'a' },
+        { ...createEvent('room_b', '09:00', '10:00'), resourceId: 'b' },
+      ],
+      { overlapType: layout, resourceIds: ['b', 'a'] }
+    );
+
+    expect(
+      events.map(({ id, _internal }) => [id, _internal.resourceIndex])
+    ).toEqual([
+      ['room_b', 0],
+      ['room_a', 1],
+    ]);
+  });
+});
@@ -0,0 +1,112 @@
+import { DateTime } from 'luxon';
+import { editRecurringEvent } from '../service/rrule';
+import type { DateOrDateTime, EventItem, EventItemInternal } from '../types';
+import { getEventTimes, processEventOccurrences } from '../utils/eventUtils';
+
+const toInternalEvent = (event: EventItem): EventItemInternal => {
+  const { eventStartUnix, eventEndUnix } = getEventTimes(event);
+  return {
+    ...event,
+    localId: event.id,
+    _internal: {
+      startUnix: eventStartUnix,
+      endUnix: eventEndUnix,
+      duration: 0,
+    },
+  };
+};
+
+const expand = (event: EventItem, timeZone: string) =>
+  processEventOccurrences(
+    toInternalEvent(event),
+    DateTime.fromISO('2024-01-01').toMillis(),
+    DateTime.fromISO('2024-02-01').toMillis(),
+    timeZone,
+    (e) => [e]
+  );
+
+describe('processEventOccurrences', () => {
+  it('replaces the all-day occurrence of an override in another zone', () => {
+    // Calendar APIs send the zone of the calendar with all-day dates
+    const originalStartTime = {
+      date: '2024-01-10',
+      timeZone: 'Asia/Tokyo',
+    } as unknown as DateOrDateTime;
+    const event: EventItem = {
+      id: 'holiday',
+      start: { date: '2024-01-08' },
+      end: { date: '2024-01-08' },
+      recurrence: 'RRULE:FREQ=DAILY;COUNT=5',
+      overrides: [
+        {
+          id: 'holiday_moved',
+          start: { date: '2024-01-11' },
+          end: { date: '2024-01-11' },
+          originalStartTime,
+        },
+      ],
+    };
+
+    const occurrences = expand(event, 'America/Los_Angeles');
+    expect(occurrences.map((occurrence) => occurrence.start.date)).toEqual([
+      '2024-01-08',
+      '2024-01-09',
+      '2024-01-11',
+      '2024-01-12',
+      '2024-01-11',
+    ]);
+    expect(occurrences[occurrences.length - 1]?.id).toBe('holiday_moved');
+  });
+
+  it('replaces the timed occurrence of an override', () => {
+    const event: EventItem = {
+      id: 'standup',
+      start: { dateTime: '2024-01-08T09:00:00Z' },
+      end: { dateTime: '2024-01-08T09:30:00Z' },
+      recurrence: 'RRULE:FREQ=DAILY;COUNT=3',
+      overrides: [
+        {
+          id: 'standup_moved',
+          start: { dateTime: '2024-01-09T11:00:00Z' },
+          end: { dateTime: '2024-01-09T11:30:00Z' },
+          originalStartTime: { dateTime: '2024-01-09T09:00:00Z' },
+        },
+      ],
+    };
+
+    const ids = expand(event, 'UTC').map((occurrence) => occurrence.id);
+    expect(ids).toHaveLength(3);
+    expect(ids).toContain('standup_moved');
+  });
+
+  it('keeps the excluded dates of the series in an overridden instance', () => {
+    const event: EventItem = {
+      id: 'standup',
+      start: { dateTime: '2024-01-08T09:00:00Z' },
+      end: { dateTime: '2024-01-08T09:30:00Z' },
+      recurrence: 'RRULE:FREQ=DAILY;COUNT=5',
+      excludeDates: ['2024-01-10T09:00:00.000Z'],
+      overrides: [
+        {
+          id: 'standup_moved',
+          start: { dateTime: '2024-01-09T11:00:00Z' },
+          end: { dateTime: '2024-01-09T11:30:00Z' },
+          originalStartTime: { dateTime: '2024-01-09T09:00:00Z' },
+        },
+      ],
+    };
+
+    const instance = expand(event, 'UTC').find(
+      (occurrence) => occurrence.id === 'standup_moved'
+    )!;
+    expect(instance.originalRecurringEvent?.excludeDates).toEqual(
+      event.excludeDates
+    );
+
+    const { master } = editRecurringEvent(instance, 'this');
+    expect(master.excludeDates).toEqual([
+      '2024-01-10T09:00:00.000Z',
+      '2024-01-09T09:00:00.000Z',
+    ]);
+  });
+});
@@ -0,0 +1,118 @@
+import { DateTime } from 'luxon';
+import { createEvents, getWindow, OPTIONS } from '../__fixtures__/events';
+import { MILLISECONDS_IN_DAY } from '../constants';
+import EventStoreService from '../service/EventStoreService';
+import { RRuleGenerator } from '../service/rrule';
+import OccurrenceCache from '../service/rrule/OccurrenceCache';
+import { populateEvents } from '../utils/eventUtils';
+
+// Enough events to fill the pages, the page turn times are in `yarn bench`
+const EVENT_COUNT = 2000;
+const SERIES_COUNT = 50;
+
+describe('EventStoreService', () => {
+  const events = createEvents(EVENT_COUNT, SERIES_COUNT);
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('expands the months of the series once while turning pages', () => {
+    const between = jest.spyOn(RRuleGenerator.prototype, 'between');
+    const service = new EventStoreService();
+    const turnPages = (pages: number[]) =>
+      pages.forEach((page) => {
+        const state = service.update(events, ...getWindow(page), OPTIONS);
+
+        const [minUnix, maxUnix] = getWindow(page);
+        const days = Object.keys(state.regularEvents).map(Number);
+        expect(days.some((day) => day >= minUnix && day < maxUnix)).toBe(true);
+      });
+
+    turnPages([0, 1, 2, 3, 4, 5, 6]);
+    expect(between).toHaveBeenCalled();
+
+    between.mockClear();
+    turnPages([5, 4, 3, 2, 1, 0]);
+    expect(between).not.toHaveBeenCalled();
+  });
+
+  it('keeps the days outside the pages turned', () => {
+    const service = new EventStoreService();
+    const first = service.update(events, ...getWindow(0), OPTIONS);
+    const next = service.update(events, ...getWindow(1), OPTIONS);
+
+    // Events ending at midnight leave an empty part on the edge days
+    const [, maxUnix] = getWindow(0);
+    const [minUnix] = getWindow(1);
+    Object.keys(first.regularEvents)
+      .map(Number)
+      .filter(
+        (day) =>
+          day > minUnix + MILLISECONDS_IN_DAY &&
+          day < maxUnix - MILLISECONDS_IN_DAY
+      )
+      .forEach((day) => {
+        expect(next.regularEvents[day]).toBe(first.regularEvents[day]);
+      });
+  });
+
+  it('updates a changed event without expanding the series again', () => {
+    const service = new EventStoreService();
+    service.update(events, ...getWindow(0), OPTIONS);
+    const between = jest.spyOn(RRuleGenerator.prototype, 'between');
+    const getOccurrences = jest.spyOn(
+      OccurrenceCache.prototype,
+      'getOccurrences'
+    );
+
+    const [minUnix, maxUnix] = getWindow(0);
+    const index = events.findIndex((event) => {
+      const startUnix = DateTime.fromISO(event.start.dateTime ?? '').toMillis();
+      return !event.recurrence && startUnix >= minUnix && startUnix < maxUnix;
+    });
+    const event = events[index]!;
+    const changedEvents = events.slice();
+    changedEvents[index] = {
+      ...event,
+      end: {
+        dateTime: DateTime.fromISO(event.start.dateTime!)
+          .plus({ minutes: 45 })
+          .toISO()!,
+      },
+    };
+
+    const state = service.update(changedEvents, ...getWindow(0), OPTIONS);
+    expect(between).not.toHaveBeenCalled();
+    expect(getOccurrences).not.toHaveBeenCalled();
+
+    const changed = Object.values(state.regularEvents)
+      .flat()
+      .find((packed) => packed.id === event.id);
+    expect(changed?._internal.duration).toBe(45);
+  });
+
+  it('compares the custom layout by reference', () => {
+    const service = new EventStoreService();
+    const layout = jest.fn((dayEvents) => populateEvents(dayEvents));
+    const first = service.update(events, ...getWindow(0), {
+      ...OPTIONS,
+      overlapType: layout,
+    });
+    expect(layout).toHaveBeenCalled();
+
+    layout.mockClear();
+    const same = service.update(events, ...getWindow(0), {
+      ...OPTIONS,
+      overlapType: layout,
+    });
+    expect(same).toBe(first);
+    expect(layout).not.toHaveBeenCalled();
+
+    const next = service.update(events, ...getWindow(0), {
+      ...OPTIONS,
+      overlapType: (dayEvents) => populateEvents(dayEvents),
+    });
+    expect(next).not.toBe(first);
+  });
+});
@@ -0,0 +1,126 @@
+import HistoryService from '../service/HistoryService';
+import type { HistoryChangeEvent, SelectedEventType } from '../types';
+
+const createEvent = (start: string, end: string): SelectedEventType => ({
+  id: 'event_1',
+  start: { dateTime: start },
+  end: { dateTime: end },
+});
+
+const setup = () => {
+  const historyService = new HistoryService();
+  const changes: HistoryChangeEvent[] = [];
+  historyService.onChange = (event) => changes.push(event);
+  historyService.setEnabled(true);
+  return { historyService, changes };
+};
+
+describe('HistoryService', () => {
+  it('undoes and redoes a created event with its ID', () => {
+    const { historyService, changes } = setup();
+    historyService.record({
+      type: 'create',
+      after: createEvent('2024-01-08T09:00', '2024-01-08T10:00'),
+    });
+
+    historyService.undo();
+    expect(changes[1]).toMatchObject({
+      action: 'undo',
+      operation: { type: 'create', after: { id: 'event_1' } },
+      canUndo: false,
+      canRedo: true,
+    });
+    expect(changes[1]?.operation.before).toBeUndefined();
+
+    historyService.redo();
+    expect(changes[2]).toMatchObject({
+      action: 'redo',
+      operation: { type: 'create', after: { id: 'event_1' } },
+      canUndo: true,
+      canRedo: false,
+    });
+  });
+
+  it('undoes and redoes a move', () => {
+    const { historyService, changes } = setup();
+    const before = createEvent('2024-01-08T09:00', '2024-01-08T10:00');
+    const after = createEvent('2024-01-09T11:00', '2024-01-09T12:00');
+    historyService.record({ type: 'move', before, after });
+
+    historyService.undo();
+    expect(changes[1]?.action).toBe('undo');
+    expect(changes[1]?.operation.before).toEqual(before);
+
+    historyService.redo();
+    expect(changes[2]?.action).toBe('redo');
+    expect(changes[2]?.operation.after).toEqual(after);
+    expect(changes[2]?.operation.id).toBe(changes[0]?.operation.id);
+  });
+
+  it('undoes the resizes in reverse order', () => {
+    const { historyService, changes } = setup();
+    const original = createEvent('2024-01-08T09:00', '2024-01-08T10:00');
+    const longer = createEvent('2024-01-08T09:00', '2024-01-08T11:00');
+    const shorter = createEvent('2024-01-08T09:30', '2024-01-08T11:00');
+    historyService.record({ type: 'resize', before: original, after: longer });
+    historyService.record({ type: 'resize', before: longer, after: shorter });
+
+    historyService.undo();
+    historyService.undo();
+    expect(changes[2]?.operation.before).toEqual(longer);
+    expect(changes[3]?.operation.before).toEqual(original);
+    expect(historyService.canUndo()).toBe(false);
+
+    historyService.redo();
+    expect(changes[4]?.operation.after).toEqual(longer);
+    expect(historyService.canRedo()).toBe(true);
+  });
+
+  it('clears the redo stack when a new edit is recorded', () => {
+    const { historyService } = setup();
+    const before = createEvent('2024-01-08T09:00', '2024-01-08T10:00');
+    const after = createEvent('2024-01-08T10:00', '2024-01-08T11:00');
+    historyService.record({ type: 'move', before, after });
+    historyService.undo();
+    historyService.record({ type: 'resize', before, after });
+
+    expect(historyService.canRedo()).toBe(false);
+  });
+
+  it('keeps only the last edits up to the limit', () => {
+    const { historyService } = setup();
+    historyService.setEnabled(true, 2);
+    const event = createEvent('2024-01-08T09:00', '2024-01-08T10:00');
+    for (let i = 0; i < 3; i++) {
+      historyService.record({ type: 'move', before: event, after: event });
+    }
+
+    historyService.undo();
+    historyService.undo();
+    expect(historyService.canUndo()).toBe(false);
+  });
+
+  it('does not record when disabled', () => {
+    const { historyService, changes } = setup();
+    historyService.setEnabled(false);
+    const event = createEvent('2024-01-08T09:00', '2024-01-08T10:00');
+    historyService.record({ type: 'move', before: event, after: event });
+
+    expect(changes).toHaveLength(0);
+    expect(historyService.canUndo()).toBe(false);
+  });
+
+  it('clears the undo and redo stacks when history is turned off and on', () => {
+    const { historyService } = setup();
+    const before = createEvent('2024-01-08T09:00', '2024-01-08T10:00');
+    const after = createEvent('2024-01-08T10:00', '2024-01-08T11:00');
+    historyService.record({ type: 'move', before, after });
+    historyService.record({ type: 'move', before: after, after: before });
+    historyService.undo();
+
+    historyService.setEnabled(false);
+    historyService.setEnabled(true);
+    expect(historyService.canUndo()).toBe(false);
+    expect(historyService.canRedo()).toBe(false);
+  });
+});
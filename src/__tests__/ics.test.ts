@@ -0,0 +1,219 @@
+import { parseICS, toICS } from '../service/ics';
+import type { EventItem } from '../types';
+
+const TIME_ZONE = 'America/New_York';
+
+const wrap = (...lines: string[]) =>
+  ['BEGIN:VCALENDAR', 'VERSION:2.0', ...lines, 'END:VCALENDAR'].join('\r\n');
+
+const getLines = (ics: string) => ics.split('\r\n');
+
+const getInstant = (iso?: string) => (iso ? new Date(iso).toISOString() : iso);
+
+describe('ICS', () => {
+  it('round-trips a timed event with its time zone', () => {
+    const event: EventItem = {
+      id: 'meeting',
+      title: 'Planning; Q1, budget',
+      start: { dateTime: '2024-03-12T09:00:00-04:00', timeZone: TIME_ZONE },
+      end: { dateTime: '2024-03-12T10:00:00-04:00', timeZone: TIME_ZONE },
+    };
+    const ics = toICS([event]);
+    const lines = getLines(ics);
+
+    expect(lines).toContain(`TZID:${TIME_ZONE}`);
+    expect(lines).toContain(`DTSTART;TZID=${TIME_ZONE}:20240312T090000`);
+    expect(lines).toContain('SUMMARY:Planning\\; Q1\\, budget');
+
+    const [parsed] = parseICS(ics);
+    expect(parsed?.id).toBe('meeting');
+    expect(parsed?.title).toBe(event.title);
+    expect(parsed?.start.timeZone).toBe(TIME_ZONE);
+    expect(getInstant(parsed?.start.dateTime)).toBe('2024-03-12T13:00:00.000Z');
+    expect(getInstant(parsed?.end.dateTime)).toBe('2024-03-12T14:00:00.000Z');
+  });
+
+  it('converts a TZID unknown to IANA with its VTIMEZONE', () => {
+    const [event] = parseICS(
+      wrap(
+        'BEGIN:VTIMEZONE',
+        'TZID:Eastern Standard Time',
+        'BEGIN:STANDARD',
+        'DTSTART:16011104T020000',
+        'RRULE:FREQ=YEARLY;BYDAY=1SU;BYMONTH=11',
+        'TZOFFSETFROM:-0400',
+        'TZOFFSETTO:-0500',
+        'END:STANDARD',
+        'BEGIN:DAYLIGHT',
+        'DTSTART:16010311T020000',
+        'RRULE:FREQ=YEARLY;BYDAY=2SU;BYMONTH=3',
+        'TZOFFSETFROM:-0500',
+        'TZOFFSETTO:-0400',
+        'END:DAYLIGHT',
+        'END:VTIMEZONE',
+        'BEGIN:VEVENT',
+        'UID:windows',
+        'DTSTART;TZID=Eastern Standard Time:20240308T090000',
+        'DTEND;TZID=Eastern Standard Time:20240311T090000',
+        'END:VEVENT'
+      ),
+      { timeZone: 'UTC' }
+    );
+
+    // Before and after the change to daylight saving time on March 10
+    expect(getInstant(event?.start.dateTime)).toBe('2024-03-08T14:00:00.000Z');
+    expect(getInstant(event?.end.dateTime)).toBe('2024-03-11T13:00:00.000Z');
+  });
+
+  it('writes an exclusive DTEND for all-day events', () => {
+    const event: EventItem = {
+      id: 'trip',
+      start: { date: '2024-01-08' },
+      end: { date: '2024-01-09' },
+    };
+    const ics = toICS([event]);
+    const lines = getLines(ics);
+
+    expect(lines).toContain('DTSTART;VALUE=DATE:20240108');
+    expect(lines).toContain('DTEND;VALUE=DATE:20240110');
+
+    const [parsed] = parseICS(ics);
+    expect(parsed?.start).toEqual({ date: '2024-01-08' });
+    expect(parsed?.end).toEqual({ date: '2024-01-09' });
+  });
+
+  it('writes UNTIL in UTC and reads it back on the wall clock', () => {
+    const event: EventItem = {
+      id: 'standup',
+      start: { dateTime: '2024-01-08T09:00:00-05:00', timeZone: TIME_ZONE },
+      end: { dateTime: '2024-01-08T09:30:00-05:00', timeZone: TIME_ZONE },
+      recurrence: 'RRULE:FREQ=DAILY;UNTIL=20240110T090000',
+    };
+    const ics = toICS([event]);
+
+    expect(getLines(ics)).toContain('RRULE:FREQ=DAILY;UNTIL=20240110T140000Z');
+    expect(parseICS(ics)[0]?.recurrence).toBe(
+      'FREQ=DAILY;UNTIL=20240110T090000'
+    );
+  });
+
+  it('writes UNTIL as a date for all-day events', () => {
+    const ics = toICS([
+      {
+        id: 'holiday',
+        start: { date: '2024-01-08' },
+        end: { date: '2024-01-08' },
+        recurrence: 'RRULE:FREQ=DAILY;UNTIL=20240110T000000',
+      },
+    ]);
+
+    expect(getLines(ics)).toContain('RRULE:FREQ=DAILY;UNTIL=20240110');
+  });
+
+  it('round-trips EXDATE and RDATE', () => {
+    const event: EventItem = {
+      id: 'standup',
+      start: { dateTime: '2024-01-08T09:00:00-05:00', timeZone: TIME_ZONE },
+      end: { dateTime: '2024-01-08T09:30:00-05:00', timeZone: TIME_ZONE },
+      recurrence: 'RRULE:FREQ=DAILY;COUNT=5',
+      excludeDates: ['2024-01-09T14:00:00.000Z'],
+      recurrenceDates: ['2024-01-20T14:00:00.000Z'],
+    };
+    const ics = toICS([event]);
+    const lines = getLines(ics);
+
+    expect(lines).toContain(`EXDATE;TZID=${TIME_ZONE}:20240109T090000`);
+    expect(lines).toContain(`RDATE;TZID=${TIME_ZONE}:20240120T090000`);
+
+    const [parsed] = parseICS(ics);
+    expect(parsed?.excludeDates).toEqual(event.excludeDates);
+    expect(parsed?.recurrenceDates).toEqual(event.recurrenceDates);
+  });
+
+  it('reads the comma-separated dates of all-day EXDATE', () => {
+    const [event] = parseICS(
+      wrap(
+        'BEGIN:VEVENT',
+        'UID:holiday',
+        'DTSTART;VALUE=DATE:20240108',
+        'RRULE:FREQ=DAILY;COUNT=5',
+        'EXDATE;VALUE=DATE:20240109,20240111',
+        'END:VEVENT'
+      )
+    );
+
+    expect(event?.excludeDates).toEqual(['2024-01-09', '2024-01-11']);
+  });
+
+  it('round-trips the overridden and cancelled instances', () => {
+    const event: EventItem = {
+      id: 'standup',
+      start: { dateTime: '2024-01-08T09:00:00-05:00', timeZone: TIME_ZONE },
+      end: { dateTime: '2024-01-08T09:30:00-05:00', timeZone: TIME_ZONE },
+      recurrence: 'RRULE:FREQ=DAILY;COUNT=5',
+      overrides: [
+        {
+          id: 'standup_moved',
+          title: 'Moved standup',
+          start: { dateTime: '2024-01-10T11:00:00-05:00', timeZone: TIME_ZONE },
+          end: { dateTime: '2024-01-10T11:30:00-05:00', timeZone: TIME_ZONE },
+          originalStartTime: {
+            dateTime: '2024-01-10T09:00:00-05:00',
+            timeZone: TIME_ZONE,
+          },
+        },
+      ],
+    };
+    const ics = toICS([event]);
+    const lines = getLines(ics);
+
+    expect(lines.filter((line) => line === 'UID:standup')).toHaveLength(2);
+    expect(lines).toContain(`RECURRENCE-ID;TZID=${TIME_ZONE}:20240110T090000`);
+
+    const cancelled = [
+      'BEGIN:VEVENT',
+      'UID:standup',
+      `RECURRENCE-ID;TZID=${TIME_ZONE}:20240111T090000`,
+      `DTSTART;TZID=${TIME_ZONE}:20240111T090000`,
+      'STATUS:CANCELLED',
+      'END:VEVENT',
+    ];
+    const parsed = parseICS(
+      ics.replace('END:VCALENDAR', `${cancelled.join('\r\n')}\r\nEND:VCALENDAR`)
+    );
+
+    expect(parsed).toHaveLength(2);
+    const [master, instance] = parsed;
+    expect(master?.excludeDates).toEqual(['2024-01-11T14:00:00.000Z']);
+    expect(instance?.title).toBe('Moved standup');
+    expect(instance?.recurringEventId).toBe('standup');
+    expect(instance?.originalStartTime?.timeZone).toBe(TIME_ZONE);
+    expect(getInstant(instance?.originalStartTime?.dateTime)).toBe(
+      '2024-01-10T14:00:00.000Z'
+    );
+    expect(getInstant(instance?.start.dateTime)).toBe(
+      '2024-01-10T16:00:00.000Z'
+    );
+  });
+
+  it('folds long lines without splitting characters', () => {
+    const description = `${'Réunion trimestrielle 📅 '.repeat(8)}\nfin`;
+    const ics = toICS([
+      {
+        id: 'long',
+        description,
+        start: { dateTime: '2024-01-08T09:00:00Z' },
+        end: { dateTime: '2024-01-08T10:00:00Z' },
+      },
+    ]);
+    const lines = getLines(ics);
+
+    lines.forEach((line) => {
+      expect(Buffer.byteLength(line, 'utf8')).toBeLessThanOrEqual(75);
+    });
+    expect(lines.filter((line) => line.startsWith(' ')).length).toBeGreaterThan(
+      1
+    );
+    expect(parseICS(ics)[0]?.description).toBe(description);
+  });
+});
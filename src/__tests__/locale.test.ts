@@ -0,0 +1,95 @@
+import {
+  getCalendarWeekNumber,
+  getIntlLocaleConfigs,
+  getLocaleDefaults,
+  localizeDigits,
+  toHourStr,
+} from '../utils/dateUtils';
+
+describe('getIntlLocaleConfigs', () => {
+  it('reads the configs of en-US', () => {
+    const configs = getIntlLocaleConfigs('en-US');
+
+    expect(configs.weekDayShort[0]).toBe('Sun');
+    expect(configs.monthLong[0]).toBe('January');
+    expect(configs.meridiem).toEqual({ ante: 'AM', post: 'PM' });
+    expect(configs.numberingSystem).toBe('latn');
+    expect(configs.hourFormat).toBe('h:mm a');
+    expect(configs.firstDay).toBe(7);
+  });
+
+  it('reads the configs of de-DE', () => {
+    const configs = getIntlLocaleConfigs('de-DE');
+
+    expect(configs.weekDayLong[1]).toBe('Montag');
+    expect(configs.monthLong[2]).toBe('März');
+    expect(configs.hourFormat).toBe('HH:mm');
+    expect(configs.firstDay).toBe(1);
+  });
+
+  it('reads the configs of ar', () => {
+    const configs = getIntlLocaleConfigs('ar');
+
+    expect(configs.weekDayLong[0]).toBe('الأحد');
+    expect(configs.meridiem).toEqual({ ante: 'ص', post: 'م' });
+    expect(configs.hourFormat).toBe('h:mm a');
+    expect(configs.firstDay).toBe(6);
+    expect(getIntlLocaleConfigs('ar-EG').numberingSystem).toBe('arab');
+  });
+});
+
+describe('getLocaleDefaults', () => {
+  it('keeps HH:mm and Monday without useLocaleDefaults', () => {
+    ['en-US', 'de-DE', 'ar'].forEach((locale) => {
+      expect(getLocaleDefaults(locale, false)).toEqual({
+        hourFormat: 'HH:mm',
+        firstDay: 1,
+      });
+    });
+  });
+
+  it('uses the hour format and first day of the locale when opted in', () => {
+    expect(getLocaleDefaults('en-US', true)).toEqual({
+      hourFormat: 'h:mm a',
+      firstDay: 7,
+    });
+    expect(getLocaleDefaults('de-DE', true)).toEqual({
+      hourFormat: 'HH:mm',
+      firstDay: 1,
+    });
+    expect(getLocaleDefaults('ar', true)).toEqual({
+      hourFormat: 'h:mm a',
+      firstDay: 6,
+    });
+  });
+});
+
+describe('toHourStr', () => {
+  it('writes the hours with the meridiem and digits of the locale', () => {
+    const { meridiem } = getIntlLocaleConfigs('ar');
+
+    expect(toHourStr(870, 'h:mm a', { ante: 'AM', post: 'PM' })).toBe(
+      '2:30 pm'
+    );
+    expect(toHourStr(870, 'HH:mm', meridiem, 'arab')).toBe('١٤:٣٠');
+    expect(localizeDigits(2024, 'latn')).toBe('2024');
+  });
+});
+
+describe('getCalendarWeekNumber', () => {
+  it('counts the weeks from the first day of the calendar year', () => {
+    expect(getCalendarWeekNumber('2024-01-01', 'gregory', 1)).toBe(1);
+    // 1 Farvardin 1403 and 1 Tishrei 5785
+    expect(getCalendarWeekNumber('2024-03-20', 'persian', 6)).toBe(1);
+    expect(getCalendarWeekNumber('2024-03-28', 'persian', 6)).toBe(2);
+    expect(getCalendarWeekNumber('2024-10-03', 'hebrew', 7)).toBe(1);
+    expect(getCalendarWeekNumber('2024-10-10', 'hebrew', 7)).toBe(2);
+  });
+
+  it('finds the start of lunar and unknown calendar years', () => {
+    // 1 Ramadan 1445, the 9th month
+    expect(getCalendarWeekNumber('2024-03-11', 'islamic-umalqura', 1)).toBe(35);
+    // Unknown calendars fall back to the Gregorian one
+    expect(getCalendarWeekNumber('2024-12-31', 'unknown', 1)).toBe(53);
+  });
+});
@@ -0,0 +1,187 @@
+import { DateTime } from 'luxon';
+import RangeLoaderService from '../service/RangeLoaderService';
+import type { RangeLoaderState } from '../service/RangeLoaderService';
+import type { EventItem, LoadRange, LoadRangeOptions } from '../types';
+
+const TIME_ZONE = 'UTC';
+
+interface PendingRequest {
+  range: LoadRange;
+  signal: AbortSignal;
+  resolve: (events: EventItem[]) => void;
+  reject: (error: unknown) => void;
+}
+
+const setup = () => {
+  const service = new RangeLoaderService();
+  const requests: PendingRequest[] = [];
+  const states: RangeLoaderState[] = [];
+  const errors: { error: unknown; range: LoadRange }[] = [];
+  service.onLoadRange = (range: LoadRange, { signal }: LoadRangeOptions) =>
+    new Promise((resolve, reject) => {
+      requests.push({ range, signal, resolve, reject });
+    });
+  service.onChange = (state) => states.push(state);
+  service.onError = (error, range) => errors.push({ error, range });
+
+  /** Loads the weeks from the Monday `date` */
+  const load = (date: string, weeks: number) => {
+    const start = DateTime.fromISO(date, { zone: TIME_ZONE });
+    service.load(
+      start.toMillis(),
+      start.plus({ weeks }).toMillis(),
+      TIME_ZONE,
+      1
+    );
+  };
+  return { service, requests, states, errors, load };
+};
+
+const createEvent = (id: string, date: string): EventItem => ({
+  id,
+  start: { dateTime: `${date}T09:00:00.000Z` },
+  end: { dateTime: `${date}T10:00:00.000Z` },
+});
+
+/** Waits for the callbacks of the settled requests */
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('RangeLoaderService', () => {
+  it('requests the consecutive missing weeks as one range', async () => {
+    const { requests, load } = setup();
+    load('2024-01-01', 3);
+    await flush();
+
+    expect(requests.map(({ range }) => range)).toEqual([
+      {
+        start: '2024-01-01T00:00:00.000Z',
+        end: '2024-01-22T00:00:00.000Z',
+      },
+    ]);
+  });
+
+  it('does not request the loaded or loading weeks again', async () => {
+    const { requests, states, load } = setup();
+    load('2024-01-01', 2);
+    await flush();
+    load('2024-01-08', 2);
+    await flush();
+
+    expect(requests.map(({ range }) => range.start)).toEqual([
+      '2024-01-01T00:00:00.000Z',
+      '2024-01-15T00:00:00.000Z',
+    ]);
+
+    requests.forEach(({ resolve }, index) =>
+      resolve([createEvent(`event_${index}`, '2024-01-02')])
+    );
+    await flush();
+    load('2024-01-01', 3);
+    await flush();
+
+    expect(requests).toHaveLength(2);
+    expect(states[states.length - 1]).toEqual({
+      events: [
+        createEvent('event_0', '2024-01-02'),
+        createEvent('event_1', '2024-01-02'),
+      ],
+      isLoading: false,
+    });
+  });
+
+  it('aborts the requests of the weeks paged away from', async () => {
+    const { requests, states, load } = setup();
+    load('2024-01-01', 1);
+    await flush();
+    load('2024-02-05', 1);
+    await flush();
+
+    expect(requests[0]?.signal.aborted).toBe(true);
+    expect(requests[1]?.signal.aborted).toBe(false);
+
+    // A late response of an aborted request is ignored
+    requests[0]?.resolve([createEvent('late', '2024-01-02')]);
+    await flush();
+    expect(states.some(({ events }) => events.length > 0)).toBe(false);
+
+    // The aborted weeks are requested again
+    load('2024-01-01', 1);
+    await flush();
+    expect(requests[2]?.range.start).toBe('2024-01-01T00:00:00.000Z');
+  });
+
+  it('replaces the loaded events by ID', async () => {
+    const { requests, states, load } = setup();
+    load('2024-01-01', 1);
+    await flush();
+    requests[0]?.resolve([createEvent('meeting', '2024-01-02')]);
+    await flush();
+    load('2024-01-08', 1);
+    await flush();
+    requests[1]?.resolve([createEvent('meeting', '2024-01-09')]);
+    await flush();
+
+    expect(states[states.length - 1]?.events).toEqual([
+      createEvent('meeting', '2024-01-09'),
+    ]);
+  });
+
+  it('reports the failed requests and requests their weeks again', async () => {
+    const { requests, errors, states, load } = setup();
+    load('2024-01-01', 1);
+    await flush();
+    const error = new Error('Network error');
+    requests[0]?.reject(error);
+    await flush();
+
+    expect(errors).toEqual([{ error, range: requests[0]?.range }]);
+    expect(states[states.length - 1]?.isLoading).toBe(false);
+
+    load('2024-01-01', 1);
+    await flush();
+    expect(requests).toHaveLength(2);
+  });
+
+  it('does not report the aborted requests', async () => {
+    const { requests, errors, load } = setup();
+    load('2024-01-01', 1);
+    await flush();
+    load('2024-02-05', 1);
+    requests[0]?.reject(new Error('Aborted'));
+    await flush();
+
+    expect(errors).toHaveLength(0);
+  });
+
+  it('loads the weeks again after invalidate', async () => {
+    const { service, requests, states, load } = setup();
+    load('2024-01-01', 1);
+    await flush();
+    requests[0]?.resolve([
+      createEvent('kept', '2024-01-02'),
+      createEvent('deleted', '2024-01-03'),
+    ]);
+    await flush();
+
+    service.invalidate();
+    load('2024-01-01', 1);
+    await flush();
+
+    expect(requests).toHaveLength(2);
+    // Loaded events stay displayed while the weeks are loading
+    expect(states[states.length - 1]).toEqual({
+      events: [
+        createEvent('kept', '2024-01-02'),
+        createEvent('deleted', '2024-01-03'),
+      ],
+      isLoading: true,
+    });
+
+    requests[1]?.resolve([createEvent('kept', '2024-01-04')]);
+    await flush();
+    expect(states[states.length - 1]).toEqual({
+      events: [createEvent('kept', '2024-01-04')],
+      isLoading: false,
+    });
+  });
+});
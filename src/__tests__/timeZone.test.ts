@@ -0,0 +1,77 @@
+import RangeLoaderService from '../service/RangeLoaderService';
+import type { LoadRange } from '../types';
+import {
+  forceUpdateZone,
+  parseDateTime,
+  startOfWeek,
+  toZonedDay,
+} from '../utils/dateUtils';
+
+const TOKYO = 'Asia/Tokyo';
+const LOS_ANGELES = 'America/Los_Angeles';
+
+/** Visible week of the instant `minutes` into `date` in `fromZone` */
+const switchZone = (
+  date: string,
+  minutes: number,
+  fromZone: string,
+  toZone: string
+) => {
+  const instant = forceUpdateZone(parseDateTime(date).toMillis(), fromZone)
+    .plus({ minutes })
+    .toMillis();
+  return startOfWeek(toZonedDay(instant, toZone), 1).toMillis();
+};
+
+/** Ranges requested for the visible week, like the events provider */
+const loadWeeks = async (visibleDateUnix: number, timeZone: string) => {
+  const service = new RangeLoaderService();
+  const ranges: LoadRange[] = [];
+  service.onLoadRange = (range) => {
+    ranges.push(range);
+    return new Promise(() => {});
+  };
+  const zonedDate = forceUpdateZone(visibleDateUnix, timeZone);
+  service.load(
+    zonedDate.minus({ days: 7 }).toMillis(),
+    zonedDate.plus({ days: 14 }).toMillis(),
+    timeZone,
+    1
+  );
+  await Promise.resolve();
+  return ranges;
+};
+
+describe('switching time zones', () => {
+  it('moves to the previous week when the instant is a day earlier', async () => {
+    // Monday 01:00 in Tokyo is Sunday in Los Angeles
+    const visibleDateUnix = switchZone('2024-03-11', 60, TOKYO, LOS_ANGELES);
+
+    expect(visibleDateUnix).toBe(parseDateTime('2024-03-04').toMillis());
+    expect(await loadWeeks(visibleDateUnix, LOS_ANGELES)).toEqual([
+      {
+        start: '2024-02-26T08:00:00.000Z',
+        end: '2024-03-18T07:00:00.000Z',
+      },
+    ]);
+  });
+
+  it('moves to the next week when the instant is a day later', async () => {
+    // Sunday 20:00 in Los Angeles is Monday in Tokyo
+    const visibleDateUnix = switchZone('2024-03-04', 9840, LOS_ANGELES, TOKYO);
+
+    expect(visibleDateUnix).toBe(parseDateTime('2024-03-11').toMillis());
+    expect(await loadWeeks(visibleDateUnix, TOKYO)).toEqual([
+      {
+        start: '2024-03-03T15:00:00.000Z',
+        end: '2024-03-24T15:00:00.000Z',
+      },
+    ]);
+  });
+
+  it('keeps the week when the instant is on the same day', () => {
+    const visibleDateUnix = switchZone('2024-03-04', 1200, TOKYO, LOS_ANGELES);
+
+    expect(visibleDateUnix).toBe(parseDateTime('2024-03-04').toMillis());
+  });
+});
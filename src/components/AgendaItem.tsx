@@ -0,0 +1,261 @@
+import React, { useMemo } from 'react';
+import { StyleSheet, TouchableOpacity, View } from 'react-native';
+import { AGENDA_SECTION_PADDING, MILLISECONDS_IN_MINUTE } from '../constants';
+import { useActions } from '../context/ActionsProvider';
+import { useLocale } from '../context/LocaleProvider';
+import { useNowIndicator } from '../context/NowIndicatorProvider';
+import { useTheme } from '../context/ThemeProvider';
+import type {
+  CalendarAgendaProps,
+  EventItemInternal,
+  OnEventResponse,
+  ThemeConfigs,
+} from '../types';
+import {
+  dateTimeToISOString,
+  localizeDigits,
+  parseDateTime,
+  toHourStr,
+} from '../utils/dateUtils';
+import type { AgendaSection } from '../utils/eventUtils';
+import Text from './Text';
+
+export interface AgendaItemProps {
+  section: AgendaSection;
+  width: number;
+  dayWidth: number;
+  eventHeight: number;
+  hourFormat: string;
+  renderAgendaEvent?: CalendarAgendaProps['renderAgendaEvent'];
+}
+
+const selectAgendaTheme = (state: ThemeConfigs) => ({
+  colors: state.colors,
+  agendaDayContainer: state.agendaDayContainer,
+  agendaDayName: state.agendaDayName,
+  agendaDayNumber: state.agendaDayNumber,
+  agendaEventContainer: state.agendaEventContainer,
+  agendaEventTitle: state.agendaEventTitle,
+  agendaEventTime: state.agendaEventTime,
+  todayNumberContainer: state.todayNumberContainer || {
+    backgroundColor: state.colors.primary,
+  },
+  todayNumber: state.todayNumber || { color: state.colors.onPrimary },
+});
+
+const AgendaItem: React.FC<AgendaItemProps> = ({
+  section,
+  width,
+  dayWidth,
+  eventHeight,
+  hourFormat,
+  renderAgendaEvent,
+}) => {
+  const { currentDateUnix } = useNowIndicator();
+  const { onPressDayNumber } = useActions();
+  const { weekDayShort, numberingSystem } = useLocale();
+  const theme = useTheme(selectAgendaTheme);
+
+  const { dayUnix, allDayEvents, events } = section;
+  const date = useMemo(() => parseDateTime(dayUnix), [dayUnix]);
+  const isToday = dayUnix === currentDateUnix;
+  const eventWidth = width - dayWidth - AGENDA_SECTION_PADDING;
+
+  const _onDayPress = () => {
+    onPressDayNumber?.(dateTimeToISOString(date));
+  };
+
+  return (
+    <View
+      style={[
+        styles.container,
+        { width, borderColor: theme.colors.border },
+        theme.agendaDayContainer,
+      ]}>
+      <TouchableOpacity
+        activeOpacity={0.6}
+        disabled={!onPressDayNumber}
+        onPress={_onDayPress}
+        style={[styles.dayContainer, { width: dayWidth }]}>
+        <Text
+          style={[
+            styles.dayName,
+            { color: theme.colors.text },
+            theme.agendaDayName,
+          ]}>
+          {weekDayShort[date.weekday % 7]}
+        </Text>
+        <View
+          style={[
+            styles.dayNumContainer,
+            isToday && theme.todayNumberContainer,
+          ]}>
+          <Text
+            style={[
+              styles.dayNumText,
+              { color: theme.colors.text },
+              theme.agendaDayNumber,
+              isToday && theme.todayNumber,
+            ]}>
+            {localizeDigits(date.day, numberingSystem)}
+          </Text>
+        </View>
+      </TouchableOpacity>
+      <View style={styles.eventsContainer}>
+        {allDayEvents.map((event) => (
+          <AgendaEvent
+            key={event.localId}
+            event={event}
+            dayUnix={dayUnix}
+            isAllDay
+            width={eventWidth}
+            height={eventHeight}
+            hourFormat={hourFormat}
+            renderAgendaEvent={renderAgendaEvent}
+          />
+        ))}
+        {events.map((event) => (
+          <AgendaEvent
+            key={event.localId}
+            event={event}
+            dayUnix={dayUnix}
+            width={eventWidth}
+            height={eventHeight}
+            hourFormat={hourFormat}
+            renderAgendaEvent={renderAgendaEvent}
+          />
+        ))}
+      </View>
+    </View>
+  );
+};
+
+export default React.memo(AgendaItem);
+
+interface AgendaEventProps {
+  event: EventItemInternal;
+  dayUnix: number;
+  isAllDay?: boolean;
+  width: number;
+  height: number;
+  hourFormat: string;
+  renderAgendaEvent?: CalendarAgendaProps['renderAgendaEvent'];
+}
+
+const AgendaEvent: React.FC<AgendaEventProps> = ({
+  event,
+  dayUnix,
+  isAllDay,
+  width,
+  height,
+  hourFormat,
+  renderAgendaEvent,
+}) => {
+  const { onPressEvent } = useActions();
+  const locale = useLocale();
+  const { colors, agendaEventContainer, agendaEventTitle, agendaEventTime } =
+    useTheme(selectAgendaTheme);
+  const { _internal, ...rest } = event;
+
+  const timeStr = useMemo(() => {
+    if (isAllDay) {
+      return locale.allDay;
+    }
+    const startMinutes = _internal.startMinutes ?? 0;
+    const endMinutes = Math.min(
+      Math.round((_internal.endUnix - dayUnix) / MILLISECONDS_IN_MINUTE),
+      24 * 60
+    );
+    const startStr = toHourStr(
+      startMinutes,
+      hourFormat,
+      locale.meridiem,
+      locale.numberingSystem
+    );
+    const endStr = toHourStr(
+      endMinutes,
+      hourFormat,
+      locale.meridiem,
+      locale.numberingSystem
+    );
+    return `${startStr} - ${endStr}`;
+  }, [
+    _internal.endUnix,
+    _internal.startMinutes,
+    dayUnix,
+    hourFormat,
+    isAllDay,
+    locale.allDay,
+    locale.meridiem,
+    locale.numberingSystem,
+  ]);
+
+  const _onPressEvent = () => {
+    onPressEvent?.(rest as OnEventResponse);
+  };
+
+  return (
+    <TouchableOpacity
+      activeOpacity={0.6}
+      disabled={!onPressEvent}
+      onPress={_onPressEvent}
+      style={[styles.eventContainer, { width, height }, agendaEventContainer]}>
+      {renderAgendaEvent ? (
+        renderAgendaEvent(event, { width, height })
+      ) : (
+        <View style={styles.eventContent}>
+          <View
+            style={[styles.colorBar, { backgroundColor: rest.color ?? '#ccc' }]}
+          />
+          <View style={styles.eventTexts}>
+            <Text
+              style={[
+                styles.eventTitle,
+                { color: colors.text },
+                agendaEventTitle,
+                rest.titleStyle,
+              ]}
+              numberOfLines={1}>
+              {rest.title}
+            </Text>
+            <Text
+              style={[
+                styles.eventTime,
+                { color: colors.text },
+                agendaEventTime,
+              ]}
+              numberOfLines={1}>
+              {timeStr}
+            </Text>
+          </View>
+        </View>
+      )}
+    </TouchableOpacity>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    paddingVertical: AGENDA_SECTION_PADDING,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  dayContainer: { alignItems: 'center' },
+  dayName: { fontSize: 12 },
+  dayNumContainer: {
+    marginTop: 2,
+    width: 32,
+    height: 32,
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderRadius: 16,
+  },
+  dayNumText: { fontSize: 16, fontWeight: '500' },
+  eventsContainer: { flex: 1 },
+  eventContainer: { overflow: 'hidden' },
+  eventContent: { flex: 1, flexDirection: 'row', paddingVertical: 4 },
+  colorBar: { width: 4, borderRadius: 2, marginRight: 8 },
+  eventTexts: { flex: 1, justifyContent: 'center' },
+  eventTitle: { fontSize: 14, fontWeight: '500' },
+  eventTime: { fontSize: 12, opacity: 0.7, marginTop: 2 },
+});
@@ -34,6 +34,7 @@ const BodyItem = ({
     numberOfDays,
     calendarData,
     columns,
+    isRTL,
   } = useBody();
 
   const visibleDates = useMemo(() => {
@@ -54,6 +55,7 @@ const BodyItem = ({
   }, [calendarData.visibleDatesArray, columns, pageIndex]);
 
   const leftSpacing = numberOfDays === 1 ? hourWidth : 0;
+  const contentOffset = Math.max(0, leftSpacing - 1);
 
   const height = useDerivedValue(() => {
     return timelineHeight.value - spaceFromTop - spaceFromBottom;
@@ -75,7 +77,7 @@ const BodyItem = ({
         style={[
           styles.content,
           {
-            left: Math.max(0, leftSpacing - 1),
+            ...(isRTL ? { right: contentOffset } : { left: contentOffset }),
             top: EXTRA_HEIGHT + spaceFromTop,
           },
           animView,
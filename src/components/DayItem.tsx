@@ -6,7 +6,13 @@ import { useLocale } from '../context/LocaleProvider';
 import { useNowIndicator } from '../context/NowIndicatorProvider';
 import { useTheme } from '../context/ThemeProvider';
 import type { ThemeConfigs } from '../types';
-import { dateTimeToISOString, parseDateTime } from '../utils/dateUtils';
+import {
+  dateTimeToISOString,
+  getCalendarDate,
+  localizeDigits,
+  parseDateTime,
+  toAccessibleDate,
+} from '../utils/dateUtils';
 import Text from './Text';
 
 interface DayItemProps {
@@ -27,12 +33,30 @@ const selectDayItemTheme = (state: ThemeConfigs) => ({
 });
 
 const DayItem: React.FC<DayItemProps> = ({ dateUnix }) => {
-  const { weekDayShort } = useLocale();
+  const {
+    weekDayShort,
+    numberingSystem,
+    locale,
+    outputCalendar,
+    dualCalendar,
+  } = useLocale();
   const { currentDateUnix } = useNowIndicator();
   const { onPressDayNumber } = useActions();
   const highlightDates = useHighlightDates(dateUnix);
 
   const date = useMemo(() => parseDateTime(dateUnix), [dateUnix]);
+  const calendarDay = useMemo(
+    () =>
+      outputCalendar
+        ? getCalendarDate(dateUnix, {
+            locale,
+            calendar: outputCalendar,
+            numberingSystem,
+          }).day
+        : undefined,
+    [dateUnix, locale, numberingSystem, outputCalendar]
+  );
+  const dayNumber = localizeDigits(date.day, numberingSystem);
 
   const {
     colors,
@@ -82,7 +106,9 @@ const DayItem: React.FC<DayItemProps> = ({ dateUnix }) => {
     <TouchableOpacity
       activeOpacity={0.6}
       disabled={!onPressDayNumber}
-      onPress={_onDayPress}>
+      onPress={_onDayPress}
+      accessibilityRole={onPressDayNumber ? 'button' : 'text'}
+      accessibilityLabel={toAccessibleDate(date, locale, outputCalendar)}>
       <View style={[styles.dayContainer, dayContainer]}>
         <Text
           style={[
@@ -100,9 +126,19 @@ const DayItem: React.FC<DayItemProps> = ({ dateUnix }) => {
               { color: colors.text },
               customStyle.numText,
             ]}>
-            {date.day}
+            {!dualCalendar && calendarDay ? calendarDay : dayNumber}
           </Text>
         </View>
+        {dualCalendar && !!calendarDay && (
+          <Text
+            style={[
+              styles.calendarDayText,
+              { color: colors.text },
+              customStyle.dayText,
+            ]}>
+            {calendarDay}
+          </Text>
+        )}
       </View>
     </TouchableOpacity>
   );
@@ -125,4 +161,5 @@ const styles = StyleSheet.create({
   },
   dayNumText: { fontSize: 16, fontWeight: '500' },
   weekDayText: { fontSize: 12, color: '#5F6267', marginBottom: 2 },
+  calendarDayText: { fontSize: 10, marginTop: 2 },
 });
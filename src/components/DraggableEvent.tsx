@@ -10,7 +10,7 @@ import Animated, {
   useAnimatedStyle,
   useDerivedValue,
 } from 'react-native-reanimated';
-import { MILLISECONDS_IN_DAY, MILLISECONDS_IN_MINUTE } from '../constants';
+import { MILLISECONDS_IN_MINUTE } from '../constants';
 import { useBody } from '../context/BodyContext';
 import {
   useDragEvent,
@@ -18,7 +18,9 @@ import {
 } from '../context/DragEventProvider';
 import { useTheme } from '../context/ThemeProvider';
 import type { SelectedEventType } from '../types';
-import { parseDateTime } from '../utils/dateUtils';
+import { parseDateTime, plusDays } from '../utils/dateUtils';
+import { isEventResizable } from '../utils/eventUtils';
+import { orientRect } from '../utils/utils';
 import DragDot from './DragDot';
 
 export interface DraggableEventProps {
@@ -55,7 +57,17 @@ export const DraggableEvent: FC<DraggableEventProps> = ({
       };
     }, [])
   );
-  const { minuteHeight, columnWidthAnim, start, numberOfDays } = useBody();
+  const {
+    minuteHeight,
+    columnWidthAnim,
+    start,
+    numberOfDays,
+    resources,
+    resourceWidthAnim,
+    orientation,
+    isRTL,
+  } = useBody();
+  const isHorizontal = orientation === 'horizontal';
   const {
     dragStartUnix,
     dragSelectedStartUnix,
@@ -66,10 +78,29 @@ export const DraggableEvent: FC<DraggableEventProps> = ({
   } = useDragEvent();
   const { triggerDragSelectedEvent } = useDragEventActions();
 
+  const resourceIndex = useMemo(() => {
+    if (!resources?.length) {
+      return -1;
+    }
+    return resources.findIndex(
+      (resource) => resource.id === selectedEvent?.resourceId
+    );
+  }, [resources, selectedEvent?.resourceId]);
+
+  const eventWidth = useDerivedValue(
+    () =>
+      resourceIndex === -1 ? columnWidthAnim.value : resourceWidthAnim.value,
+    [resourceIndex]
+  );
+
   const left = useDerivedValue(() => {
     const diffDays = visibleDates[startUnix]?.diffDays ?? 1;
-    return (diffDays - 1) * columnWidthAnim.value;
-  }, [visibleDates, startUnix]);
+    let offset = (diffDays - 1) * columnWidthAnim.value;
+    if (resourceIndex !== -1) {
+      offset += resourceIndex * resourceWidthAnim.value;
+    }
+    return offset;
+  }, [visibleDates, startUnix, resourceIndex]);
 
   const top = useDerivedValue(() => {
     if (index > 0) {
@@ -88,13 +119,20 @@ export const DraggableEvent: FC<DraggableEventProps> = ({
   );
 
   const isDragging = useDerivedValue(() => dragStartUnix.value !== -1);
+  const isResizable = !!selectedEvent && isEventResizable(selectedEvent);
 
   const animView = useAnimatedStyle(() => {
     return {
-      top: top.value,
-      height: eventHeight.value,
-      width: columnWidthAnim.value,
-      left: left.value,
+      ...orientRect(
+        {
+          top: top.value,
+          height: eventHeight.value,
+          width: eventWidth.value,
+          left: left.value,
+        },
+        isHorizontal,
+        isRTL
+      ),
       opacity: isDragging.value ? 0 : 1,
     };
   });
@@ -145,10 +183,12 @@ export const DraggableEvent: FC<DraggableEventProps> = ({
             containerStyle,
           ]}>
           {renderEvent ? (
-            renderEvent(selectedEvent, {
-              width: columnWidthAnim,
-              height: eventHeight,
-            })
+            renderEvent(
+              selectedEvent,
+              isHorizontal
+                ? { width: eventHeight, height: eventWidth }
+                : { width: eventWidth, height: eventHeight }
+            )
           ) : (
             <Text style={[styles.eventTitle, theme.eventTitleStyle]}>
               {selectedEvent.title}
@@ -159,30 +199,34 @@ export const DraggableEvent: FC<DraggableEventProps> = ({
       <GestureDetector gesture={gesture}>
         <View style={[StyleSheet.absoluteFill, { cursor: 'pointer' }]} />
       </GestureDetector>
-      <GestureDetector gesture={topEdgeGesture}>
-        {TopEdgeComponent || (
-          <View
-            style={[
-              styles.dot,
-              styles.dotLeft,
-              numberOfDays === 1 && styles.dotLeftSingle,
-            ]}>
-            <DragDot />
-          </View>
-        )}
-      </GestureDetector>
-      <GestureDetector gesture={bottomEdgeGesture}>
-        {BottomEdgeComponent || (
-          <View
-            style={[
-              styles.dot,
-              styles.dotRight,
-              numberOfDays === 1 && styles.dotRightSingle,
-            ]}>
-            <DragDot />
-          </View>
-        )}
-      </GestureDetector>
+      {isResizable && (
+        <GestureDetector gesture={topEdgeGesture}>
+          {TopEdgeComponent || (
+            <View
+              style={[
+                styles.dot,
+                styles.dotLeft,
+                numberOfDays === 1 && styles.dotLeftSingle,
+              ]}>
+              <DragDot />
+            </View>
+          )}
+        </GestureDetector>
+      )}
+      {isResizable && (
+        <GestureDetector gesture={bottomEdgeGesture}>
+          {BottomEdgeComponent || (
+            <View
+              style={[
+                styles.dot,
+                styles.dotRight,
+                numberOfDays === 1 && styles.dotRightSingle,
+              ]}>
+              <DragDot />
+            </View>
+          )}
+        </GestureDetector>
+      )}
     </Animated.View>
   );
 };
@@ -243,7 +287,7 @@ const DraggableEventWrapper: FC<DraggableEventWrapperProps> = ({
     if (!lastDate) {
       return 0;
     }
-    return lastDate.unix + MILLISECONDS_IN_DAY;
+    return plusDays(lastDate.unix, 1);
   }, [visibleDates]);
 
   const _handleDragSelectedEvent = (
@@ -270,7 +314,7 @@ const DraggableEventWrapper: FC<DraggableEventWrapperProps> = ({
 
     const dates = [];
     for (let i = 0; i <= diffDays; i++) {
-      dates.push(unix + i * MILLISECONDS_IN_DAY);
+      dates.push(plusDays(unix, i));
     }
     setDraggableDates(dates);
   };
@@ -0,0 +1,106 @@
+import React, { useCallback } from 'react';
+import { StyleSheet, Text } from 'react-native';
+import Animated, { useAnimatedStyle } from 'react-native-reanimated';
+import { useCalendar } from '../context/CalendarProvider';
+import { useHeader } from '../context/DayBarContext';
+import { useDragEvent } from '../context/DragEventProvider';
+import { useTheme } from '../context/ThemeProvider';
+import { findNearestNumber } from '../utils/utils';
+
+/** The event dragged into the all-day area of the header */
+const DraggingAllDayEvent = () => {
+  const theme = useTheme(
+    useCallback(
+      (state) => ({
+        primaryColor: state.colors.primary,
+        eventTitleStyle: state.eventTitleStyle,
+      }),
+      []
+    )
+  );
+  const {
+    columnWidthAnim,
+    dayBarHeight,
+    eventHeight,
+    hourWidth,
+    numberOfDays,
+    isRTL,
+    calendarData,
+    rightEdgeSpacing,
+    overlapEventsSpacing,
+  } = useHeader();
+  const { visibleDateUnixAnim } = useCalendar();
+  const {
+    draggingEvent,
+    dragStartUnix,
+    dragAllDayDays,
+    dragAllDayOffset,
+    isDraggingAllDay,
+  } = useDragEvent();
+
+  const animStyle = useAnimatedStyle(() => {
+    const visibleUnix = findNearestNumber(
+      calendarData.visibleDatesArray,
+      visibleDateUnixAnim.value
+    );
+    const visibleIndex = calendarData.visibleDates[visibleUnix]?.index ?? 0;
+    const dayIndex =
+      (calendarData.visibleDates[dragStartUnix.value]?.index ?? visibleIndex) -
+      visibleIndex -
+      dragAllDayOffset.value;
+    const isSingleDay = numberOfDays === 1;
+    const days = isSingleDay ? 1 : dragAllDayDays.value;
+    const left =
+      hourWidth + (isSingleDay ? 0 : dayIndex) * columnWidthAnim.value;
+
+    return {
+      ...(isRTL ? { right: left } : { left }),
+      top: isSingleDay ? 0 : dayBarHeight,
+      width: days * columnWidthAnim.value - rightEdgeSpacing,
+      height: eventHeight.value - overlapEventsSpacing,
+      opacity: isDraggingAllDay.value ? 1 : 0,
+    };
+  });
+
+  return (
+    <Animated.View
+      pointerEvents="none"
+      style={[
+        styles.container,
+        {
+          backgroundColor: draggingEvent?.color ?? '#ccc',
+          borderColor: theme.primaryColor,
+        },
+        animStyle,
+      ]}>
+      {!!draggingEvent?.title && (
+        <Text
+          numberOfLines={1}
+          style={[styles.eventTitle, theme.eventTitleStyle]}>
+          {draggingEvent.title}
+        </Text>
+      )}
+    </Animated.View>
+  );
+};
+
+const DraggingAllDayEventWrapper = () => {
+  const { isDragging } = useDragEvent();
+  if (!isDragging) {
+    return null;
+  }
+
+  return <DraggingAllDayEvent />;
+};
+
+export default DraggingAllDayEventWrapper;
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    borderWidth: 2,
+    borderRadius: 2,
+    overflow: 'hidden',
+  },
+  eventTitle: { fontSize: 10, color: '#FFF', paddingHorizontal: 2 },
+});
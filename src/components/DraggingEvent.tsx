@@ -10,11 +10,12 @@ import Animated, {
   useSharedValue,
   withTiming,
 } from 'react-native-reanimated';
+import { INVALID_DROP_COLOR } from '../constants';
 import { useBody } from '../context/BodyContext';
 import { useDragEvent } from '../context/DragEventProvider';
 import { useTheme } from '../context/ThemeProvider';
 import type { SelectedEventType } from '../types';
-import { clampValues, findNearestNumber } from '../utils/utils';
+import { clampValues, findNearestNumber, orientRect } from '../utils/utils';
 import DragDot from './DragDot';
 
 export interface DraggingEventProps {
@@ -40,6 +41,7 @@ export const DraggingEvent: FC<DraggingEventProps> = ({
     useCallback((state) => {
       return {
         primaryColor: state.colors.primary,
+        invalidDropColor: state.invalidDropColor || INVALID_DROP_COLOR,
         eventContainerStyle: state.eventContainerStyle,
         eventTitleStyle: state.eventTitleStyle,
       };
@@ -55,9 +57,21 @@ export const DraggingEvent: FC<DraggingEventProps> = ({
     calendarData,
     columns,
     numberOfDays,
+    resourceWidthAnim,
+    orientation,
+    isRTL,
   } = useBody();
-  const { dragDuration, dragStartMinutes, dragStartUnix, draggingEvent } =
-    useDragEvent();
+  const isHorizontal = orientation === 'horizontal';
+  const {
+    dragDuration,
+    dragStartMinutes,
+    dragStartUnix,
+    draggingEvent,
+    dragResourceIndex,
+    isDraggingAllDay,
+    isDropInvalid,
+    dropInvalidReason,
+  } = useDragEvent();
 
   const getDayIndex = (dayUnix: number) => {
     'worklet';
@@ -108,39 +122,69 @@ export const DraggingEvent: FC<DraggingEventProps> = ({
     return dragDuration.value * minuteHeight.value;
   });
 
+  const eventWidth = useDerivedValue(() => {
+    return dragResourceIndex.value === -1
+      ? columnWidthAnim.value
+      : resourceWidthAnim.value;
+  });
+
   const animView = useAnimatedStyle(() => {
+    let left = hourWidth + columnWidthAnim.value * internalDayIndex.value - 1;
+    if (dragResourceIndex.value !== -1) {
+      left += resourceWidthAnim.value * dragResourceIndex.value;
+    }
     return {
-      top: (dragStartMinutes.value - start) * minuteHeight.value,
-      height: dragDuration.value * minuteHeight.value,
-      width: columnWidthAnim.value,
-      left: hourWidth + columnWidthAnim.value * internalDayIndex.value - 1,
+      ...orientRect(
+        {
+          top: (dragStartMinutes.value - start) * minuteHeight.value,
+          height: dragDuration.value * minuteHeight.value,
+          width: eventWidth.value,
+          left,
+        },
+        isHorizontal,
+        isRTL
+      ),
+      // The header renders the event dragged into the all-day area
+      opacity: isDraggingAllDay.value ? 0 : 1,
     };
   });
 
+  const borderStyle = useAnimatedStyle(() => ({
+    borderColor: isDropInvalid.value
+      ? theme.invalidDropColor
+      : theme.primaryColor,
+  }));
+
   return (
     <Animated.View style={[styles.container, animView]}>
-      <View
+      <Animated.View
         style={[
           StyleSheet.absoluteFill,
           theme.eventContainerStyle,
           styles.event,
-          {
-            backgroundColor: draggingEvent?.color ?? 'transparent',
-            borderColor: theme.primaryColor,
-          },
+          { backgroundColor: draggingEvent?.color ?? 'transparent' },
+          borderStyle,
           containerStyle,
         ]}>
         {renderEvent
-          ? renderEvent(draggingEvent, {
-              width: columnWidthAnim,
-              height: eventHeight,
-            })
+          ? renderEvent(
+              draggingEvent,
+              isHorizontal
+                ? { width: eventHeight, height: eventWidth }
+                : { width: eventWidth, height: eventHeight }
+            )
           : !!draggingEvent?.title && (
               <Text style={[styles.eventTitle, theme.eventTitleStyle]}>
                 {draggingEvent.title}
               </Text>
             )}
-      </View>
+        {!!dropInvalidReason && (
+          <Text
+            style={[styles.invalidReason, { color: theme.invalidDropColor }]}>
+            {dropInvalidReason}
+          </Text>
+        )}
+      </Animated.View>
       {TopEdgeComponent || (
         <View
           style={[
@@ -222,6 +266,7 @@ const styles = StyleSheet.create({
   dotLeft: { top: -12, left: -12 },
   dotRight: { bottom: -12, right: -12 },
   eventTitle: { fontSize: 12, paddingHorizontal: 2 },
+  invalidReason: { fontSize: 10, paddingHorizontal: 2 },
   dotLeftSingle: { left: 0 },
   dotRightSingle: { right: 0 },
 });
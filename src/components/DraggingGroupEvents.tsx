@@ -0,0 +1,181 @@
+import React, { useCallback, useMemo } from 'react';
+import { StyleSheet, Text } from 'react-native';
+import Animated, { useAnimatedStyle } from 'react-native-reanimated';
+import { MILLISECONDS_IN_MINUTE } from '../constants';
+import { useBody } from '../context/BodyContext';
+import { useDragEvent } from '../context/DragEventProvider';
+import { useTheme } from '../context/ThemeProvider';
+import { useTimezone } from '../context/TimeZoneProvider';
+import type { DateTimeType } from '../types';
+import { forceUpdateZone, parseDateTime } from '../utils/dateUtils';
+import { findNearestNumber, orientRect } from '../utils/utils';
+
+interface GroupEventItemProps {
+  /** Start of the event, before the drag */
+  startUnix: number;
+  /** Start of the dragged event, before the drag */
+  originUnix: number;
+  duration: number;
+  title?: string;
+  color?: string;
+}
+
+const GroupEventItem = ({
+  startUnix,
+  originUnix,
+  duration,
+  title,
+  color,
+}: GroupEventItemProps) => {
+  const theme = useTheme(
+    useCallback(
+      (state) => ({
+        primaryColor: state.colors.primary,
+        eventContainerStyle: state.eventContainerStyle,
+        eventTitleStyle: state.eventTitleStyle,
+      }),
+      []
+    )
+  );
+  const {
+    minuteHeight,
+    columnWidthAnim,
+    start,
+    hourWidth,
+    visibleDateUnixAnim,
+    calendarData,
+    columns,
+    orientation,
+    isRTL,
+  } = useBody();
+  const { dragStartUnix, dragStartMinutes, isDraggingAllDay } = useDragEvent();
+  const isHorizontal = orientation === 'horizontal';
+
+  const animStyle = useAnimatedStyle(() => {
+    const offset =
+      dragStartUnix.value +
+      dragStartMinutes.value * MILLISECONDS_IN_MINUTE -
+      originUnix;
+    const eventStart = startUnix + offset;
+
+    // Last visible day starting before the event
+    const dates = calendarData.visibleDatesArray;
+    let low = 0;
+    let high = dates.length - 1;
+    let dayIndex = -1;
+    while (low <= high) {
+      const middle = Math.floor((low + high) / 2);
+      if (dates[middle]! <= eventStart) {
+        dayIndex = middle;
+        low = middle + 1;
+      } else {
+        high = middle - 1;
+      }
+    }
+
+    const visibleUnix = findNearestNumber(dates, visibleDateUnixAnim.value);
+    const column =
+      dayIndex - (calendarData.visibleDates[visibleUnix]?.index ?? 0);
+    const minutes =
+      dayIndex === -1
+        ? -1
+        : (eventStart - dates[dayIndex]!) / MILLISECONDS_IN_MINUTE;
+    const isVisible =
+      !isDraggingAllDay.value &&
+      column >= 0 &&
+      column < columns &&
+      minutes >= 0 &&
+      minutes < 1440;
+
+    return {
+      ...orientRect(
+        {
+          top: (minutes - start) * minuteHeight.value,
+          height: duration * minuteHeight.value,
+          width: columnWidthAnim.value,
+          left: hourWidth + columnWidthAnim.value * column - 1,
+        },
+        isHorizontal,
+        isRTL
+      ),
+      opacity: isVisible ? 1 : 0,
+    };
+  });
+
+  return (
+    <Animated.View
+      pointerEvents="none"
+      style={[
+        styles.container,
+        theme.eventContainerStyle,
+        styles.event,
+        {
+          backgroundColor: color ?? 'transparent',
+          borderColor: theme.primaryColor,
+        },
+        animStyle,
+      ]}>
+      {!!title && (
+        <Text style={[styles.eventTitle, theme.eventTitleStyle]}>{title}</Text>
+      )}
+    </Animated.View>
+  );
+};
+
+const getDateUnix = (date: DateTimeType, timeZone: string) =>
+  forceUpdateZone(
+    parseDateTime(date.dateTime, { zone: date.timeZone }).setZone(timeZone)
+  ).toMillis();
+
+/** The other timed `selectedEvents`, moved with the dragged event */
+const DraggingGroupEvents = () => {
+  const { draggingEvent, draggingGroup, draggingId } = useDragEvent();
+  const { timeZone } = useTimezone();
+
+  const items = useMemo(() => {
+    if (!draggingEvent?.start.dateTime || !draggingGroup) {
+      return [];
+    }
+
+    const originUnix = getDateUnix(draggingEvent.start, timeZone);
+    return draggingGroup.flatMap((event) => {
+      const id = event.localId ?? event.id;
+      if (id === draggingId || !event.start.dateTime || !event.end.dateTime) {
+        return [];
+      }
+
+      const startUnix = getDateUnix(event.start, timeZone);
+      const endUnix = getDateUnix(event.end, timeZone);
+      return [
+        {
+          key: id ?? `${startUnix}`,
+          startUnix,
+          originUnix,
+          duration: (endUnix - startUnix) / MILLISECONDS_IN_MINUTE,
+          title: event.title,
+          color: event.color,
+        },
+      ];
+    });
+  }, [draggingEvent, draggingGroup, draggingId, timeZone]);
+
+  return (
+    <>
+      {items.map(({ key, ...item }) => (
+        <GroupEventItem key={key} {...item} />
+      ))}
+    </>
+  );
+};
+
+export default DraggingGroupEvents;
+
+const styles = StyleSheet.create({
+  container: { position: 'absolute' },
+  event: {
+    borderWidth: 3,
+    borderRadius: 4,
+    overflow: 'hidden',
+  },
+  eventTitle: { fontSize: 12, paddingHorizontal: 2 },
+});
@@ -29,15 +29,17 @@ const DraggingHourInner: FC<DraggingHourProps> = ({ renderHour }) => {
   const { hourTextColor, hourTextStyle, draggingTextColor } =
     useTheme(selectTheme);
   const fontSize = hourTextStyle?.fontSize ?? 10;
+  const { minuteHeight, hourFormat, start, hourWidth, numberOfDays, isRTL } =
+    useBody();
   const style = StyleSheet.flatten([
     styles.hourText,
     { color: hourTextColor, top: -fontSize / 2 },
+    isRTL && styles.hourTextRTL,
     hourTextStyle,
   ]);
-  const { minuteHeight, hourFormat, start, hourWidth, numberOfDays } =
-    useBody();
   const locale = useLocale();
-  const { roundedDragStartMinutes, roundedDragDuration } = useDragEvent();
+  const { roundedDragStartMinutes, roundedDragDuration, isDraggingAllDay } =
+    useDragEvent();
 
   const [startMinutes, setStartMinutes] = useState(-1);
   const [endMinutes, setEndMinutes] = useState(-1);
@@ -62,27 +64,39 @@ const DraggingHourInner: FC<DraggingHourProps> = ({ renderHour }) => {
 
   const startAnimStyle = useAnimatedStyle(() => ({
     top: (roundedDragStartMinutes.value - start) * minuteHeight.value,
+    opacity: isDraggingAllDay.value ? 0 : 1,
   }));
 
   const endAnimStyle = useAnimatedStyle(() => ({
     top:
       (roundedDragStartMinutes.value + roundedDragDuration.value - start) *
       minuteHeight.value,
+    opacity: isDraggingAllDay.value ? 0 : 1,
   }));
 
   const lineWidth = numberOfDays > 1 ? 0 : 1;
 
   const startHourStr = useMemo(() => {
     return startMinutes !== -1
-      ? toHourStr(startMinutes, hourFormat, locale.meridiem)
+      ? toHourStr(
+          startMinutes,
+          hourFormat,
+          locale.meridiem,
+          locale.numberingSystem
+        )
       : '';
-  }, [startMinutes, hourFormat, locale.meridiem]);
+  }, [startMinutes, hourFormat, locale.meridiem, locale.numberingSystem]);
 
   const endHourStr = useMemo(() => {
     return endMinutes !== -1
-      ? toHourStr(endMinutes, hourFormat, locale.meridiem)
+      ? toHourStr(
+          endMinutes,
+          hourFormat,
+          locale.meridiem,
+          locale.numberingSystem
+        )
       : '';
-  }, [endMinutes, hourFormat, locale.meridiem]);
+  }, [endMinutes, hourFormat, locale.meridiem, locale.numberingSystem]);
 
   return (
     <>
@@ -90,6 +104,7 @@ const DraggingHourInner: FC<DraggingHourProps> = ({ renderHour }) => {
         pointerEvents="box-none"
         style={[
           styles.absolute,
+          isRTL && styles.alignRight,
           { width: hourWidth - HOUR_SHORT_LINE_WIDTH - 8 - lineWidth },
           startAnimStyle,
         ]}>
@@ -109,6 +124,7 @@ const DraggingHourInner: FC<DraggingHourProps> = ({ renderHour }) => {
         pointerEvents="box-none"
         style={[
           styles.absolute,
+          isRTL && styles.alignRight,
           { width: hourWidth - HOUR_SHORT_LINE_WIDTH - 8 - lineWidth },
           endAnimStyle,
         ]}>
@@ -141,6 +157,7 @@ export default DraggingHour;
 
 const styles = StyleSheet.create({
   absolute: { position: 'absolute' },
+  alignRight: { right: 0 },
   hourText: {
     fontSize: 10,
     textAlign: 'right',
@@ -148,4 +165,5 @@ const styles = StyleSheet.create({
     left: 0,
     right: 0,
   },
+  hourTextRTL: { textAlign: 'left' },
 });
@@ -1,18 +1,85 @@
 import isEqual from 'lodash.isequal';
 import type { FC } from 'react';
 import React, { useCallback, useMemo } from 'react';
-import { StyleSheet, TouchableOpacity, View } from 'react-native';
+import type { AccessibilityActionEvent } from 'react-native';
+import {
+  AccessibilityInfo,
+  StyleSheet,
+  TouchableOpacity,
+  View,
+} from 'react-native';
 import Animated, {
   useAnimatedStyle,
   useDerivedValue,
   withTiming,
 } from 'react-native-reanimated';
-import { MILLISECONDS_IN_DAY } from '../constants';
 import { useBody } from '../context/BodyContext';
+import type { LocaleContextProps } from '../context/LocaleProvider';
+import { useLocale } from '../context/LocaleProvider';
 import { useTheme } from '../context/ThemeProvider';
-import type { OnEventResponse, PackedEvent, SizeAnimation } from '../types';
+import { useTimezone } from '../context/TimeZoneProvider';
+import type {
+  EventItem as EventItemType,
+  OnEventResponse,
+  PackedEvent,
+  SizeAnimation,
+} from '../types';
+import {
+  daysBetween,
+  parseDateTime,
+  plusDays,
+  toAccessibleDate,
+  toHourStr,
+} from '../utils/dateUtils';
+import { isEventMovable, isEventResizable } from '../utils/eventUtils';
+import { orientRect } from '../utils/utils';
 import Text from './Text';
 
+/** Label read by screen readers, from the title and times of the event */
+const getEventLabel = (
+  event: EventItemType,
+  locale: LocaleContextProps,
+  hourFormat: string,
+  timeZone: string
+) => {
+  const { accessibility } = locale;
+  const title = event.title || accessibility.untitledEvent;
+  if (!event.start.dateTime || !event.end.dateTime) {
+    return accessibility.allDayEvent.replace('{title}', title);
+  }
+
+  const start = parseDateTime(event.start.dateTime, {
+    zone: event.start.timeZone,
+  }).setZone(timeZone);
+  const end = parseDateTime(event.end.dateTime, {
+    zone: event.end.timeZone,
+  }).setZone(timeZone);
+  return accessibility.event
+    .replace('{title}', title)
+    .replace(
+      '{date}',
+      toAccessibleDate(start, locale.locale, locale.outputCalendar)
+    )
+    .replace(
+      '{start}',
+      toHourStr(
+        start.hour * 60 + start.minute,
+        hourFormat,
+        locale.meridiem,
+        locale.numberingSystem
+      )
+    )
+    .replace(
+      '{end}',
+      toHourStr(
+        end.hour * 60 + end.minute,
+        hourFormat,
+        locale.meridiem,
+        locale.numberingSystem
+      )
+    );
+};
+
 interface EventItemProps {
   event: PackedEvent;
   startUnix: number;
@@ -20,6 +87,17 @@ interface EventItemProps {
   onPressEvent?: (event: OnEventResponse) => void;
   onLongPressEvent?: (event: PackedEvent) => void;
   isDragging?: boolean;
+  /** Whether the event is in `selectedEvents` */
+  isSelected?: boolean;
+  /** Adds the event to `selectedEvents`, or removes it */
+  onToggleSelectEvent?: (event: PackedEvent) => void;
+  /** Moves or resizes the event, from the accessibility actions */
+  onAdjustEvent?: (
+    event: OnEventResponse,
+    change: { start: number; end: number }
+  ) => Promise<OnEventResponse | undefined>;
+  /** Minutes of the accessibility actions moving or resizing the event */
+  adjustStep?: number;
   visibleDates: Record<string, { diffDays: number; unix: number }>;
 }
 
@@ -30,11 +108,16 @@ const EventItem: FC<EventItemProps> = ({
   onPressEvent,
   onLongPressEvent,
   isDragging,
+  isSelected,
+  onToggleSelectEvent,
+  onAdjustEvent,
+  adjustStep = 15,
   visibleDates,
 }) => {
   const theme = useTheme(
     useCallback((state) => {
       return {
+        primaryColor: state.colors.primary,
         eventContainerStyle: state.eventContainerStyle,
         eventTitleStyle: state.eventTitleStyle,
       };
@@ -49,7 +132,15 @@ const EventItem: FC<EventItemProps> = ({
     rightEdgeSpacing,
     overlapEventsSpacing,
     columnWidth,
+    resources,
+    resourceWidthAnim,
+    orientation,
+    isRTL,
+    hourFormat,
   } = useBody();
+  const locale = useLocale();
+  const { timeZone } = useTimezone();
+  const isHorizontal = orientation === 'horizontal';
   const { _internal, ...event } = eventInput;
   const {
     duration,
@@ -60,8 +151,19 @@ const EventItem: FC<EventItemProps> = ({
     startUnix: eventStartUnix,
     widthPercentage,
     xOffsetPercentage,
+    resourceIndex,
   } = _internal;
 
+  // Events of the resource view are laid out inside their resource column
+  const isResourceEvent = resourceIndex !== undefined;
+  const slotWidth = isResourceEvent
+    ? columnWidth / Math.max(resources?.length ?? 1, 1)
+    : columnWidth;
+  const slotWidthAnim = useDerivedValue(
+    () => (isResourceEvent ? resourceWidthAnim.value : columnWidthAnim.value),
+    [isResourceEvent]
+  );
+
   const data = useMemo(() => {
     const maxDuration = end - start;
     let newStart = startMinutes - start;
@@ -71,18 +173,16 @@ const EventItem: FC<EventItemProps> = ({
       newStart = 0;
     }
 
-    let diffDays = Math.floor(
-      (eventStartUnix - startUnix) / MILLISECONDS_IN_DAY
-    );
+    let diffDays = daysBetween(startUnix, eventStartUnix);
 
     if (eventStartUnix < startUnix) {
-      for (let i = eventStartUnix; i < startUnix; i += MILLISECONDS_IN_DAY) {
+      for (let i = eventStartUnix; i < startUnix; i = plusDays(i, 1)) {
         if (!visibleDates[i]) {
           diffDays++;
         }
       }
     } else {
-      for (let i = startUnix; i < eventStartUnix; i += MILLISECONDS_IN_DAY) {
+      for (let i = startUnix; i < eventStartUnix; i = plusDays(i, 1)) {
         if (!visibleDates[i]) {
           diffDays--;
         }
@@ -111,7 +211,7 @@ const EventItem: FC<EventItemProps> = ({
 
   const widthPercent = useDerivedValue(() => {
     if (total && columnSpan) {
-      const availableWidth = columnWidth - rightEdgeSpacing;
+      const availableWidth = slotWidth - rightEdgeSpacing;
       const totalColumns = total - columnSpan;
       const overlapSpacing = (totalColumns * overlapEventsSpacing) / total;
       const eventWidth = (availableWidth / total) * columnSpan - overlapSpacing;
@@ -127,11 +227,11 @@ const EventItem: FC<EventItemProps> = ({
     rightEdgeSpacing,
     overlapEventsSpacing,
     total,
-    columnWidth,
+    slotWidth,
   ]);
 
   const eventWidth = useDerivedValue(() => {
-    const availableWidth = columnWidthAnim.value - rightEdgeSpacing;
+    const availableWidth = slotWidthAnim.value - rightEdgeSpacing;
     return widthPercent.value * availableWidth;
   }, [
     columnSpan,
@@ -143,8 +243,11 @@ const EventItem: FC<EventItemProps> = ({
 
   const eventPosX = useDerivedValue(() => {
     let left = data.diffDays * columnWidthAnim.value;
+    if (isResourceEvent) {
+      left += resourceIndex * slotWidthAnim.value;
+    }
     if (xOffsetPercentage) {
-      const availableWidth = columnWidthAnim.value - rightEdgeSpacing;
+      const availableWidth = slotWidthAnim.value - rightEdgeSpacing;
       left += availableWidth * (xOffsetPercentage / 100);
     } else if (columnSpan && index) {
       left += (eventWidth.value + overlapEventsSpacing) * (index / columnSpan);
@@ -157,6 +260,8 @@ const EventItem: FC<EventItemProps> = ({
     index,
     total,
     xOffsetPercentage,
+    isResourceEvent,
+    resourceIndex,
   ]);
 
   const top = useDerivedValue(() => {
@@ -164,12 +269,16 @@ const EventItem: FC<EventItemProps> = ({
   }, [data.startMinutes]);
 
   const animView = useAnimatedStyle(() => {
-    return {
-      height: eventHeight.value,
-      width: eventWidth.value,
-      left: eventPosX.value + 1,
-      top: top.value + 1,
-    };
+    return orientRect(
+      {
+        height: eventHeight.value,
+        width: eventWidth.value,
+        left: eventPosX.value + 1,
+        top: top.value + 1,
+      },
+      isHorizontal,
+      isRTL
+    );
   });
 
   const _onPressEvent = () => {
@@ -182,6 +291,96 @@ const EventItem: FC<EventItemProps> = ({
     onLongPressEvent!(eventInput);
   };
 
+  const accessibilityLabel = useMemo(
+    () => getEventLabel(eventInput, locale, hourFormat, timeZone),
+    [eventInput, locale, hourFormat, timeZone]
+  );
+
+  const accessibilityActions = useMemo(() => {
+    const { accessibility } = locale;
+    const minutes = adjustStep.toString();
+    const actions: { name: string; label: string }[] = [];
+    if (onAdjustEvent && eventInput.start.dateTime) {
+      if (isEventMovable(eventInput)) {
+        actions.push(
+          {
+            name: 'moveEarlier',
+            label: accessibility.moveEarlier.replace('{minutes}', minutes),
+          },
+          {
+            name: 'moveLater',
+            label: accessibility.moveLater.replace('{minutes}', minutes),
+          }
+        );
+      }
+      if (isEventResizable(eventInput)) {
+        actions.push(
+          {
+            name: 'extend',
+            label: accessibility.extend.replace('{minutes}', minutes),
+          },
+          {
+            name: 'shorten',
+            label: accessibility.shorten.replace('{minutes}', minutes),
+          }
+        );
+      }
+    }
+    if (onToggleSelectEvent) {
+      actions.push({
+        name: 'toggleSelection',
+        label: isSelected ? accessibility.deselect : accessibility.select,
+      });
+    }
+    return actions;
+  }, [
+    adjustStep,
+    eventInput,
+    isSelected,
+    locale,
+    onAdjustEvent,
+    onToggleSelectEvent,
+  ]);
+
+  const _adjustEvent = async (startChange: number, endChange: number) => {
+    let updatedEvent: OnEventResponse | undefined;
+    try {
+      updatedEvent = await onAdjustEvent?.(eventInput, {
+        start: startChange,
+        end: endChange,
+      });
+    } catch {
+      // Refused by `onDragEventEnd`, announced like the blocked drops
+    }
+    AccessibilityInfo.announceForAccessibility(
+      updatedEvent
+        ? getEventLabel(updatedEvent, locale, hourFormat, timeZone)
+        : locale.accessibility.actionUnavailable
+    );
+  };
+
+  const _onAccessibilityAction = ({
+    nativeEvent,
+  }: AccessibilityActionEvent) => {
+    switch (nativeEvent.actionName) {
+      case 'moveEarlier':
+        _adjustEvent(-adjustStep, -adjustStep);
+        break;
+      case 'moveLater':
+        _adjustEvent(adjustStep, adjustStep);
+        break;
+      case 'extend':
+        _adjustEvent(0, adjustStep);
+        break;
+      case 'shorten':
+        _adjustEvent(0, -adjustStep);
+        break;
+      case 'toggleSelection':
+        onToggleSelectEvent?.(eventInput);
+        break;
+    }
+  };
+
   const opacity = isDragging ? 0.5 : 1;
 
   return (
@@ -191,7 +390,12 @@ const EventItem: FC<EventItemProps> = ({
         activeOpacity={0.6}
         disabled={!onPressEvent && !onLongPressEvent}
         onPress={onPressEvent ? _onPressEvent : undefined}
-        onLongPress={onLongPressEvent ? _onLongPressEvent : undefined}>
+        onLongPress={onLongPressEvent ? _onLongPressEvent : undefined}
+        accessibilityRole="button"
+        accessibilityLabel={accessibilityLabel}
+        accessibilityState={{ selected: !!isSelected }}
+        accessibilityActions={accessibilityActions}
+        onAccessibilityAction={_onAccessibilityAction}>
         <View
           style={[
             styles.contentContainer,
@@ -199,12 +403,18 @@ const EventItem: FC<EventItemProps> = ({
             { backgroundColor: event.color },
             theme.eventContainerStyle,
             { opacity },
+            isSelected && [
+              styles.selected,
+              { borderColor: theme.primaryColor },
+            ],
           ]}>
           {renderEvent ? (
-            renderEvent(eventInput, {
-              width: eventWidth,
-              height: eventHeight,
-            })
+            renderEvent(
+              eventInput,
+              isHorizontal
+                ? { width: eventHeight, height: eventWidth }
+                : { width: eventWidth, height: eventHeight }
+            )
           ) : (
             <Text style={[styles.title, theme.eventTitleStyle]}>
               {event.title}
@@ -223,8 +433,12 @@ export default React.memo(EventItem, (prev, next) => {
     prev.startUnix === next.startUnix &&
     prev.renderEvent === next.renderEvent &&
     prev.isDragging === next.isDragging &&
+    prev.isSelected === next.isSelected &&
     prev.onPressEvent === next.onPressEvent &&
-    prev.onLongPressEvent === next.onLongPressEvent
+    prev.onLongPressEvent === next.onLongPressEvent &&
+    prev.onToggleSelectEvent === next.onToggleSelectEvent &&
+    prev.onAdjustEvent === next.onAdjustEvent &&
+    prev.adjustStep === next.adjustStep
   );
 });
 
@@ -238,4 +452,5 @@ const styles = StyleSheet.create({
     overflow: 'hidden',
   },
   overlapEvent: { borderWidth: 1, borderColor: '#FFF' },
+  selected: { borderWidth: 2 },
 });
@@ -9,7 +9,7 @@ import {
 } from '../context/DragEventProvider';
 import { useRegularEvents } from '../context/EventsProvider';
 import { useTimezone } from '../context/TimeZoneProvider';
-import type { PackedEvent } from '../types';
+import type { OnEventResponse, PackedEvent } from '../types';
 import { forceUpdateZone, parseDateTime } from '../utils/dateUtils';
 import EventItem from './EventItem';
 
@@ -19,9 +19,16 @@ const Events: FC<{
 }> = ({ startUnix, visibleDates }) => {
   const { renderEvent, numberOfDays } = useBody();
   const { onPressEvent, onLongPressEvent } = useActions();
-  const { draggingId, selectedEventId } = useDragEvent();
+  const {
+    draggingId,
+    selectedEventId,
+    selectedEventIds,
+    draggingGroup,
+    dragStep,
+  } = useDragEvent();
   const { timeZone } = useTimezone();
-  const { triggerDragEvent } = useDragEventActions();
+  const { triggerDragEvent, toggleSelectedEvent, adjustEvent } =
+    useDragEventActions();
   const { data: events } = useRegularEvents(
     startUnix,
     numberOfDays,
@@ -70,6 +77,17 @@ const Events: FC<{
     [onLongPressEvent]
   );
 
+  const _onPressEvent = useCallback(
+    (event: OnEventResponse) => {
+      if (toggleSelectedEvent && selectedEventIds.includes(event.localId)) {
+        toggleSelectedEvent(event);
+        return;
+      }
+      onPressEvent?.(event);
+    },
+    [onPressEvent, selectedEventIds, toggleSelectedEvent]
+  );
+
   if (events.length === 0) {
     return null;
   }
@@ -81,13 +99,19 @@ const Events: FC<{
         event={event}
         startUnix={startUnix}
         renderEvent={renderEvent}
-        onPressEvent={onPressEvent}
+        onPressEvent={toggleSelectedEvent ? _onPressEvent : onPressEvent}
         onLongPressEvent={
           triggerDragEvent ? _triggerDragEvent : _onLongPressEvent
         }
         isDragging={
-          draggingId === event.localId || selectedEventId === event.localId
+          draggingId === event.localId ||
+          selectedEventId === event.localId ||
+          (!!draggingGroup && selectedEventIds.includes(event.localId))
         }
+        isSelected={selectedEventIds.includes(event.localId)}
+        onToggleSelectEvent={toggleSelectedEvent}
+        onAdjustEvent={adjustEvent}
+        adjustStep={dragStep}
         visibleDates={visibleDates}
       />
     );
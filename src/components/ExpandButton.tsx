@@ -1,12 +1,15 @@
-import React, { useCallback } from 'react';
+import React, { useCallback, useState } from 'react';
 import type { ViewStyle } from 'react-native';
 import { StyleSheet, TouchableOpacity, View } from 'react-native';
 import type { SharedValue } from 'react-native-reanimated';
 import Animated, {
+  runOnJS,
+  useAnimatedReaction,
   useAnimatedStyle,
   useDerivedValue,
   withTiming,
 } from 'react-native-reanimated';
+import { useLocale } from '../context/LocaleProvider';
 import { useTheme } from '../context/ThemeProvider';
 
 interface ExpandButtonProps {
@@ -25,6 +28,18 @@ const ExpandButton = ({
   renderExpandIcon,
 }: ExpandButtonProps) => {
   const borderColor = useTheme(useCallback(({ colors }) => colors.border, []));
+  const { accessibility } = useLocale();
+  const [expanded, setExpanded] = useState(isExpanded.value);
+
+  // Label of the button, read by screen readers
+  useAnimatedReaction(
+    () => isExpanded.value,
+    (value, prevValue) => {
+      if (value !== prevValue) {
+        runOnJS(setExpanded)(value);
+      }
+    }
+  );
 
   const animStyle = useAnimatedStyle(() => {
     return {
@@ -73,7 +88,15 @@ const ExpandButton = ({
 
   return (
     <Animated.View style={[styles.btnContainer, containerStyle, animStyle]}>
-      <TouchableOpacity hitSlop={8} onPress={toggleExpand} activeOpacity={0.6}>
+      <TouchableOpacity
+        hitSlop={8}
+        onPress={toggleExpand}
+        activeOpacity={0.6}
+        accessibilityRole="button"
+        accessibilityLabel={
+          expanded ? accessibility.collapse : accessibility.expand
+        }
+        accessibilityState={{ expanded }}>
         {_renderExpandIcon()}
       </TouchableOpacity>
     </Animated.View>
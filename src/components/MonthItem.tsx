@@ -0,0 +1,505 @@
+import React, { useCallback, useMemo } from 'react';
+import { StyleSheet, TouchableOpacity, View } from 'react-native';
+import { MONTH_DAY_NUMBER_HEIGHT, MONTH_EVENT_SPACING } from '../constants';
+import { useActions } from '../context/ActionsProvider';
+import { useAllDayEvents, useMonthEvents } from '../context/EventsProvider';
+import { useHighlightDates } from '../context/HighlightDatesProvider';
+import { useLocale } from '../context/LocaleProvider';
+import { useMonth } from '../context/MonthContext';
+import { useNowIndicator } from '../context/NowIndicatorProvider';
+import { useTheme } from '../context/ThemeProvider';
+import type {
+  OnEventResponse,
+  PackedAllDayEvent,
+  PackedEvent,
+  ThemeConfigs,
+} from '../types';
+import {
+  dateTimeToISOString,
+  localizeDigits,
+  parseDateTime,
+  plusDays,
+  toHourStr,
+} from '../utils/dateUtils';
+import { prepareMonthGrid } from '../utils/utils';
+import LoadingOverlay from './Loading/Overlay';
+import Text from './Text';
+
+interface MonthItemProps {
+  startOfMonthUnix: number;
+}
+
+const MonthItem: React.FC<MonthItemProps> = ({ startOfMonthUnix }) => {
+  const { firstDay, pageHeight } = useMonth();
+
+  const monthGrid = useMemo(
+    () => prepareMonthGrid(startOfMonthUnix, firstDay),
+    [startOfMonthUnix, firstDay]
+  );
+
+  const rowHeight = pageHeight / monthGrid.weekStarts.length;
+
+  return (
+    <View style={{ height: pageHeight }}>
+      {monthGrid.weekStarts.map((weekStart) => (
+        <WeekRow
+          key={`week_${weekStart}`}
+          weekStart={weekStart}
+          height={rowHeight}
+          startOfMonthUnix={monthGrid.startOfMonthUnix}
+          endOfMonthUnix={monthGrid.endOfMonthUnix}
+        />
+      ))}
+      <LoadingOverlay />
+    </View>
+  );
+};
+
+export default MonthItem;
+
+interface PlacedEvent {
+  event: PackedEvent;
+  column: number;
+  slot: number;
+}
+
+interface WeekLayout {
+  allDayEvents: PackedAllDayEvent[];
+  regularEvents: PlacedEvent[];
+  moreCounts: { column: number; count: number; slot: number }[];
+}
+
+/**
+ * Place the events of a week row into the slots of each day cell.
+ *
+ * All-day events keep their `rowIndex` from the header packing so that
+ * multi-day chips stay on a single line. Timed events fill the free slots.
+ * When a day does not have enough room, its last slot is used by the "+N
+ * more" label.
+ */
+const layoutWeekEvents = (
+  columns: number,
+  dayUnixList: number[],
+  allDayEvents: PackedAllDayEvent[],
+  regularEvents: Record<string, PackedEvent[]>,
+  maxSlots: number
+): WeekLayout => {
+  const allDayByColumn: PackedAllDayEvent[][] = [];
+  const timedByColumn: PackedEvent[][] = [];
+  const limits: number[] = [];
+
+  for (let column = 0; column < columns; column++) {
+    const bars = allDayEvents.filter(
+      (event) =>
+        event._internal.startIndex <= column &&
+        column < event._internal.startIndex + event._internal.columnSpan
+    );
+    const dayUnix = dayUnixList[column];
+    const timed = dayUnix
+      ? (regularEvents[dayUnix] ?? [])
+          .slice()
+          .sort((a, b) => a._internal.startUnix - b._internal.startUnix)
+      : [];
+    const maxRow = bars.reduce(
+      (max, event) => Math.max(max, event._internal.rowIndex),
+      -1
+    );
+    const neededSlots = Math.max(maxRow + 1, bars.length + timed.length);
+    allDayByColumn.push(bars);
+    timedByColumn.push(timed);
+    limits.push(neededSlots > maxSlots ? maxSlots - 1 : maxSlots);
+  }
+
+  const visibleAllDayEvents = allDayEvents.filter((event) => {
+    const { startIndex, columnSpan, rowIndex } = event._internal;
+    for (let column = startIndex; column < startIndex + columnSpan; column++) {
+      if (rowIndex >= (limits[column] ?? 0)) {
+        return false;
+      }
+    }
+    return true;
+  });
+
+  const placedEvents: PlacedEvent[] = [];
+  const moreCounts: WeekLayout['moreCounts'] = [];
+  for (let column = 0; column < columns; column++) {
+    const limit = Math.max(limits[column] ?? 0, 0);
+    const occupied = new Set<number>();
+    let shownCount = 0;
+    allDayByColumn[column]!.forEach((event) => {
+      if (visibleAllDayEvents.includes(event)) {
+        occupied.add(event._internal.rowIndex);
+        shownCount++;
+      }
+    });
+
+    let slot = 0;
+    for (const event of timedByColumn[column]!) {
+      while (occupied.has(slot)) {
+        slot++;
+      }
+      if (slot >= limit) {
+        break;
+      }
+      placedEvents.push({ event, column, slot });
+      occupied.add(slot);
+      shownCount++;
+    }
+
+    const total =
+      allDayByColumn[column]!.length + timedByColumn[column]!.length;
+    if (total > shownCount) {
+      moreCounts.push({ column, count: total - shownCount, slot: limit });
+    }
+  }
+
+  return {
+    allDayEvents: visibleAllDayEvents,
+    regularEvents: placedEvents,
+    moreCounts,
+  };
+};
+
+interface WeekRowProps {
+  weekStart: number;
+  height: number;
+  startOfMonthUnix: number;
+  endOfMonthUnix: number;
+}
+
+const WeekRow: React.FC<WeekRowProps> = ({
+  weekStart,
+  height,
+  startOfMonthUnix,
+  endOfMonthUnix,
+}) => {
+  const { columnWidth, eventHeight, hideWeekDays, isRTL } = useMonth();
+  const locale = useLocale();
+  const { onPressDayNumber } = useActions();
+  const moreTextStyle = useTheme(
+    useCallback((state) => state.monthMoreText, [])
+  );
+
+  const { dayUnixList, visibleDays } = useMemo(() => {
+    const list: number[] = [];
+    const days: Record<number, { unix: number }> = {};
+    for (let i = 0; i < 7; i++) {
+      const dateUnix = plusDays(weekStart, i);
+      const weekday = parseDateTime(dateUnix).weekday;
+      if (!hideWeekDays.includes(weekday)) {
+        list.push(dateUnix);
+        days[dateUnix] = { unix: dateUnix };
+      }
+    }
+    return { dayUnixList: list, visibleDays: days };
+  }, [hideWeekDays, weekStart]);
+
+  const { data: allDayEvents } = useAllDayEvents(weekStart, 7, visibleDays);
+  const { data: regularEvents } = useMonthEvents(weekStart, 7, dayUnixList);
+
+  const slotHeight = eventHeight + MONTH_EVENT_SPACING;
+  const maxSlots = Math.max(
+    Math.floor((height - MONTH_DAY_NUMBER_HEIGHT) / slotHeight),
+    0
+  );
+
+  const weekLayout = useMemo(
+    () =>
+      layoutWeekEvents(
+        dayUnixList.length,
+        dayUnixList,
+        allDayEvents,
+        regularEvents,
+        maxSlots
+      ),
+    [allDayEvents, dayUnixList, maxSlots, regularEvents]
+  );
+
+  const _onPressMore = (column: number) => {
+    const dayUnix = dayUnixList[column];
+    if (dayUnix) {
+      onPressDayNumber?.(dateTimeToISOString(parseDateTime(dayUnix)));
+    }
+  };
+
+  return (
+    <View style={[styles.weekRow, isRTL && styles.rowReverse, { height }]}>
+      {dayUnixList.map((dayUnix) => (
+        <DayCell
+          key={`day_${dayUnix}`}
+          dateUnix={dayUnix}
+          isOutside={dayUnix < startOfMonthUnix || dayUnix > endOfMonthUnix}
+        />
+      ))}
+      <View
+        pointerEvents="box-none"
+        style={[styles.eventsContainer, { top: MONTH_DAY_NUMBER_HEIGHT }]}>
+        {weekLayout.allDayEvents.map((event) => (
+          <EventChip
+            key={event.localId}
+            event={event}
+            left={event._internal.startIndex * columnWidth}
+            top={event._internal.rowIndex * slotHeight}
+            width={event._internal.columnSpan * columnWidth}
+          />
+        ))}
+        {weekLayout.regularEvents.map(({ event, column, slot }) => (
+          <EventChip
+            key={event.localId}
+            event={event}
+            left={column * columnWidth}
+            top={slot * slotHeight}
+            width={columnWidth}
+          />
+        ))}
+        {weekLayout.moreCounts.map(({ column, count, slot }) => (
+          <TouchableOpacity
+            key={`more_${column}`}
+            activeOpacity={0.6}
+            disabled={!onPressDayNumber}
+            onPress={() => _onPressMore(column)}
+            style={[
+              styles.moreContainer,
+              isRTL
+                ? { right: column * columnWidth }
+                : { left: column * columnWidth },
+              {
+                top: slot * slotHeight,
+                width: columnWidth,
+                height: eventHeight,
+              },
+            ]}>
+            <Text style={[styles.moreText, moreTextStyle]} numberOfLines={1}>
+              {locale.more.replace(
+                '{count}',
+                localizeDigits(count, locale.numberingSystem)
+              )}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+    </View>
+  );
+};
+
+const selectDayCellTheme = (state: ThemeConfigs) => ({
+  colors: state.colors,
+  monthDayContainer: state.monthDayContainer,
+  monthDayNumber: state.monthDayNumber,
+  monthDayNumberContainer: state.monthDayNumberContainer,
+  monthOutsideDayNumber: state.monthOutsideDayNumber,
+  todayNumberContainer: state.todayNumberContainer || {
+    backgroundColor: state.colors.primary,
+  },
+  todayNumber: state.todayNumber || { color: state.colors.onPrimary },
+});
+
+const DayCell: React.FC<{ dateUnix: number; isOutside: boolean }> = ({
+  dateUnix,
+  isOutside,
+}) => {
+  const { columnWidth, isRTL } = useMonth();
+  const { currentDateUnix } = useNowIndicator();
+  const { onPressDayNumber } = useActions();
+  const { numberingSystem } = useLocale();
+  const highlightDates = useHighlightDates(dateUnix);
+  const {
+    colors,
+    monthDayContainer,
+    monthDayNumber,
+    monthDayNumberContainer,
+    monthOutsideDayNumber,
+    todayNumberContainer,
+    todayNumber,
+  } = useTheme(selectDayCellTheme);
+
+  const date = useMemo(() => parseDateTime(dateUnix), [dateUnix]);
+  const isToday = dateUnix === currentDateUnix;
+
+  const customStyle = useMemo(() => {
+    let container = isToday ? todayNumberContainer : monthDayNumberContainer;
+    let numText = isToday ? todayNumber : monthDayNumber;
+    if (highlightDates) {
+      const isOverride = isToday && highlightDates.isTodayOverride;
+      if (!isToday || isOverride) {
+        container = highlightDates.dayNumberContainer ?? container;
+        numText = highlightDates.dayNumber ?? numText;
+      }
+    }
+    if (isOutside && !isToday) {
+      numText = StyleSheet.flatten([
+        styles.outsideDayNumber,
+        numText,
+        monthOutsideDayNumber,
+      ]);
+    }
+    return { container, numText };
+  }, [
+    highlightDates,
+    isOutside,
+    isToday,
+    monthDayNumber,
+    monthDayNumberContainer,
+    monthOutsideDayNumber,
+    todayNumber,
+    todayNumberContainer,
+  ]);
+
+  const _onDayPress = () => {
+    onPressDayNumber?.(dateTimeToISOString(date));
+  };
+
+  return (
+    <View
+      style={[
+        styles.dayContainer,
+        isRTL && styles.dayContainerRTL,
+        { width: columnWidth, borderColor: colors.border },
+        monthDayContainer,
+      ]}>
+      <TouchableOpacity
+        activeOpacity={0.6}
+        disabled={!onPressDayNumber}
+        onPress={_onDayPress}
+        style={[styles.dayNumContainer, customStyle.container]}>
+        <Text
+          style={[
+            styles.dayNumText,
+            { color: colors.text },
+            customStyle.numText,
+          ]}>
+          {localizeDigits(date.day, numberingSystem)}
+        </Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+interface EventChipProps {
+  event: PackedEvent | PackedAllDayEvent;
+  /** Offset from the start edge of the week row */
+  left: number;
+  top: number;
+  width: number;
+}
+
+const EventChip: React.FC<EventChipProps> = ({ event, left, top, width }) => {
+  const { eventHeight, hourFormat, rightEdgeSpacing, renderMonthEvent, isRTL } =
+    useMonth();
+  const { onPressEvent } = useActions();
+  const locale = useLocale();
+  const { _internal, ...rest } = event;
+  const chipWidth = width - rightEdgeSpacing;
+  const isTimedEvent = !('rowIndex' in _internal);
+
+  const _onPressEvent = () => {
+    onPressEvent?.(rest as OnEventResponse);
+  };
+
+  const _renderContent = () => {
+    if (renderMonthEvent) {
+      return renderMonthEvent(event, { width: chipWidth, height: eventHeight });
+    }
+
+    if (isTimedEvent) {
+      const time = toHourStr(
+        _internal.startMinutes ?? 0,
+        hourFormat,
+        locale.meridiem,
+        locale.numberingSystem
+      );
+      return (
+        <View style={styles.timedEventContent}>
+          <View
+            style={[styles.dot, { backgroundColor: rest.color ?? '#ccc' }]}
+          />
+          <Text
+            style={[styles.timedEventTitle, rest.titleStyle]}
+            numberOfLines={1}>
+            {`${time} ${rest.title ?? ''}`}
+          </Text>
+        </View>
+      );
+    }
+
+    return (
+      <View
+        style={[
+          styles.allDayEventContent,
+          { backgroundColor: rest.color ?? '#ccc' },
+          rest.containerStyle,
+        ]}>
+        <Text style={[styles.eventTitle, rest.titleStyle]} numberOfLines={1}>
+          {rest.title}
+        </Text>
+      </View>
+    );
+  };
+
+  return (
+    <TouchableOpacity
+      activeOpacity={0.6}
+      disabled={!onPressEvent}
+      onPress={_onPressEvent}
+      style={[
+        styles.eventContainer,
+        isRTL ? { right: left } : { left },
+        { top, width: chipWidth, height: eventHeight },
+      ]}>
+      {_renderContent()}
+    </TouchableOpacity>
+  );
+};
+
+const styles = StyleSheet.create({
+  weekRow: { flexDirection: 'row' },
+  rowReverse: { flexDirection: 'row-reverse' },
+  dayContainer: {
+    height: '100%',
+    alignItems: 'center',
+    borderLeftWidth: StyleSheet.hairlineWidth,
+    borderTopWidth: StyleSheet.hairlineWidth,
+  },
+  dayContainerRTL: {
+    borderLeftWidth: 0,
+    borderRightWidth: StyleSheet.hairlineWidth,
+  },
+  dayNumContainer: {
+    marginTop: 2,
+    width: 22,
+    height: 22,
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderRadius: 11,
+  },
+  dayNumText: { fontSize: 12, fontWeight: '500' },
+  outsideDayNumber: { opacity: 0.4 },
+  eventsContainer: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    bottom: 0,
+  },
+  eventContainer: { position: 'absolute', overflow: 'hidden' },
+  allDayEventContent: {
+    flex: 1,
+    borderRadius: 2,
+    paddingHorizontal: 2,
+    justifyContent: 'center',
+  },
+  eventTitle: { fontSize: 10, color: '#FFF', paddingHorizontal: 2 },
+  timedEventContent: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 2,
+  },
+  dot: { width: 6, height: 6, borderRadius: 3, marginRight: 2 },
+  timedEventTitle: { fontSize: 10, flexShrink: 1 },
+  moreContainer: {
+    position: 'absolute',
+    justifyContent: 'center',
+    paddingHorizontal: 4,
+  },
+  moreText: { fontSize: 10 },
+});
@@ -8,6 +8,10 @@ import Animated, {
 } from 'react-native-reanimated';
 import { useActions } from '../context/ActionsProvider';
 import { useHeader } from '../context/DayBarContext';
+import {
+  useDragEvent,
+  useDragEventActions,
+} from '../context/DragEventProvider';
 import { useAllDayEvents } from '../context/EventsProvider';
 import { useTheme } from '../context/ThemeProvider';
 import { useTimezone } from '../context/TimeZoneProvider';
@@ -63,10 +67,12 @@ const MultiDayBarItem: React.FC<MultiDayBarItemProps> = ({
     numberOfDays,
     allDayEventsHeight,
     columnWidth,
+    isRTL,
   } = useHeader();
   const { timeZone } = useTimezone();
   const { onPressEvent, onPressBackground, onLongPressBackground } =
     useActions();
+  const { triggerDragEvent } = useDragEventActions();
 
   const visibleDates = useMemo(() => {
     const data: Record<string, { unix: number }> = {};
@@ -86,8 +92,14 @@ const MultiDayBarItem: React.FC<MultiDayBarItemProps> = ({
     visibleDates
   );
 
+  const _getColumnIndex = (event: GestureResponderEvent) => {
+    const { locationX } = event.nativeEvent;
+    const x = isRTL ? columns * columnWidth - locationX : locationX;
+    return Math.floor(x / columnWidth);
+  };
+
   const _onPressBackground = (event: GestureResponderEvent) => {
-    const columnIndex = Math.floor(event.nativeEvent.locationX / columnWidth);
+    const columnIndex = _getColumnIndex(event);
     const dayIndex = pageIndex + columnIndex;
     const dayUnix = calendarData.visibleDatesArray[dayIndex];
     if (dayUnix) {
@@ -98,7 +110,7 @@ const MultiDayBarItem: React.FC<MultiDayBarItemProps> = ({
   };
 
   const _onLongPressBackground = (event: GestureResponderEvent) => {
-    const columnIndex = Math.floor(event.nativeEvent.locationX / columnWidth);
+    const columnIndex = _getColumnIndex(event);
     const dayIndex = pageIndex + columnIndex;
     const dayUnix = calendarData.visibleDatesArray[dayIndex];
     if (dayUnix) {
@@ -108,6 +120,28 @@ const MultiDayBarItem: React.FC<MultiDayBarItemProps> = ({
     }
   };
 
+  const _triggerDragEvent = (event: PackedAllDayEvent, columnIndex: number) => {
+    const dayUnix =
+      calendarData.visibleDatesArray[
+        pageIndex + event._internal.startIndex + columnIndex
+      ];
+    if (!event.start.date || !event.end.date || !dayUnix) {
+      return;
+    }
+
+    const startIndex = Math.round(
+      parseDateTime(dayUnix).diff(parseDateTime(event.start.date), 'days').days
+    );
+    triggerDragEvent!(
+      {
+        start: { date: event.start.date },
+        end: { date: event.end.date },
+        startIndex,
+      },
+      event
+    );
+  };
+
   const eventsContainerStyle = useAnimatedStyle(() => ({
     height: allDayEventsHeight.value,
   }));
@@ -133,6 +167,7 @@ const MultiDayBarItem: React.FC<MultiDayBarItemProps> = ({
         key={event.localId}
         event={event}
         onPressEvent={onPressEvent}
+        onLongPressEvent={triggerDragEvent ? _triggerDragEvent : undefined}
         renderEvent={renderEvent}
       />
     );
@@ -165,6 +200,7 @@ const MultiDayBarItem: React.FC<MultiDayBarItemProps> = ({
       <View
         style={[
           styles.container,
+          isRTL && styles.rowReverse,
           dayBarStyles.dayBarContainer,
           { height: dayBarHeight },
         ]}>
@@ -183,7 +219,11 @@ const MultiDayBarItem: React.FC<MultiDayBarItemProps> = ({
         {events.map(_renderEvent)}
       </Animated.View>
       <View
-        style={[styles.bottomContainer, dayBarStyles.headerBottomContainer]}>
+        style={[
+          styles.bottomContainer,
+          isRTL && styles.bottomContainerRTL,
+          dayBarStyles.headerBottomContainer,
+        ]}>
         {Object.keys(visibleDates).map(_renderBottomColumn)}
       </View>
       <LoadingOverlay />
@@ -207,7 +247,7 @@ const BottomColumn = ({
   countContainerStyle?: ViewStyle;
   countTextStyle?: TextStyle;
 }) => {
-  const { collapsedItems, isExpanded, headerBottomHeight } = useHeader();
+  const { collapsedItems, isExpanded, headerBottomHeight, isRTL } = useHeader();
   const isShowCount = count && count > collapsedItems;
   const animStyle = useAnimatedStyle(() => ({
     width: columnWidth.value,
@@ -220,7 +260,12 @@ const BottomColumn = ({
 
   return (
     <Animated.View style={animStyle}>
-      <View style={[styles.bottomLine, { backgroundColor: borderColor }]} />
+      <View
+        style={[
+          isRTL ? styles.bottomLineRTL : styles.bottomLine,
+          { backgroundColor: borderColor },
+        ]}
+      />
       {isShowCount && (
         <Animated.View
           style={[
@@ -247,10 +292,12 @@ const BottomColumn = ({
 const EventItem = ({
   event,
   onPressEvent,
+  onLongPressEvent,
   renderEvent,
 }: {
   event: PackedAllDayEvent;
   onPressEvent?: (event: OnEventResponse) => void;
+  onLongPressEvent?: (event: PackedAllDayEvent, columnIndex: number) => void;
   renderEvent?: (
     event: PackedAllDayEvent,
     size: SizeAnimation
@@ -262,8 +309,15 @@ const EventItem = ({
     eventHeight: height,
     isExpanded,
     overlapEventsSpacing,
+    isRTL,
   } = useHeader();
+  const { draggingId, selectedEventIds, draggingGroup } = useDragEvent();
+  const { toggleSelectedEvent } = useDragEventActions();
+  const primaryColor = useTheme(
+    useCallback((state) => state.colors.primary, [])
+  );
   const { _internal, ...rest } = event;
+  const isSelected = selectedEventIds.includes(event.localId);
 
   const eventWidth = useDerivedValue(
     () => _internal.columnSpan * columnWidthAnim.value - rightEdgeSpacing,
@@ -289,7 +343,7 @@ const EventItem = ({
   const eventContainerStyle = useAnimatedStyle(() => {
     return {
       position: 'absolute',
-      left: left.value,
+      ...(isRTL ? { right: left.value } : { left: left.value }),
       width: eventWidth.value,
       top: top.value,
       height: eventHeight.value,
@@ -298,21 +352,39 @@ const EventItem = ({
   });
 
   const _onPressEvent = () => {
+    if (toggleSelectedEvent && isSelected) {
+      toggleSelectedEvent(rest);
+      return;
+    }
     if (onPressEvent) {
       onPressEvent(rest);
     }
   };
 
+  const _onLongPressEvent = (e: GestureResponderEvent) => {
+    const { locationX } = e.nativeEvent;
+    const x = isRTL ? eventWidth.value - locationX : locationX;
+    const columnIndex = Math.min(
+      Math.max(Math.floor(x / columnWidthAnim.value), 0),
+      _internal.columnSpan - 1
+    );
+    onLongPressEvent!(event, columnIndex);
+  };
+
   return (
     <Animated.View style={eventContainerStyle}>
       <TouchableOpacity
         activeOpacity={0.6}
-        disabled={!onPressEvent}
+        disabled={!onPressEvent && !onLongPressEvent && !toggleSelectedEvent}
         onPress={_onPressEvent}
+        onLongPress={onLongPressEvent ? _onLongPressEvent : undefined}
         style={[
           styles.eventContent,
           { backgroundColor: rest.color ?? '#ccc' },
           rest.containerStyle,
+          (draggingId === event.localId || (!!draggingGroup && isSelected)) &&
+            styles.dragging,
+          isSelected && [styles.selected, { borderColor: primaryColor }],
         ]}>
         {renderEvent ? (
           renderEvent(event, {
@@ -329,6 +401,7 @@ const EventItem = ({
 
 const styles = StyleSheet.create({
   container: { flexDirection: 'row', alignItems: 'center' },
+  rowReverse: { flexDirection: 'row-reverse' },
   eventContent: {
     ...StyleSheet.absoluteFillObject,
     overflow: 'hidden',
@@ -337,6 +410,8 @@ const styles = StyleSheet.create({
     paddingVertical: 1,
   },
   eventTitle: { fontSize: 10, color: '#FFF', paddingHorizontal: 2 },
+  dragging: { opacity: 0.5 },
+  selected: { borderWidth: 2 },
   bottomLine: {
     position: 'absolute',
     height: 16,
@@ -344,11 +419,19 @@ const styles = StyleSheet.create({
     bottom: 0,
     left: 0,
   },
+  bottomLineRTL: {
+    position: 'absolute',
+    height: 16,
+    width: 1,
+    bottom: 0,
+    right: 0,
+  },
   bottomContainer: {
     flexDirection: 'row',
     position: 'absolute',
     bottom: 0,
   },
+  bottomContainerRTL: { flexDirection: 'row-reverse', right: 0 },
   countContainer: {
     justifyContent: 'center',
     alignItems: 'center',
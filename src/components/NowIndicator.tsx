@@ -23,7 +23,10 @@ const NowIndicatorInner = ({ dayIndex, currentTime }: NowIndicatorProps) => {
     startOffset,
     columnWidthAnim,
     NowIndicatorComponent,
+    orientation,
+    isRTL,
   } = useBody();
+  const isHorizontal = orientation === 'horizontal';
   const nowIndicatorColor = useTheme(
     useCallback((state) => state.nowIndicatorColor || state.colors.primary, [])
   );
@@ -37,10 +40,19 @@ const NowIndicatorInner = ({ dayIndex, currentTime }: NowIndicatorProps) => {
   }, [start, end]);
 
   const animView = useAnimatedStyle(() => {
+    const position = currentTime.value * minuteHeight.value - startOffset.value;
+    if (isHorizontal) {
+      return {
+        height: columnWidthAnim.value,
+        top: left.value,
+        left: position,
+        opacity: opacity.value,
+      };
+    }
     return {
       width: columnWidthAnim.value,
-      left: left.value,
-      top: currentTime.value * minuteHeight.value - startOffset.value,
+      ...(isRTL ? { right: left.value } : { left: left.value }),
+      top: position,
       opacity: opacity.value,
     };
   });
@@ -50,9 +62,27 @@ const NowIndicatorInner = ({ dayIndex, currentTime }: NowIndicatorProps) => {
       pointerEvents="box-none"
       style={[styles.container, animView]}>
       {NowIndicatorComponent || (
-        <View style={styles.lineContainer}>
-          <View style={[styles.line, { backgroundColor: nowIndicatorColor }]} />
-          <View style={[styles.dot, { backgroundColor: nowIndicatorColor }]} />
+        <View
+          style={
+            isHorizontal ? styles.lineContainerVertical : styles.lineContainer
+          }>
+          <View
+            style={[
+              isHorizontal ? styles.lineVertical : styles.line,
+              { backgroundColor: nowIndicatorColor },
+            ]}
+          />
+          <View
+            style={[
+              styles.dot,
+              isHorizontal
+                ? styles.dotTop
+                : isRTL
+                  ? styles.dotRight
+                  : styles.dotLeft,
+              { backgroundColor: nowIndicatorColor },
+            ]}
+          />
         </View>
       )}
     </Animated.View>
@@ -97,9 +127,21 @@ const styles = StyleSheet.create({
     borderRadius: 4,
     backgroundColor: '#007aff',
     position: 'absolute',
-    left: -4,
   },
+  dotLeft: { left: -4 },
+  dotRight: { right: -4 },
+  dotTop: { top: -4, left: -3 },
   lineContainer: {
     justifyContent: 'center',
   },
+  lineVertical: {
+    position: 'absolute',
+    width: 2,
+    backgroundColor: '#007aff',
+    height: '100%',
+  },
+  lineContainerVertical: {
+    height: '100%',
+    alignItems: 'center',
+  },
 });
@@ -0,0 +1,88 @@
+import React, { useCallback } from 'react';
+import { StyleSheet, View } from 'react-native';
+import { useCalendar } from '../context/CalendarProvider';
+import { useTheme } from '../context/ThemeProvider';
+import type { CalendarHeaderProps } from '../types';
+import Text from './Text';
+
+interface ResourceHeaderProps {
+  height: number;
+  renderResource?: CalendarHeaderProps['renderResource'];
+}
+
+const ResourceHeader: React.FC<ResourceHeaderProps> = ({
+  height,
+  renderResource,
+}) => {
+  const { resources = [], hourWidth, columnWidth, isRTL } = useCalendar();
+  const headerStyles = useTheme(
+    useCallback(
+      (state) => ({
+        borderColor: state.colors.border,
+        textColor: state.colors.text,
+        resourceHeaderContainer: state.resourceHeaderContainer,
+        resourceTitle: state.resourceTitle,
+      }),
+      []
+    )
+  );
+
+  const resourceWidth = columnWidth / Math.max(resources.length, 1);
+
+  return (
+    <View
+      style={[
+        styles.container,
+        isRTL && styles.containerRTL,
+        { height, borderColor: headerStyles.borderColor },
+        headerStyles.resourceHeaderContainer,
+      ]}>
+      <View style={{ width: hourWidth }} />
+      {resources.map((resource) => (
+        <View
+          key={resource.id}
+          style={[
+            styles.resource,
+            isRTL && styles.resourceRTL,
+            { width: resourceWidth, borderColor: headerStyles.borderColor },
+          ]}>
+          {renderResource ? (
+            renderResource(resource, { width: resourceWidth, height })
+          ) : (
+            <Text
+              style={[
+                styles.title,
+                { color: headerStyles.textColor },
+                headerStyles.resourceTitle,
+              ]}
+              numberOfLines={1}>
+              {resource.title ?? resource.id}
+            </Text>
+          )}
+        </View>
+      ))}
+    </View>
+  );
+};
+
+export default React.memo(ResourceHeader);
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    borderTopWidth: StyleSheet.hairlineWidth,
+  },
+  containerRTL: { flexDirection: 'row-reverse' },
+  resource: {
+    height: '100%',
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 2,
+    borderLeftWidth: StyleSheet.hairlineWidth,
+  },
+  resourceRTL: {
+    borderLeftWidth: 0,
+    borderRightWidth: StyleSheet.hairlineWidth,
+  },
+  title: { fontSize: 12, fontWeight: '500' },
+});
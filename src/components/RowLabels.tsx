@@ -0,0 +1,95 @@
+import React, { useCallback } from 'react';
+import { StyleSheet, View } from 'react-native';
+import { useCalendar } from '../context/CalendarProvider';
+import { useTheme } from '../context/ThemeProvider';
+import type { CalendarHeaderProps } from '../types';
+import DayItem from './DayItem';
+import Text from './Text';
+
+interface RowLabelsProps {
+  dates: number[];
+  renderResource?: CalendarHeaderProps['renderResource'];
+}
+
+/** Day (or resource) labels in front of the rows of the horizontal timeline */
+const RowLabels: React.FC<RowLabelsProps> = ({ dates, renderResource }) => {
+  const { resources, hourWidth, columnWidth } = useCalendar();
+  const labelStyles = useTheme(
+    useCallback(
+      (state) => ({
+        borderColor: state.colors.border,
+        textColor: state.colors.text,
+        backgroundColor: state.colors.background,
+        resourceHeaderContainer: state.resourceHeaderContainer,
+        resourceTitle: state.resourceTitle,
+      }),
+      []
+    )
+  );
+
+  const _renderResources = () => {
+    const height = columnWidth / Math.max(resources?.length ?? 1, 1);
+    return resources?.map((resource) => (
+      <View
+        key={resource.id}
+        style={[
+          styles.row,
+          { height, borderColor: labelStyles.borderColor },
+          labelStyles.resourceHeaderContainer,
+        ]}>
+        {renderResource ? (
+          renderResource(resource, { width: hourWidth, height })
+        ) : (
+          <Text
+            style={[
+              styles.title,
+              { color: labelStyles.textColor },
+              labelStyles.resourceTitle,
+            ]}
+            numberOfLines={2}>
+            {resource.title ?? resource.id}
+          </Text>
+        )}
+      </View>
+    ));
+  };
+
+  return (
+    <View
+      style={[
+        styles.container,
+        {
+          width: hourWidth,
+          paddingTop: hourWidth,
+          borderColor: labelStyles.borderColor,
+          backgroundColor: labelStyles.backgroundColor,
+        },
+      ]}>
+      {resources?.length
+        ? _renderResources()
+        : dates.map((dateUnix) => (
+            <View
+              key={dateUnix}
+              style={[
+                styles.row,
+                { height: columnWidth, borderColor: labelStyles.borderColor },
+              ]}>
+              <DayItem dateUnix={dateUnix} />
+            </View>
+          ))}
+    </View>
+  );
+};
+
+export default React.memo(RowLabels);
+
+const styles = StyleSheet.create({
+  container: { borderRightWidth: 1 },
+  row: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 2,
+    borderTopWidth: StyleSheet.hairlineWidth,
+  },
+  title: { fontSize: 12, fontWeight: '500', textAlign: 'center' },
+});
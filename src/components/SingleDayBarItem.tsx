@@ -10,6 +10,10 @@ import Animated, {
 import { COLLAPSED_ITEMS } from '../constants';
 import { useActions } from '../context/ActionsProvider';
 import { useHeader } from '../context/DayBarContext';
+import {
+  useDragEvent,
+  useDragEventActions,
+} from '../context/DragEventProvider';
 import { useAllDayEventsByDay } from '../context/EventsProvider';
 import { useLocale } from '../context/LocaleProvider';
 import { useTheme } from '../context/ThemeProvider';
@@ -26,6 +30,7 @@ import Text from './Text';
 import {
   dateTimeToISOString,
   forceUpdateZone,
+  localizeDigits,
   parseDateTime,
 } from '../utils/dateUtils';
 import { useTimezone } from '../context/TimeZoneProvider';
@@ -71,11 +76,32 @@ const SingleDayBarItem = ({
     headerBottomHeight,
     columnWidth,
     calendarData,
+    isRTL,
   } = useHeader();
   const { timeZone } = useTimezone();
   const { data: events, eventCounts } = useAllDayEventsByDay(startUnix);
   const { onPressEvent, onPressBackground, onLongPressBackground } =
     useActions();
+  const { triggerDragEvent } = useDragEventActions();
+
+  const _triggerDragEvent = (event: PackedAllDayEvent) => {
+    if (!event.start.date || !event.end.date) {
+      return;
+    }
+
+    const startIndex = Math.round(
+      parseDateTime(startUnix).diff(parseDateTime(event.start.date), 'days')
+        .days
+    );
+    triggerDragEvent!(
+      {
+        start: { date: event.start.date },
+        end: { date: event.end.date },
+        startIndex,
+      },
+      event
+    );
+  };
 
   const _renderEvent = (event: PackedAllDayEvent) => {
     return (
@@ -83,6 +109,7 @@ const SingleDayBarItem = ({
         key={event.localId}
         event={event}
         onPressEvent={onPressEvent}
+        onLongPressEvent={triggerDragEvent ? _triggerDragEvent : undefined}
         renderEvent={renderEvent}
       />
     );
@@ -129,11 +156,16 @@ const SingleDayBarItem = ({
   const _renderSingleDay = () => {
     if (useAllDayEvent) {
       return (
-        <View style={[styles.container, dayBarStyles.singleDayContainer]}>
+        <View
+          style={[
+            styles.container,
+            isRTL && styles.containerRTL,
+            dayBarStyles.singleDayContainer,
+          ]}>
           <View
             style={[
-              styles.dayItemContainer,
-              { width: hourWidth, borderRightColor: dayBarStyles.borderColor },
+              isRTL ? styles.dayItemContainerRTL : styles.dayItemContainer,
+              { width: hourWidth, borderColor: dayBarStyles.borderColor },
             ]}>
             <DayItem dateUnix={startUnix} />
             <ExpandButton
@@ -191,10 +223,12 @@ export default SingleDayBarItem;
 const EventItem = ({
   event,
   onPressEvent,
+  onLongPressEvent,
   renderEvent,
 }: {
   event: PackedAllDayEvent;
   onPressEvent?: (event: OnEventResponse) => void;
+  onLongPressEvent?: (event: PackedAllDayEvent) => void;
   renderEvent?: (
     event: PackedAllDayEvent,
     size: SizeAnimation
@@ -207,7 +241,13 @@ const EventItem = ({
     rightEdgeSpacing,
     overlapEventsSpacing,
   } = useHeader();
+  const { draggingId, selectedEventIds, draggingGroup } = useDragEvent();
+  const { toggleSelectedEvent } = useDragEventActions();
+  const primaryColor = useTheme(
+    useCallback((state) => state.colors.primary, [])
+  );
   const { _internal, ...rest } = event;
+  const isSelected = selectedEventIds.includes(event.localId);
   const eventWidth = useDerivedValue(() => {
     return columnWidthAnim.value - rightEdgeSpacing;
   });
@@ -228,21 +268,33 @@ const EventItem = ({
   }));
 
   const _onPressEvent = () => {
+    if (toggleSelectedEvent && isSelected) {
+      toggleSelectedEvent(rest);
+      return;
+    }
     if (onPressEvent) {
       onPressEvent(rest);
     }
   };
 
+  const _onLongPressEvent = () => {
+    onLongPressEvent!(event);
+  };
+
   return (
     <Animated.View style={eventContainerStyle}>
       <TouchableOpacity
         activeOpacity={0.6}
-        disabled={!onPressEvent}
+        disabled={!onPressEvent && !onLongPressEvent && !toggleSelectedEvent}
         onPress={_onPressEvent}
+        onLongPress={onLongPressEvent ? _onLongPressEvent : undefined}
         style={[
           styles.eventContent,
           { backgroundColor: rest.color ?? '#ccc' },
           rest.containerStyle,
+          (draggingId === event.localId || (!!draggingGroup && isSelected)) &&
+            styles.dragging,
+          isSelected && [styles.selected, { borderColor: primaryColor }],
         ]}>
         {renderEvent ? (
           renderEvent(event, {
@@ -282,7 +334,10 @@ const EventCounts = ({
         countStyle,
       ]}>
       <Text style={[styles.countText, countTextStyle]}>
-        {locale.more.replace('{count}', `${eventCounts - COLLAPSED_ITEMS}`)}
+        {locale.more.replace(
+          '{count}',
+          localizeDigits(eventCounts - COLLAPSED_ITEMS, locale.numberingSystem)
+        )}
       </Text>
       <TouchableOpacity
         style={StyleSheet.absoluteFill}
@@ -299,7 +354,9 @@ const styles = StyleSheet.create({
     flexDirection: 'row',
     flexGrow: 1,
   },
+  containerRTL: { flexDirection: 'row-reverse' },
   dayItemContainer: { borderRightWidth: 1 },
+  dayItemContainerRTL: { borderLeftWidth: 1 },
   rightContainer: { flexGrow: 1 },
   eventContent: {
     width: ' 100%',
@@ -312,6 +369,8 @@ const styles = StyleSheet.create({
     paddingHorizontal: 2,
   },
   eventTitle: { fontSize: 12, color: '#FFF', paddingHorizontal: 2 },
+  dragging: { opacity: 0.5 },
+  selected: { borderWidth: 2 },
   countText: { fontSize: 12, paddingHorizontal: 8 },
   dayContainer: {
     alignItems: 'center',
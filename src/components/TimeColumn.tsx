@@ -1,12 +1,20 @@
 import type { PropsWithChildren } from 'react';
-import React, { memo } from 'react';
+import React, { memo, useMemo } from 'react';
 import { StyleSheet, View } from 'react-native';
 import Animated, { useAnimatedStyle } from 'react-native-reanimated';
 import type { SharedValue } from 'react-native-reanimated';
 import { EXTRA_HEIGHT, HOUR_SHORT_LINE_WIDTH } from '../constants';
 import { useBody } from '../context/BodyContext';
+import { useLocale } from '../context/LocaleProvider';
 import { useTheme } from '../context/ThemeProvider';
+import { useTimezone } from '../context/TimeZoneProvider';
+import { useDateChangedListener } from '../context/VisibleDateProvider';
 import type { ThemeConfigs } from '../types';
+import {
+  convertDayMinutes,
+  getTimeZoneName,
+  toHourStr,
+} from '../utils/dateUtils';
 import Text from './Text';
 
 const selectTimeColumnTheme = (state: ThemeConfigs) => ({
@@ -16,48 +24,122 @@ const selectTimeColumnTheme = (state: ThemeConfigs) => ({
   hourBackgroundColor: state.hourBackgroundColor || state.colors.background,
 });
 
-const TimeColumn = () => {
+interface HourItem {
+  /** Position of the label on the timeline */
+  slot: number;
+  /** Minutes of the day in the time zone of the column */
+  minutes: number;
+  time: string;
+}
+
+interface TimeZoneColumn {
+  /** `undefined` for the calendar time zone */
+  timeZone?: string;
+  label: string;
+  hours: HourItem[];
+}
+
+interface TimeColumnProps {
+  /**
+   * Day used to convert the hours of `secondaryTimeZones`
+   *
+   * - Default: the visible date
+   */
+  dateUnix?: number;
+}
+
+const TimeColumn = ({ dateUnix }: TimeColumnProps) => {
   const {
     hours,
+    hourFormat,
     maxTimelineHeight,
     spaceFromTop,
     spaceFromBottom,
     timelineHeight,
     renderHour,
     hourWidth,
+    secondaryTimeZones,
     minuteHeight,
+    offsetY,
     start,
+    isRTL,
   } = useBody();
+  const { timeZone } = useTimezone();
+  const { locale, meridiem, numberingSystem } = useLocale();
+  const visibleDateUnix = useDateChangedListener();
   const { cellBorderColor, hourTextColor, hourTextStyle, hourBackgroundColor } =
     useTheme(selectTimeColumnTheme);
 
+  const date = dateUnix ?? visibleDateUnix;
+  const hasSecondaryTimeZones = secondaryTimeZones.length > 0;
+  const columnWidth = hourWidth / (secondaryTimeZones.length + 1);
+
+  // Secondary time zones first, the calendar time zone next to the grid
+  const columns = useMemo<TimeZoneColumn[]>(() => {
+    const mainColumn = {
+      label: getTimeZoneName(date, timeZone, locale),
+      hours: hours.map((hour) => ({ ...hour, minutes: hour.slot })),
+    };
+    const extraColumns = secondaryTimeZones.map((zone) => ({
+      timeZone: zone.timeZone,
+      label: zone.label ?? getTimeZoneName(date, zone.timeZone, locale),
+      hours: hours.map(({ slot }) => {
+        const minutes = convertDayMinutes(date, slot, timeZone, zone.timeZone);
+        return {
+          slot,
+          minutes,
+          time: toHourStr(minutes, hourFormat, meridiem, numberingSystem),
+        };
+      }),
+    }));
+    return [...extraColumns, mainColumn];
+  }, [
+    date,
+    hourFormat,
+    hours,
+    locale,
+    meridiem,
+    numberingSystem,
+    secondaryTimeZones,
+    timeZone,
+  ]);
+
   const fontSize = hourTextStyle?.fontSize ?? 10;
   const style = StyleSheet.flatten([
     styles.hourText,
     { top: -fontSize / 2, color: hourTextColor },
+    isRTL && styles.hourTextRTL,
     hourTextStyle,
   ]);
 
-  const _renderHour = (hour: { slot: number; time: string }, index: number) => {
+  const _renderHour = (hour: HourItem, column: TimeZoneColumn) => {
     let children: React.ReactNode;
     if (renderHour) {
-      children = renderHour({ hourStr: hour.time, minutes: hour.slot, style });
+      children = renderHour({
+        hourStr: hour.time,
+        minutes: hour.minutes,
+        style,
+        timeZone: column.timeZone,
+      });
     } else {
       children = <Text style={style}>{hour.time}</Text>;
     }
 
     return (
       <HourWrapper
-        key={index !== undefined ? hour.slot : undefined}
+        key={hour.slot}
         minutes={hour.slot}
         height={minuteHeight}
         cellBorderColor={cellBorderColor}
-        start={start}>
+        start={start}
+        isRTL={isRTL}
+        showShortLine={!column.timeZone}>
         <View
           style={[
             styles.absolute,
-            styles.hour,
-            { right: HOUR_SHORT_LINE_WIDTH + 8 },
+            isRTL
+              ? [styles.hourRTL, { left: HOUR_SHORT_LINE_WIDTH + 8 }]
+              : [styles.hour, { right: HOUR_SHORT_LINE_WIDTH + 8 }],
           ]}>
           {children}
         </View>
@@ -69,29 +151,72 @@ const TimeColumn = () => {
     height: timelineHeight.value - spaceFromTop - spaceFromBottom,
   }));
 
+  // Keeps the labels at the top of the visible timeline
+  const animLabels = useAnimatedStyle(() => ({
+    top: EXTRA_HEIGHT + offsetY.value,
+  }));
+
+  const _renderColumn = (column: TimeZoneColumn, index: number) => {
+    const position = columnWidth * index;
+    return (
+      <Animated.View
+        key={column.timeZone ?? 'main'}
+        style={[
+          styles.absolute,
+          {
+            ...(isRTL ? { right: position } : { left: position }),
+            width: columnWidth,
+            top: EXTRA_HEIGHT + spaceFromTop,
+          },
+          animView,
+        ]}>
+        {column.hours.map((hour) => _renderHour(hour, column))}
+      </Animated.View>
+    );
+  };
+
+  const _renderLabels = () => (
+    <Animated.View
+      style={[
+        styles.labels,
+        isRTL && styles.labelsRTL,
+        { height: spaceFromTop, backgroundColor: hourBackgroundColor },
+        animLabels,
+      ]}>
+      {columns.map((column) => (
+        <Text
+          key={column.timeZone ?? 'main'}
+          numberOfLines={1}
+          style={[
+            styles.labelText,
+            { width: columnWidth, fontSize, color: hourTextColor },
+          ]}>
+          {column.label}
+        </Text>
+      ))}
+    </Animated.View>
+  );
+
   return (
     <View
       style={[
         styles.container,
         styles.absolute,
+        isRTL && styles.containerRTL,
         {
           height: maxTimelineHeight + EXTRA_HEIGHT * 2,
           width: hourWidth,
           backgroundColor: hourBackgroundColor,
         },
       ]}>
-      <Animated.View
+      {columns.map(_renderColumn)}
+      {hasSecondaryTimeZones && _renderLabels()}
+      <View
         style={[
-          styles.absolute,
-          {
-            width: hourWidth,
-            top: EXTRA_HEIGHT + spaceFromTop,
-          },
-          animView,
-        ]}>
-        {hours.map(_renderHour)}
-      </Animated.View>
-      <View style={[styles.rightLine, { backgroundColor: cellBorderColor }]} />
+          isRTL ? styles.leftLine : styles.rightLine,
+          { backgroundColor: cellBorderColor },
+        ]}
+      />
     </View>
   );
 };
@@ -103,6 +228,8 @@ interface HourWrapperProps {
   minutes: number;
   cellBorderColor: string;
   start: number;
+  isRTL: boolean;
+  showShortLine: boolean;
 }
 
 const HourWrapper: React.FC<PropsWithChildren<HourWrapperProps>> = ({
@@ -111,6 +238,8 @@ const HourWrapper: React.FC<PropsWithChildren<HourWrapperProps>> = ({
   cellBorderColor,
   children,
   start,
+  isRTL,
+  showShortLine,
 }) => {
   const animStyle = useAnimatedStyle(() => ({
     top: (minutes - start) * height.value,
@@ -120,22 +249,25 @@ const HourWrapper: React.FC<PropsWithChildren<HourWrapperProps>> = ({
   return (
     <Animated.View style={[styles.absolute, animStyle]}>
       {children}
-      <View
-        style={[
-          styles.absolute,
-          styles.shortLine,
-          {
-            backgroundColor: cellBorderColor,
-            width: HOUR_SHORT_LINE_WIDTH,
-          },
-        ]}
-      />
+      {showShortLine && (
+        <View
+          style={[
+            styles.absolute,
+            isRTL ? styles.shortLineRTL : styles.shortLine,
+            {
+              backgroundColor: cellBorderColor,
+              width: HOUR_SHORT_LINE_WIDTH,
+            },
+          ]}
+        />
+      )}
     </Animated.View>
   );
 };
 
 const styles = StyleSheet.create({
   container: { zIndex: 998 },
+  containerRTL: { right: 0 },
   absolute: { position: 'absolute' },
   rightLine: {
     position: 'absolute',
@@ -143,8 +275,16 @@ const styles = StyleSheet.create({
     right: 0,
     height: '100%',
   },
+  leftLine: {
+    position: 'absolute',
+    width: 1,
+    left: 0,
+    height: '100%',
+  },
   hour: { left: 0 },
+  hourRTL: { right: 0 },
   shortLine: { height: 1, right: 0 },
+  shortLineRTL: { height: 1, left: 0 },
   hourText: {
     fontSize: 10,
     textAlign: 'right',
@@ -152,4 +292,15 @@ const styles = StyleSheet.create({
     left: 0,
     right: 0,
   },
+  hourTextRTL: { textAlign: 'left' },
+  labels: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    flexDirection: 'row',
+    alignItems: 'center',
+    zIndex: 1,
+  },
+  labelsRTL: { flexDirection: 'row-reverse' },
+  labelText: { textAlign: 'center', paddingHorizontal: 2 },
 });
@@ -0,0 +1,135 @@
+import type { PropsWithChildren } from 'react';
+import React, { memo } from 'react';
+import { StyleSheet, View } from 'react-native';
+import Animated, { useAnimatedStyle } from 'react-native-reanimated';
+import type { SharedValue } from 'react-native-reanimated';
+import { HOUR_SHORT_LINE_WIDTH } from '../constants';
+import { useBody } from '../context/BodyContext';
+import { useTheme } from '../context/ThemeProvider';
+import type { ThemeConfigs } from '../types';
+import Text from './Text';
+
+const selectTimeRowTheme = (state: ThemeConfigs) => ({
+  cellBorderColor: state.colors.border,
+  hourTextColor: state.colors.onBackground,
+  hourTextStyle: state.hourTextStyle,
+  hourBackgroundColor: state.hourBackgroundColor || state.colors.background,
+});
+
+/** Hour labels of the horizontal timeline */
+const TimeRow = () => {
+  const {
+    hours,
+    spaceFromTop,
+    timelineHeight,
+    renderHour,
+    hourWidth,
+    minuteHeight,
+    start,
+  } = useBody();
+  const { cellBorderColor, hourTextColor, hourTextStyle, hourBackgroundColor } =
+    useTheme(selectTimeRowTheme);
+
+  const style = StyleSheet.flatten([
+    styles.hourText,
+    { color: hourTextColor },
+    hourTextStyle,
+  ]);
+
+  const _renderHour = (hour: { slot: number; time: string }) => {
+    let children: React.ReactNode;
+    if (renderHour) {
+      children = renderHour({ hourStr: hour.time, minutes: hour.slot, style });
+    } else {
+      children = <Text style={style}>{hour.time}</Text>;
+    }
+
+    return (
+      <HourWrapper
+        key={hour.slot}
+        minutes={hour.slot}
+        width={minuteHeight}
+        cellBorderColor={cellBorderColor}
+        start={start}>
+        <View style={[styles.hour, { bottom: HOUR_SHORT_LINE_WIDTH + 4 }]}>
+          {children}
+        </View>
+      </HourWrapper>
+    );
+  };
+
+  const animView = useAnimatedStyle(() => ({
+    width: timelineHeight.value,
+  }));
+
+  return (
+    <Animated.View
+      style={[
+        styles.container,
+        { height: hourWidth, backgroundColor: hourBackgroundColor },
+        animView,
+      ]}>
+      <View style={[styles.absolute, { left: spaceFromTop, height: '100%' }]}>
+        {hours.map(_renderHour)}
+      </View>
+      <View style={[styles.bottomLine, { backgroundColor: cellBorderColor }]} />
+    </Animated.View>
+  );
+};
+
+export default memo(TimeRow);
+
+interface HourWrapperProps {
+  width: SharedValue<number>;
+  minutes: number;
+  cellBorderColor: string;
+  start: number;
+}
+
+const HourWrapper: React.FC<PropsWithChildren<HourWrapperProps>> = ({
+  width,
+  minutes,
+  cellBorderColor,
+  children,
+  start,
+}) => {
+  const animStyle = useAnimatedStyle(() => ({
+    left: (minutes - start) * width.value,
+    height: '100%',
+  }));
+
+  return (
+    <Animated.View style={[styles.absolute, animStyle]}>
+      {children}
+      <View
+        style={[
+          styles.absolute,
+          styles.shortLine,
+          {
+            backgroundColor: cellBorderColor,
+            height: HOUR_SHORT_LINE_WIDTH,
+          },
+        ]}
+      />
+    </Animated.View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: { zIndex: 998 },
+  absolute: { position: 'absolute' },
+  bottomLine: {
+    position: 'absolute',
+    height: 1,
+    bottom: 0,
+    width: '100%',
+  },
+  hour: {
+    position: 'absolute',
+    width: 60,
+    left: -30,
+    alignItems: 'center',
+  },
+  shortLine: { width: 1, bottom: 0 },
+  hourText: { fontSize: 10, textAlign: 'center' },
+});
@@ -0,0 +1,109 @@
+import type { FC } from 'react';
+import React, { useMemo } from 'react';
+import { StyleSheet, View } from 'react-native';
+import Animated, { useAnimatedStyle } from 'react-native-reanimated';
+import { useBody } from '../../context/BodyContext';
+import { useTheme } from '../../context/ThemeProvider';
+import { useTimezone } from '../../context/TimeZoneProvider';
+import { getDSTTransition } from '../../utils/dateUtils';
+
+interface DSTTransitionsProps {
+  visibleDates: Record<string, { diffDays: number; unix: number }>;
+}
+
+/**
+ * Marks the hour skipped (23-hour day) or repeated (25-hour day) by the DST
+ * transitions of the calendar time zone.
+ */
+const DSTTransitions: FC<DSTTransitionsProps> = ({ visibleDates }) => {
+  const { timeZone } = useTimezone();
+  const { start, end } = useBody();
+
+  const transitions = useMemo(
+    () =>
+      Object.keys(visibleDates).flatMap((dateUnix, index) => {
+        const transition = getDSTTransition(Number(dateUnix), timeZone);
+        if (!transition) {
+          return [];
+        }
+
+        const { minutes, offsetChange } = transition;
+        const isSkipped = offsetChange > 0;
+        const rangeStart = isSkipped ? minutes : minutes + offsetChange;
+        const rangeEnd = isSkipped ? minutes + offsetChange : minutes;
+        if (rangeEnd <= start || rangeStart >= end) {
+          return [];
+        }
+
+        return [
+          {
+            key: dateUnix,
+            diffDays: index,
+            diffMinutes: Math.max(rangeStart, start) - start,
+            totalMinutes: Math.min(rangeEnd, end) - Math.max(rangeStart, start),
+            isSkipped,
+          },
+        ];
+      }),
+    [end, start, timeZone, visibleDates]
+  );
+
+  if (!transitions.length) {
+    return null;
+  }
+
+  return (
+    <View style={StyleSheet.absoluteFill} pointerEvents="none">
+      {transitions.map(({ key, ...transition }) => (
+        <DSTTransitionItem key={key} {...transition} />
+      ))}
+    </View>
+  );
+};
+
+export default DSTTransitions;
+
+interface DSTTransitionItemProps {
+  diffDays: number;
+  diffMinutes: number;
+  totalMinutes: number;
+  isSkipped: boolean;
+}
+
+const DSTTransitionItem = ({
+  diffDays,
+  diffMinutes,
+  totalMinutes,
+  isSkipped,
+}: DSTTransitionItemProps) => {
+  const { minuteHeight, columnWidthAnim, isRTL } = useBody();
+  const borderColor = useTheme((state) => state.colors.border);
+
+  const animView = useAnimatedStyle(() => {
+    const offset = columnWidthAnim.value * diffDays;
+    return {
+      width: columnWidthAnim.value,
+      height: minuteHeight.value * totalMinutes,
+      top: minuteHeight.value * diffMinutes,
+      ...(isRTL ? { right: offset } : { left: offset }),
+    };
+  });
+
+  return (
+    <Animated.View
+      style={[
+        styles.container,
+        isSkipped
+          ? [styles.skipped, { backgroundColor: borderColor }]
+          : [styles.repeated, { borderColor }],
+        animView,
+      ]}
+    />
+  );
+};
+
+const styles = StyleSheet.create({
+  container: { position: 'absolute' },
+  skipped: { opacity: 0.5 },
+  repeated: { borderWidth: 1, borderStyle: 'dashed' },
+});
@@ -0,0 +1,147 @@
+import React from 'react';
+import type { GestureResponderEvent } from 'react-native';
+import { StyleSheet } from 'react-native';
+import Animated, { useAnimatedStyle } from 'react-native-reanimated';
+import { useActions } from '../../context/ActionsProvider';
+import { useBody } from '../../context/BodyContext';
+import { useDragEventActions } from '../../context/DragEventProvider';
+import { useTheme } from '../../context/ThemeProvider';
+import { useTimezone } from '../../context/TimeZoneProvider';
+import {
+  dateTimeToISOString,
+  forceUpdateZone,
+  parseDateTime,
+} from '../../utils/dateUtils';
+import Touchable from '../Touchable';
+import HorizontalLine from './HorizontalLine';
+import VerticalLine from './VerticalLine';
+
+interface HorizontalTimelineBoardProps {
+  pageIndex: number;
+  rows: number;
+}
+
+/** Time slots of the horizontal timeline, one row per visible day */
+const HorizontalTimelineBoard = ({
+  pageIndex,
+  rows,
+}: HorizontalTimelineBoardProps) => {
+  const {
+    totalSlots,
+    timeIntervalHeight,
+    start,
+    columnWidthAnim,
+    calendarData,
+    resources,
+    resourceWidthAnim,
+  } = useBody();
+  const { timeZone } = useTimezone();
+  const colors = useTheme((state) => state.colors);
+  const { onPressBackground, onLongPressBackground } = useActions();
+  const { triggerDragCreateEvent } = useDragEventActions();
+
+  const _renderSlotLines = () => {
+    const lines: React.ReactNode[] = [];
+    for (let i = 0; i <= totalSlots; i++) {
+      lines.push(
+        <VerticalLine
+          key={i}
+          borderColor={colors.border}
+          index={i}
+          columnWidth={timeIntervalHeight}
+        />
+      );
+    }
+    return lines;
+  };
+
+  const _renderRowLines = () => {
+    const lines: React.ReactNode[] = [];
+    for (let i = 1; i <= rows; i++) {
+      lines.push(
+        <HorizontalLine
+          key={i}
+          borderColor={colors.border}
+          index={i}
+          height={columnWidthAnim}
+        />
+      );
+    }
+
+    const resourceCount = resources?.length ?? 0;
+    for (let i = 1; i < resourceCount; i++) {
+      lines.push(
+        <HorizontalLine
+          key={`resource_${i}`}
+          borderColor={colors.border}
+          index={i}
+          height={resourceWidthAnim}
+        />
+      );
+    }
+    return lines;
+  };
+
+  const _getDateByEvent = (event: GestureResponderEvent) => {
+    const rowIndex = Math.floor(
+      event.nativeEvent.locationY / columnWidthAnim.value
+    );
+    const dayUnix = calendarData.visibleDatesArray[pageIndex + rowIndex];
+    if (!dayUnix) {
+      return undefined;
+    }
+
+    const hour = event.nativeEvent.locationX / timeIntervalHeight.value;
+    return forceUpdateZone(
+      parseDateTime(dayUnix).plus({ minutes: hour * 60 + start }),
+      timeZone
+    );
+  };
+
+  const onPress = (event: GestureResponderEvent) => {
+    const dateObj = _getDateByEvent(event);
+    if (dateObj) {
+      onPressBackground?.({ dateTime: dateTimeToISOString(dateObj) }, event);
+    }
+  };
+
+  const onLongPress = (event: GestureResponderEvent) => {
+    const dateObj = _getDateByEvent(event);
+    if (dateObj) {
+      const dateString = dateTimeToISOString(dateObj);
+      triggerDragCreateEvent?.(dateString, event);
+      onLongPressBackground?.({ dateTime: dateString }, event);
+    }
+  };
+
+  const contentView = useAnimatedStyle(() => ({
+    width: timeIntervalHeight.value * totalSlots,
+  }));
+
+  return (
+    <Animated.View style={[styles.container, contentView]}>
+      <Touchable
+        style={StyleSheet.absoluteFill}
+        onPress={onPressBackground ? onPress : undefined}
+        onLongPress={
+          triggerDragCreateEvent || onLongPressBackground
+            ? onLongPress
+            : undefined
+        }
+        disabled={
+          !onPressBackground &&
+          !triggerDragCreateEvent &&
+          !onLongPressBackground
+        }
+      />
+      {_renderSlotLines()}
+      {_renderRowLines()}
+    </Animated.View>
+  );
+};
+
+export default React.memo(HorizontalTimelineBoard);
+
+const styles = StyleSheet.create({
+  container: { height: '100%' },
+});
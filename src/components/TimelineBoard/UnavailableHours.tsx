@@ -98,16 +98,17 @@ const UnavailableHourItem = ({
   renderCustomUnavailableHour,
   originalProps,
 }: UnavailableHourItemProps) => {
-  const { minuteHeight, columnWidthAnim } = useBody();
+  const { minuteHeight, columnWidthAnim, isRTL } = useBody();
 
   const height = useDerivedValue(() => minuteHeight.value * totalMinutes);
 
   const animView = useAnimatedStyle(() => {
+    const offset = columnWidthAnim.value * diffDays;
     return {
       width: columnWidthAnim.value,
       height: height.value,
       top: minuteHeight.value * diffMinutes,
-      left: columnWidthAnim.value * diffDays,
+      ...(isRTL ? { right: offset } : { left: offset }),
     };
   });
 
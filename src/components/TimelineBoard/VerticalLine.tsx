@@ -7,16 +7,21 @@ interface VerticalLineProps {
   borderColor: string;
   index: number;
   columnWidth: SharedValue<number>;
+  /** Measure the offset from the right edge */
+  isRTL?: boolean;
 }
 
 const VerticalLine = ({
   index,
   borderColor,
   columnWidth,
+  isRTL,
 }: VerticalLineProps) => {
-  const animStyle = useAnimatedStyle(() => ({
-    left: index * columnWidth.value,
-  }));
+  const animStyle = useAnimatedStyle(() =>
+    isRTL
+      ? { right: index * columnWidth.value }
+      : { left: index * columnWidth.value }
+  );
 
   return (
     <Animated.View
@@ -2,19 +2,23 @@ import React from 'react';
 import type { GestureResponderEvent } from 'react-native';
 import { StyleSheet, View } from 'react-native';
 import Animated, { useAnimatedStyle } from 'react-native-reanimated';
-import { EXTRA_HEIGHT, MILLISECONDS_IN_DAY } from '../../constants';
+import { EXTRA_HEIGHT } from '../../constants';
 import { useActions } from '../../context/ActionsProvider';
 import { useBody } from '../../context/BodyContext';
 import { useDragEventActions } from '../../context/DragEventProvider';
+import { useLocale } from '../../context/LocaleProvider';
 import { useTheme } from '../../context/ThemeProvider';
 import { useTimezone } from '../../context/TimeZoneProvider';
 import {
   dateTimeToISOString,
+  daysBetween,
   forceUpdateZone,
   parseDateTime,
+  toAccessibleDate,
 } from '../../utils/dateUtils';
 import TimeColumn from '../TimeColumn';
 import Touchable from '../Touchable';
+import DSTTransitions from './DSTTransitions';
 import HorizontalLine from './HorizontalLine';
 import OutOfRangeView from './OutOfRangeView';
 import UnavailableHours from './UnavailableHours';
@@ -41,11 +45,15 @@ const TimelineBoard = ({
     numberOfDays,
     calendarData,
     columns,
+    resources,
+    resourceWidthAnim,
+    isRTL,
   } = useBody();
   const { timeZone } = useTimezone();
   const colors = useTheme((state) => state.colors);
   const { onPressBackground, onLongPressBackground } = useActions();
   const { triggerDragCreateEvent } = useDragEventActions();
+  const { accessibility, locale, outputCalendar } = useLocale();
 
   const _renderVerticalLines = () => {
     const lines: React.ReactNode[] = [];
@@ -56,6 +64,24 @@ const TimelineBoard = ({
           borderColor={colors.border}
           index={i}
           columnWidth={columnWidthAnim}
+          isRTL={isRTL}
+        />
+      );
+    }
+    return lines;
+  };
+
+  const _renderResourceLines = () => {
+    const lines: React.ReactNode[] = [];
+    const resourceCount = resources?.length ?? 0;
+    for (let i = 1; i < resourceCount; i++) {
+      lines.push(
+        <VerticalLine
+          key={`resource_${i}`}
+          borderColor={colors.border}
+          index={i}
+          columnWidth={resourceWidthAnim}
+          isRTL={isRTL}
         />
       );
     }
@@ -73,7 +99,6 @@ const TimelineBoard = ({
           height={timeIntervalHeight}
         />
       );
-
     }
 
     rows.push(
@@ -87,10 +112,14 @@ const TimelineBoard = ({
     return rows;
   };
 
+  const _getColumnIndex = (event: GestureResponderEvent) => {
+    const { locationX } = event.nativeEvent;
+    const x = isRTL ? columns * columnWidthAnim.value - locationX : locationX;
+    return Math.floor(x / columnWidthAnim.value);
+  };
+
   const onPress = (event: GestureResponderEvent) => {
-    const columnIndex = Math.floor(
-      event.nativeEvent.locationX / columnWidthAnim.value
-    );
+    const columnIndex = _getColumnIndex(event);
     const dayIndex = pageIndex + columnIndex;
     const dayUnix = calendarData.visibleDatesArray[dayIndex];
     const hour = event.nativeEvent.locationY / timeIntervalHeight.value;
@@ -107,9 +136,7 @@ const TimelineBoard = ({
   };
 
   const onLongPress = (event: GestureResponderEvent) => {
-    const columnIndex = Math.floor(
-      event.nativeEvent.locationX / columnWidthAnim.value
-    );
+    const columnIndex = _getColumnIndex(event);
     const dayIndex = pageIndex + columnIndex;
     const dayUnix = calendarData.visibleDatesArray[dayIndex];
     const hour = event.nativeEvent.locationY / timeIntervalHeight.value;
@@ -127,26 +154,51 @@ const TimelineBoard = ({
     }
   };
 
+  const _getAccessibilityLabel = () => {
+    const firstUnix = calendarData.visibleDatesArray[pageIndex];
+    if (firstUnix === undefined) {
+      return undefined;
+    }
+
+    const lastUnix =
+      calendarData.visibleDatesArray[pageIndex + columns - 1] ?? firstUnix;
+    const date =
+      lastUnix === firstUnix
+        ? toAccessibleDate(firstUnix, locale, outputCalendar)
+        : accessibility.dateRange
+            .replace('{start}', toAccessibleDate(firstUnix, locale, outputCalendar))
+            .replace('{end}', toAccessibleDate(lastUnix, locale, outputCalendar));
+    return accessibility.timeline.replace('{date}', date);
+  };
+
   const contentView = useAnimatedStyle(() => ({
     height: timeIntervalHeight.value * totalSlots,
   }));
 
   const _renderOutOfRangeView = () => {
-    const diffMinDays = Math.floor(
-      (calendarData.originalMinDateUnix - dateUnix) / MILLISECONDS_IN_DAY
+    const diffMinDays = daysBetween(
+      dateUnix,
+      calendarData.originalMinDateUnix
     );
     if (diffMinDays > 0) {
       return (
-        <OutOfRangeView position="left" diffDays={calendarData.diffMinDays} />
+        <OutOfRangeView
+          position={isRTL ? 'right' : 'left'}
+          diffDays={calendarData.diffMinDays}
+        />
       );
     }
 
-    const diffMaxDays = Math.floor(
-      (calendarData.originalMaxDateUnix - dateUnix) / MILLISECONDS_IN_DAY
+    const diffMaxDays = daysBetween(
+      dateUnix,
+      calendarData.originalMaxDateUnix
     );
     if (diffMaxDays < 7) {
       return (
-        <OutOfRangeView position="right" diffDays={calendarData.diffMaxDays} />
+        <OutOfRangeView
+          position={isRTL ? 'left' : 'right'}
+          diffDays={calendarData.diffMaxDays}
+        />
       );
     }
 
@@ -158,10 +210,10 @@ const TimelineBoard = ({
   };
 
   return (
-    <View style={styles.container}>
+    <View style={[styles.container, isRTL && styles.containerRTL]}>
       {numberOfDays === 1 && (
         <View style={{ width: hourWidth }}>
-          <TimeColumn />
+          <TimeColumn dateUnix={dateUnix} />
         </View>
       )}
       <Animated.View
@@ -183,10 +235,13 @@ const TimelineBoard = ({
             !triggerDragCreateEvent &&
             !onLongPressBackground
           }
+          accessibilityLabel={_getAccessibilityLabel()}
         />
         {_renderUnavailableHours()}
+        <DSTTransitions visibleDates={visibleDates} />
         {_renderOutOfRangeView()}
         {_renderHorizontalLines()}
+        {_renderResourceLines()}
       </Animated.View>
       {numberOfDays > 1 && _renderVerticalLines()}
     </View>
@@ -197,6 +252,7 @@ export default React.memo(TimelineBoard);
 
 const styles = StyleSheet.create({
   container: { flex: 1, flexDirection: 'row' },
+  containerRTL: { flexDirection: 'row-reverse' },
   calendarGrid: { flex: 1 },
   separator: {
     backgroundColor: '#2D2D2D',
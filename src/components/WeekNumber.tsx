@@ -2,8 +2,14 @@ import React, { useCallback, useState } from 'react';
 import { StyleSheet, View } from 'react-native';
 import type { SharedValue } from 'react-native-reanimated';
 import { runOnJS, useAnimatedReaction } from 'react-native-reanimated';
+import { useLocale } from '../context/LocaleProvider';
 import { useTheme } from '../context/ThemeProvider';
-import { getWeekNumberOfYear } from '../utils/dateUtils';
+import { useCalendar } from '../context/CalendarProvider';
+import {
+  getCalendarWeekNumber,
+  getWeekNumberOfYear,
+  localizeDigits,
+} from '../utils/dateUtils';
 import Text from './Text';
 import { useTimezone } from '../context/TimeZoneProvider';
 
@@ -13,6 +19,8 @@ interface WeekNumberProps {
 
 const WeekNumber = ({ date }: WeekNumberProps) => {
   const { timeZone } = useTimezone();
+  const { numberingSystem, outputCalendar } = useLocale();
+  const { firstDay } = useCalendar();
   const theme = useTheme(
     useCallback(
       (state) => ({
@@ -27,7 +35,10 @@ const WeekNumber = ({ date }: WeekNumberProps) => {
   const [value, setValue] = useState<string | number>('');
 
   const _getWeekNumber = (newValue: number) => {
-    setValue(getWeekNumberOfYear(newValue, timeZone));
+    const weekNumber = outputCalendar
+      ? getCalendarWeekNumber(newValue, outputCalendar, firstDay)
+      : getWeekNumberOfYear(newValue, timeZone);
+    setValue(localizeDigits(weekNumber, numberingSystem));
   };
 
   useAnimatedReaction(
@@ -1,4 +1,4 @@
-import type { LocaleConfigsProps, ThemeConfigs } from './types';
+import type { DeepPartial, LocaleConfigsProps, ThemeConfigs } from './types';
 
 export const DEFAULT_THEME: ThemeConfigs = {
   colors: {
@@ -13,6 +13,8 @@ export const DEFAULT_THEME: ThemeConfigs = {
   },
 };
 
+export const INVALID_DROP_COLOR = '#d93025';
+
 export const HOUR_WIDTH = 60;
 export const DAY_BAR_HEIGHT = 60;
 
@@ -30,11 +32,37 @@ export const MAX_DATE = new Date(
   new Date().getDate()
 ).toISOString();
 
-export const DEFAULT_LOCALES: Record<string, LocaleConfigsProps> = {
+/** Years added to a side of the range without `minDate` or `maxDate` */
+export const RANGE_EXTENSION_YEARS = 2;
+
+/** Months left before an end of the range that extend it */
+export const RANGE_EXTENSION_THRESHOLD_MONTHS = 3;
+
+/** Texts of the locales, the other configs are read from `Intl` */
+export const DEFAULT_LOCALES: Record<
+  string,
+  DeepPartial<LocaleConfigsProps>
+> & { en: Pick<LocaleConfigsProps, 'more' | 'allDay' | 'accessibility'> } = {
   en: {
-    weekDayShort: 'Sun_Mon_Tue_Wed_Thu_Fri_Sat'.split('_'),
-    meridiem: { ante: 'am', post: 'pm' },
     more: '{count} more',
+    allDay: 'All day',
+    accessibility: {
+      event: '{title}, {date}, {start} to {end}',
+      allDayEvent: '{title}, all day',
+      untitledEvent: 'Untitled event',
+      timeline: 'Timeline, {date}',
+      dateRange: '{start} to {end}',
+      dateChanged: 'Showing {date}',
+      moveEarlier: 'Move {minutes} minutes earlier',
+      moveLater: 'Move {minutes} minutes later',
+      extend: 'Extend by {minutes} minutes',
+      shorten: 'Shorten by {minutes} minutes',
+      select: 'Select',
+      deselect: 'Deselect',
+      actionUnavailable: 'Action not available',
+      expand: 'Show all all-day events',
+      collapse: 'Show fewer all-day events',
+    },
   },
 };
 
@@ -65,3 +93,12 @@ export const MAX_ALL_DAY_MINUTES = 30;
 export const DEFAULT_ALL_DAY_MINUTES = 20;
 
 export const DEFAULT_MIN_START_DIFFERENCE = 30;
+
+export const MONTH_WEEK_DAY_BAR_HEIGHT = 28;
+export const MONTH_EVENT_HEIGHT = 18;
+export const MONTH_EVENT_SPACING = 2;
+export const MONTH_DAY_NUMBER_HEIGHT = 26;
+export const RESOURCE_HEADER_HEIGHT = 32;
+export const AGENDA_DAY_WIDTH = 64;
+export const AGENDA_EVENT_HEIGHT = 48;
+export const AGENDA_SECTION_PADDING = 8;
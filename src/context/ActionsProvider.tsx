@@ -20,6 +20,10 @@ const ActionsProvider: React.FC<PropsWithChildren<ActionsProviderProps>> = ({
   const onDragEventStart = useLatestCallback(props.onDragEventStart);
   const onDragEventEnd = useLatestCallback(props.onDragEventEnd);
   const onLongPressEvent = useLatestCallback(props.onLongPressEvent);
+  const onSelectedEventsChange = useLatestCallback(
+    props.onSelectedEventsChange
+  );
+  const onDragEventsEnd = useLatestCallback(props.onDragEventsEnd);
   const onLongPressBackground = useLatestCallback(props.onLongPressBackground);
   const onDragSelectedEventStart = useLatestCallback(
     props.onDragSelectedEventStart
@@ -44,6 +48,8 @@ const ActionsProvider: React.FC<PropsWithChildren<ActionsProviderProps>> = ({
       onLongPressEvent,
       onDragEventStart,
       onDragEventEnd,
+      onSelectedEventsChange,
+      onDragEventsEnd,
       onDragSelectedEventStart,
       onDragSelectedEventEnd,
       onLongPressBackground,
@@ -61,6 +67,8 @@ const ActionsProvider: React.FC<PropsWithChildren<ActionsProviderProps>> = ({
       onLongPressEvent,
       onDragEventStart,
       onDragEventEnd,
+      onSelectedEventsChange,
+      onDragEventsEnd,
       onDragSelectedEventStart,
       onDragSelectedEventEnd,
       onLongPressBackground,
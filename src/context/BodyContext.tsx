@@ -4,6 +4,8 @@ import type {
   OutOfRangeProps,
   PackedEvent,
   RenderHourProps,
+  ResourceItem,
+  SecondaryTimeZone,
   SizeAnimation,
   UnavailableHourProps,
 } from '../types';
@@ -27,6 +29,7 @@ export interface BodyContextProps {
   totalSlots: number;
   numberOfDays: number;
   hourWidth: number;
+  secondaryTimeZones: SecondaryTimeZone[];
   calendarLayout: Size;
   start: number;
   end: number;
@@ -50,6 +53,9 @@ export interface BodyContextProps {
   overlapEventsSpacing: number;
   visibleDateUnixAnim: SharedValue<number>;
   NowIndicatorComponent?: React.ReactElement | null;
+  resources?: ResourceItem[];
+  resourceWidthAnim: Readonly<SharedValue<number>>;
+  orientation: 'vertical' | 'horizontal';
 }
 
 export const BodyContext = React.createContext<BodyContextProps | undefined>(
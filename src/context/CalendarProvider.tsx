@@ -6,13 +6,26 @@ import type Animated from 'react-native-reanimated';
 import type { CalendarListViewHandle } from '../components/CalendarListView';
 import type { ScrollType } from '../constants';
 import type HapticService from '../service/HapticService';
-import type { DataByMode } from '../utils/utils';
+import type { ResourceItem, SecondaryTimeZone } from '../types';
+import type { DataByMode, MonthData } from '../utils/utils';
+
+/** Navigation of the views that are not paged by `calendarListRef` */
+export interface PageViewHandle {
+  goToDate: (dateUnix: number, animated?: boolean) => void;
+  /** Move to the section (or page) `step` sections away from the visible one */
+  goToSection: (step: number, animated?: boolean) => void;
+}
 
 export interface CalendarContextProps {
   calendarData: DataByMode;
+  monthData: MonthData;
+  viewMode: 'week' | 'month' | 'agenda';
+  orientation: 'vertical' | 'horizontal';
   calendarLayout: { width: number; height: number };
   visibleDateUnix: React.MutableRefObject<number>;
+  /** Width of the time column, with the `secondaryTimeZones` columns */
   hourWidth: number;
+  secondaryTimeZones: SecondaryTimeZone[];
   numberOfDays: number;
   verticalListRef: AnimatedRef<Animated.ScrollView>;
   dayBarListRef: AnimatedRef<Animated.ScrollView>;
@@ -50,6 +63,10 @@ export interface CalendarContextProps {
   visibleDateUnixAnim: SharedValue<number>;
   visibleWeeks: SharedValue<number[]>;
   calendarListRef: React.RefObject<CalendarListViewHandle>;
+  pageViewRef: React.RefObject<PageViewHandle>;
+  resources?: ResourceItem[];
+  /** Width of a resource column, when `resources` is provided */
+  resourceWidthAnim: Readonly<SharedValue<number>>;
   startOffset: Readonly<SharedValue<number>>;
   scrollVisibleHeightAnim: SharedValue<number>;
   pagesPerSide: number;
@@ -17,22 +17,39 @@ import {
   useSharedValue,
 } from 'react-native-reanimated';
 import {
-  MILLISECONDS_IN_DAY,
   MILLISECONDS_IN_MINUTE,
+  MINUTES_IN_DAY,
   ScrollType,
 } from '../constants';
 import type HapticService from '../service/HapticService';
+import type HistoryService from '../service/HistoryService';
 import type {
-  DateTimeType,
+  CalendarProviderProps,
+  DateOrDateTime,
   DateType,
+  DragConstraintPolicy,
+  DragConstraints,
   DraggingEventType,
+  DropCandidate,
+  EventItem,
+  OnCreateEventResponse,
   OnEventResponse,
   SelectedEventType,
 } from '../types';
-import { forceUpdateZone, parseDateTime } from '../utils/dateUtils';
+import {
+  forceUpdateZone,
+  parseDateTime,
+  plusDays,
+  wallClockMinutes,
+} from '../utils/dateUtils';
+import { isEventMovable, isEventResizable } from '../utils/eventUtils';
+import type { MinutesRange } from '../utils/utils';
+import { clampValues, findFreeStart, isRangeOverlapping } from '../utils/utils';
 import { useActions } from './ActionsProvider';
 import { useCalendar } from './CalendarProvider';
+import { useRegularEventsGetter } from './EventsProvider';
 import { useTimezone } from './TimeZoneProvider';
+import { useUnavailableHoursGetter } from './UnavailableHoursProvider';
 
 export type DragEventContextProps = {
   dragStep: number;
@@ -70,6 +87,26 @@ export type DragEventContextProps = {
   defaultDuration: number;
   isDraggingCreateAnim: SharedValue<boolean>;
   isDraggingCreate: boolean;
+  /** Index of the target resource column, `-1` outside the resource view */
+  dragResourceIndex: SharedValue<number>;
+  /** Whether the dragged event targets the all-day area of the header */
+  isDraggingAllDay: SharedValue<boolean>;
+  /** Number of days of the dragged event in the all-day area */
+  dragAllDayDays: SharedValue<number>;
+  /** Days between the start of the dragged all-day event and the held day */
+  dragAllDayOffset: SharedValue<number>;
+  /** IDs (`localId` or `id`) of `selectedEvents` */
+  selectedEventIds: string[];
+  /** Selected events moved with the dragged event, while it is dragged */
+  draggingGroup?: SelectedEventType[];
+  isDraggingGroupAnim: SharedValue<boolean>;
+  /** Whether the hovered slot is rejected by `dragConstraints` / `validateDrop` */
+  isDropInvalid: SharedValue<boolean>;
+  /** Reason returned by `validateDrop` for the hovered slot */
+  dropInvalidReason?: string;
+  /** Duration limits of the resized or created event, in minutes */
+  dragMinDuration: SharedValue<number>;
+  dragMaxDuration: SharedValue<number>;
 };
 
 const DragEventContext = React.createContext<DragEventContextProps | undefined>(
@@ -79,8 +116,8 @@ const DragEventContext = React.createContext<DragEventContextProps | undefined>(
 export type DragEventActionsContextProps = {
   triggerDragEvent?: (
     initialDrag: {
-      start: DateTimeType;
-      end: DateTimeType;
+      start: DateOrDateTime;
+      end: DateOrDateTime;
       startIndex?: number;
     },
     event?: OnEventResponse
@@ -93,12 +130,53 @@ export type DragEventActionsContextProps = {
     date: DateType,
     event: GestureResponderEvent
   ) => void;
+  /** Adds the event to `selectedEvents`, or removes it */
+  toggleSelectedEvent?: (event: SelectedEventType) => void;
+  /**
+   * Moves (same `start` / `end` change) or resizes a timed event by minutes,
+   * like a drag. Resolves with the event passed to `onDragEventEnd`, or
+   * `undefined` when the change is not allowed.
+   */
+  adjustEvent?: (
+    event: OnEventResponse,
+    change: { start: number; end: number }
+  ) => Promise<OnEventResponse | undefined>;
 };
 
 const DragEventActionsContext = React.createContext<
   DragEventActionsContextProps | undefined
 >(undefined);
 
+const getEventId = (event: { localId?: string; id?: string }) =>
+  event.localId ?? event.id;
+
+/** Moves an event by whole days, and by minutes when it has times */
+const shiftEvent = (
+  event: SelectedEventType,
+  days: number,
+  minutes: number,
+  timeZone: string
+): SelectedEventType => {
+  const shiftDate = (date: DateOrDateTime): DateOrDateTime => {
+    if (date.date) {
+      return { date: parseDateTime(date.date).plus({ days }).toISODate() };
+    }
+    const dateTime = parseDateTime(date.dateTime, { zone: date.timeZone })
+      .setZone(timeZone)
+      .plus({ days, minutes });
+    return { dateTime: dateTime.toISO(), timeZone };
+  };
+
+  return { ...event, start: shiftDate(event.start), end: shiftDate(event.end) };
+};
+
+type DropResult = {
+  isValid: boolean;
+  /** Start of the drop, moved by `snap-to-free` */
+  startMinutes: number;
+  reason?: string;
+};
+
 const SCROLL_THRESHOLD = 100;
 const AUTO_SCROLL_INTERVAL = 800;
 const AUTO_SCROLL_SPEED = 100;
@@ -108,18 +186,30 @@ const DragEventProvider: FC<
     dragStep: number;
     allowDragToEdit: boolean;
     selectedEvent?: SelectedEventType;
+    selectedEvents?: SelectedEventType[];
     allowDragToCreate: boolean;
     defaultDuration: number;
+    minEventDuration?: number;
+    maxEventDuration?: number;
+    dragConstraints?: DragConstraints;
+    validateDrop?: CalendarProviderProps['validateDrop'];
     hapticService: HapticService;
+    historyService: HistoryService;
   }>
 > = ({
   children,
   dragStep,
   allowDragToEdit,
   selectedEvent,
+  selectedEvents,
   allowDragToCreate,
   defaultDuration,
+  minEventDuration,
+  maxEventDuration,
+  dragConstraints,
+  validateDrop,
   hapticService,
+  historyService,
 }) => {
   // Contexts
   const { timeZone } = useTimezone();
@@ -145,7 +235,16 @@ const DragEventProvider: FC<
     visibleDateUnixAnim,
     visibleDateUnix,
     dayBarListRef,
+    resources,
+    resourceWidthAnim,
+    orientation,
+    isRTL,
+    start: calendarStart,
+    end: calendarEnd,
   } = useCalendar();
+  const getRegularEvents = useRegularEventsGetter();
+  const getUnavailableHours = useUnavailableHoursGetter();
+  const isHorizontal = orientation === 'horizontal';
   const {
     onDragSelectedEventStart,
     onDragSelectedEventEnd,
@@ -154,12 +253,15 @@ const DragEventProvider: FC<
     onDragCreateEventStart,
     onDragCreateEventEnd,
     onLongPressEvent,
+    onSelectedEventsChange,
+    onDragEventsEnd,
   } = useActions();
 
   const isDraggingAnim = useSharedValue(false);
   const [isDragging, setIsDragging] = useState(false);
   const [isDraggingCreate, setIsDraggingCreate] = useState(false);
   const [draggingEvent, setDraggingEvent] = useState<DraggingEventType>();
+  const [draggingGroup, setDraggingGroup] = useState<SelectedEventType[]>();
 
   const dragStartUnix = useSharedValue<number>(-1);
   const dragStartMinutes = useSharedValue<number>(-1);
@@ -193,6 +295,17 @@ const DragEventProvider: FC<
   const dragSelectedDuration = useSharedValue<number>(-1);
   const isDraggingSelectedEvent = useSharedValue(false);
   const isDraggingCreateAnim = useSharedValue(false);
+  const dragResourceIndex = useSharedValue(-1);
+  const isDraggingAllDay = useSharedValue(false);
+  const dragAllDayDays = useSharedValue(1);
+  const dragAllDayOffset = useSharedValue(0);
+  const isDraggingGroupAnim = useSharedValue(false);
+  const isDropInvalid = useSharedValue(false);
+  const [dropInvalidReason, setDropInvalidReason] = useState<string>();
+  const minDragDuration = minEventDuration ?? dragStep;
+  const maxDragDuration = maxEventDuration ?? Number.MAX_SAFE_INTEGER;
+  const dragMinDuration = useSharedValue(minDragDuration);
+  const dragMaxDuration = useSharedValue(maxDragDuration);
 
   const autoHScrollTimer = useRef<NodeJS.Timeout>();
   const autoVScrollTimer = useRef<NodeJS.Timeout>();
@@ -201,6 +314,310 @@ const DragEventProvider: FC<
 
   const draggingId = draggingEvent?.localId ?? draggingEvent?.id;
   const selectedEventId = selectedEvent?.localId ?? selectedEvent?.id;
+  const selectedEventIds = useMemo(
+    () =>
+      (selectedEvents ?? []).map(getEventId).filter((id): id is string => !!id),
+    [selectedEvents]
+  );
+
+  const getResourceIndex = useCallback(
+    (resourceId?: string) => {
+      if (!resources?.length) {
+        return -1;
+      }
+      return resources.findIndex((resource) => resource.id === resourceId);
+    },
+    [resources]
+  );
+
+  const hasDropRules = !!dragConstraints || !!validateDrop;
+
+  /** Busy ranges around a day, in minutes from its start */
+  const getBusyRanges = useCallback(
+    (dayUnix: number, resourceIndex: number, excludedIds: string[]) => {
+      const { unavailableHours = 'allow', events = 'allow' } =
+        dragConstraints ?? {};
+      const ranges: (MinutesRange & { policy: DragConstraintPolicy })[] = [];
+      for (let diffDays = -1; diffDays <= 1; diffDays++) {
+        const dateUnix = parseDateTime(dayUnix)
+          .plus({ days: diffDays })
+          .toMillis();
+        const offset = diffDays * 1440;
+        if (unavailableHours !== 'allow') {
+          getUnavailableHours(dateUnix).forEach((hour) => {
+            ranges.push({
+              start: hour.start + offset,
+              end: hour.end + offset,
+              policy: unavailableHours,
+            });
+          });
+        }
+        if (events !== 'allow') {
+          getRegularEvents(dateUnix).forEach((event) => {
+            const { startMinutes = 0, duration } = event._internal;
+            const eventResourceIndex = event._internal.resourceIndex;
+            if (
+              excludedIds.includes(event.localId) ||
+              (resourceIndex !== -1 && eventResourceIndex !== resourceIndex)
+            ) {
+              return;
+            }
+            ranges.push({
+              start: startMinutes + offset,
+              end: startMinutes + duration + offset,
+              policy: events,
+            });
+          });
+        }
+      }
+      return ranges;
+    },
+    [dragConstraints, getRegularEvents, getUnavailableHours]
+  );
+
+  /** Applies `validateDrop` to the dates of `movedEvent` */
+  const validateDates = useCallback(
+    (
+      dates: Pick<DropCandidate, 'start' | 'end'>,
+      resourceIndex: number,
+      movedEvent?: SelectedEventType
+    ): Omit<DropResult, 'startMinutes'> => {
+      if (!validateDrop) {
+        return { isValid: true };
+      }
+
+      const candidate: DropCandidate = { start: dates.start, end: dates.end };
+      const resourceId = resources?.[resourceIndex]?.id;
+      if (resourceId !== undefined) {
+        candidate.resourceId = resourceId;
+      }
+      if (movedEvent) {
+        const event = { ...movedEvent };
+        delete event._internal;
+        candidate.event = event;
+      }
+      const result = validateDrop(candidate);
+      if (result === true) {
+        return { isValid: true };
+      }
+      return {
+        isValid: false,
+        reason: typeof result === 'string' ? result : undefined,
+      };
+    },
+    [resources, validateDrop]
+  );
+
+  /**
+   * Applies `dragConstraints` and `validateDrop` to a timed slot of
+   * `movedEvent` (the dragged event by default)
+   */
+  const checkDrop = useCallback(
+    (
+      dayUnix: number,
+      startMinutes: number,
+      duration: number,
+      resourceIndex: number,
+      movedEvent: SelectedEventType | undefined = isDraggingCreate
+        ? undefined
+        : draggingEvent,
+      excludedIds: string[] = movedEvent ? [getEventId(movedEvent)!] : []
+    ): DropResult => {
+      let nextStart = startMinutes;
+      if (dragConstraints) {
+        const ranges = getBusyRanges(dayUnix, resourceIndex, excludedIds);
+        const conflicts = ranges.filter((range) =>
+          isRangeOverlapping(nextStart, duration, range)
+        );
+        if (conflicts.some((range) => range.policy === 'block')) {
+          return { isValid: false, startMinutes };
+        }
+        if (conflicts.length) {
+          const freeStart = findFreeStart(
+            nextStart,
+            duration,
+            ranges,
+            dragStep,
+            calendarStart,
+            calendarEnd
+          );
+          if (freeStart === undefined) {
+            return { isValid: false, startMinutes };
+          }
+          nextStart = freeStart;
+        }
+      }
+
+      const startUnix = dayUnix + nextStart * MILLISECONDS_IN_MINUTE;
+      const endUnix = startUnix + duration * MILLISECONDS_IN_MINUTE;
+      const result = validateDates(
+        {
+          start: {
+            dateTime: forceUpdateZone(startUnix, timeZone).toISO(),
+            timeZone,
+          },
+          end: {
+            dateTime: forceUpdateZone(endUnix, timeZone).toISO(),
+            timeZone,
+          },
+        },
+        resourceIndex,
+        movedEvent
+      );
+      if (!result.isValid) {
+        return { ...result, startMinutes };
+      }
+
+      return { isValid: true, startMinutes: nextStart };
+    },
+    [
+      calendarEnd,
+      calendarStart,
+      dragConstraints,
+      dragStep,
+      draggingEvent,
+      getBusyRanges,
+      isDraggingCreate,
+      timeZone,
+      validateDates,
+    ]
+  );
+
+  /**
+   * Applies the drop rules to every event of a group moved by `days` and
+   * `minutes`. The group is rejected when one of its events is rejected or
+   * has to be moved to a free slot, to keep their relative offsets.
+   */
+  const checkGroupDrop = useCallback(
+    (
+      group: SelectedEventType[],
+      days: number,
+      minutes: number
+    ): Omit<DropResult, 'startMinutes'> => {
+      const groupIds = group.map(getEventId).filter((id): id is string => !!id);
+      for (const event of group) {
+        const moved = shiftEvent(event, days, minutes, timeZone);
+        const resourceIndex = getResourceIndex(event.resourceId);
+        if (moved.start.date) {
+          const result = validateDates(
+            { start: moved.start, end: moved.end },
+            resourceIndex,
+            event
+          );
+          if (!result.isValid) {
+            return result;
+          }
+          continue;
+        }
+
+        const start = parseDateTime(moved.start.dateTime, { zone: timeZone });
+        const end = parseDateTime(moved.end.dateTime, { zone: timeZone });
+        const startMinutes = start.hour * 60 + start.minute;
+        const drop = checkDrop(
+          forceUpdateZone(start.startOf('day')).toMillis(),
+          startMinutes,
+          end.diff(start, 'minutes').minutes,
+          resourceIndex,
+          event,
+          groupIds
+        );
+        if (!drop.isValid || drop.startMinutes !== startMinutes) {
+          return { isValid: false, reason: drop.reason };
+        }
+      }
+      return { isValid: true };
+    },
+    [checkDrop, getResourceIndex, timeZone, validateDates]
+  );
+
+  /** Dates of the event dragged in the all-day area */
+  const getAllDayDates = useCallback((): Pick<EventItem, 'start' | 'end'> => {
+    const startDate = parseDateTime(roundedDragStartUnix.value).minus({
+      days: dragAllDayOffset.value,
+    });
+    const endDate = startDate.plus({ days: dragAllDayDays.value - 1 });
+    return {
+      start: { date: startDate.toISODate() },
+      end: { date: endDate.toISODate() },
+    };
+  }, [dragAllDayDays, dragAllDayOffset, roundedDragStartUnix]);
+
+  /** Days and minutes the dragged group is moved by, dropped at `newStartUnix` */
+  const getGroupShift = useCallback(
+    (event: SelectedEventType, newStartUnix: number) => {
+      if (event.start.date) {
+        const startDate = parseDateTime(roundedDragStartUnix.value).minus({
+          days: dragAllDayOffset.value,
+        });
+        const days = startDate.diff(
+          parseDateTime(event.start.date),
+          'days'
+        ).days;
+        return { days: Math.round(days), minutes: 0 };
+      }
+
+      const prevStart = parseDateTime(event.start.dateTime, {
+        zone: event.start.timeZone,
+      }).setZone(timeZone);
+      const newStart = forceUpdateZone(newStartUnix, timeZone);
+      const days = newStart
+        .startOf('day')
+        .diff(prevStart.startOf('day'), 'days').days;
+      const minutes =
+        newStart.hour * 60 +
+        newStart.minute -
+        (prevStart.hour * 60 + prevStart.minute);
+      return { days: Math.round(days), minutes };
+    },
+    [dragAllDayOffset, roundedDragStartUnix, timeZone]
+  );
+
+  /**
+   * Applies the drop rules to the current drag: the timed slot, the all-day
+   * slot or every event of the dragged group
+   */
+  const checkDraggingDrop = useCallback((): DropResult => {
+    const startMinutes = roundedDragStartMinutes.value;
+    if (!hasDropRules) {
+      return { isValid: true, startMinutes };
+    }
+
+    if (draggingEvent && draggingGroup) {
+      const { days, minutes } = getGroupShift(
+        draggingEvent,
+        roundedDragStartUnix.value + startMinutes * MILLISECONDS_IN_MINUTE
+      );
+      return { ...checkGroupDrop(draggingGroup, days, minutes), startMinutes };
+    }
+    if (isDraggingAllDay.value) {
+      const result = validateDates(
+        getAllDayDates(),
+        dragResourceIndex.value,
+        draggingEvent
+      );
+      return { ...result, startMinutes };
+    }
+    return checkDrop(
+      roundedDragStartUnix.value,
+      startMinutes,
+      roundedDragDuration.value,
+      dragResourceIndex.value
+    );
+  }, [
+    checkDrop,
+    checkGroupDrop,
+    dragResourceIndex,
+    draggingEvent,
+    draggingGroup,
+    getAllDayDates,
+    getGroupShift,
+    hasDropRules,
+    isDraggingAllDay,
+    roundedDragDuration,
+    roundedDragStartMinutes,
+    roundedDragStartUnix,
+    validateDates,
+  ]);
 
   const handleIsDraggingChange = useCallback(
     async (dragging: boolean) => {
@@ -214,83 +631,216 @@ const DragEventProvider: FC<
           autoVScrollTimer.current = undefined;
         }
 
+        const drop = checkDraggingDrop();
         const newStartUnix =
           roundedDragStartUnix.value +
-          roundedDragStartMinutes.value * MILLISECONDS_IN_MINUTE;
+          drop.startMinutes * MILLISECONDS_IN_MINUTE;
         const newEndUnix =
           newStartUnix + roundedDragDuration.value * MILLISECONDS_IN_MINUTE;
 
-        if (draggingEvent?.start?.dateTime && draggingEvent?.end?.dateTime) {
-          const prevStart = parseDateTime(draggingEvent.start.dateTime, {
-            zone: draggingEvent.start.timeZone,
-          })
-            .setZone(timeZone)
-            .toMillis();
-          const prevEnd = parseDateTime(draggingEvent.end.dateTime, {
-            zone: draggingEvent.end.timeZone,
-          })
-            .setZone(timeZone)
-            .toMillis();
-          const newStartObj = forceUpdateZone(newStartUnix, timeZone);
-          const newEndObj = forceUpdateZone(newEndUnix, timeZone);
-          const newStart = newStartObj.toMillis();
-          const newEnd = newEndObj.toMillis();
-          const currentEvent = { ...draggingEvent };
-          delete currentEvent._internal;
-
-          if (prevStart !== newStart || prevEnd !== newEnd) {
-            const newStartISO = newStartObj.toISO();
-            const newEndISO = newEndObj.toISO();
-            const newProps = {
-              start: { dateTime: newStartISO, timeZone },
-              end: { dateTime: newEndISO, timeZone },
-            };
-            if (selectedEvent) {
-              await onDragSelectedEventEnd?.({
-                ...(currentEvent as SelectedEventType),
-                ...newProps,
+        // History is recorded once the callbacks succeed, the drag ends
+        // even when they throw
+        try {
+          if (!drop.isValid) {
+            // Rejected drop: the event goes back to its place
+          } else if (draggingEvent && draggingGroup) {
+            // Moves the selected events by the offset of the dragged one
+            const { days, minutes } = getGroupShift(
+              draggingEvent,
+              newStartUnix
+            );
+
+            if (days || minutes) {
+              const changes = draggingGroup.map((event) => {
+                const before = { ...event };
+                delete before._internal;
+                return {
+                  before,
+                  after: shiftEvent(before, days, minutes, timeZone),
+                };
               });
-            } else if (isDraggingCreate) {
-              await onDragCreateEventEnd?.(newProps);
+              await onDragEventsEnd?.(changes.map(({ after }) => after));
+              const dragged =
+                changes.find(
+                  ({ before }) => getEventId(before) === draggingId
+                ) ?? changes[0]!;
+              historyService.record({
+                type: 'move',
+                before: dragged.before,
+                after: dragged.after,
+                events: changes,
+              });
+            }
+          } else if (
+            draggingEvent &&
+            (isDraggingAllDay.value || draggingEvent.start?.date)
+          ) {
+            // Moved in the all-day area, or between it and the timeline
+            const newResourceId = resources?.[dragResourceIndex.value]?.id;
+            const currentEvent = { ...draggingEvent };
+            delete currentEvent._internal;
+
+            let newDates: Pick<EventItem, 'start' | 'end'>;
+            if (isDraggingAllDay.value) {
+              newDates = getAllDayDates();
             } else {
-              await onDragEventEnd?.({
+              newDates = {
+                start: {
+                  dateTime: forceUpdateZone(newStartUnix, timeZone).toISO(),
+                  timeZone,
+                },
+                end: {
+                  dateTime: forceUpdateZone(newEndUnix, timeZone).toISO(),
+                  timeZone,
+                },
+              };
+            }
+
+            if (
+              newDates.start.date !== draggingEvent.start.date ||
+              newDates.end.date !== draggingEvent.end.date ||
+              newResourceId !== draggingEvent.resourceId
+            ) {
+              const updatedEvent = {
                 ...(currentEvent as OnEventResponse),
-                ...newProps,
+                ...newDates,
+              };
+              if (newResourceId !== undefined) {
+                updatedEvent.resourceId = newResourceId;
+              }
+              await onDragEventEnd?.(updatedEvent);
+              historyService.record({
+                type: 'move',
+                before: currentEvent,
+                after: updatedEvent,
               });
             }
+          } else if (
+            draggingEvent?.start?.dateTime &&
+            draggingEvent?.end?.dateTime
+          ) {
+            const prevStart = parseDateTime(draggingEvent.start.dateTime, {
+              zone: draggingEvent.start.timeZone,
+            })
+              .setZone(timeZone)
+              .toMillis();
+            const prevEnd = parseDateTime(draggingEvent.end.dateTime, {
+              zone: draggingEvent.end.timeZone,
+            })
+              .setZone(timeZone)
+              .toMillis();
+            const newStartObj = forceUpdateZone(newStartUnix, timeZone);
+            const newEndObj = forceUpdateZone(newEndUnix, timeZone);
+            const newStart = newStartObj.toMillis();
+            const newEnd = newEndObj.toMillis();
+            const newResourceId = resources?.[dragResourceIndex.value]?.id;
+            const currentEvent = { ...draggingEvent };
+            delete currentEvent._internal;
+
+            if (
+              prevStart !== newStart ||
+              prevEnd !== newEnd ||
+              newResourceId !== draggingEvent.resourceId
+            ) {
+              const newStartISO = newStartObj.toISO();
+              const newEndISO = newEndObj.toISO();
+              const newProps: OnCreateEventResponse = {
+                start: { dateTime: newStartISO, timeZone },
+                end: { dateTime: newEndISO, timeZone },
+              };
+              if (newResourceId !== undefined) {
+                newProps.resourceId = newResourceId;
+              }
+              if (selectedEvent) {
+                const updatedEvent = {
+                  ...(currentEvent as SelectedEventType),
+                  ...newProps,
+                };
+                const isResize =
+                  dragSelectedType.value === 'top' ||
+                  dragSelectedType.value === 'bottom';
+                await onDragSelectedEventEnd?.(updatedEvent);
+                historyService.record({
+                  type: isResize ? 'resize' : 'move',
+                  before: currentEvent,
+                  after: updatedEvent,
+                });
+              } else if (isDraggingCreate) {
+                const createdId = await onDragCreateEventEnd?.(newProps);
+                historyService.record({
+                  type: 'create',
+                  after: createdId ? { ...newProps, id: createdId } : newProps,
+                });
+              } else {
+                const updatedEvent = {
+                  ...(currentEvent as OnEventResponse),
+                  ...newProps,
+                };
+                await onDragEventEnd?.(updatedEvent);
+                historyService.record({
+                  type: 'move',
+                  before: currentEvent,
+                  after: updatedEvent,
+                });
+              }
+            }
           }
+        } finally {
+          setDraggingEvent(undefined);
+          setDraggingGroup(undefined);
+          setDropInvalidReason(undefined);
+          setIsDraggingCreate(false);
+          runOnUI(() => {
+            dragStartUnix.value = -1;
+            dragDuration.value = -1;
+            dragStartMinutes.value = -1;
+            dragSelectedType.value = undefined;
+
+            roundedDragStartUnix.value = -1;
+            roundedDragStartMinutes.value = -1;
+            roundedDragDuration.value = -1;
+            extraMinutes.value = 0;
+            isDraggingSelectedEvent.value = false;
+            dragResourceIndex.value = -1;
+            isDraggingAllDay.value = false;
+            dragAllDayDays.value = 1;
+            dragAllDayOffset.value = 0;
+            isDraggingGroupAnim.value = false;
+            isDropInvalid.value = false;
+          })();
+          setIsDragging(false);
         }
-
-        setDraggingEvent(undefined);
-        setIsDraggingCreate(false);
-        runOnUI(() => {
-          dragStartUnix.value = -1;
-          dragDuration.value = -1;
-          dragStartMinutes.value = -1;
-          dragSelectedType.value = undefined;
-
-          roundedDragStartUnix.value = -1;
-          roundedDragStartMinutes.value = -1;
-          roundedDragDuration.value = -1;
-          extraMinutes.value = 0;
-          isDraggingSelectedEvent.value = false;
-        })();
+        return;
       }
 
       setIsDragging(dragging);
     },
     [
+      checkDraggingDrop,
+      dragAllDayDays,
+      dragAllDayOffset,
       dragDuration,
+      dragResourceIndex,
       dragSelectedType,
       dragStartMinutes,
       dragStartUnix,
       draggingEvent,
+      draggingGroup,
+      draggingId,
       extraMinutes,
+      getAllDayDates,
+      getGroupShift,
+      historyService,
+      isDraggingAllDay,
       isDraggingCreate,
+      isDraggingGroupAnim,
+      isDropInvalid,
       isDraggingSelectedEvent,
       onDragCreateEventEnd,
       onDragEventEnd,
+      onDragEventsEnd,
       onDragSelectedEventEnd,
+      resources,
       roundedDragDuration,
       roundedDragStartMinutes,
       roundedDragStartUnix,
@@ -312,6 +862,42 @@ const DragEventProvider: FC<
     [draggingEvent?.start, draggingEvent?.end]
   );
 
+  const _updateDropState = useCallback(() => {
+    const { isValid, reason } = checkDraggingDrop();
+    isDropInvalid.value = !isValid;
+    setDropInvalidReason(reason);
+  }, [checkDraggingDrop, isDropInvalid]);
+
+  useAnimatedReaction(
+    () => {
+      if (!isDraggingAnim.value) {
+        return undefined;
+      }
+      return [
+        roundedDragStartUnix.value,
+        roundedDragStartMinutes.value,
+        roundedDragDuration.value,
+        dragResourceIndex.value,
+        dragAllDayOffset.value,
+        isDraggingAllDay.value ? 1 : 0,
+      ];
+    },
+    (slot, prevSlot) => {
+      if (!hasDropRules) {
+        return;
+      }
+      if (!slot) {
+        isDropInvalid.value = false;
+        return;
+      }
+      if (prevSlot && slot.every((value, index) => value === prevSlot[index])) {
+        return;
+      }
+      runOnJS(_updateDropState)();
+    },
+    [hasDropRules, _updateDropState]
+  );
+
   const _triggerHaptic = async () => {
     try {
       await hapticService.selection();
@@ -477,7 +1063,10 @@ const DragEventProvider: FC<
   useAnimatedReaction(
     () => dragPosition.value.x,
     (dragX, prevX) => {
+      // The horizontal timeline has no paged list to scroll. In RTL the
+      // drag position is mirrored, so the left edge is the previous page.
       if (
+        !isHorizontal &&
         isDraggingAnim.value &&
         dragX !== prevX &&
         dragX !== -1 &&
@@ -502,6 +1091,7 @@ const DragEventProvider: FC<
       calendarGridWidth,
       columnWidth,
       calendarData,
+      isHorizontal,
     ]
   );
 
@@ -523,17 +1113,24 @@ const DragEventProvider: FC<
 
           const diffY = targetOffset - offsetY.value;
           const minutes = diffY / minuteHeight.value;
+          const minDuration = dragMinDuration.value;
+          const maxDuration = dragMaxDuration.value;
           if (dragSelectedType.value === 'bottom') {
-            const nextDuration = Math.max(
-              dragStep,
-              dragDuration.value + minutes
+            const nextDuration = clampValues(
+              dragDuration.value + minutes,
+              minDuration,
+              maxDuration
             );
             const roundedEndMinutes =
               Math.round((initialStart + nextDuration) / dragStep) * dragStep;
             const roundedDuration = roundedEndMinutes - initialStart;
 
             dragDuration.value = nextDuration;
-            roundedDragDuration.value = roundedDuration;
+            roundedDragDuration.value = clampValues(
+              roundedDuration,
+              minDuration,
+              maxDuration
+            );
           } else {
             let nextStart = dragStartMinutes.value + minutes;
             let nextRoundedStart = Math.floor(nextStart / dragStep) * dragStep;
@@ -541,15 +1138,24 @@ const DragEventProvider: FC<
               const diffRounded = nextRoundedStart - nextStart;
               const nextDuration = dragDuration.value - minutes;
               const nextRoundedDuration = nextDuration - diffRounded;
-              if (nextDuration < dragStep) {
-                const minStart = initialStart + (initialDuration - dragStep);
-                nextStart = minStart;
-                nextRoundedStart = minStart;
+              // The end stays in place
+              const initialEnd = initialStart + initialDuration;
+              if (nextDuration < minDuration) {
+                nextStart = initialEnd - minDuration;
+                nextRoundedStart = nextStart;
+              } else if (nextRoundedDuration > maxDuration) {
+                nextStart = Math.max(nextStart, initialEnd - maxDuration);
+                nextRoundedStart = initialEnd - maxDuration;
               }
-              dragDuration.value = Math.max(dragStep, nextDuration);
-              roundedDragDuration.value = Math.max(
-                dragStep,
-                nextRoundedDuration
+              dragDuration.value = clampValues(
+                nextDuration,
+                minDuration,
+                maxDuration
+              );
+              roundedDragDuration.value = clampValues(
+                nextRoundedDuration,
+                minDuration,
+                maxDuration
               );
             }
             dragStartMinutes.value = nextStart;
@@ -557,7 +1163,11 @@ const DragEventProvider: FC<
           }
           extraMinutes.value += minutes;
           offsetY.value = targetOffset;
-          scrollTo(verticalListRef, 0, targetOffset, false);
+          if (isHorizontal) {
+            scrollTo(verticalListRef, targetOffset, 0, false);
+          } else {
+            scrollTo(verticalListRef, 0, targetOffset, false);
+          }
         }
       })();
 
@@ -580,6 +1190,11 @@ const DragEventProvider: FC<
   useAnimatedReaction(
     () => dragPosition.value.y,
     (dragY, prevY) => {
+      if (isDraggingAllDay.value) {
+        offsetYAnim.value = 0;
+        runOnJS(_stopAutoVScroll)();
+        return;
+      }
       if (isDraggingAnim.value && dragY !== prevY && dragY !== -1) {
         const isAtTopEdge = dragY <= SCROLL_THRESHOLD;
         const isAtBottomEdge =
@@ -608,10 +1223,20 @@ const DragEventProvider: FC<
       if (!selectedEvent) {
         return;
       }
+      const isAllowed =
+        initialDrag.type === 'center'
+          ? isEventMovable(selectedEvent)
+          : isEventResizable(selectedEvent);
+      if (!isAllowed) {
+        return;
+      }
       if (selectedEvent && onDragSelectedEventStart) {
         onDragSelectedEventStart(selectedEvent);
       }
       setDraggingEvent(selectedEvent);
+      const resourceIndex = getResourceIndex(selectedEvent.resourceId);
+      const minDuration = selectedEvent.minDuration ?? minDragDuration;
+      const maxDuration = selectedEvent.maxDuration ?? maxDragDuration;
 
       runOnUI(() => {
         if (initialDrag.startIndex === 0) {
@@ -619,23 +1244,25 @@ const DragEventProvider: FC<
           dragStartMinutes.value = startMinutes;
           roundedDragStartMinutes.value = startMinutes;
           const diffDays = Math.floor(
-            (dragSelectedStartUnix.value - visibleDateUnixAnim.value) /
-              MILLISECONDS_IN_DAY
+            wallClockMinutes(
+              visibleDateUnixAnim.value,
+              dragSelectedStartUnix.value
+            ) / MINUTES_IN_DAY
           );
-          const startUnix =
-            visibleDateUnixAnim.value + diffDays * MILLISECONDS_IN_DAY;
+          const startUnix = plusDays(visibleDateUnixAnim.value, diffDays);
           dragStartUnix.value = startUnix;
           roundedDragStartUnix.value = startUnix;
         } else {
-          const startByIndex =
-            dragSelectedStartUnix.value +
-            initialDrag.startIndex * MILLISECONDS_IN_DAY;
+          const startByIndex = plusDays(
+            dragSelectedStartUnix.value,
+            initialDrag.startIndex
+          );
           const diffDays = Math.floor(
-            (startByIndex - visibleDateUnixAnim.value) / MILLISECONDS_IN_DAY
+            wallClockMinutes(visibleDateUnixAnim.value, startByIndex) /
+              MINUTES_IN_DAY
           );
 
-          const startUnix =
-            visibleDateUnixAnim.value + diffDays * MILLISECONDS_IN_DAY;
+          const startUnix = plusDays(visibleDateUnixAnim.value, diffDays);
           dragStartUnix.value = startUnix;
           roundedDragStartUnix.value = startUnix;
 
@@ -652,20 +1279,29 @@ const DragEventProvider: FC<
         dragDuration.value = duration;
         roundedDragDuration.value = duration;
         dragSelectedType.value = initialDrag.type;
+        dragResourceIndex.value = resourceIndex;
+        dragMinDuration.value = minDuration;
+        dragMaxDuration.value = maxDuration;
         isDraggingAnim.value = true;
         isDraggingSelectedEvent.value = true;
       })();
     },
     [
       dragDuration,
+      dragMaxDuration,
+      dragMinDuration,
+      dragResourceIndex,
       dragSelectedDuration.value,
       dragSelectedStartMinutes.value,
       dragSelectedStartUnix.value,
       dragSelectedType,
       dragStartMinutes,
       dragStartUnix,
+      getResourceIndex,
       isDraggingAnim,
       isDraggingSelectedEvent,
+      maxDragDuration,
+      minDragDuration,
       onDragSelectedEventStart,
       roundedDragDuration,
       roundedDragStartMinutes,
@@ -675,11 +1311,109 @@ const DragEventProvider: FC<
     ]
   );
 
+  const toggleSelectedEvent = useCallback(
+    (event: SelectedEventType) => {
+      if (!selectedEvents) {
+        return;
+      }
+
+      const eventId = getEventId(event);
+      if (eventId && selectedEventIds.includes(eventId)) {
+        onSelectedEventsChange?.(
+          selectedEvents.filter((item) => getEventId(item) !== eventId)
+        );
+        return;
+      }
+
+      const clonedEvent = { ...event };
+      delete clonedEvent._internal;
+      onSelectedEventsChange?.([...selectedEvents, clonedEvent]);
+    },
+    [onSelectedEventsChange, selectedEventIds, selectedEvents]
+  );
+
+  const adjustEvent = useCallback(
+    async (event: OnEventResponse, change: { start: number; end: number }) => {
+      if (!event.start.dateTime || !event.end.dateTime) {
+        return undefined;
+      }
+      const isResize = change.start !== change.end;
+      if (isResize ? !isEventResizable(event) : !isEventMovable(event)) {
+        return undefined;
+      }
+
+      const toLocalUnix = (date: DateOrDateTime) =>
+        forceUpdateZone(
+          parseDateTime(date.dateTime, { zone: date.timeZone }).setZone(
+            timeZone
+          )
+        ).toMillis();
+      const startUnix =
+        toLocalUnix(event.start) + change.start * MILLISECONDS_IN_MINUTE;
+      const endUnix =
+        toLocalUnix(event.end) + change.end * MILLISECONDS_IN_MINUTE;
+      const duration = (endUnix - startUnix) / MILLISECONDS_IN_MINUTE;
+      const minDuration = event.minDuration ?? minDragDuration;
+      const maxDuration = event.maxDuration ?? maxDragDuration;
+      if (isResize && (duration < minDuration || duration > maxDuration)) {
+        return undefined;
+      }
+
+      const dayUnix = parseDateTime(startUnix).startOf('day').toMillis();
+      const startMinutes = (startUnix - dayUnix) / MILLISECONDS_IN_MINUTE;
+      const drop = hasDropRules
+        ? checkDrop(
+            dayUnix,
+            startMinutes,
+            duration,
+            getResourceIndex(event.resourceId),
+            event
+          )
+        : { isValid: true, startMinutes };
+      if (!drop.isValid) {
+        return undefined;
+      }
+
+      const newStartUnix = dayUnix + drop.startMinutes * MILLISECONDS_IN_MINUTE;
+      const newEndUnix = newStartUnix + duration * MILLISECONDS_IN_MINUTE;
+      const currentEvent = { ...event };
+      delete currentEvent._internal;
+      const updatedEvent: OnEventResponse = {
+        ...currentEvent,
+        start: {
+          dateTime: forceUpdateZone(newStartUnix, timeZone).toISO(),
+          timeZone,
+        },
+        end: {
+          dateTime: forceUpdateZone(newEndUnix, timeZone).toISO(),
+          timeZone,
+        },
+      };
+      await onDragEventEnd?.(updatedEvent);
+      historyService.record({
+        type: isResize ? 'resize' : 'move',
+        before: currentEvent,
+        after: updatedEvent,
+      });
+      return updatedEvent;
+    },
+    [
+      checkDrop,
+      getResourceIndex,
+      hasDropRules,
+      historyService,
+      maxDragDuration,
+      minDragDuration,
+      onDragEventEnd,
+      timeZone,
+    ]
+  );
+
   const triggerDragEvent = useCallback(
     (
       initialDrag: {
-        start: DateTimeType;
-        end: DateTimeType;
+        start: DateOrDateTime;
+        end: DateOrDateTime;
         startIndex?: number;
       },
       event?: OnEventResponse
@@ -687,10 +1421,57 @@ const DragEventProvider: FC<
       if (event && onLongPressEvent) {
         onLongPressEvent(event);
       }
+
+      const isSelected =
+        !!event && selectedEventIds.includes(getEventId(event)!);
+      if (event && selectedEvents && !isSelected) {
+        // Long press selects the event, dragging a selected one moves them all
+        toggleSelectedEvent(event);
+        return;
+      }
+      if (event && !isEventMovable(event)) {
+        return;
+      }
+
       if (event && onDragEventStart) {
         onDragEventStart(event);
       }
       setDraggingEvent(event);
+      setDraggingGroup(
+        isSelected ? selectedEvents?.filter(isEventMovable) : undefined
+      );
+
+      if (initialDrag.start.date) {
+        // All-day event, held by its `startIndex` day in the header
+        const startDay = parseDateTime(initialDrag.start.date);
+        const endDay = parseDateTime(
+          initialDrag.end.date ?? initialDrag.start.date
+        );
+        const days = Math.max(
+          Math.round(endDay.diff(startDay, 'days').days) + 1,
+          1
+        );
+        const dayOffset = initialDrag.startIndex ?? 0;
+        const dayUnix = startDay.plus({ days: dayOffset }).toMillis();
+        const allDayResourceIndex = getResourceIndex(event?.resourceId);
+
+        runOnUI(() => {
+          dragStartUnix.value = dayUnix;
+          roundedDragStartUnix.value = dayUnix;
+          dragStartMinutes.value = 0;
+          roundedDragStartMinutes.value = 0;
+          dragDuration.value = defaultDuration;
+          roundedDragDuration.value = defaultDuration;
+          dragAllDayDays.value = days;
+          dragAllDayOffset.value = dayOffset;
+          dragResourceIndex.value = allDayResourceIndex;
+          isDraggingAllDay.value = true;
+          isDraggingGroupAnim.value = isSelected;
+          isDraggingAnim.value = true;
+        })();
+        return;
+      }
+
       let startDate = parseDateTime(initialDrag.start.dateTime, {
         zone: initialDrag.start.timeZone,
       }).setZone(timeZone);
@@ -702,28 +1483,28 @@ const DragEventProvider: FC<
       const startMinutes = startDate.hour * 60 + startDate.minute;
       const eventStartUnix = startDate.toMillis();
       const eventEndUnix = endDate.toMillis();
+      const resourceIndex = getResourceIndex(event?.resourceId);
 
       runOnUI(() => {
         if (initialDrag.startIndex === 0) {
           dragStartMinutes.value = startMinutes;
           roundedDragStartMinutes.value = startMinutes;
           const diffDays = Math.floor(
-            (eventStartUnix - visibleDateUnixAnim.value) / MILLISECONDS_IN_DAY
+            wallClockMinutes(visibleDateUnixAnim.value, eventStartUnix) /
+              MINUTES_IN_DAY
           );
-          const startUnix =
-            visibleDateUnixAnim.value + diffDays * MILLISECONDS_IN_DAY;
+          const startUnix = plusDays(visibleDateUnixAnim.value, diffDays);
           dragStartUnix.value = startUnix;
           roundedDragStartUnix.value = startUnix;
         } else {
           const startIndex = initialDrag.startIndex ?? 0;
-          const startByIndex =
-            eventStartUnix + startIndex * MILLISECONDS_IN_DAY;
+          const startByIndex = plusDays(eventStartUnix, startIndex);
           const diffDays = Math.floor(
-            (startByIndex - visibleDateUnixAnim.value) / MILLISECONDS_IN_DAY
+            wallClockMinutes(visibleDateUnixAnim.value, startByIndex) /
+              MINUTES_IN_DAY
           );
 
-          const startUnix =
-            visibleDateUnixAnim.value + diffDays * MILLISECONDS_IN_DAY;
+          const startUnix = plusDays(visibleDateUnixAnim.value, diffDays);
           dragStartUnix.value = startUnix;
           roundedDragStartUnix.value = startUnix;
 
@@ -739,13 +1520,25 @@ const DragEventProvider: FC<
           (eventEndUnix - eventStartUnix) / MILLISECONDS_IN_MINUTE;
         dragDuration.value = duration;
         roundedDragDuration.value = duration;
+        dragResourceIndex.value = resourceIndex;
+        dragAllDayDays.value = 1;
+        dragAllDayOffset.value = 0;
+        isDraggingGroupAnim.value = isSelected;
         isDraggingAnim.value = true;
       })();
     },
     [
       onLongPressEvent,
       onDragEventStart,
+      selectedEventIds,
+      selectedEvents,
+      toggleSelectedEvent,
+      isDraggingGroupAnim,
       timeZone,
+      defaultDuration,
+      dragAllDayDays,
+      dragAllDayOffset,
+      isDraggingAllDay,
       dragDuration,
       roundedDragDuration,
       isDraggingAnim,
@@ -754,12 +1547,29 @@ const DragEventProvider: FC<
       visibleDateUnixAnim.value,
       dragStartUnix,
       roundedDragStartUnix,
+      getResourceIndex,
+      dragResourceIndex,
     ]
   );
 
   const triggerDragCreateEvent = useCallback(
-    (date: DateType) => {
+    (date: DateType, event: GestureResponderEvent) => {
       setIsDraggingCreate(true);
+      let resourceIndex = -1;
+      if (resources?.length) {
+        let location = isHorizontal
+          ? event.nativeEvent.locationY
+          : event.nativeEvent.locationX;
+        if (isRTL) {
+          location = columnWidthAnim.value - location;
+        }
+        resourceIndex = clampValues(
+          Math.floor(location / resourceWidthAnim.value),
+          0,
+          resources.length - 1
+        );
+      }
+      const resourceId = resources?.[resourceIndex]?.id;
       const start = parseDateTime(date, { zone: timeZone });
       const startUnix = parseDateTime(start.toISODate()).toMillis();
       const startMinutes = start.hour * 60 + start.minute;
@@ -772,11 +1582,13 @@ const DragEventProvider: FC<
       setDraggingEvent({
         start: { dateTime: startISO },
         end: { dateTime: endISO },
+        resourceId,
       });
       if (onDragCreateEventStart) {
         onDragCreateEventStart({
           start: { dateTime: startISO },
           end: { dateTime: endISO },
+          resourceId,
         });
       }
 
@@ -787,6 +1599,9 @@ const DragEventProvider: FC<
         roundedDragStartMinutes.value = roundedMinutes;
         dragDuration.value = defaultDuration;
         roundedDragDuration.value = defaultDuration;
+        dragResourceIndex.value = resourceIndex;
+        dragMinDuration.value = minDragDuration;
+        dragMaxDuration.value = maxDragDuration;
         isDraggingCreateAnim.value = true;
         isDraggingAnim.value = true;
       })();
@@ -794,12 +1609,22 @@ const DragEventProvider: FC<
     [
       defaultDuration,
       dragDuration,
+      dragMaxDuration,
+      dragMinDuration,
+      dragResourceIndex,
       dragStartMinutes,
       dragStartUnix,
       dragStep,
       isDraggingAnim,
       isDraggingCreateAnim,
+      isHorizontal,
+      isRTL,
+      columnWidthAnim,
+      maxDragDuration,
+      minDragDuration,
       onDragCreateEventStart,
+      resourceWidthAnim,
+      resources,
       roundedDragDuration,
       roundedDragStartMinutes,
       roundedDragStartUnix,
@@ -835,6 +1660,17 @@ const DragEventProvider: FC<
       defaultDuration,
       isDraggingCreateAnim,
       isDraggingCreate,
+      dragResourceIndex,
+      isDraggingAllDay,
+      dragAllDayDays,
+      dragAllDayOffset,
+      selectedEventIds,
+      draggingGroup,
+      isDraggingGroupAnim,
+      isDropInvalid,
+      dropInvalidReason,
+      dragMinDuration,
+      dragMaxDuration,
     }),
     [
       dragStep,
@@ -863,6 +1699,17 @@ const DragEventProvider: FC<
       defaultDuration,
       isDraggingCreateAnim,
       isDraggingCreate,
+      dragResourceIndex,
+      isDraggingAllDay,
+      dragAllDayDays,
+      dragAllDayOffset,
+      selectedEventIds,
+      draggingGroup,
+      isDraggingGroupAnim,
+      isDropInvalid,
+      dropInvalidReason,
+      dragMinDuration,
+      dragMaxDuration,
     ]
   );
 
@@ -873,13 +1720,18 @@ const DragEventProvider: FC<
       triggerDragCreateEvent: allowDragToCreate
         ? triggerDragCreateEvent
         : undefined,
+      toggleSelectedEvent: selectedEvents ? toggleSelectedEvent : undefined,
+      adjustEvent: allowDragToEdit ? adjustEvent : undefined,
     }),
     [
+      adjustEvent,
       allowDragToEdit,
       triggerDragEvent,
       triggerDragSelectedEvent,
       allowDragToCreate,
       triggerDragCreateEvent,
+      selectedEvents,
+      toggleSelectedEvent,
     ]
   );
 
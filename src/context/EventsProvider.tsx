@@ -6,44 +6,80 @@ import React, {
   useContext,
   useEffect,
   useImperativeHandle,
+  useMemo,
+  useState,
 } from 'react';
-import {
-  DEFAULT_MIN_START_DIFFERENCE,
-  MILLISECONDS_IN_DAY,
-} from '../constants';
+import { DEFAULT_MIN_START_DIFFERENCE } from '../constants';
+import useLatestCallback from '../hooks/useLatestCallback';
 import useLazyRef from '../hooks/useLazyRef';
 import { useSyncExternalStoreWithSelector } from '../hooks/useSyncExternalStoreWithSelector';
 import { createStore } from '../storeBuilder';
 import type { Store } from '../storeBuilder';
+import EventStoreService from '../service/EventStoreService';
+import type { EventsState } from '../service/EventStoreService';
+import RangeLoaderService from '../service/RangeLoaderService';
+import type { RangeLoaderState } from '../service/RangeLoaderService';
 import type {
+  CalendarProviderProps,
   EventItem,
-  EventItemInternal,
+  OverlapType,
   PackedAllDayEvent,
   PackedEvent,
+  ResourceItem,
 } from '../types';
-import { forceUpdateZone, parseDateTime } from '../utils/dateUtils';
-import {
-  divideAllDayEvents,
-  divideEvents,
-  filterEvents,
-  populateEvents,
-  processAllDayEventMap,
-  processEventOccurrences,
-} from '../utils/eventUtils';
+import { forceUpdateZone, parseDateTime, plusDays } from '../utils/dateUtils';
+import { prepareAgendaSections } from '../utils/eventUtils';
+import { LoadingContext, useLoading } from './LoadingContext';
 import { useDateChangedListener } from './VisibleDateProvider';
 
-interface EventsState {
-  allDayEvents: Record<string, PackedAllDayEvent[]>;
-  allDayEventsByDay: Record<string, PackedAllDayEvent[]>;
-  regularEvents: Record<string, PackedEvent[]>;
-  eventCountsByDay: Record<string, number>;
-  eventCountsByWeek: Record<string, number>;
-}
-
 const EventsContext = React.createContext<Store<EventsState> | undefined>(
   undefined
 );
 
+// Untouched days keep their event objects, compare the selections by item
+function isSameList<T>(a: T[], b: T[]) {
+  return a.length === b.length && a.every((item, i) => item === b[i]);
+}
+
+function isSameRecord<T>(a: Record<string, T>, b: Record<string, T>) {
+  const keys = Object.keys(a);
+  return (
+    keys.length === Object.keys(b).length &&
+    keys.every((key) => a[key] === b[key])
+  );
+}
+
+const isSameAllDaySelection = (
+  a: { data: PackedAllDayEvent[]; eventCounts: Record<string, number> },
+  b: { data: PackedAllDayEvent[]; eventCounts: Record<string, number> }
+) => isSameList(a.data, b.data) && isSameRecord(a.eventCounts, b.eventCounts);
+
+const isSameAllDayByDaySelection = (
+  a: { data: PackedAllDayEvent[]; eventCounts: number },
+  b: { data: PackedAllDayEvent[]; eventCounts: number }
+) => a.data === b.data && a.eventCounts === b.eventCounts;
+
+const isSameRegularSelection = (
+  a: { data: PackedEvent[] },
+  b: { data: PackedEvent[] }
+) => isSameList(a.data, b.data);
+
+const isSameMonthSelection = (
+  a: { data: Record<string, PackedEvent[]> },
+  b: { data: Record<string, PackedEvent[]> }
+) => isSameRecord(a.data, b.data);
+
+interface EventSourceContextProps {
+  events: EventItem[];
+  timeZone: string;
+  useAllDayEvent?: boolean;
+  minRegularEventMinutes: number;
+}
+
+const EventSourceContext = React.createContext<
+  EventSourceContextProps | undefined
+>(undefined);
+
 interface EventsProviderProps {
   firstDay: WeekdayNumbers;
   events?: EventItem[];
@@ -53,12 +89,16 @@ interface EventsProviderProps {
   hideWeekDays: WeekdayNumbers[];
   defaultOffset?: number;
   minRegularEventMinutes?: number;
-  overlapType?: 'no-overlap' | 'overlap';
+  overlapType?: OverlapType;
   minStartDifference?: number;
+  resources?: ResourceItem[];
+  onLoadRange?: CalendarProviderProps['onLoadRange'];
+  onLoadRangeError?: CalendarProviderProps['onLoadRangeError'];
 }
 
 export interface EventsRef {
   getEventsByDate: (date: string) => PackedEvent[];
+  invalidateLoadedRanges: () => void;
 }
 
 const EventsProvider: ForwardRefRenderFunction<
@@ -77,6 +117,9 @@ const EventsProvider: ForwardRefRenderFunction<
     minRegularEventMinutes = 1,
     overlapType = 'no-overlap',
     minStartDifference = DEFAULT_MIN_START_DIFFERENCE,
+    resources,
+    onLoadRange,
+    onLoadRangeError,
   },
   ref
 ) => {
@@ -89,91 +132,63 @@ const EventsProvider: ForwardRefRenderFunction<
       eventCountsByWeek: {},
     })
   ).current;
+  const eventStoreService = useLazyRef(() => new EventStoreService()).current;
+  const rangeLoaderService = useLazyRef(() => new RangeLoaderService()).current;
+  const [rangeLoaderState, setRangeLoaderState] = useState<RangeLoaderState>({
+    events: [],
+    isLoading: false,
+  });
+  const _onLoadRange = useLatestCallback(onLoadRange);
+  const _onLoadRangeError = useLatestCallback(onLoadRangeError);
+  const isParentLoading = useLoading();
   const currentStartDate = useDateChangedListener();
+  const resourceIds = useMemo(
+    () => resources?.map((resource) => resource.id),
+    [resources]
+  );
+
+  // Events of `events` replace the loaded events with the same ID
+  const allEvents = useMemo(() => {
+    if (!rangeLoaderState.events.length) {
+      return events;
+    }
+    const ids = new Set(events.map((event) => event.id));
+    return [
+      ...events,
+      ...rangeLoaderState.events.filter((event) => !ids.has(event.id)),
+    ];
+  }, [events, rangeLoaderState.events]);
 
   const notifyDataChanged = useCallback(
     (date: number, offset: number = defaultOffset) => {
-      const zonedDate = forceUpdateZone(date, timeZone).toMillis();
-      const minUnix = zonedDate - MILLISECONDS_IN_DAY * offset * pagesPerSide;
-      const maxUnix =
-        zonedDate + MILLISECONDS_IN_DAY * offset * (pagesPerSide + 1);
-
-      const { regular: regularEvents, allDays: allDayEvents } = filterEvents(
-        events,
-        minUnix,
-        maxUnix,
-        showAllDay
-      );
-
-      // Process regular events
-      const regularEventMap = new Map<number, EventItemInternal[]>();
-      regularEvents.forEach((event) => {
-        const processedEvents = processEventOccurrences(
-          event,
-          minUnix,
-          maxUnix,
-          timeZone,
-          (e, tz) => divideEvents(e, tz, minRegularEventMinutes)
-        );
-        processedEvents.forEach((evt) => {
-          const dayStart = parseDateTime(evt._internal.startUnix)
-            .startOf('day')
-            .toMillis();
-          if (!regularEventMap.has(dayStart)) {
-            regularEventMap.set(dayStart, []);
-          }
-          regularEventMap.get(dayStart)!.push(evt);
-        });
-      });
-      const packedRegularEvents: Record<string, PackedEvent[]> = {};
-      regularEventMap.forEach((rEvents, day) => {
-        packedRegularEvents[day] = populateEvents(rEvents, {
-          overlap: overlapType === 'overlap',
-          minStartDifference,
-        });
-      });
-
-      // Process all-day events
-      const allDayEventMap = new Map<number, EventItemInternal[]>();
-      allDayEvents.forEach((event) => {
-        const processedEvents = processEventOccurrences(
-          event,
-          minUnix,
-          maxUnix,
-          timeZone,
-          (e, tz) => divideAllDayEvents(e, tz, firstDay, hideWeekDays)
-        );
-        processedEvents.forEach((evt) => {
-          const weekStart = evt._internal.weekStart;
-          if (!weekStart) {
-            return;
-          }
-          if (!allDayEventMap.has(weekStart)) {
-            allDayEventMap.set(weekStart, []);
-          }
-          allDayEventMap.get(weekStart)!.push(evt);
-        });
-      });
-
-      const {
-        packedAllDayEvents,
-        packedAllDayEventsByDay,
-        eventCountsByWeek,
-        eventCountsByDay,
-      } = processAllDayEventMap(allDayEventMap, timeZone, hideWeekDays);
-
-      eventStore.setState({
-        regularEvents: packedRegularEvents,
-        allDayEvents: packedAllDayEvents,
-        allDayEventsByDay: packedAllDayEventsByDay,
-        eventCountsByDay,
-        eventCountsByWeek,
+      const zonedDate = forceUpdateZone(date, timeZone);
+      const minUnix = zonedDate
+        .minus({ days: offset * pagesPerSide })
+        .toMillis();
+      const maxUnix = zonedDate
+        .plus({ days: offset * (pagesPerSide + 1) })
+        .toMillis();
+
+      rangeLoaderService.load(minUnix, maxUnix, timeZone, firstDay);
+      const nextState = eventStoreService.update(allEvents, minUnix, maxUnix, {
+        timeZone,
+        firstDay,
+        hideWeekDays,
+        useAllDayEvent: showAllDay,
+        minRegularEventMinutes,
+        overlapType,
+        minStartDifference,
+        resourceIds,
       });
+      if (nextState !== eventStore.getState()) {
+        eventStore.setState(nextState);
+      }
     },
     [
+      allEvents,
       defaultOffset,
       eventStore,
-      events,
+      eventStoreService,
       firstDay,
       hideWeekDays,
       minRegularEventMinutes,
@@ -182,6 +197,8 @@ const EventsProvider: ForwardRefRenderFunction<
       timeZone,
       overlapType,
       minStartDifference,
+      rangeLoaderService,
+      resourceIds,
     ]
   );
 
@@ -201,15 +218,48 @@ const EventsProvider: ForwardRefRenderFunction<
       });
       return filteredEvents;
     },
+    invalidateLoadedRanges: () => {
+      rangeLoaderService.invalidate();
+      notifyDataChanged(currentStartDate);
+    },
   }));
 
+  // Set before the first load, effects run in order
+  useEffect(() => {
+    rangeLoaderService.onChange = setRangeLoaderState;
+    rangeLoaderService.onLoadRange = _onLoadRange;
+    rangeLoaderService.onError = _onLoadRangeError;
+    if (!_onLoadRange) {
+      rangeLoaderService.reset();
+    }
+  }, [_onLoadRange, _onLoadRangeError, rangeLoaderService]);
+
   useEffect(() => {
     notifyDataChanged(currentStartDate);
-  }, [events, notifyDataChanged, currentStartDate]);
+  }, [allEvents, notifyDataChanged, currentStartDate]);
+
+  const eventSource = useMemo(
+    () => ({
+      events: allEvents,
+      timeZone,
+      useAllDayEvent: showAllDay,
+      minRegularEventMinutes,
+    }),
+    [allEvents, timeZone, showAllDay, minRegularEventMinutes]
+  );
+
+  const loadingValue = useMemo(
+    () => ({ isLoading: isParentLoading || rangeLoaderState.isLoading }),
+    [isParentLoading, rangeLoaderState.isLoading]
+  );
 
   return (
     <EventsContext.Provider value={eventStore}>
-      {children}
+      <EventSourceContext.Provider value={eventSource}>
+        <LoadingContext.Provider value={loadingValue}>
+          {children}
+        </LoadingContext.Provider>
+      </EventSourceContext.Provider>
     </EventsContext.Provider>
   );
 };
@@ -229,7 +279,7 @@ export const useAllDayEvents = (
       const eventCounts: Record<string, number> = {};
       const totalDays = numberOfDays === 1 ? 1 : 7;
       for (let i = 0; i < totalDays; i++) {
-        const dateUnix = date + i * MILLISECONDS_IN_DAY;
+        const dateUnix = plusDays(date, i);
         if (visibleDays[dateUnix]) {
           const events = state.allDayEvents[dateUnix];
           const count = state.eventCountsByDay[dateUnix];
@@ -254,7 +304,8 @@ export const useAllDayEvents = (
   const state = useSyncExternalStoreWithSelector(
     eventsContext.subscribe,
     eventsContext.getState,
-    selectorByDate
+    selectorByDate,
+    isSameAllDaySelection
   );
   return state;
 };
@@ -279,7 +330,8 @@ export const useAllDayEventsByDay = (date: number) => {
   const state = useSyncExternalStoreWithSelector(
     eventsContext.subscribe,
     eventsContext.getState,
-    selectorByDate
+    selectorByDate,
+    isSameAllDayByDaySelection
   );
   return state;
 };
@@ -296,7 +348,7 @@ export const useRegularEvents = (
       const data: PackedEvent[] = [];
       const totalDays = numberOfDays === 1 ? 1 : 7;
       for (let i = 0; i < totalDays; i++) {
-        const dateUnix = date + i * MILLISECONDS_IN_DAY;
+        const dateUnix = plusDays(date, i);
         if (visibleDays[dateUnix]) {
           const events = state.regularEvents[dateUnix];
           if (events) {
@@ -317,11 +369,29 @@ export const useRegularEvents = (
   const state = useSyncExternalStoreWithSelector(
     eventsContext.subscribe,
     eventsContext.getState,
-    selectorByDate
+    selectorByDate,
+    isSameRegularSelection
   );
   return state;
 };
 
+/** Reads the regular events of a day without subscribing to the store */
+export const useRegularEventsGetter = () => {
+  const eventsContext = useContext(EventsContext);
+
+  if (!eventsContext) {
+    throw new Error(
+      'useRegularEventsGetter must be used within a EventsProvider'
+    );
+  }
+
+  return useCallback(
+    (dateUnix: number): PackedEvent[] =>
+      eventsContext.getState().regularEvents[dateUnix] ?? [],
+    [eventsContext]
+  );
+};
+
 export const useEventCountsByWeek = (type: 'week' | 'day') => {
   const eventsContext = useContext(EventsContext);
 
@@ -356,7 +426,7 @@ export const useMonthEvents = (
     (state: EventsState) => {
       const data: Record<string, PackedEvent[]> = {};
       for (let i = 0; i < numberOfDays; i++) {
-        const dateUnix = date + i * MILLISECONDS_IN_DAY;
+        const dateUnix = plusDays(date, i);
         if (visibleDays.includes(dateUnix)) {
           const events = state.regularEvents[dateUnix];
           if (events) {
@@ -377,7 +447,38 @@ export const useMonthEvents = (
   const state = useSyncExternalStoreWithSelector(
     eventsContext.subscribe,
     eventsContext.getState,
-    selectorByDate
+    selectorByDate,
+    isSameMonthSelection
   );
   return state;
 };
+
+/** Expands the source events into sorted day sections between two days. */
+export const useAgendaSections = (minDateUnix: number, maxDateUnix: number) => {
+  const eventSource = useContext(EventSourceContext);
+
+  if (!eventSource) {
+    throw new Error('useAgendaSections must be used within a EventsProvider');
+  }
+
+  const { events, timeZone, useAllDayEvent, minRegularEventMinutes } =
+    eventSource;
+  return useMemo(
+    () =>
+      prepareAgendaSections(events, {
+        minDateUnix,
+        maxDateUnix,
+        timeZone,
+        useAllDayEvent,
+        minRegularEventMinutes,
+      }),
+    [
+      events,
+      minDateUnix,
+      maxDateUnix,
+      timeZone,
+      useAllDayEvent,
+      minRegularEventMinutes,
+    ]
+  );
+};
@@ -4,25 +4,59 @@ import type { PropsWithChildren } from 'react';
 import { DEFAULT_LOCALES } from '../constants';
 import useLazyRef from '../hooks/useLazyRef';
 import type { DeepPartial, LocaleConfigsProps } from '../types';
+import {
+  getIntlLocaleConfigs,
+  getLocaleDefaults,
+  isOutputCalendar,
+} from '../utils/dateUtils';
 
-const LocaleContext = React.createContext<LocaleConfigsProps | undefined>(
+export interface LocaleContextProps extends LocaleConfigsProps {
+  /** Code of the current locale, used to format dates */
+  locale: string;
+  /** Non-Gregorian calendar system of the dates, if any */
+  outputCalendar?: string;
+  /** Whether the Gregorian day numbers are shown with `outputCalendar` ones */
+  dualCalendar: boolean;
+}
+
+const LocaleContext = React.createContext<LocaleContextProps | undefined>(
   undefined
 );
 
 interface LocaleProviderProps {
   initialLocales?: { [locale: string]: DeepPartial<LocaleConfigsProps> };
   locale?: string;
+  outputCalendar?: string;
+  dualCalendar?: boolean;
+  useLocaleDefaults?: boolean;
 }
 
 const LocaleProvider: React.FC<PropsWithChildren<LocaleProviderProps>> = ({
   initialLocales,
   locale = 'en',
+  outputCalendar,
+  dualCalendar = false,
+  useLocaleDefaults = false,
   children,
 }) => {
   const locales = useLazyRef(() => merge({}, DEFAULT_LOCALES, initialLocales));
+  // Missing texts of the locale fall back to `en`, the other configs to `Intl`
   const localeConfig = useMemo(
-    () => locales.current[locale] || locales.current.en,
-    [locale, locales]
+    (): LocaleContextProps => ({
+      ...merge(
+        {},
+        locales.current.en,
+        getIntlLocaleConfigs(locale),
+        getLocaleDefaults(locale, useLocaleDefaults),
+        locales.current[locale]
+      ),
+      locale,
+      outputCalendar: isOutputCalendar(outputCalendar)
+        ? outputCalendar
+        : undefined,
+      dualCalendar: isOutputCalendar(outputCalendar) && dualCalendar,
+    }),
+    [dualCalendar, locale, locales, outputCalendar, useLocaleDefaults]
   );
 
   return (
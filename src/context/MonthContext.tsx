@@ -0,0 +1,35 @@
+import type { WeekdayNumbers } from 'luxon';
+import React from 'react';
+import type { CalendarMonthProps } from '../types';
+import type { MonthData } from '../utils/utils';
+import type { Size } from './LayoutProvider';
+
+export interface MonthContextProps {
+  calendarLayout: Size;
+  monthData: MonthData;
+  firstDay: WeekdayNumbers;
+  hideWeekDays: WeekdayNumbers[];
+  /** Visible week days, ordered from `firstDay` */
+  weekDays: WeekdayNumbers[];
+  columnWidth: number;
+  pageHeight: number;
+  eventHeight: number;
+  hourFormat: string;
+  rightEdgeSpacing: number;
+  isRTL: boolean;
+  renderMonthEvent?: CalendarMonthProps['renderMonthEvent'];
+}
+
+export const MonthContext = React.createContext<MonthContextProps | undefined>(
+  undefined
+);
+
+export const useMonth = () => {
+  const context = React.useContext(MonthContext);
+
+  if (context === undefined) {
+    throw new Error('useMonth must be used within a CalendarMonth');
+  }
+
+  return context;
+};
@@ -12,9 +12,8 @@ import { AppState } from 'react-native';
 import type { AppStateStatus, NativeEventSubscription } from 'react-native';
 import { useSharedValue, withTiming } from 'react-native-reanimated';
 import type { SharedValue } from 'react-native-reanimated';
-import { MILLISECONDS_IN_DAY } from '../constants';
 import useLazyRef from '../hooks/useLazyRef';
-import { forceUpdateZone } from '../utils/dateUtils';
+import { forceUpdateZone, plusDays } from '../utils/dateUtils';
 import { useTimezone } from './TimeZoneProvider';
 
 export interface NowIndicatorContext {
@@ -62,9 +61,8 @@ const NowIndicatorProvider = ({ children }: NowIndicatorProviderProps) => {
 
     const current = getCurrentDatetime(timeZone);
     setCurrentDateUnix((prev) => {
-      const diffMsSeconds = current.date - prev;
       const isSameDay =
-        diffMsSeconds >= 0 && diffMsSeconds < MILLISECONDS_IN_DAY;
+        current.date >= prev && current.date < plusDays(prev, 1);
 
       if (isSameDay) {
         return prev;
@@ -91,6 +89,18 @@ const NowIndicatorProvider = ({ children }: NowIndicatorProviderProps) => {
     [stopTimer, updateTime]
   );
 
+  // Jump to the time of the new zone when `timeZone` is changed
+  const prevTimeZone = useRef(timeZone);
+  useEffect(() => {
+    if (prevTimeZone.current === timeZone) {
+      return;
+    }
+    prevTimeZone.current = timeZone;
+    const current = getCurrentDatetime(timeZone);
+    setCurrentDateUnix(current.date);
+    currentTime.value = current.time;
+  }, [currentTime, timeZone]);
+
   useEffect(() => {
     updateTime();
     appStateListener.current = AppState.addEventListener(
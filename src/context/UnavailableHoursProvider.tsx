@@ -5,13 +5,12 @@ import React, {
   useContext,
   useEffect,
 } from 'react';
-import { MILLISECONDS_IN_DAY } from '../constants';
 import useLazyRef from '../hooks/useLazyRef';
 import { useSyncExternalStoreWithSelector } from '../hooks/useSyncExternalStoreWithSelector';
 import type { Store } from '../storeBuilder';
 import { createStore } from '../storeBuilder';
 import type { UnavailableHourProps } from '../types';
-import { forceUpdateZone } from '../utils/dateUtils';
+import { forceUpdateZone, plusDays } from '../utils/dateUtils';
 import { useDateChangedListener } from './VisibleDateProvider';
 
 type UnavailableHoursStore = {
@@ -56,10 +55,9 @@ const UnavailableHoursProvider: FC<
       }
 
       const data: Record<string, UnavailableHourProps[]> = {};
-      const minUnix = date - MILLISECONDS_IN_DAY * (offset * pagesPerSide);
-      const maxUnix =
-        date + MILLISECONDS_IN_DAY * (offset * (pagesPerSide + 1));
-      for (let i = minUnix; i < maxUnix; i += MILLISECONDS_IN_DAY) {
+      const minUnix = plusDays(date, -offset * pagesPerSide);
+      const maxUnix = plusDays(date, offset * (pagesPerSide + 1));
+      for (let i = minUnix; i < maxUnix; i = plusDays(i, 1)) {
         const dateObj = forceUpdateZone(i, timeZone);
         const weekDay = dateObj.weekday;
         const dateStr = dateObj.toFormat('yyyy-MM-dd');
@@ -106,6 +104,23 @@ export const useUnavailableHours = () => {
   return state;
 };
 
+/** Reads the unavailable hours of a day without subscribing to the store */
+export const useUnavailableHoursGetter = () => {
+  const unavailableHoursContext = useContext(UnavailableHoursContext);
+
+  if (!unavailableHoursContext) {
+    throw new Error(
+      'useUnavailableHoursGetter must be used within a UnavailableHoursProvider'
+    );
+  }
+
+  return useCallback(
+    (dateUnix: number): UnavailableHourProps[] =>
+      unavailableHoursContext.getState().unavailableHours?.[dateUnix] ?? [],
+    [unavailableHoursContext]
+  );
+};
+
 export const useUnavailableHoursByDate = (dateUnix: number) => {
   const unavailableHoursContext = useContext(UnavailableHoursContext);
 
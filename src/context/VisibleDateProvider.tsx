@@ -1,10 +1,26 @@
-import type { FC, PropsWithChildren } from 'react';
-import React, { useCallback, useContext, useEffect, useState } from 'react';
+import type { ForwardRefRenderFunction, PropsWithChildren } from 'react';
+import React, {
+  forwardRef,
+  useCallback,
+  useContext,
+  useEffect,
+  useImperativeHandle,
+  useState,
+} from 'react';
+import { AccessibilityInfo } from 'react-native';
+import { parseDateTime, toAccessibleDate } from '../utils/dateUtils';
+import { useCalendar } from './CalendarProvider';
+import { useLocale } from './LocaleProvider';
 
 interface VisibleDateProviderProps {
   initialStart: React.MutableRefObject<number>;
 }
 
+export interface VisibleDateRef {
+  /** Sets the visible date when it changes without a scroll */
+  updateVisibleDate: (date: number) => void;
+}
+
 const VisibleDateValueContext = React.createContext<number | undefined>(
   undefined
 );
@@ -13,10 +29,12 @@ const VisibleDateActionsContext = React.createContext<
   ((date: number) => void) | undefined
 >(undefined);
 
-const VisibleDateProvider: FC<PropsWithChildren<VisibleDateProviderProps>> = ({
-  initialStart,
-  children,
-}) => {
+const VisibleDateProvider: ForwardRefRenderFunction<
+  VisibleDateRef,
+  PropsWithChildren<VisibleDateProviderProps>
+> = ({ initialStart, children }, ref) => {
+  const { viewMode, numberOfDays, calendarData } = useCalendar();
+  const { accessibility, locale, outputCalendar } = useLocale();
   const [visibleDateUnix, setVisibleDateUnix] = useState(initialStart.current);
   const [debouncedDateUnix, setDebouncedDateUnix] = React.useState(
     initialStart.current
@@ -29,9 +47,52 @@ const VisibleDateProvider: FC<PropsWithChildren<VisibleDateProviderProps>> = ({
     return () => clearTimeout(timeoutId);
   }, [visibleDateUnix]);
 
-  const updateVisibleDate = useCallback((date: number) => {
-    setVisibleDateUnix(date);
-  }, []);
+  /** Reads the new visible date (or month, or days) to screen readers */
+  const announceDate = useCallback(
+    (date: number) => {
+      let label = toAccessibleDate(date, locale, outputCalendar);
+      if (viewMode === 'month') {
+        label = parseDateTime(date)
+          .reconfigure({ locale, outputCalendar })
+          .toLocaleString({ month: 'long', year: 'numeric' });
+      } else if (viewMode === 'week' && numberOfDays > 1) {
+        const index = calendarData.visibleDates[date]?.index;
+        const lastUnix =
+          index !== undefined
+            ? calendarData.visibleDatesArray[index + numberOfDays - 1]
+            : undefined;
+        if (lastUnix !== undefined) {
+          label = accessibility.dateRange
+            .replace('{start}', label)
+            .replace(
+              '{end}',
+              toAccessibleDate(lastUnix, locale, outputCalendar)
+            );
+        }
+      }
+      AccessibilityInfo.announceForAccessibility(
+        accessibility.dateChanged.replace('{date}', label)
+      );
+    },
+    [
+      accessibility,
+      calendarData,
+      locale,
+      numberOfDays,
+      outputCalendar,
+      viewMode,
+    ]
+  );
+
+  const updateVisibleDate = useCallback(
+    (date: number) => {
+      setVisibleDateUnix(date);
+      announceDate(date);
+    },
+    [announceDate]
+  );
+
+  useImperativeHandle(ref, () => ({ updateVisibleDate }), [updateVisibleDate]);
 
   return (
     <VisibleDateActionsContext.Provider value={updateVisibleDate}>
@@ -42,7 +103,7 @@ const VisibleDateProvider: FC<PropsWithChildren<VisibleDateProviderProps>> = ({
   );
 };
 
-export default VisibleDateProvider;
+export default forwardRef(VisibleDateProvider);
 
 export const useDateChangedListener = () => {
   const context = useContext(VisibleDateValueContext);
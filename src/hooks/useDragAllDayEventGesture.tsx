@@ -0,0 +1,140 @@
+import { Gesture } from 'react-native-gesture-handler';
+import type { SharedValue } from 'react-native-reanimated';
+import { withTiming } from 'react-native-reanimated';
+import { useCalendar } from '../context/CalendarProvider';
+import { useDragEvent } from '../context/DragEventProvider';
+import {
+  clampValues,
+  findNearestNumber,
+  roundMinutes,
+  toTimelinePoint,
+} from '../utils/utils';
+
+/**
+ * Drags the events held in the header: inside the all-day area, or down to
+ * the timeline below it (`headerHeight`).
+ */
+const useDragAllDayEventGesture = (headerHeight: SharedValue<number>) => {
+  const {
+    minuteHeight,
+    columnWidthAnim,
+    hourWidth,
+    visibleDateUnixAnim,
+    calendarData,
+    numberOfDays,
+    isRTL,
+    calendarLayout,
+    offsetY,
+    spaceFromTop,
+    start,
+  } = useCalendar();
+  const {
+    isDraggingAnim,
+    isDragging,
+    dragStartMinutes,
+    dragStartUnix,
+    roundedDragStartMinutes,
+    dragStep,
+    allowDragToEdit,
+    dragPosition,
+    roundedDragStartUnix,
+    roundedDragDuration,
+    dragDuration,
+    defaultDuration,
+    isDraggingCreateAnim,
+    isDraggingAllDay,
+    isDraggingGroupAnim,
+  } = useDragEvent();
+  const rtlWidth = isRTL ? calendarLayout.width : 0;
+
+  /** Updates the target day from the column under the finger. */
+  const updateDragDay = (x: number) => {
+    'worklet';
+    const visibleUnix = findNearestNumber(
+      calendarData.visibleDatesArray,
+      visibleDateUnixAnim.value
+    );
+    const visibleIndex = calendarData.visibleDates[visibleUnix]?.index;
+    if (visibleIndex === undefined) {
+      return;
+    }
+
+    const dayIndex = clampValues(
+      Math.floor((x - hourWidth) / columnWidthAnim.value),
+      0,
+      numberOfDays - 1
+    );
+    const targetDayUnix =
+      calendarData.visibleDatesArray[visibleIndex + dayIndex];
+    if (!targetDayUnix) {
+      return;
+    }
+
+    dragStartUnix.value = targetDayUnix;
+    roundedDragStartUnix.value = targetDayUnix;
+  };
+
+  /** Updates the target time from `y`, relative to the visible timeline. */
+  const updateDragTime = (y: number) => {
+    'worklet';
+    const minutes = (y + offsetY.value - spaceFromTop) / minuteHeight.value;
+    const newDragStart = Math.floor(minutes + start);
+    dragStartMinutes.value = newDragStart;
+    roundedDragStartMinutes.value = roundMinutes(
+      newDragStart,
+      dragStep,
+      'floor'
+    );
+    dragDuration.value = defaultDuration;
+    roundedDragDuration.value = defaultDuration;
+  };
+
+  const gesture = Gesture.Pan()
+    .enabled(allowDragToEdit)
+    .manualActivation(true)
+    .onUpdate((event) => {
+      const point = toTimelinePoint(event, false, rtlWidth);
+      const timelineY = point.y - headerHeight.value;
+      dragPosition.value = { ...point, y: timelineY };
+      updateDragDay(point.x);
+
+      // Selected events are moved together inside the all-day area
+      const isAllDayArea = timelineY < 0 || isDraggingGroupAnim.value;
+      if (isDraggingAllDay.value !== isAllDayArea) {
+        isDraggingAllDay.value = isAllDayArea;
+      }
+      if (!isAllDayArea) {
+        updateDragTime(timelineY);
+      }
+    })
+    .onEnd(() => {
+      if (isDraggingAllDay.value) {
+        return;
+      }
+      dragStartMinutes.value = withTiming(roundedDragStartMinutes.value, {
+        duration: 150,
+      });
+    })
+    .onTouchesMove((_event, state) => {
+      if (isDraggingAnim.value && !isDraggingCreateAnim.value) {
+        state.activate();
+      } else {
+        state.fail();
+      }
+    })
+    .onTouchesUp(() => {
+      if (isDraggingAnim.value && !isDraggingCreateAnim.value) {
+        isDraggingAnim.value = false;
+        dragPosition.value = {
+          x: -1,
+          y: -1,
+          translationX: -1,
+          translationY: -1,
+        };
+      }
+    });
+
+  return { gesture, isDragging };
+};
+
+export default useDragAllDayEventGesture;
@@ -2,7 +2,12 @@ import { Gesture } from 'react-native-gesture-handler';
 import { useSharedValue, withTiming } from 'react-native-reanimated';
 import { useCalendar } from '../context/CalendarProvider';
 import { useDragEvent } from '../context/DragEventProvider';
-import { clampValues, findNearestNumber, roundMinutes } from '../utils/utils';
+import {
+  clampValues,
+  findNearestNumber,
+  roundMinutes,
+  toTimelinePoint,
+} from '../utils/utils';
 
 const useDragEventGesture = () => {
   const {
@@ -12,6 +17,12 @@ const useDragEventGesture = () => {
     visibleDateUnixAnim,
     calendarData,
     columns,
+    resources,
+    resourceWidthAnim,
+    orientation,
+    isRTL,
+    calendarLayout,
+    useAllDayEvent,
   } = useCalendar();
   const {
     isDraggingAnim,
@@ -29,7 +40,16 @@ const useDragEventGesture = () => {
     extraMinutes,
     initialDragState,
     isDraggingCreateAnim,
+    dragResourceIndex,
+    isDraggingSelectedEvent,
+    isDraggingAllDay,
+    isDraggingGroupAnim,
+    dragMinDuration,
+    dragMaxDuration,
   } = useDragEvent();
+  const resourceCount = resources?.length ?? 0;
+  const isHorizontal = orientation === 'horizontal';
+  const rtlWidth = isRTL ? calendarLayout.width : 0;
 
   const initialX = useSharedValue(0);
 
@@ -58,17 +78,20 @@ const useDragEventGesture = () => {
   ) => {
     'worklet';
     const diffMinutes = Math.floor(translationY / minuteHeight.value);
-    let nextDuration = initialDuration + extraMinutes.value + diffMinutes;
+    const nextDuration = initialDuration + extraMinutes.value + diffMinutes;
     const roundedEndTime = roundMinutes(initialStart + nextDuration, dragStep);
-    let nextRoundedDuration = roundedEndTime - initialStart;
+    const nextRoundedDuration = roundedEndTime - initialStart;
 
-    if (nextDuration < dragStep) {
-      nextDuration = dragStep;
-      nextRoundedDuration = dragStep;
-    }
-
-    dragDuration.value = nextDuration;
-    roundedDragDuration.value = nextRoundedDuration;
+    dragDuration.value = clampValues(
+      nextDuration,
+      dragMinDuration.value,
+      dragMaxDuration.value
+    );
+    roundedDragDuration.value = clampValues(
+      nextRoundedDuration,
+      dragMinDuration.value,
+      dragMaxDuration.value
+    );
   };
 
   /** Updates drag start and duration when dragging the top handle. */
@@ -78,7 +101,10 @@ const useDragEventGesture = () => {
     initialDuration: number
   ) => {
     'worklet';
-    const minStart = initialStart + (initialDuration - dragStep);
+    const minDuration = dragMinDuration.value;
+    const maxDuration = dragMaxDuration.value;
+    // The end stays in place
+    const initialEnd = initialStart + initialDuration;
     const initialY = (initialStart + extraMinutes.value) * minuteHeight.value;
     const newY = initialY + translationY;
     let newDragStart = Math.floor(newY / minuteHeight.value);
@@ -89,11 +115,16 @@ const useDragEventGesture = () => {
     let nextDuration = initialDuration - extraMinutes.value - diffMinutes;
     let nextRoundedDuration = nextDuration - diffRoundedMinutes;
 
-    if (nextDuration <= dragStep) {
-      newDragStart = minStart;
-      roundedDragStart = minStart;
-      nextDuration = dragStep;
-      nextRoundedDuration = dragStep;
+    if (nextDuration <= minDuration) {
+      newDragStart = initialEnd - minDuration;
+      roundedDragStart = newDragStart;
+      nextDuration = minDuration;
+      nextRoundedDuration = minDuration;
+    } else if (nextRoundedDuration > maxDuration) {
+      newDragStart = Math.max(newDragStart, initialEnd - maxDuration);
+      roundedDragStart = initialEnd - maxDuration;
+      nextDuration = initialEnd - newDragStart;
+      nextRoundedDuration = maxDuration;
     }
 
     dragStartMinutes.value = newDragStart;
@@ -146,11 +177,22 @@ const useDragEventGesture = () => {
     roundedDragStartUnix.value = targetDayUnix;
   };
 
+  /** Updates the target resource column (resource view). */
+  const updateDragResource = (x: number) => {
+    'worklet';
+    if (!resourceCount) {
+      return;
+    }
+
+    const resourceIndex = Math.floor((x - hourWidth) / resourceWidthAnim.value);
+    dragResourceIndex.value = clampValues(resourceIndex, 0, resourceCount - 1);
+  };
+
   const gesture = Gesture.Pan()
     .enabled(allowDragToEdit)
     .manualActivation(true)
-    .onBegin(({ x }) => {
-      initialX.value = x;
+    .onBegin((event) => {
+      initialX.value = toTimelinePoint(event, isHorizontal, rtlWidth).x;
     })
     .onStart(() => {
       initialDragState.value = {
@@ -159,8 +201,10 @@ const useDragEventGesture = () => {
         dragDuration: dragDuration.value,
       };
     })
-    .onUpdate(({ translationX, translationY, x, y }) => {
-      dragPosition.value = { x, y, translationX, translationY };
+    .onUpdate((event) => {
+      const point = toTimelinePoint(event, isHorizontal, rtlWidth);
+      const { translationX, translationY, x } = point;
+      dragPosition.value = point;
       const {
         dragStart: initialStart,
         dragStartUnix: initialDayUnix,
@@ -176,12 +220,25 @@ const useDragEventGesture = () => {
       } else if (dragSelectedType.value === 'top') {
         updateDragDurationForTop(translationY, initialStart, initialDuration);
       } else {
-        updateDragStartPosition(translationY, initialStart);
+        // Above the timeline, the event targets the all-day area
+        const isAboveTimeline =
+          !isHorizontal &&
+          useAllDayEvent &&
+          !isDraggingSelectedEvent.value &&
+          !isDraggingGroupAnim.value &&
+          point.y < 0;
+        if (isDraggingAllDay.value !== isAboveTimeline) {
+          isDraggingAllDay.value = isAboveTimeline;
+        }
+        if (!isAboveTimeline) {
+          updateDragStartPosition(translationY, initialStart);
+        }
         updateDragPositionHorizontal(
           translationX,
           initialDayUnix,
           initialX.value
         );
+        updateDragResource(x);
       }
     })
     .onEnd(() => {
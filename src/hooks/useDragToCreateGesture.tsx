@@ -2,10 +2,20 @@ import { Gesture } from 'react-native-gesture-handler';
 import { useSharedValue, withTiming } from 'react-native-reanimated';
 import { useCalendar } from '../context/CalendarProvider';
 import { useDragEvent } from '../context/DragEventProvider';
-import { roundMinutes } from '../utils/utils';
+import { clampValues, roundMinutes, toTimelinePoint } from '../utils/utils';
 
 const useDragToCreateGesture = () => {
-  const { offsetY, minuteHeight, spaceFromTop, start } = useCalendar();
+  const {
+    offsetY,
+    minuteHeight,
+    spaceFromTop,
+    start,
+    orientation,
+    isRTL,
+    calendarLayout,
+  } = useCalendar();
+  const isHorizontal = orientation === 'horizontal';
+  const rtlWidth = isRTL ? calendarLayout.width : 0;
   const {
     allowDragToCreate,
     dragStartMinutes,
@@ -20,6 +30,8 @@ const useDragToCreateGesture = () => {
     isDraggingCreateAnim,
     isDraggingCreate,
     isDraggingAnim,
+    dragMinDuration,
+    dragMaxDuration,
   } = useDragEvent();
 
   const initialStartY = useSharedValue(0);
@@ -27,7 +39,9 @@ const useDragToCreateGesture = () => {
   const computeDragValues = (
     initialStart: number,
     newMinutes: number,
-    step: number
+    step: number,
+    minDuration: number,
+    maxDuration: number
   ) => {
     'worklet';
     let newDragSelectedType: 'top' | 'bottom' | undefined;
@@ -49,6 +63,24 @@ const useDragToCreateGesture = () => {
       newRoundedDragDuration = initialStart - newRoundedDragStart + step;
     }
 
+    const clampedDuration = clampValues(
+      newDragDuration,
+      minDuration,
+      maxDuration
+    );
+    const clampedRoundedDuration = clampValues(
+      newRoundedDragDuration,
+      minDuration,
+      maxDuration
+    );
+    if (newDragSelectedType === 'top') {
+      // The end stays in place
+      newDragStart += newDragDuration - clampedDuration;
+      newRoundedDragStart += newRoundedDragDuration - clampedRoundedDuration;
+    }
+    newDragDuration = clampedDuration;
+    newRoundedDragDuration = clampedRoundedDuration;
+
     return {
       newDragSelectedType,
       newDragStart,
@@ -71,8 +103,10 @@ const useDragToCreateGesture = () => {
         dragDuration: dragDuration.value,
       };
     })
-    .onUpdate(({ translationX, translationY, x, y }) => {
-      dragPosition.value = { x, y, translationX, translationY };
+    .onUpdate((event) => {
+      const point = toTimelinePoint(event, isHorizontal, rtlWidth);
+      const { y } = point;
+      dragPosition.value = point;
 
       const initialStart = initialDragState.value.dragStart;
       const newMinutes =
@@ -85,7 +119,13 @@ const useDragToCreateGesture = () => {
         newRoundedDragStart,
         newDragDuration,
         newRoundedDragDuration,
-      } = computeDragValues(initialStart, newMinutes, dragStep);
+      } = computeDragValues(
+        initialStart,
+        newMinutes,
+        dragStep,
+        dragMinDuration.value,
+        dragMaxDuration.value
+      );
 
       dragSelectedType.value = newDragSelectedType;
       dragStartMinutes.value = newDragStart;
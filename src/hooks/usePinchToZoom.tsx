@@ -15,10 +15,22 @@ const usePinchToZoom = () => {
     timeIntervalHeight,
     offsetY,
     allowPinchToZoom,
+    orientation,
   } = useCalendar();
+  const isHorizontal = orientation === 'horizontal';
 
   const startOffsetY = useSharedValue(offsetY.value);
   const pinchGestureRef = useRef<GestureType>();
+
+  /** Scroll the timeline along its time axis */
+  const scrollTimeline = (offset: number, animated: boolean) => {
+    'worklet';
+    if (isHorizontal) {
+      scrollTo(verticalListRef, offset, 0, animated);
+    } else {
+      scrollTo(verticalListRef, 0, offset, animated);
+    }
+  };
   const startScale = useSharedValue(1);
   const lastScale = useSharedValue(1);
 
@@ -27,7 +39,7 @@ const usePinchToZoom = () => {
       startScale.value = lastScale.value;
       startOffsetY.value = offsetY.value;
     })
-    .onUpdate(({ focalY, scale, velocity }) => {
+    .onUpdate(({ focalX, focalY, scale, velocity }) => {
       if (velocity === 0) {
         startOffsetY.value = offsetY.value;
         return;
@@ -37,8 +49,9 @@ const usePinchToZoom = () => {
       const scaledDiff = (newScale - lastScale.value) * SCALE_FACTOR;
       const newHeight = timeIntervalHeight.value * (1 + scaledDiff);
 
+      const focal = isHorizontal ? focalX : focalY;
       const scaleOrigin =
-        (focalY + startOffsetY.value) / timeIntervalHeight.value;
+        (focal + startOffsetY.value) / timeIntervalHeight.value;
       const heightDiff = newHeight - timeIntervalHeight.value;
 
       const clampedHeight = clampValues(
@@ -55,7 +68,7 @@ const usePinchToZoom = () => {
       ) {
         const newOffsetY = startOffsetY.value + heightDiff * scaleOrigin;
         startOffsetY.value = newOffsetY;
-        scrollTo(verticalListRef, 0, newOffsetY, false);
+        scrollTimeline(newOffsetY, false);
       }
       lastScale.value = newScale;
     })
@@ -71,7 +84,7 @@ const usePinchToZoom = () => {
       });
       const scaleFactor = finalHeight / timeIntervalHeight.value;
       const newOffsetY = startOffsetY.value * scaleFactor;
-      scrollTo(verticalListRef, 0, newOffsetY, true);
+      scrollTimeline(newOffsetY, true);
 
       lastScale.value = 1;
       startScale.value = 1;
@@ -5,11 +5,15 @@ import {
   scrollTo,
   useAnimatedScrollHandler,
 } from 'react-native-reanimated';
-import { MILLISECONDS_IN_DAY, ScrollType } from '../constants';
+import { ScrollType } from '../constants';
 import { useActions } from '../context/ActionsProvider';
 import { useCalendar } from '../context/CalendarProvider';
 import { useNotifyDateChanged } from '../context/VisibleDateProvider';
-import { dateTimeToISOString, parseDateTime } from '../utils/dateUtils';
+import {
+  dateTimeToISOString,
+  daysBetween,
+  parseDateTime,
+} from '../utils/dateUtils';
 
 const useSyncedList = ({ id }: { id: ScrollType }) => {
   const {
@@ -89,9 +93,7 @@ const useSyncedList = ({ id }: { id: ScrollType }) => {
           visibleDates[pageIndex * columns + column + visibleColumns];
 
         if (visibleStart && visibleEnd) {
-          const diffDays = Math.floor(
-            (visibleEnd - visibleStart) / MILLISECONDS_IN_DAY
-          );
+          const diffDays = daysBetween(visibleStart, visibleEnd);
           if (diffDays <= 7) {
             visibleWeeks.value = [visibleStart];
           } else {
@@ -109,6 +111,7 @@ const useSyncedList = ({ id }: { id: ScrollType }) => {
         }
 
         if (visibleDateUnix.current !== currentDate) {
+          visibleDateUnix.current = currentDate;
           const dateIsoStr = dateTimeToISOString(parseDateTime(currentDate));
           onChange?.(dateIsoStr);
           if (triggerDateChanged.current === currentDate) {
@@ -116,7 +119,6 @@ const useSyncedList = ({ id }: { id: ScrollType }) => {
             onDateChanged?.(dateIsoStr);
             notifyDateChanged(currentDate);
           }
-          visibleDateUnix.current = currentDate;
           runOnUI(() => {
             visibleDateUnixAnim.value = currentDate;
           })();
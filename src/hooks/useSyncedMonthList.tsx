@@ -0,0 +1,106 @@
+import { useCallback, useRef } from 'react';
+import {
+  runOnJS,
+  runOnUI,
+  useAnimatedScrollHandler,
+} from 'react-native-reanimated';
+import { ScrollType } from '../constants';
+import { useActions } from '../context/ActionsProvider';
+import { useCalendar } from '../context/CalendarProvider';
+import { useNotifyDateChanged } from '../context/VisibleDateProvider';
+import { dateTimeToISOString, parseDateTime } from '../utils/dateUtils';
+
+const useSyncedMonthList = () => {
+  const {
+    scrollType,
+    visibleDateUnix,
+    offsetX,
+    isTriggerMomentum,
+    triggerDateChanged,
+    visibleDateUnixAnim,
+  } = useCalendar();
+  const notifyDateChanged = useNotifyDateChanged();
+  const { onChange, onDateChanged } = useActions();
+
+  const startDateUnix = useRef(0);
+  const _updateScrolling = () => {
+    startDateUnix.current = visibleDateUnix.current;
+    scrollType.current = ScrollType.calendarGrid;
+  };
+
+  const _updateMomentum = (isTrigger: boolean) => {
+    isTriggerMomentum.current = isTrigger;
+  };
+
+  const _onMomentumEnd = () => {
+    if (
+      isTriggerMomentum.current &&
+      startDateUnix.current !== visibleDateUnix.current
+    ) {
+      triggerDateChanged.current = undefined;
+      onDateChanged?.(
+        dateTimeToISOString(parseDateTime(visibleDateUnix.current))
+      );
+      notifyDateChanged(visibleDateUnix.current);
+      isTriggerMomentum.current = false;
+    }
+  };
+
+  const onScroll = useAnimatedScrollHandler({
+    onScroll: (event) => {
+      offsetX.value = event.contentOffset.x;
+    },
+    onBeginDrag: () => {
+      runOnJS(_updateScrolling)();
+    },
+    onMomentumBegin: () => {
+      runOnJS(_updateMomentum)(true);
+    },
+    onMomentumEnd: () => {
+      runOnJS(_onMomentumEnd)();
+    },
+  });
+
+  const onVisibleColumnChanged = useCallback(
+    (props: { index: number; extraScrollData: Record<string, any> }) => {
+      const { index: pageIndex, extraScrollData } = props;
+      const { visibleMonths } = extraScrollData;
+      if (scrollType.current !== ScrollType.calendarGrid || !visibleMonths) {
+        return;
+      }
+
+      const currentDate: number | undefined = visibleMonths[pageIndex];
+      if (!currentDate) {
+        triggerDateChanged.current = undefined;
+        return;
+      }
+
+      if (visibleDateUnix.current !== currentDate) {
+        visibleDateUnix.current = currentDate;
+        const dateIsoStr = dateTimeToISOString(parseDateTime(currentDate));
+        onChange?.(dateIsoStr);
+        if (triggerDateChanged.current === currentDate) {
+          triggerDateChanged.current = undefined;
+          onDateChanged?.(dateIsoStr);
+          notifyDateChanged(currentDate);
+        }
+        runOnUI(() => {
+          visibleDateUnixAnim.value = currentDate;
+        })();
+      }
+    },
+    [
+      scrollType,
+      visibleDateUnix,
+      triggerDateChanged,
+      onChange,
+      onDateChanged,
+      notifyDateChanged,
+      visibleDateUnixAnim,
+    ]
+  );
+
+  return { onScroll, onVisibleColumnChanged };
+};
+
+export default useSyncedMonthList;
@@ -1,9 +1,12 @@
 import CalendarKit from './CalendarKit';
 export default CalendarKit;
 
+export { default as CalendarAgenda } from './CalendarAgenda';
 export { default as CalendarBody } from './CalendarBody';
 export { default as CalendarContainer } from './CalendarContainer';
 export { default as CalendarHeader } from './CalendarHeader';
+export { default as CalendarHorizontalBody } from './CalendarHorizontalBody';
+export { default as CalendarMonth } from './CalendarMonth';
 
 export { default as MultiDayBarItem } from './components/MultiDayBarItem';
 export { default as SingleDayBarItem } from './components/SingleDayBarItem';
@@ -14,6 +17,7 @@ export { useCalendar } from './context/CalendarProvider';
 export { useHeader as useDayBar } from './context/DayBarContext';
 export { useDragEvent, useDragEventActions } from './context/DragEventProvider';
 export {
+  useAgendaSections,
   useAllDayEvents,
   useAllDayEventsByDay,
   useEventCountsByWeek,
@@ -24,6 +28,7 @@ export { useHighlightDates } from './context/HighlightDatesProvider';
 export { useLayout } from './context/LayoutProvider';
 export { useLoading } from './context/LoadingContext';
 export { useLocale } from './context/LocaleProvider';
+export { useMonth } from './context/MonthContext';
 export { useNowIndicator } from './context/NowIndicatorProvider';
 export { useTheme } from './context/ThemeProvider';
 export { useTimezone } from './context/TimeZoneProvider';
@@ -45,6 +50,7 @@ export type { WeekdayNumbers } from 'luxon';
 
 export { parseDateTime } from './utils/dateUtils';
 
+export * from './service/ics';
 export * from './service/rrule';
 
 export * from './types';
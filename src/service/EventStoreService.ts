@@ -0,0 +1,710 @@
+import isEqual from 'lodash.isequal';
+import type { WeekdayNumbers } from 'luxon';
+import { MILLISECONDS_IN_DAY } from '../constants';
+import type {
+  EventItem,
+  EventItemInternal,
+  OverlapType,
+  PackedAllDayEvent,
+  PackedEvent,
+} from '../types';
+import { parseDateTime, plusDays } from '../utils/dateUtils';
+import {
+  divideAllDayEvents,
+  divideEvents,
+  filterEvents,
+  getEventTimes,
+  isValidEventDates,
+  isValidEventRange,
+  populateEvents,
+  processAllDayEventMap,
+  processEventOccurrences,
+} from '../utils/eventUtils';
+import type { FilteredEvents } from '../utils/eventUtils';
+import IntervalTree from './IntervalTree';
+import type { Interval } from './IntervalTree';
+import OccurrenceCache from './rrule/OccurrenceCache';
+
+export interface EventsState {
+  allDayEvents: Record<string, PackedAllDayEvent[]>;
+  allDayEventsByDay: Record<string, PackedAllDayEvent[]>;
+  regularEvents: Record<string, PackedEvent[]>;
+  eventCountsByDay: Record<string, number>;
+  eventCountsByWeek: Record<string, number>;
+}
+
+export interface EventStoreOptions {
+  timeZone: string;
+  firstDay: WeekdayNumbers;
+  hideWeekDays: WeekdayNumbers[];
+  useAllDayEvent?: boolean;
+  minRegularEventMinutes: number;
+  overlapType: OverlapType;
+  minStartDifference: number;
+  resourceIds?: string[];
+}
+
+/**
+ * Compares the options by value, except the layout function compared by
+ * reference: a new function lays out all the events again.
+ */
+const isSameOptions = (
+  options: EventStoreOptions | undefined,
+  nextOptions: EventStoreOptions
+) => {
+  if (!options) {
+    return false;
+  }
+  const { overlapType, ...otherOptions } = options;
+  const { overlapType: nextOverlapType, ...nextOtherOptions } = nextOptions;
+  return (
+    overlapType === nextOverlapType && isEqual(otherOptions, nextOtherOptions)
+  );
+};
+
+/** Recurring events are expanded block by block while the window moves */
+const BLOCK_DURATION = 7 * MILLISECONDS_IN_DAY;
+
+/** Block of the non-recurring events, loaded at once */
+const EVENT_BLOCK = -Infinity;
+
+interface ProcessedItem {
+  /** Day of a regular occurrence, week of an all-day occurrence */
+  key: number;
+  isAllDay: boolean;
+  event: EventItemInternal;
+}
+
+interface BucketItem extends ProcessedItem {
+  sourceId: string;
+  block: number;
+  /** Position in the occurrences of the block */
+  index: number;
+}
+
+interface LoadedItem {
+  item: BucketItem;
+  /** Loaded blocks sharing the occurrence, e.g. a long modified instance */
+  count: number;
+}
+
+interface SourceEntry {
+  /** Internal recurring events with their modified instances */
+  recurringEvents?: FilteredEvents;
+  blocks: Map<number, string[]>;
+  items: Map<string, LoadedItem>;
+}
+
+interface BucketChanges {
+  /** Content of the buckets before their first change */
+  prevRegular: Map<number, BucketItem[]>;
+  prevAllDay: Map<number, BucketItem[]>;
+  removed: Set<BucketItem>;
+}
+
+type EventTimes = ReturnType<typeof getEventTimes>;
+
+const EMPTY_STATE: EventsState = {
+  allDayEvents: {},
+  allDayEventsByDay: {},
+  regularEvents: {},
+  eventCountsByDay: {},
+  eventCountsByWeek: {},
+};
+
+const isSameItems = <T>(a: T[] | undefined, b: T[] | undefined) =>
+  !!a && !!b && a.length === b.length && a.every((item, i) => item === b[i]);
+
+const hasSameContent = <T>(a: T[], b: T[]) => {
+  if (a.length !== b.length) {
+    return false;
+  }
+  const items = new Set(a);
+  return b.every((item) => items.has(item));
+};
+
+const groupById = (events: EventItem[]) => {
+  const groups = new Map<string, EventItem[]>();
+  events.forEach((event) => {
+    const group = groups.get(event.id);
+    if (group) {
+      group.push(event);
+    } else {
+      groups.set(event.id, [event]);
+    }
+  });
+  return groups;
+};
+
+const getWindowBlocks = (minUnix: number, maxUnix: number) => {
+  const blocks: number[] = [];
+  const lastBlock = Math.floor(maxUnix / BLOCK_DURATION);
+  for (let i = Math.floor(minUnix / BLOCK_DURATION); i <= lastBlock; i++) {
+    blocks.push(i);
+  }
+  return blocks;
+};
+
+const getOccurrenceKey = ({ event }: ProcessedItem) =>
+  `${event.localId}_${event._internal.startUnix}_${event._internal.endUnix}`;
+
+/**
+ * Keeps the packed day and week buckets of the events store in sync with the
+ * source events. Only the events added, changed or removed since the last
+ * update are processed again, and only the buckets whose events changed are
+ * packed again, the others keep their identity.
+ *
+ * When the window moves, the events entering or leaving it are found with an
+ * interval tree and recurring events only expand the blocks of days entering
+ * the window.
+ */
+class EventStoreService {
+  private options?: EventStoreOptions;
+  private events: EventItem[] = [];
+  private minUnix = 0;
+  private maxUnix = 0;
+  private state: EventsState = EMPTY_STATE;
+
+  private sources = new Map<string, EventItem[]>();
+  private sourceOrder = new Map<string, number>();
+  private childIds = new Map<string, string[]>();
+  private recurringIds = new Set<string>();
+  private intervalTree?: IntervalTree<string>;
+  private entries = new Map<string, SourceEntry>();
+  private regularByDay = new Map<number, BucketItem[]>();
+  private allDayByWeek = new Map<number, BucketItem[]>();
+  private eventTimes = new WeakMap<EventItem, EventTimes | null>();
+  private occurrenceCache = new OccurrenceCache();
+
+  public update(
+    events: EventItem[],
+    minUnix: number,
+    maxUnix: number,
+    options: EventStoreOptions
+  ): EventsState {
+    if (!isSameOptions(this.options, options)) {
+      this.reset(options);
+    }
+
+    const prevMinUnix = this.minUnix;
+    const prevMaxUnix = this.maxUnix;
+    const isSameWindow = minUnix === prevMinUnix && maxUnix === prevMaxUnix;
+    const isSameEvents = events === this.events;
+    if (isSameEvents && isSameWindow) {
+      return this.state;
+    }
+
+    const changes: BucketChanges = {
+      prevRegular: new Map(),
+      prevAllDay: new Map(),
+      removed: new Set(),
+    };
+    const reloadIds = isSameEvents ? new Set<string>() : this.setEvents(events);
+    reloadIds.forEach((id) => this.unloadSource(id, changes));
+    this.minUnix = minUnix;
+    this.maxUnix = maxUnix;
+
+    const loads: [string, number[]][] = [];
+    reloadIds.forEach((id) => loads.push([id, this.getMissingBlocks(id)]));
+    if (!isSameWindow) {
+      const windowBlocks = new Set(getWindowBlocks(minUnix, maxUnix));
+      this.recurringIds.forEach((id) => {
+        if (!reloadIds.has(id)) {
+          this.unloadBlocks(id, windowBlocks, changes);
+          loads.push([id, this.getMissingBlocks(id)]);
+        }
+      });
+
+      const intervalTree = this.getIntervalTree();
+      const candidateIds = new Set([
+        ...intervalTree.search(prevMinUnix, prevMaxUnix),
+        ...intervalTree.search(minUnix, maxUnix),
+      ]);
+      candidateIds.forEach((id) => {
+        if (reloadIds.has(id)) {
+          return;
+        }
+        const isLoaded = this.entries.has(id);
+        const isInWindow = this.isSourceInWindow(id);
+        if (isLoaded && !isInWindow) {
+          this.unloadSource(id, changes);
+        } else if (!isLoaded && isInWindow) {
+          loads.push([id, [EVENT_BLOCK]]);
+        }
+      });
+    }
+
+    this.removeFromBuckets(changes);
+    loads.forEach(([id, blocks]) => this.loadBlocks(id, blocks, changes));
+    this.state = this.packBuckets(changes);
+    return this.state;
+  }
+
+  private reset(options: EventStoreOptions) {
+    this.options = options;
+    this.events = [];
+    this.minUnix = 0;
+    this.maxUnix = 0;
+    this.state = EMPTY_STATE;
+    this.sources = new Map();
+    this.sourceOrder = new Map();
+    this.childIds = new Map();
+    this.recurringIds = new Set();
+    this.intervalTree = undefined;
+    this.entries.clear();
+    this.regularByDay.clear();
+    this.allDayByWeek.clear();
+  }
+
+  /** Stores the new events, returns the IDs of the sources to reload */
+  private setEvents(events: EventItem[]) {
+    const sources = groupById(events);
+    const changedIds = this.getChangedIds(sources);
+    const prevChildIds = this.childIds;
+
+    this.events = events;
+    this.sources = sources;
+    this.sourceOrder = new Map([...sources.keys()].map((id, i) => [id, i]));
+    this.childIds = new Map();
+    this.recurringIds = new Set();
+    this.intervalTree = undefined;
+    sources.forEach((group, id) => {
+      group.forEach((event) => {
+        if (event.recurrence) {
+          this.recurringIds.add(id);
+        }
+        if (event.recurringEventId) {
+          const childIds = this.childIds.get(event.recurringEventId) ?? [];
+          childIds.push(id);
+          this.childIds.set(event.recurringEventId, childIds);
+        }
+      });
+    });
+
+    // Modified instances are expanded with their recurring event, or on
+    // their own once it is removed
+    const reloadIds = new Set(changedIds);
+    changedIds.forEach((id) => {
+      prevChildIds.get(id)?.forEach((childId) => reloadIds.add(childId));
+      this.childIds.get(id)?.forEach((childId) => reloadIds.add(childId));
+    });
+    return reloadIds;
+  }
+
+  /** IDs of the events added, changed or removed, with their recurring event */
+  private getChangedIds(sources: Map<string, EventItem[]>) {
+    const changedIds = new Set<string>();
+    sources.forEach((group, id) => {
+      if (!isSameItems(group, this.sources.get(id))) {
+        changedIds.add(id);
+      }
+    });
+    this.sources.forEach((_, id) => {
+      if (!sources.has(id)) {
+        changedIds.add(id);
+      }
+    });
+
+    changedIds.forEach((id) => {
+      [...(sources.get(id) ?? []), ...(this.sources.get(id) ?? [])].forEach(
+        (event) => {
+          if (event.recurringEventId) {
+            changedIds.add(event.recurringEventId);
+          }
+        }
+      );
+    });
+    return changedIds;
+  }
+
+  private getEventTimes(event: EventItem) {
+    let times = this.eventTimes.get(event);
+    if (times === undefined) {
+      times = isValidEventDates(event) ? getEventTimes(event) : null;
+      this.eventTimes.set(event, times);
+    }
+    return times;
+  }
+
+  /** Whether the event is a modified instance of a recurring event */
+  private isExpandedInstance(event: EventItem) {
+    return (
+      !!event.recurringEventId &&
+      !!event.originalStartTime &&
+      this.recurringIds.has(event.recurringEventId)
+    );
+  }
+
+  private getIntervalTree() {
+    if (!this.intervalTree) {
+      const intervals: Interval<string>[] = [];
+      this.sources.forEach((group, id) => {
+        if (this.recurringIds.has(id)) {
+          return;
+        }
+        group.forEach((event) => {
+          const times = this.getEventTimes(event);
+          if (times && !this.isExpandedInstance(event)) {
+            intervals.push({
+              start: times.eventStartUnix,
+              end: times.eventEndUnix,
+              value: id,
+            });
+          }
+        });
+      });
+      this.intervalTree = new IntervalTree(intervals);
+    }
+    return this.intervalTree;
+  }
+
+  private isSourceInWindow(id: string) {
+    return !!this.sources.get(id)?.some((event) => {
+      const times = this.getEventTimes(event);
+      return (
+        !!times &&
+        !this.isExpandedInstance(event) &&
+        isValidEventRange(
+          times.eventStartUnix,
+          times.eventEndUnix,
+          this.minUnix,
+          this.maxUnix
+        )
+      );
+    });
+  }
+
+  private getMissingBlocks(id: string) {
+    if (this.recurringIds.has(id)) {
+      const entry = this.entries.get(id);
+      return getWindowBlocks(this.minUnix, this.maxUnix).filter(
+        (block) => !entry?.blocks.has(block)
+      );
+    }
+    return this.isSourceInWindow(id) && !this.entries.has(id)
+      ? [EVENT_BLOCK]
+      : [];
+  }
+
+  private loadBlocks(id: string, blocks: number[], changes: BucketChanges) {
+    if (!blocks.length) {
+      return;
+    }
+
+    const entry: SourceEntry = this.entries.get(id) ?? {
+      blocks: new Map(),
+      items: new Map(),
+    };
+    this.entries.set(id, entry);
+
+    const { useAllDayEvent } = this.options!;
+    if (!this.recurringIds.has(id)) {
+      const events = this.sources
+        .get(id)!
+        .filter((event) => !this.isExpandedInstance(event));
+      const { regular, allDays } = filterEvents(
+        events,
+        this.minUnix,
+        this.maxUnix,
+        useAllDayEvent
+      );
+      this.addItems(
+        id,
+        entry,
+        EVENT_BLOCK,
+        this.processEvents(regular, allDays, this.minUnix, this.maxUnix),
+        changes
+      );
+      return;
+    }
+
+    if (!entry.recurringEvents) {
+      const instances = (this.childIds.get(id) ?? []).flatMap((childId) =>
+        this.sources
+          .get(childId)!
+          .filter((event) => event.recurringEventId === id)
+      );
+      const { regular, allDays } = filterEvents(
+        [...this.sources.get(id)!, ...instances],
+        this.minUnix,
+        this.maxUnix,
+        useAllDayEvent
+      );
+      const isRecurringEvent = (event: EventItemInternal) =>
+        event.id === id && !!event.recurrence;
+      entry.recurringEvents = {
+        regular: regular.filter(isRecurringEvent),
+        allDays: allDays.filter(isRecurringEvent),
+      };
+    }
+
+    const { regular, allDays } = entry.recurringEvents;
+    blocks.forEach((block) => {
+      const blockStart = block * BLOCK_DURATION;
+      const items = this.processEvents(
+        regular,
+        allDays,
+        blockStart,
+        blockStart + BLOCK_DURATION - 1
+      );
+      this.addItems(id, entry, block, items, changes);
+    });
+  }
+
+  private processEvents(
+    regular: EventItemInternal[],
+    allDays: EventItemInternal[],
+    minUnix: number,
+    maxUnix: number
+  ) {
+    const { timeZone, firstDay, hideWeekDays, minRegularEventMinutes } =
+      this.options!;
+
+    const items: ProcessedItem[] = [];
+    regular.forEach((event) => {
+      processEventOccurrences(
+        event,
+        minUnix,
+        maxUnix,
+        timeZone,
+        (e, tz) => divideEvents(e, tz, minRegularEventMinutes),
+        this.occurrenceCache
+      ).forEach((evt) => {
+        items.push({
+          key: parseDateTime(evt._internal.startUnix).startOf('day').toMillis(),
+          isAllDay: false,
+          event: evt,
+        });
+      });
+    });
+
+    allDays.forEach((event) => {
+      processEventOccurrences(
+        event,
+        minUnix,
+        maxUnix,
+        timeZone,
+        (e, tz) => divideAllDayEvents(e, tz, firstDay, hideWeekDays),
+        this.occurrenceCache
+      ).forEach((evt) => {
+        if (evt._internal.weekStart) {
+          items.push({
+            key: evt._internal.weekStart,
+            isAllDay: true,
+            event: evt,
+          });
+        }
+      });
+    });
+    return items;
+  }
+
+  private addItems(
+    sourceId: string,
+    entry: SourceEntry,
+    block: number,
+    items: ProcessedItem[],
+    changes: BucketChanges
+  ) {
+    const keys = items.map((processedItem, index) => {
+      const key = getOccurrenceKey(processedItem);
+      const loadedItem = entry.items.get(key);
+      if (loadedItem) {
+        loadedItem.count++;
+      } else {
+        const item: BucketItem = { ...processedItem, sourceId, block, index };
+        entry.items.set(key, { item, count: 1 });
+        const buckets = item.isAllDay ? this.allDayByWeek : this.regularByDay;
+        this.touchBucket(buckets, changes, item);
+        buckets.get(item.key)!.push(item);
+      }
+      return key;
+    });
+    entry.blocks.set(block, keys);
+  }
+
+  private unloadSource(id: string, changes: BucketChanges) {
+    this.entries.get(id)?.items.forEach(({ item }) => {
+      this.removeItem(item, changes);
+    });
+    this.entries.delete(id);
+  }
+
+  /** Unloads the blocks of a recurring event not in `windowBlocks` */
+  private unloadBlocks(
+    id: string,
+    windowBlocks: Set<number>,
+    changes: BucketChanges
+  ) {
+    const entry = this.entries.get(id);
+    entry?.blocks.forEach((keys, block) => {
+      if (windowBlocks.has(block)) {
+        return;
+      }
+      keys.forEach((key) => {
+        const loadedItem = entry.items.get(key)!;
+        loadedItem.count--;
+        if (!loadedItem.count) {
+          entry.items.delete(key);
+          this.removeItem(loadedItem.item, changes);
+        }
+      });
+      entry.blocks.delete(block);
+    });
+  }
+
+  private removeItem(item: BucketItem, changes: BucketChanges) {
+    const buckets = item.isAllDay ? this.allDayByWeek : this.regularByDay;
+    this.touchBucket(buckets, changes, item);
+    changes.removed.add(item);
+  }
+
+  /** Keeps the content of a bucket before its first change */
+  private touchBucket(
+    buckets: Map<number, BucketItem[]>,
+    changes: BucketChanges,
+    { key, isAllDay }: BucketItem
+  ) {
+    const prevBuckets = isAllDay ? changes.prevAllDay : changes.prevRegular;
+    if (prevBuckets.has(key)) {
+      return;
+    }
+    const bucket = buckets.get(key) ?? [];
+    prevBuckets.set(key, bucket);
+    buckets.set(key, bucket.slice());
+  }
+
+  private removeFromBuckets({
+    prevRegular,
+    prevAllDay,
+    removed,
+  }: BucketChanges) {
+    if (!removed.size) {
+      return;
+    }
+    const remove = (buckets: Map<number, BucketItem[]>, key: number) =>
+      buckets.set(
+        key,
+        buckets.get(key)!.filter((item) => !removed.has(item))
+      );
+    prevRegular.forEach((_, key) => remove(this.regularByDay, key));
+    prevAllDay.forEach((_, key) => remove(this.allDayByWeek, key));
+  }
+
+  /**
+   * Events of a bucket in the order of the `events` prop, packing keeps the
+   * order of the events with the same times
+   */
+  private getBucketEvents(bucket: BucketItem[]) {
+    return bucket
+      .slice()
+      .sort(
+        (a, b) =>
+          this.sourceOrder.get(a.sourceId)! -
+            this.sourceOrder.get(b.sourceId)! ||
+          (a.block === b.block ? a.index - b.index : a.block < b.block ? -1 : 1)
+      )
+      .map((item) => item.event);
+  }
+
+  private packBuckets({ prevRegular, prevAllDay }: BucketChanges): EventsState {
+    const {
+      timeZone,
+      hideWeekDays,
+      overlapType,
+      minStartDifference,
+      resourceIds,
+    } = this.options!;
+
+    const changedDays: number[] = [];
+    prevRegular.forEach((prevBucket, day) => {
+      const bucket = this.regularByDay.get(day)!;
+      if (!bucket.length) {
+        this.regularByDay.delete(day);
+      }
+      if (!hasSameContent(prevBucket, bucket)) {
+        changedDays.push(day);
+      }
+    });
+
+    const changedWeeks: number[] = [];
+    prevAllDay.forEach((prevBucket, weekStart) => {
+      const bucket = this.allDayByWeek.get(weekStart)!;
+      if (!bucket.length) {
+        this.allDayByWeek.delete(weekStart);
+      }
+      if (!hasSameContent(prevBucket, bucket)) {
+        changedWeeks.push(weekStart);
+      }
+    });
+
+    if (!changedDays.length && !changedWeeks.length) {
+      return this.state;
+    }
+
+    let regularEvents = this.state.regularEvents;
+    if (changedDays.length) {
+      regularEvents = { ...regularEvents };
+      changedDays.forEach((day) => {
+        const bucket = this.regularByDay.get(day);
+        if (bucket) {
+          regularEvents[day] = populateEvents(this.getBucketEvents(bucket), {
+            overlapType,
+            minStartDifference,
+            resourceIds,
+          });
+        } else {
+          delete regularEvents[day];
+        }
+      });
+    }
+
+    let {
+      allDayEvents,
+      allDayEventsByDay,
+      eventCountsByDay,
+      eventCountsByWeek,
+    } = this.state;
+    if (changedWeeks.length) {
+      allDayEvents = { ...allDayEvents };
+      allDayEventsByDay = { ...allDayEventsByDay };
+      eventCountsByDay = { ...eventCountsByDay };
+      eventCountsByWeek = { ...eventCountsByWeek };
+
+      const allDayEventMap = new Map<number, EventItemInternal[]>();
+      changedWeeks.forEach((weekStart) => {
+        delete allDayEvents[weekStart];
+        delete eventCountsByWeek[weekStart];
+        for (let i = 0; i < 7; i++) {
+          const day = plusDays(weekStart, i);
+          delete allDayEventsByDay[day];
+          delete eventCountsByDay[day];
+        }
+        const bucket = this.allDayByWeek.get(weekStart);
+        if (bucket) {
+          allDayEventMap.set(weekStart, this.getBucketEvents(bucket));
+        }
+      });
+
+      const packed = processAllDayEventMap(
+        allDayEventMap,
+        timeZone,
+        hideWeekDays
+      );
+      Object.assign(allDayEvents, packed.packedAllDayEvents);
+      Object.assign(allDayEventsByDay, packed.packedAllDayEventsByDay);
+      Object.assign(eventCountsByDay, packed.eventCountsByDay);
+      Object.assign(eventCountsByWeek, packed.eventCountsByWeek);
+    }
+
+    return {
+      regularEvents,
+      allDayEvents,
+      allDayEventsByDay,
+      eventCountsByDay,
+      eventCountsByWeek,
+    };
+  }
+}
+
+export default EventStoreService;
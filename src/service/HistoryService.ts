@@ -0,0 +1,90 @@
+import type { HistoryChangeEvent, HistoryOperation } from '../types';
+
+const DEFAULT_HISTORY_LIMIT = 50;
+
+class HistoryService {
+  public isHistoryEnabled: boolean = false;
+  public limit: number = DEFAULT_HISTORY_LIMIT;
+  public onChange?: (event: HistoryChangeEvent) => void;
+
+  private undoStack: HistoryOperation[] = [];
+  private redoStack: HistoryOperation[] = [];
+  private lastId = 0;
+
+  public setEnabled(isEnabled: boolean, limit = DEFAULT_HISTORY_LIMIT) {
+    const wasEnabled = this.isHistoryEnabled;
+    this.isHistoryEnabled = isEnabled;
+    this.limit = Math.max(limit, 1);
+    // Edits made while disabled are not recorded, the previous operations
+    // can't be undone or redone on top of them
+    if (!isEnabled || !wasEnabled) {
+      this.undoStack = [];
+      this.redoStack = [];
+    } else {
+      this.undoStack = this.undoStack.slice(-this.limit);
+      this.redoStack = this.redoStack.slice(-this.limit);
+    }
+  }
+
+  public record(operation: Omit<HistoryOperation, 'id'>) {
+    if (!this.isHistoryEnabled) {
+      return;
+    }
+
+    this.lastId += 1;
+    const newOperation = { ...operation, id: `history_${this.lastId}` };
+    this.undoStack = [...this.undoStack, newOperation].slice(-this.limit);
+    this.redoStack = [];
+    this.notify('record', newOperation);
+  }
+
+  public undo() {
+    if (!this.isHistoryEnabled) {
+      return;
+    }
+    const operation = this.undoStack[this.undoStack.length - 1];
+    if (!operation) {
+      return;
+    }
+
+    this.undoStack = this.undoStack.slice(0, -1);
+    this.redoStack = [...this.redoStack, operation];
+    this.notify('undo', operation);
+  }
+
+  public redo() {
+    if (!this.isHistoryEnabled) {
+      return;
+    }
+    const operation = this.redoStack[this.redoStack.length - 1];
+    if (!operation) {
+      return;
+    }
+
+    this.redoStack = this.redoStack.slice(0, -1);
+    this.undoStack = [...this.undoStack, operation];
+    this.notify('redo', operation);
+  }
+
+  public canUndo() {
+    return this.undoStack.length > 0;
+  }
+
+  public canRedo() {
+    return this.redoStack.length > 0;
+  }
+
+  private notify(
+    action: HistoryChangeEvent['action'],
+    operation: HistoryOperation
+  ) {
+    this.onChange?.({
+      action,
+      operation,
+      canUndo: this.canUndo(),
+      canRedo: this.canRedo(),
+    });
+  }
+}
+
+export default HistoryService;
@@ -0,0 +1,74 @@
+export interface Interval<T> {
+  start: number;
+  end: number;
+  value: T;
+}
+
+/**
+ * Static interval tree over items sorted by `start`. Every node of the
+ * implicit balanced tree keeps the max `end` of its subtree, so the items
+ * overlapping a range are found without visiting the others.
+ */
+class IntervalTree<T> {
+  private items: Interval<T>[];
+  private maxEnds: number[];
+
+  constructor(items: Interval<T>[]) {
+    this.items = items.slice().sort((a, b) => a.start - b.start);
+    this.maxEnds = new Array(this.items.length);
+    this.buildMaxEnds(0, this.items.length - 1);
+  }
+
+  public get size() {
+    return this.items.length;
+  }
+
+  /** Values of the items with `start < maxUnix` and `end > minUnix` */
+  public search(minUnix: number, maxUnix: number): T[] {
+    const result: T[] = [];
+    this.searchNode(0, this.items.length - 1, minUnix, maxUnix, result);
+    return result;
+  }
+
+  private buildMaxEnds(low: number, high: number): number {
+    if (low > high) {
+      return -Infinity;
+    }
+    const mid = Math.floor((low + high) / 2);
+    const maxEnd = Math.max(
+      this.items[mid]!.end,
+      this.buildMaxEnds(low, mid - 1),
+      this.buildMaxEnds(mid + 1, high)
+    );
+    this.maxEnds[mid] = maxEnd;
+    return maxEnd;
+  }
+
+  private searchNode(
+    low: number,
+    high: number,
+    minUnix: number,
+    maxUnix: number,
+    result: T[]
+  ) {
+    if (low > high) {
+      return;
+    }
+    const mid = Math.floor((low + high) / 2);
+    if (this.maxEnds[mid]! <= minUnix) {
+      return;
+    }
+
+    this.searchNode(low, mid - 1, minUnix, maxUnix, result);
+    const item = this.items[mid]!;
+    if (item.start >= maxUnix) {
+      return;
+    }
+    if (item.end > minUnix) {
+      result.push(item.value);
+    }
+    this.searchNode(mid + 1, high, minUnix, maxUnix, result);
+  }
+}
+
+export default IntervalTree;
@@ -0,0 +1,208 @@
+import type { WeekdayNumbers } from 'luxon';
+import type { EventItem, LoadRange, LoadRangeOptions } from '../types';
+import {
+  dateTimeToISOString,
+  parseDateTime,
+  startOfWeek,
+} from '../utils/dateUtils';
+
+export interface RangeLoaderState {
+  events: EventItem[];
+  isLoading: boolean;
+}
+
+interface RangeRequest {
+  weeks: number[];
+  controller: AbortController;
+}
+
+/** Starts of the weeks of `timeZone` overlapping the window */
+const getWeekStarts = (
+  minUnix: number,
+  maxUnix: number,
+  timeZone: string,
+  firstDay: WeekdayNumbers
+) => {
+  const weekStarts: number[] = [];
+  let weekStart = startOfWeek(
+    parseDateTime(minUnix, { zone: timeZone }),
+    firstDay
+  );
+  while (weekStart.toMillis() < maxUnix) {
+    weekStarts.push(weekStart.toMillis());
+    weekStart = weekStart.plus({ weeks: 1 });
+  }
+  return weekStarts;
+};
+
+/**
+ * Loads the events of the weeks around the visible pages with `onLoadRange`.
+ * The loaded weeks are cached, the weeks being loaded are not requested
+ * twice and the requests of the weeks left by paging away are aborted.
+ * The weeks of a failed request are requested again by the next load.
+ */
+class RangeLoaderService {
+  public onLoadRange?: (
+    range: LoadRange,
+    options: LoadRangeOptions
+  ) => Promise<EventItem[]>;
+  public onChange?: (state: RangeLoaderState) => void;
+  public onError?: (error: unknown, range: LoadRange) => void;
+
+  private weekKey?: string;
+  private loadedWeeks = new Set<number>();
+  private requests = new Set<RangeRequest>();
+  /** Loaded events by ID, the last response of an ID replaces the others */
+  private loadedEvents = new Map<string, EventItem[]>();
+  /** Events loaded before `invalidate()`, kept until the weeks are loaded */
+  private staleEvents = new Map<string, EventItem[]>();
+  private isEventsChanged = false;
+  private state: RangeLoaderState = { events: [], isLoading: false };
+
+  public load(
+    minUnix: number,
+    maxUnix: number,
+    timeZone: string,
+    firstDay: WeekdayNumbers
+  ) {
+    if (!this.onLoadRange) {
+      return;
+    }
+
+    // Weeks move with the zone and the first day, load them again
+    const weekKey = `${timeZone}_${firstDay}`;
+    if (this.weekKey !== weekKey) {
+      this.weekKey = weekKey;
+      this.loadedWeeks.clear();
+      this.requests.forEach((request) => this.abort(request));
+    }
+
+    const weekStarts = getWeekStarts(minUnix, maxUnix, timeZone, firstDay);
+    const windowWeeks = new Set(weekStarts);
+    this.requests.forEach((request) => {
+      if (!request.weeks.some((week) => windowWeeks.has(week))) {
+        this.abort(request);
+      }
+    });
+
+    const pendingWeeks = new Set<number>();
+    this.requests.forEach((request) => {
+      request.weeks.forEach((week) => pendingWeeks.add(week));
+    });
+
+    // Consecutive missing weeks are requested as one range
+    let missingWeeks: number[] = [];
+    weekStarts.forEach((week) => {
+      if (!this.loadedWeeks.has(week) && !pendingWeeks.has(week)) {
+        missingWeeks.push(week);
+      } else if (missingWeeks.length) {
+        this.request(missingWeeks, timeZone);
+        missingWeeks = [];
+      }
+    });
+    if (missingWeeks.length) {
+      this.request(missingWeeks, timeZone);
+    }
+    this.notify();
+  }
+
+  /** Aborts the requests and clears the loaded events */
+  public reset() {
+    this.requests.forEach((request) => this.abort(request));
+    this.weekKey = undefined;
+    this.loadedWeeks.clear();
+    if (this.loadedEvents.size || this.staleEvents.size) {
+      this.loadedEvents.clear();
+      this.staleEvents.clear();
+      this.isEventsChanged = true;
+    }
+    this.notify();
+  }
+
+  /**
+   * Requests every week again on the next load. The loaded events are kept
+   * until no request is running, then only the reloaded ones are kept.
+   */
+  public invalidate() {
+    this.requests.forEach((request) => this.abort(request));
+    this.loadedWeeks.clear();
+    this.loadedEvents.forEach((group, id) => this.staleEvents.set(id, group));
+    this.loadedEvents.clear();
+  }
+
+  private request(weeks: number[], timeZone: string) {
+    const controller = new AbortController();
+    const request: RangeRequest = { weeks, controller };
+    this.requests.add(request);
+
+    const start = parseDateTime(weeks[0]!, { zone: timeZone });
+    const end = parseDateTime(weeks[weeks.length - 1]!, {
+      zone: timeZone,
+    }).plus({ weeks: 1 });
+    const range: LoadRange = {
+      start: dateTimeToISOString(start)!,
+      end: dateTimeToISOString(end)!,
+    };
+
+    Promise.resolve()
+      .then(() => this.onLoadRange!(range, { signal: controller.signal }))
+      .then((events) => {
+        if (controller.signal.aborted) {
+          return;
+        }
+        weeks.forEach((week) => this.loadedWeeks.add(week));
+        this.addEvents(events);
+      })
+      .catch((error) => {
+        if (!controller.signal.aborted) {
+          this.onError?.(error, range);
+        }
+      })
+      .finally(() => {
+        if (this.requests.delete(request)) {
+          this.notify();
+        }
+      });
+  }
+
+  private abort(request: RangeRequest) {
+    this.requests.delete(request);
+    request.controller.abort();
+  }
+
+  private addEvents(events: EventItem[]) {
+    const groups = new Map<string, EventItem[]>();
+    events.forEach((event) => {
+      const group = groups.get(event.id) ?? [];
+      group.push(event);
+      groups.set(event.id, group);
+    });
+    groups.forEach((group, id) => this.loadedEvents.set(id, group));
+    this.isEventsChanged = true;
+  }
+
+  private notify() {
+    const isLoading = this.requests.size > 0;
+    if (!isLoading && this.staleEvents.size) {
+      this.staleEvents.clear();
+      this.isEventsChanged = true;
+    }
+    if (!this.isEventsChanged && isLoading === this.state.isLoading) {
+      return;
+    }
+
+    const staleEvents = [...this.staleEvents].flatMap(([id, group]) =>
+      this.loadedEvents.has(id) ? [] : group
+    );
+    this.state = {
+      events: this.isEventsChanged
+        ? [...this.loadedEvents.values(), staleEvents].flat()
+        : this.state.events,
+      isLoading,
+    };
+    this.isEventsChanged = false;
+    this.onChange?.(this.state);
+  }
+}
+
+export default RangeLoaderService;
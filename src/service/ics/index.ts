@@ -0,0 +1,3 @@
+export { parseICS } from './parseICS';
+export type { ParseICSOptions } from './parseICS';
+export { toICS } from './toICS';
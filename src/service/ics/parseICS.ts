@@ -0,0 +1,500 @@
+import { DateTime, Duration, IANAZone } from 'luxon';
+import { RRule, rrulestr } from 'rrule';
+import type { DateOrDateTime, EventItem } from '../../types';
+import { buildInstanceId } from '../../utils/eventUtils';
+
+export interface ParseICSOptions {
+  /**
+   * Time zone of the floating times (without `Z` or `TZID`), also used when a
+   * `TZID` can't be resolved to an IANA time zone.
+   *
+   * Default: the local time zone
+   */
+  timeZone?: string;
+}
+
+interface ICSProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+interface ICSComponent {
+  name: string;
+  properties: ICSProperty[];
+  components: ICSComponent[];
+}
+
+interface LocalTime {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  isDate: boolean;
+  isUTC: boolean;
+}
+
+interface Observance {
+  /** Onset of the observance, as a wall-clock time encoded as UTC */
+  start: Date;
+  rule?: RRule;
+  dates: Date[];
+  offsetFrom: number;
+  offsetTo: number;
+}
+
+interface ICSTimeZone {
+  /** IANA time zone matching the `TZID` */
+  zone?: string;
+  observances: Observance[];
+}
+
+interface ParsedDate {
+  value: DateOrDateTime;
+  dateTime: DateTime;
+}
+
+const LOCAL_TIME_REGEX =
+  /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/;
+
+/** Joins the lines folded with a leading space or tab */
+const unfoldLines = (text: string) =>
+  text
+    .replace(/\r?\n[ \t]/g, '')
+    .split(/\r?\n/)
+    .filter((line) => line.length > 0);
+
+const parseProperty = (line: string): ICSProperty | undefined => {
+  const parts: string[] = [];
+  let current = '';
+  let inQuotes = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i]!;
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (!inQuotes && (char === ';' || char === ':')) {
+      parts.push(current);
+      current = '';
+      if (char === ':') {
+        const [name, ...paramList] = parts;
+        const params: Record<string, string> = {};
+        paramList.forEach((param) => {
+          const index = param.indexOf('=');
+          if (index > 0) {
+            params[param.slice(0, index).toUpperCase()] = param.slice(
+              index + 1
+            );
+          }
+        });
+        return { name: name!.toUpperCase(), params, value: line.slice(i + 1) };
+      }
+    } else {
+      current += char;
+    }
+  }
+  return undefined;
+};
+
+const parseComponents = (text: string) => {
+  const root: ICSComponent = { name: '', properties: [], components: [] };
+  const stack = [root];
+  unfoldLines(text).forEach((line) => {
+    const property = parseProperty(line);
+    if (!property) {
+      return;
+    }
+
+    const current = stack[stack.length - 1]!;
+    if (property.name === 'BEGIN') {
+      const component: ICSComponent = {
+        name: property.value.trim().toUpperCase(),
+        properties: [],
+        components: [],
+      };
+      current.components.push(component);
+      stack.push(component);
+    } else if (property.name === 'END') {
+      if (stack.length > 1) {
+        stack.pop();
+      }
+    } else {
+      current.properties.push(property);
+    }
+  });
+  return root;
+};
+
+const findComponents = (
+  component: ICSComponent,
+  name: string
+): ICSComponent[] =>
+  component.components.flatMap((child) =>
+    child.name === name ? [child] : findComponents(child, name)
+  );
+
+const getProperty = (component: ICSComponent, name: string) =>
+  component.properties.find((property) => property.name === name);
+
+const getProperties = (component: ICSComponent, name: string) =>
+  component.properties.filter((property) => property.name === name);
+
+const unescapeText = (value: string) =>
+  value.replace(/\\([\\;,nN])/g, (_, char: string) =>
+    char === 'n' || char === 'N' ? '\n' : char
+  );
+
+const parseLocalTime = (value: string): LocalTime | undefined => {
+  const match = LOCAL_TIME_REGEX.exec(value.trim());
+  if (!match) {
+    return undefined;
+  }
+  return {
+    year: Number(match[1]),
+    month: Number(match[2]),
+    day: Number(match[3]),
+    hour: Number(match[4] ?? 0),
+    minute: Number(match[5] ?? 0),
+    second: Number(match[6] ?? 0),
+    isDate: !match[4],
+    isUTC: !!match[7],
+  };
+};
+
+const toFloatingDate = (time: LocalTime) =>
+  new Date(
+    Date.UTC(
+      time.year,
+      time.month - 1,
+      time.day,
+      time.hour,
+      time.minute,
+      time.second
+    )
+  );
+
+/** Parses `+0530` / `-0400` into minutes */
+const parseOffset = (value: string) => {
+  const match = /^([+-])(\d{2})(\d{2})(\d{2})?$/.exec(value.trim());
+  if (!match) {
+    return 0;
+  }
+  const minutes = Number(match[2]) * 60 + Number(match[3]);
+  return match[1] === '-' ? -minutes : minutes;
+};
+
+/**
+ * Finds the IANA time zone of a `TZID`, e.g. `Europe/Paris`,
+ * `/mozilla.org/20070129_1/Europe/Paris` or `X-LIC-LOCATION:Europe/Paris`
+ */
+const resolveZoneName = (tzid: string, location?: string) => {
+  const candidates = [tzid, location ?? ''];
+  const segments = tzid.split('/').filter(Boolean);
+  for (let i = 0; i < segments.length; i++) {
+    candidates.push(segments.slice(i).join('/'));
+  }
+  return candidates.find((name) => name && IANAZone.isValidZone(name));
+};
+
+const parseObservance = (component: ICSComponent): Observance | undefined => {
+  const dtstart = getProperty(component, 'DTSTART');
+  const time = dtstart && parseLocalTime(dtstart.value);
+  if (!time) {
+    return undefined;
+  }
+
+  const start = toFloatingDate(time);
+  const rrule = getProperty(component, 'RRULE');
+  const dates = getProperties(component, 'RDATE').flatMap((property) =>
+    property.value.split(',').flatMap((value) => {
+      const date = parseLocalTime(value);
+      return date ? [toFloatingDate(date)] : [];
+    })
+  );
+  return {
+    start,
+    rule: rrule
+      ? new RRule({ ...rrulestr(rrule.value).origOptions, dtstart: start })
+      : undefined,
+    dates,
+    offsetFrom: parseOffset(
+      getProperty(component, 'TZOFFSETFROM')?.value ?? ''
+    ),
+    offsetTo: parseOffset(getProperty(component, 'TZOFFSETTO')?.value ?? ''),
+  };
+};
+
+const parseTimeZones = (root: ICSComponent) => {
+  const timeZones: Record<string, ICSTimeZone> = {};
+  findComponents(root, 'VTIMEZONE').forEach((component) => {
+    const tzid = getProperty(component, 'TZID')?.value.trim();
+    if (!tzid) {
+      return;
+    }
+    const location = getProperty(component, 'X-LIC-LOCATION')?.value.trim();
+    const observances = component.components
+      .filter(({ name }) => name === 'STANDARD' || name === 'DAYLIGHT')
+      .flatMap((observance) => parseObservance(observance) ?? []);
+    timeZones[tzid] = {
+      zone: resolveZoneName(tzid, location),
+      observances,
+    };
+  });
+  return timeZones;
+};
+
+/** UTC offset (in minutes) of a wall-clock time, from the VTIMEZONE rules */
+const getObservedOffset = (observances: Observance[], date: Date) => {
+  let latest: { onset: number; offset: number } | undefined;
+  observances.forEach((observance) => {
+    const onsets = [observance.start, ...observance.dates];
+    const ruleOnset = observance.rule?.before(date, true);
+    if (ruleOnset) {
+      onsets.push(ruleOnset);
+    }
+    onsets.forEach((onset) => {
+      const time = onset.getTime();
+      if (time <= date.getTime() && (!latest || time > latest.onset)) {
+        latest = { onset: time, offset: observance.offsetTo };
+      }
+    });
+  });
+  if (latest) {
+    return latest.offset;
+  }
+
+  const [first] = [...observances].sort(
+    (a, b) => a.start.getTime() - b.start.getTime()
+  );
+  return first?.offsetFrom ?? 0;
+};
+
+const createDateParser = (
+  timeZones: Record<string, ICSTimeZone>,
+  defaultZone?: string
+) => {
+  const parseValue = (
+    value: string,
+    params: Record<string, string>
+  ): ParsedDate | undefined => {
+    const time = parseLocalTime(value);
+    if (!time) {
+      return undefined;
+    }
+
+    const { isDate, isUTC, ...dateObject } = time;
+    if (isDate || params.VALUE === 'DATE') {
+      const date = DateTime.fromObject(
+        { year: time.year, month: time.month, day: time.day },
+        { zone: defaultZone }
+      );
+      return { value: { date: date.toISODate()! }, dateTime: date };
+    }
+
+    if (isUTC) {
+      const dateTime = DateTime.fromObject(dateObject, { zone: 'UTC' });
+      return {
+        value: { dateTime: dateTime.toISO()!, timeZone: 'UTC' },
+        dateTime,
+      };
+    }
+
+    const tzid = params.TZID?.trim();
+    const timeZone = tzid ? timeZones[tzid] : undefined;
+    const zone = tzid ? (timeZone?.zone ?? resolveZoneName(tzid)) : undefined;
+    if (zone) {
+      const dateTime = DateTime.fromObject(dateObject, { zone });
+      return {
+        value: { dateTime: dateTime.toISO()!, timeZone: zone },
+        dateTime,
+      };
+    }
+
+    // Unknown zone: convert with the VTIMEZONE rules, or keep the floating time
+    let dateTime = DateTime.fromObject(dateObject, { zone: defaultZone });
+    if (timeZone?.observances.length) {
+      const offset = getObservedOffset(
+        timeZone.observances,
+        toFloatingDate(time)
+      );
+      dateTime = DateTime.fromObject(dateObject, { zone: 'UTC' })
+        .minus({ minutes: offset })
+        .setZone(defaultZone);
+    }
+    return {
+      value: defaultZone
+        ? { dateTime: dateTime.toISO()!, timeZone: defaultZone }
+        : { dateTime: dateTime.toISO()! },
+      dateTime,
+    };
+  };
+
+  const parseDate = (property?: ICSProperty) =>
+    property ? parseValue(property.value, property.params) : undefined;
+
+  /** Parses the comma-separated dates of `EXDATE` / `RDATE` properties */
+  const parseList = (properties: ICSProperty[]) =>
+    properties.flatMap((property) =>
+      property.value.split(',').flatMap((value) => {
+        // Only the start of a period (`VALUE=PERIOD`) is kept
+        const date = parseValue(value.split('/')[0]!, property.params);
+        if (!date) {
+          return [];
+        }
+        return [date.value.date ?? date.dateTime.toUTC().toISO()!];
+      })
+    );
+
+  return { parseDate, parseList };
+};
+
+/**
+ * `RRuleGenerator` evaluates rules on the wall-clock time of the event, so a
+ * UTC `UNTIL` is converted to the time zone of the event.
+ */
+const toFloatingRule = (rule: string, zone?: string) =>
+  rule.replace(/UNTIL=(\d{8}T\d{6})Z/i, (_, until: string) => {
+    const date = DateTime.fromFormat(until, "yyyyMMdd'T'HHmmss", {
+      zone: 'UTC',
+    }).setZone(zone);
+    return `UNTIL=${date.toFormat("yyyyMMdd'T'HHmmss")}`;
+  });
+
+/** All-day `DTEND` is exclusive, `end.date` of events is inclusive */
+const getEnd = (
+  component: ICSComponent,
+  start: ParsedDate,
+  end?: ParsedDate
+): DateOrDateTime => {
+  const duration = getProperty(component, 'DURATION');
+  const parsedDuration = duration
+    ? Duration.fromISO(duration.value.trim())
+    : undefined;
+  if (start.value.date) {
+    let endDate = start.dateTime.plus({ days: 1 });
+    if (end) {
+      endDate = end.dateTime;
+    } else if (parsedDuration?.isValid) {
+      endDate = start.dateTime.plus(parsedDuration);
+    }
+    const lastDay = endDate.minus({ days: 1 });
+    return {
+      date: (lastDay < start.dateTime ? start.dateTime : lastDay).toISODate()!,
+    };
+  }
+
+  if (end) {
+    return end.value;
+  }
+  const endDateTime = parsedDuration?.isValid
+    ? start.dateTime.plus(parsedDuration)
+    : start.dateTime;
+  const { timeZone } = start.value;
+  return timeZone
+    ? { dateTime: endDateTime.toISO()!, timeZone }
+    : { dateTime: endDateTime.toISO()! };
+};
+
+/**
+ * Parses the `VEVENT`s of an iCalendar (.ics) file into events.
+ *
+ * Modified instances (`RECURRENCE-ID`) are returned with `recurringEventId`
+ * and `originalStartTime`, and replace their occurrence of the recurring
+ * event. Cancelled instances are added to `excludeDates`.
+ */
+export const parseICS = (
+  text: string,
+  options: ParseICSOptions = {}
+): EventItem[] => {
+  const root = parseComponents(text);
+  const timeZones = parseTimeZones(root);
+  const { parseDate, parseList } = createDateParser(
+    timeZones,
+    options.timeZone
+  );
+
+  const events: EventItem[] = [];
+  const recurringEvents = new Map<string, EventItem>();
+  const cancelledInstances: { uid: string; date: string }[] = [];
+
+  findComponents(root, 'VEVENT').forEach((component, index) => {
+    const start = parseDate(getProperty(component, 'DTSTART'));
+    if (!start) {
+      console.warn('Event has invalid DTSTART', component);
+      return;
+    }
+
+    const uid = getProperty(component, 'UID')?.value.trim() || `ics_${index}`;
+    const event: EventItem = {
+      id: uid,
+      start: start.value,
+      end: getEnd(component, start, parseDate(getProperty(component, 'DTEND'))),
+    };
+
+    const summary = getProperty(component, 'SUMMARY');
+    if (summary) {
+      event.title = unescapeText(summary.value);
+    }
+    const description = getProperty(component, 'DESCRIPTION');
+    if (description) {
+      event.description = unescapeText(description.value);
+    }
+    const location = getProperty(component, 'LOCATION');
+    if (location) {
+      event.location = unescapeText(location.value);
+    }
+
+    const zone = start.value.date
+      ? undefined
+      : (start.dateTime.zoneName ?? undefined);
+    const rrule = getProperty(component, 'RRULE');
+    if (rrule) {
+      event.recurrence = toFloatingRule(rrule.value.trim(), zone);
+    }
+    const exrule = getProperty(component, 'EXRULE');
+    if (exrule) {
+      event.excludeRecurrence = toFloatingRule(exrule.value.trim(), zone);
+    }
+    const excludeDates = parseList(getProperties(component, 'EXDATE'));
+    if (excludeDates.length) {
+      event.excludeDates = excludeDates;
+    }
+    const recurrenceDates = parseList(getProperties(component, 'RDATE'));
+    if (recurrenceDates.length) {
+      event.recurrenceDates = recurrenceDates;
+    }
+
+    const recurrenceId = parseDate(getProperty(component, 'RECURRENCE-ID'));
+    if (recurrenceId) {
+      const status = getProperty(component, 'STATUS')?.value.trim();
+      if (status?.toUpperCase() === 'CANCELLED') {
+        cancelledInstances.push({
+          uid,
+          date:
+            recurrenceId.value.date ?? recurrenceId.dateTime.toUTC().toISO()!,
+        });
+        return;
+      }
+
+      event.id = buildInstanceId(uid, recurrenceId.dateTime);
+      event.recurringEventId = uid;
+      event.originalStartTime = recurrenceId.value;
+    } else if (event.recurrence) {
+      recurringEvents.set(uid, event);
+    }
+    events.push(event);
+  });
+
+  cancelledInstances.forEach(({ uid, date }) => {
+    const recurringEvent = recurringEvents.get(uid);
+    if (recurringEvent) {
+      recurringEvent.excludeDates = [
+        ...(recurringEvent.excludeDates ?? []),
+        date,
+      ];
+    }
+  });
+
+  return events;
+};
@@ -0,0 +1,299 @@
+import { DateTime, IANAZone } from 'luxon';
+import { MILLISECONDS_IN_MINUTE } from '../../constants';
+import type { DateOrDateTime, EventItem } from '../../types';
+import { dateToDtStart, parseDateTime } from '../../utils/dateUtils';
+
+const PRODUCT_ID = '-//howljs//calendar-kit//EN';
+const WEEKDAYS = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'];
+const MAX_LINE_OCTETS = 75;
+
+const getZone = (timeZone?: string) =>
+  timeZone && timeZone.toUpperCase() !== 'UTC' && IANAZone.isValidZone(timeZone)
+    ? timeZone
+    : undefined;
+
+const escapeText = (value: string) =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+const getOctets = (char: string) => {
+  const codePoint = char.codePointAt(0)!;
+  if (codePoint < 0x80) {
+    return 1;
+  }
+  if (codePoint < 0x800) {
+    return 2;
+  }
+  return codePoint < 0x10000 ? 3 : 4;
+};
+
+/** Folds the lines longer than 75 octets, without splitting characters */
+const foldLine = (line: string) => {
+  const lines: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = getOctets(char);
+    if (octets + size > MAX_LINE_OCTETS) {
+      lines.push(current);
+      current = ' ';
+      octets = 1;
+    }
+    current += char;
+    octets += size;
+  }
+  lines.push(current);
+  return lines.join('\r\n');
+};
+
+const formatOffset = (minutes: number) => {
+  const absolute = Math.abs(minutes);
+  const hours = Math.floor(absolute / 60)
+    .toString()
+    .padStart(2, '0');
+  const rest = (absolute % 60).toString().padStart(2, '0');
+  return `${minutes < 0 ? '-' : '+'}${hours}${rest}`;
+};
+
+const toDateTime = (date: DateOrDateTime) =>
+  parseDateTime(date.dateTime ?? date.date, {
+    zone: getZone(date.timeZone) ?? 'UTC',
+  });
+
+const formatDate = (property: string, date: DateOrDateTime) => {
+  if (date.date) {
+    return `${property};VALUE=DATE:${parseDateTime(date.date).toFormat(
+      'yyyyMMdd'
+    )}`;
+  }
+  return dateToDtStart(
+    toDateTime(date),
+    getZone(date.timeZone),
+    property
+  ).trim();
+};
+
+/** `end.date` of events is inclusive, all-day `DTEND` is exclusive */
+const toExclusiveEnd = (end: DateOrDateTime): DateOrDateTime =>
+  end.date
+    ? { date: parseDateTime(end.date).plus({ days: 1 }).toISODate()! }
+    : end;
+
+/** Formats `excludeDates` / `recurrenceDates` like the start of the event */
+const formatDates = (
+  property: string,
+  dates: string[],
+  start: DateOrDateTime
+) =>
+  dates.map((date) => {
+    if (start.date) {
+      const dateTime = parseDateTime(date);
+      return `${property};VALUE=DATE:${dateTime.toFormat('yyyyMMdd')}`;
+    }
+    const zone = getZone(start.timeZone);
+    return dateToDtStart(
+      parseDateTime(date, { zone: zone ?? 'UTC' }),
+      zone,
+      property
+    ).trim();
+  });
+
+/**
+ * `RRuleGenerator` evaluates `UNTIL` on the wall-clock time of the event,
+ * iCalendar requires it in UTC (or as a date for all-day events).
+ */
+const toUTCUntil = (rule: string, start: DateOrDateTime) =>
+  rule.replace(
+    /UNTIL=(\d{8})(T\d{6})?(Z)?/i,
+    (match, date: string, time?: string, utc?: string) => {
+      if (start.date) {
+        return `UNTIL=${date}`;
+      }
+      if (utc) {
+        return match;
+      }
+      const until = DateTime.fromFormat(
+        `${date}${time ?? 'T000000'}`,
+        "yyyyMMdd'T'HHmmss",
+        { zone: getZone(start.timeZone) ?? 'UTC' }
+      );
+      return `UNTIL=${until.toUTC().toFormat("yyyyMMdd'T'HHmmss'Z'")}`;
+    }
+  );
+
+const formatRule = (
+  property: string,
+  recurrence: string,
+  start: DateOrDateTime
+) =>
+  recurrence.split(/\r?\n/).flatMap((line) => {
+    const trimmed = line.trim();
+    // DTSTART belongs to the event start
+    if (!trimmed || /^DTSTART/i.test(trimmed)) {
+      return [];
+    }
+    const index = trimmed.indexOf(':');
+    const name = index > 0 ? trimmed.slice(0, index) : property;
+    const rule = index > 0 ? trimmed.slice(index + 1) : trimmed;
+    return [`${name}:${toUTCUntil(rule, start)}`];
+  });
+
+/** Offset changes of a time zone during a year */
+const getTransitions = (zone: string, year: number) => {
+  const transitions: DateTime[] = [];
+  const end = DateTime.fromObject({ year: year + 1 }, { zone: 'UTC' });
+  let current = DateTime.fromObject({ year }, { zone: 'UTC' });
+  while (current < end) {
+    const next = current.plus({ days: 1 });
+    if (current.setZone(zone).offset !== next.setZone(zone).offset) {
+      const offset = current.setZone(zone).offset;
+      let low = current.toMillis();
+      let high = next.toMillis();
+      while (high - low > MILLISECONDS_IN_MINUTE) {
+        const middle =
+          low +
+          Math.floor((high - low) / 2 / MILLISECONDS_IN_MINUTE) *
+            MILLISECONDS_IN_MINUTE;
+        if (DateTime.fromMillis(middle, { zone }).offset === offset) {
+          low = middle;
+        } else {
+          high = middle;
+        }
+      }
+      transitions.push(DateTime.fromMillis(high, { zone }));
+    }
+    current = next;
+  }
+  return transitions;
+};
+
+/**
+ * Describes a time zone with the yearly rules observed from `year`, so
+ * clients without the IANA database can read the `TZID`s.
+ */
+const formatTimeZone = (zone: string, year: number) => {
+  const transitions = getTransitions(zone, year);
+  if (!transitions.length) {
+    const offset = formatOffset(DateTime.fromObject({ year }, { zone }).offset);
+    return [
+      'BEGIN:VTIMEZONE',
+      `TZID:${zone}`,
+      'BEGIN:STANDARD',
+      'DTSTART:19700101T000000',
+      `TZOFFSETFROM:${offset}`,
+      `TZOFFSETTO:${offset}`,
+      'END:STANDARD',
+      'END:VTIMEZONE',
+    ];
+  }
+
+  const observances = transitions.flatMap((transition) => {
+    const offsetFrom = transition.minus({ minutes: 1 }).offset;
+    // Onset on the wall clock of the previous offset
+    const onset = transition.toUTC().plus({ minutes: offsetFrom });
+    const week =
+      onset.day + 7 > onset.daysInMonth! ? -1 : Math.ceil(onset.day / 7);
+    const type = transition.isInDST ? 'DAYLIGHT' : 'STANDARD';
+    return [
+      `BEGIN:${type}`,
+      `DTSTART:${onset.toFormat("yyyyMMdd'T'HHmmss")}`,
+      `RRULE:FREQ=YEARLY;BYMONTH=${onset.month};BYDAY=${week}${
+        WEEKDAYS[onset.weekday - 1]
+      }`,
+      `TZOFFSETFROM:${formatOffset(offsetFrom)}`,
+      `TZOFFSETTO:${formatOffset(transition.offset)}`,
+      `END:${type}`,
+    ];
+  });
+  return ['BEGIN:VTIMEZONE', `TZID:${zone}`, ...observances, 'END:VTIMEZONE'];
+};
+
+const formatEvent = (event: EventItem, dtstamp: string) => {
+  // Occurrences generated by the calendar are linked by
+  // `originalRecurringEvent`, exceptions by `recurringEventId`
+  const recurringEventId =
+    event.recurringEventId ?? event.originalRecurringEvent?.id;
+  const isInstance = !!event.originalStartTime && !!recurringEventId;
+
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${escapeText(isInstance ? recurringEventId! : event.id)}`,
+    dtstamp,
+    formatDate('DTSTART', event.start),
+    formatDate('DTEND', toExclusiveEnd(event.end)),
+  ];
+  if (isInstance) {
+    lines.push(formatDate('RECURRENCE-ID', event.originalStartTime!));
+  }
+  if (typeof event.title === 'string') {
+    lines.push(`SUMMARY:${escapeText(event.title)}`);
+  }
+  if (typeof event.description === 'string') {
+    lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  }
+  if (typeof event.location === 'string') {
+    lines.push(`LOCATION:${escapeText(event.location)}`);
+  }
+
+  if (!isInstance && event.recurrence) {
+    lines.push(...formatRule('RRULE', event.recurrence, event.start));
+    if (event.excludeRecurrence) {
+      lines.push(...formatRule('EXRULE', event.excludeRecurrence, event.start));
+    }
+    lines.push(
+      ...formatDates('EXDATE', event.excludeDates ?? [], event.start),
+      ...formatDates('RDATE', event.recurrenceDates ?? [], event.start)
+    );
+  }
+  lines.push('END:VEVENT');
+  return lines;
+};
+
+/**
+ * Serializes events into an iCalendar (.ics) file.
+ *
+ * Exceptions (events with `recurringEventId` and `originalStartTime`, the
+ * `overrides` of recurring events, or occurrences edited in the calendar)
+ * are exported with the `UID` of their recurring event and `RECURRENCE-ID`.
+ */
+export const toICS = (events: EventItem[]) => {
+  const allEvents = events.flatMap((event) => [
+    event,
+    ...(event.overrides ?? []).map((override) => ({
+      ...override,
+      recurringEventId: event.id,
+    })),
+  ]);
+
+  // First year of every time zone, to describe its rules from that year
+  const zones = new Map<string, number>();
+  allEvents.forEach((event) => {
+    [event.start, event.end, event.originalStartTime].forEach((date) => {
+      const zone = date?.dateTime ? getZone(date.timeZone) : undefined;
+      if (date && zone) {
+        const year = toDateTime(date).year;
+        zones.set(zone, Math.min(zones.get(zone) ?? year, year));
+      }
+    });
+  });
+
+  const dtstamp = dateToDtStart(DateTime.now(), undefined, 'DTSTAMP').trim();
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+  ];
+  zones.forEach((year, zone) => {
+    lines.push(...formatTimeZone(zone, year));
+  });
+  allEvents.forEach((event) => {
+    lines.push(...formatEvent(event, dtstamp));
+  });
+  lines.push('END:VCALENDAR');
+
+  return `${lines.map(foldLine).join('\r\n')}\r\n`;
+};
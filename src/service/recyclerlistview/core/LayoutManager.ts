@@ -22,6 +22,9 @@ export abstract class LayoutManager {
   // Return all computed layouts as an array, frequently called, you are expected to return a cached array. Don't compute here.
   public abstract getLayout(index?: number): Layout;
 
+  // Return the index of the item placed at the given offset
+  public abstract getIndexForOffset(offset: number): number;
+
   // Recompute layouts from given index, compute heavy stuff should be here
   public abstract relayout(itemCount: number): void;
 }
@@ -56,6 +59,10 @@ export class WrapLayoutManager extends LayoutManager {
     return { x: layout.x, y: layout.y };
   }
 
+  public getIndexForOffset(offset: number): number {
+    return Math.floor(offset / this._window.width);
+  }
+
   public setMaxBounds(itemDim: Dimension): void {
     itemDim.height = Math.min(this._window.height, itemDim.height);
   }
@@ -66,6 +73,70 @@ export class WrapLayoutManager extends LayoutManager {
   }
 }
 
+/**
+ * Stacks items vertically, each item takes the full window width and the
+ * height returned by `getItemHeight`.
+ */
+export class VerticalLayoutManager extends LayoutManager {
+  private _window: Dimension;
+  private _getItemHeight: (index: number) => number;
+  private _offsets: number[];
+  private _heights: number[];
+  private _totalHeight: number;
+
+  constructor(
+    renderWindowSize: Dimension,
+    getItemHeight: (index: number) => number
+  ) {
+    super();
+    this._window = renderWindowSize;
+    this._getItemHeight = getItemHeight;
+    this._offsets = [];
+    this._heights = [];
+    this._totalHeight = 0;
+  }
+
+  public getContentDimension(): Dimension {
+    return { height: this._totalHeight, width: this._window.width };
+  }
+
+  public getLayout(index: number = 0): Layout {
+    return {
+      x: 0,
+      y: this._offsets[index] ?? this._totalHeight,
+      width: this._window.width,
+      height: this._heights[index] ?? 0,
+    };
+  }
+
+  public getIndexForOffset(offset: number): number {
+    let low = 0;
+    let high = this._offsets.length - 1;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (this._offsets[mid]! <= offset) {
+        low = mid;
+      } else {
+        high = mid - 1;
+      }
+    }
+    return Math.max(low, 0);
+  }
+
+  public relayout(itemCount: number): void {
+    this._offsets = new Array(itemCount);
+    this._heights = new Array(itemCount);
+    let totalHeight = 0;
+    for (let i = 0; i < itemCount; i++) {
+      const height = this._getItemHeight(i);
+      this._offsets[i] = totalHeight;
+      this._heights[i] = height;
+      totalHeight += height;
+    }
+    this._totalHeight = totalHeight;
+  }
+}
+
 export interface Layout extends Dimension, Point {}
 export interface Point {
   x: number;
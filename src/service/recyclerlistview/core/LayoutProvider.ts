@@ -1,5 +1,5 @@
 import type { LayoutManager } from './LayoutManager';
-import { WrapLayoutManager } from './LayoutManager';
+import { VerticalLayoutManager, WrapLayoutManager } from './LayoutManager';
 
 /**
  * Created by talha.naqvi on 05/04/17. You can create a new instance or inherit
@@ -55,6 +55,25 @@ export class LayoutProvider extends BaseLayoutProvider {
   }
 }
 
+export class VerticalLayoutProvider extends BaseLayoutProvider {
+  private _layoutSize: Dimension;
+  private _getItemHeight: (index: number) => number;
+
+  constructor(dim: Dimension, getItemHeight: (index: number) => number) {
+    super();
+    this._layoutSize = dim;
+    this._getItemHeight = getItemHeight;
+  }
+
+  public toLayoutManager(): LayoutManager {
+    return new VerticalLayoutManager(this._layoutSize, this._getItemHeight);
+  }
+
+  public getLayoutSize(): Dimension {
+    return this._layoutSize;
+  }
+}
+
 export interface Dimension {
   height: number;
   width: number;
@@ -48,7 +48,8 @@ export interface RecyclerListViewProps {
   columnsPerPage?: number;
   visibleColumns?: number;
   extraScrollData?: Record<string, any>;
-  initialScroll?: (offsetX: number) => void;
+  isHorizontal?: boolean;
+  initialScroll?: (offset: number) => void;
   onLoad?: () => void;
 }
 
@@ -65,6 +66,7 @@ export default class RecyclerListView<
     initialOffset: 0,
     renderAheadOffset: 250,
     scrollEventThrottle: 16,
+    isHorizontal: true,
   };
 
   public static propTypes = {};
@@ -145,7 +147,10 @@ export default class RecyclerListView<
     const layoutManager = this._virtualRenderer.getLayoutManager();
     if (layoutManager) {
       const offsets = layoutManager.getOffsetForIndex(index);
-      this.scrollToOffset(offsets.x, animate);
+      this.scrollToOffset(
+        this._isHorizontal() ? offsets.x : offsets.y,
+        animate
+      );
     } else {
       console.warn(
         'scrollTo was called before RecyclerListView was measured, please wait for the mount to finish'
@@ -167,9 +172,13 @@ export default class RecyclerListView<
     this.scrollToIndex(lastIndex, animate);
   }
 
-  public scrollToOffset = (x: number, animate: boolean = false): void => {
+  public scrollToOffset = (offset: number, animate: boolean = false): void => {
     if (this._scrollComponent) {
-      this._scrollComponent.scrollTo(x, 0, animate);
+      if (this._isHorizontal()) {
+        this._scrollComponent.scrollTo(offset, 0, animate);
+      } else {
+        this._scrollComponent.scrollTo(0, offset, animate);
+      }
     }
   };
 
@@ -209,6 +218,12 @@ export default class RecyclerListView<
   }
 
   public getMaxOffset(visibleColumns?: number): number {
+    if (!this._isHorizontal()) {
+      return (
+        this._virtualRenderer.getLayoutDimension().height - this._layout.height
+      );
+    }
+
     if (!visibleColumns || !this._params.columnsPerPage) {
       return (
         this._virtualRenderer.getLayoutDimension().width - this._layout.width
@@ -269,17 +284,21 @@ export default class RecyclerListView<
     return this._virtualRenderer;
   }
 
+  private _isHorizontal(): boolean {
+    return this.props.isHorizontal ?? true;
+  }
+
   private _processInitialOffset(): void {
     if (this._pendingScrollToOffset) {
       setTimeout(() => {
         if (this._pendingScrollToOffset) {
           const offset = this._pendingScrollToOffset;
           this._pendingScrollToOffset = null;
-          offset.y = 0;
+          const scrollOffset = this._isHorizontal() ? offset.x : offset.y;
           if (this.props.initialScroll) {
-            this.props.initialScroll(offset.x);
+            this.props.initialScroll(scrollOffset);
           } else {
-            this.scrollToOffset(offset.x, false);
+            this.scrollToOffset(scrollOffset, false);
           }
           if (this._pendingRenderStack) {
             this._renderStackWhenReady(this._pendingRenderStack);
@@ -295,6 +314,7 @@ export default class RecyclerListView<
     this._params.columnsPerPage = newProps.columnsPerPage;
     this._params.extraScrollData = newProps.extraScrollData;
     this._params.initialOffset = newProps.initialOffset;
+    this._params.isHorizontal = newProps.isHorizontal;
     const initialOffset =
       newProps.initialOffset ?? this.props.initialOffset ?? 0;
 
@@ -383,6 +403,7 @@ export default class RecyclerListView<
       renderAheadOffset: props.renderAheadOffset,
       columnsPerPage: props.columnsPerPage,
       extraScrollData: props.extraScrollData,
+      isHorizontal: props.isHorizontal,
     };
     this._virtualRenderer.setParamsAndDimensions(this._params, this._layout);
     const layoutManager = props.layoutProvider.createLayoutManager();
@@ -450,7 +471,10 @@ export default class RecyclerListView<
     event: NativeSyntheticEvent<NativeScrollEvent>
   ): void => {
     const contentOffset = event.nativeEvent.contentOffset;
-    this._virtualRenderer.updateOffset(contentOffset.x, true);
+    this._virtualRenderer.updateOffset(
+      this._isHorizontal() ? contentOffset.x : contentOffset.y,
+      true
+    );
 
     if (this.props.onScroll) {
       this.props.onScroll(event);
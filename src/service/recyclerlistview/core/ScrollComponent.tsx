@@ -12,6 +12,7 @@ export interface ScrollComponentProps {
   scrollEventThrottle?: number;
   renderAheadOffset: number;
   layoutSize?: Dimension;
+  isHorizontal?: boolean;
   children: any;
 }
 
@@ -25,6 +26,7 @@ export default class ScrollComponent extends React.Component<
     contentHeight: 0,
     contentWidth: 0,
     scrollEventThrottle: 16,
+    isHorizontal: true,
   };
 
   private _scrollViewRef: ScrollView | null = null;
@@ -48,10 +50,10 @@ export default class ScrollComponent extends React.Component<
         removeClippedSubviews={false}
         scrollEventThrottle={this.props.scrollEventThrottle}
         {...this.props}
-        horizontal
+        horizontal={this.props.isHorizontal}
         onScroll={this._onScroll}
         ref={this._getScrollViewRef}>
-        <View style={styles.container}>
+        <View style={this.props.isHorizontal ? styles.container : undefined}>
           <View
             style={{
               height: this.props.contentHeight,
@@ -66,7 +68,7 @@ export default class ScrollComponent extends React.Component<
 
   private _getScrollViewRef = (scrollView: any) => {
     this._scrollViewRef = scrollView as ScrollView | null;
-    (this.props as any)?.scrollRefExternal(scrollView);
+    (this.props as any)?.scrollRefExternal?.(scrollView);
     return scrollView;
   };
 
@@ -1,4 +1,4 @@
-import type { Layout } from './LayoutManager';
+import type { Layout, LayoutManager } from './LayoutManager';
 import type { Dimension } from './LayoutProvider';
 
 export interface Range {
@@ -34,7 +34,8 @@ export default class ViewabilityTracker {
   private _visibleIndexes: number[];
   private _engagedIndexes: number[];
   private _startColumn: { index: number; columns: number } | undefined;
-  private _layout: Layout;
+  private _layoutManager: LayoutManager | null;
+  private _isHorizontal: boolean;
   private _actualOffset: number;
   private _itemCount: number;
   private _columnsPerPage?: number;
@@ -53,12 +54,8 @@ export default class ViewabilityTracker {
     this._visibleWindow = { start: 0, end: 0 };
     this._engagedWindow = { start: 0, end: 0 };
     this._windowBound = 0;
-    this._layout = {
-      x: 0,
-      y: 0,
-      width: 0,
-      height: 0,
-    };
+    this._layoutManager = null;
+    this._isHorizontal = true;
     this._itemCount = 0;
     this._columnsPerPage = columnsPerPage;
     this._extraScrollData = extraScrollData;
@@ -76,21 +73,22 @@ export default class ViewabilityTracker {
   }
 
   public setLayout(
-    layout: Layout,
+    layoutManager: LayoutManager,
     maxOffset: number,
     itemCount: number,
     columnsPerPage?: number,
     extraScrollData?: Record<string, any>
   ): void {
-    this._layout = layout;
+    this._layoutManager = layoutManager;
     this._maxOffset = maxOffset;
     this._itemCount = itemCount;
     this._columnsPerPage = columnsPerPage;
     this._extraScrollData = extraScrollData;
   }
 
-  public setDimensions(dimension: Dimension): void {
-    this._windowBound = dimension.width;
+  public setDimensions(dimension: Dimension, isHorizontal: boolean): void {
+    this._isHorizontal = isHorizontal;
+    this._windowBound = isHorizontal ? dimension.width : dimension.height;
   }
 
   public forceRefresh(): boolean {
@@ -149,13 +147,11 @@ export default class ViewabilityTracker {
     this._actualOffset = actualOffset;
   }
 
-  private _getLayoutByIndex(index: number = 0) {
-    return {
-      x: this._layout.width * index,
-      y: 0,
-      width: this._layout.width,
-      height: this._layout.height,
-    };
+  private _getLayoutByIndex(index: number = 0): Layout {
+    if (!this._layoutManager) {
+      return { x: 0, y: 0, width: 0, height: 0 };
+    }
+    return this._layoutManager.getLayout(index);
   }
 
   private _fitAndUpdate(startIndex: number): void {
@@ -172,8 +168,9 @@ export default class ViewabilityTracker {
   private _doInitialFit(offset: number): void {
     offset = Math.min(this._maxOffset, Math.max(0, offset));
     this._updateTrackingWindows(offset);
-    const firstVisibleIndex =
-      Math.floor(this._visibleWindow.start / this._layout.width) - 1;
+    const firstVisibleIndex = this._layoutManager
+      ? this._layoutManager.getIndexForOffset(this._visibleWindow.start) - 1
+      : -1;
 
     this._fitAndUpdate(firstVisibleIndex);
   }
@@ -262,8 +259,13 @@ export default class ViewabilityTracker {
   }
 
   private _setRelevantBounds(itemRect: Layout, relevantDim: Range): void {
-    relevantDim.end = itemRect.x + itemRect.width;
-    relevantDim.start = itemRect.x;
+    if (this._isHorizontal) {
+      relevantDim.end = itemRect.x + itemRect.width;
+      relevantDim.start = itemRect.x;
+    } else {
+      relevantDim.end = itemRect.y + itemRect.height;
+      relevantDim.start = itemRect.y;
+    }
   }
 
   private _isItemInBounds(window: Range, itemBound: number): boolean {
@@ -29,6 +29,7 @@ export interface RenderStackParams {
   renderAheadOffset?: number;
   columnsPerPage?: number;
   extraScrollData?: Record<string, any>;
+  isHorizontal?: boolean;
 }
 
 export type StableIdProvider = (index: number) => string;
@@ -87,9 +88,8 @@ export default class VirtualRenderer {
     return { height: 0, width: 0 };
   }
 
-  public updateOffset(offsetX: number, isActual: boolean): void {
+  public updateOffset(offset: number, isActual: boolean): void {
     if (this._viewabilityTracker) {
-      const offset = offsetX;
       if (!this._isViewTrackerRunning) {
         if (isActual) {
           this._viewabilityTracker.setActualOffset(offset);
@@ -150,7 +150,7 @@ export default class VirtualRenderer {
   public refreshWithOffset(offset: number): void {
     if (this._viewabilityTracker) {
       this._prepareViewabilityTracker();
-      this._scrollOnNextUpdate({ x: offset, y: 0 });
+      this._scrollOnNextUpdate(this._toPoint(offset));
       this._viewabilityTracker.forceRefreshWithOffset(offset);
     }
   }
@@ -163,12 +163,16 @@ export default class VirtualRenderer {
   }
 
   public getInitialOffset(): Point {
-    const offset = { x: 0, y: 0 };
     if (this._params) {
-      offset.x = valueWithDefault<number>(this._params.initialOffset, 0);
-      offset.y = 0;
+      return this._toPoint(
+        valueWithDefault<number>(this._params.initialOffset, 0)
+      );
     }
-    return offset;
+    return { x: 0, y: 0 };
+  }
+
+  public isHorizontal(): boolean {
+    return valueWithDefault<boolean>(this._params?.isHorizontal, true);
   }
 
   public init(): void {
@@ -233,6 +237,10 @@ export default class VirtualRenderer {
     return key;
   }
 
+  private _toPoint(offset: number): Point {
+    return this.isHorizontal() ? { x: offset, y: 0 } : { x: 0, y: offset };
+  }
+
   private _getCollisionAvoidingKey(): string {
     return '#' + this._startKey++ + '_rlv_c';
   }
@@ -254,17 +262,22 @@ export default class VirtualRenderer {
         this._viewabilityTracker.onVisibleColumnChanged =
           this._onVisibleColumnChanged;
       }
+      const isHorizontal = this.isHorizontal();
+      const contentDimension = this._layoutManager.getContentDimension();
       this._viewabilityTracker.setLayout(
-        this._layoutManager.getLayout(),
-        this._layoutManager.getContentDimension().width,
+        this._layoutManager,
+        isHorizontal ? contentDimension.width : contentDimension.height,
         this._params.itemCount,
         this._params.columnsPerPage,
         this._params.extraScrollData
       );
-      this._viewabilityTracker.setDimensions({
-        height: this._dimensions.height,
-        width: this._dimensions.width,
-      });
+      this._viewabilityTracker.setDimensions(
+        {
+          height: this._dimensions.height,
+          width: this._dimensions.width,
+        },
+        isHorizontal
+      );
     } else {
       throw new Error(
         'Parameters required for initializing the module are missing'
@@ -4,9 +4,14 @@ import type {
 } from './core/RecyclerListView';
 import RecyclerListView from './core/RecyclerListView';
 import type { Dimension } from './core/LayoutProvider';
-import { LayoutProvider } from './core/LayoutProvider';
+import { LayoutProvider, VerticalLayoutProvider } from './core/LayoutProvider';
 import type { Layout } from './core/LayoutManager';
 import { LayoutManager } from './core/LayoutManager';
 
 export type { Dimension, Layout, RecyclerListViewProps, RecyclerListViewState };
-export { LayoutManager, LayoutProvider, RecyclerListView };
+export {
+  LayoutManager,
+  LayoutProvider,
+  RecyclerListView,
+  VerticalLayoutProvider,
+};
@@ -0,0 +1,184 @@
+import type { DateTime, Zone } from 'luxon';
+import type { EventItem } from '../../types';
+import { forceUpdateZone, parseDateTime } from '../../utils/dateUtils';
+import { RRuleGenerator } from './index';
+
+const MAX_CACHED_RULES = 1000;
+const MAX_CACHED_MONTHS = 24;
+
+export interface RecurrenceExpansion {
+  /** In the zone of timed events, the device zone for all-day events */
+  occurrences: DateTime[];
+  firstOccurrence: DateTime | null;
+}
+
+interface MonthOccurrences {
+  /** Wall-clock times of the occurrences encoded as UTC */
+  times: number[];
+  occurrences: DateTime[];
+}
+
+interface RuleEntry {
+  generator: RRuleGenerator;
+  /** Zone of the occurrences, the zone of timed events */
+  timeZone?: string;
+  firstOccurrence?: DateTime | null;
+  months: Map<number, MonthOccurrences>;
+}
+
+const createRRuleGenerator = (event: EventItem) =>
+  new RRuleGenerator(
+    event.recurrence!,
+    parseDateTime(event.start.dateTime || event.start.date, {
+      zone: event.start.timeZone,
+    }),
+    event.excludeDates,
+    { rDates: event.recurrenceDates, exRule: event.excludeRecurrence }
+  );
+
+const getRuleKey = (event: EventItem) =>
+  JSON.stringify([
+    event.recurrence,
+    event.start.dateTime ?? event.start.date,
+    event.start.timeZone,
+    event.excludeDates,
+    event.recurrenceDates,
+    event.excludeRecurrence,
+  ]);
+
+/** Wall-clock time of `timeZone` encoded as UTC, like the rule dates */
+const toRuleTime = (dateUnix: number, timeZone: string) =>
+  forceUpdateZone(
+    parseDateTime(dateUnix, { zone: timeZone }),
+    'UTC'
+  ).toMillis();
+
+const startOfUTCMonth = (time: number, months = 0) => {
+  const date = new Date(time);
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1);
+};
+
+/** Reads an entry of a bounded map, the least recently read is dropped */
+const getOrCreate = <K, V>(
+  map: Map<K, V>,
+  key: K,
+  maxSize: number,
+  create: () => V
+) => {
+  let value = map.get(key);
+  if (value !== undefined) {
+    map.delete(key);
+  } else {
+    value = create();
+    if (map.size >= maxSize) {
+      map.delete(map.keys().next().value as K);
+    }
+  }
+  map.set(key, value);
+  return value;
+};
+
+/**
+ * Memoizes the occurrences of recurring events by rule, excluded dates and
+ * month, so moving the visible window does not rebuild the rules nor
+ * expand the months already seen.
+ */
+class OccurrenceCache {
+  private rules = new Map<string, RuleEntry>();
+  private ruleKeys = new WeakMap<EventItem, string>();
+  private zoneNames = new Map<Zone, string>();
+  /** Rule times of the last window, every recurring event reads them */
+  private lastWindow?: {
+    key: string;
+    minTime: number;
+    maxTime: number;
+  };
+
+  public getOccurrences(
+    event: EventItem,
+    minUnix: number,
+    maxUnix: number,
+    timeZone: string
+  ): RecurrenceExpansion {
+    let ruleKey = this.ruleKeys.get(event);
+    if (ruleKey === undefined) {
+      ruleKey = getRuleKey(event);
+      this.ruleKeys.set(event, ruleKey);
+    }
+    const entry = getOrCreate(
+      this.rules,
+      ruleKey,
+      MAX_CACHED_RULES,
+      (): RuleEntry => ({
+        generator: createRRuleGenerator(event),
+        timeZone: event.start.dateTime ? event.start.timeZone : undefined,
+        months: new Map(),
+      })
+    );
+
+    const { minTime, maxTime } = this.getWindow(minUnix, maxUnix, timeZone);
+    const occurrences: DateTime[] = [];
+    for (
+      let month = startOfUTCMonth(minTime);
+      month <= maxTime;
+      month = startOfUTCMonth(month, 1)
+    ) {
+      const { times, occurrences: monthOccurrences } = getOrCreate(
+        entry.months,
+        month,
+        MAX_CACHED_MONTHS,
+        () => this.expandMonth(entry, month)
+      );
+      times.forEach((time, index) => {
+        if (time >= minTime && time <= maxTime) {
+          occurrences.push(monthOccurrences[index]!);
+        }
+      });
+    }
+
+    if (entry.firstOccurrence === undefined) {
+      entry.firstOccurrence = entry.generator.firstOccurrence(entry.timeZone);
+    }
+    return { occurrences, firstOccurrence: entry.firstOccurrence };
+  }
+
+  private getWindow(minUnix: number, maxUnix: number, timeZone: string) {
+    const key = `${minUnix}_${maxUnix}_${timeZone}`;
+    if (this.lastWindow?.key !== key) {
+      this.lastWindow = {
+        key,
+        minTime: toRuleTime(minUnix, timeZone),
+        maxTime: toRuleTime(maxUnix, timeZone),
+      };
+    }
+    return this.lastWindow;
+  }
+
+  /** Name of the zone of an occurrence, reading the device zone is slow */
+  public getZoneName(date: DateTime) {
+    let zoneName = this.zoneNames.get(date.zone);
+    if (zoneName === undefined) {
+      zoneName = date.zoneName;
+      this.zoneNames.set(date.zone, zoneName);
+    }
+    return zoneName;
+  }
+
+  private expandMonth(
+    { generator, timeZone }: RuleEntry,
+    month: number
+  ): MonthOccurrences {
+    const dates = generator.between(
+      new Date(month),
+      new Date(startOfUTCMonth(month, 1) - 1)
+    );
+    return {
+      times: dates.map((date) => date.getTime()),
+      occurrences: dates.map((date) =>
+        forceUpdateZone(parseDateTime(date).toUTC(), timeZone)
+      ),
+    };
+  }
+}
+
+export default OccurrenceCache;
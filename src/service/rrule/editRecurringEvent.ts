@@ -0,0 +1,266 @@
+import type { DateTime } from 'luxon';
+import type { ByWeekday, Options } from 'rrule';
+import { RRule, Weekday, rrulestr } from 'rrule';
+import type {
+  DateOrDateTime,
+  EventItem,
+  RecurringEditResult,
+  RecurringEditScope,
+} from '../../types';
+import { forceUpdateZone, parseDateTime } from '../../utils/dateUtils';
+
+const toDateTime = (date: DateOrDateTime, zone?: string) =>
+  parseDateTime(date.dateTime ?? date.date, {
+    zone: date.timeZone ?? zone,
+  }).setZone(zone);
+
+const toDateOrDateTime = (
+  date: DateTime,
+  original: DateOrDateTime
+): DateOrDateTime => {
+  if (original.date) {
+    return { date: date.toISODate()! };
+  }
+  return { dateTime: date.toISO()!, timeZone: original.timeZone };
+};
+
+const toExcludeDate = (date: DateTime) => date.toUTC().toISO()!;
+
+/** RRule evaluates wall-clock times encoded as UTC, like `RRuleGenerator` */
+const toFloatingDate = (date: DateTime) =>
+  forceUpdateZone(date, 'UTC').toJSDate();
+
+const toWeekday = (weekday: ByWeekday) => {
+  if (weekday instanceof Weekday) {
+    return weekday;
+  }
+  if (typeof weekday === 'number') {
+    return new Weekday(weekday);
+  }
+  return RRule[weekday];
+};
+
+/** Moves the weekdays of a rule with its occurrences, keeping the `n`th */
+const shiftWeekdays = (
+  byweekday: Options['byweekday'] | undefined,
+  days: number
+) => {
+  if (!byweekday || days % 7 === 0) {
+    return byweekday;
+  }
+  const weekdays = Array.isArray(byweekday) ? byweekday : [byweekday];
+  return weekdays.map((weekday) => {
+    const { weekday: day, n } = toWeekday(weekday);
+    return new Weekday((((day + days) % 7) + 7) % 7, n);
+  });
+};
+
+/** `UNTIL` in UTC, or as a date for all-day events, like `toICS` writes it */
+const toUntil = (date: DateTime, isAllDay: boolean) =>
+  isAllDay
+    ? date.toFormat('yyyyMMdd')
+    : date.toUTC().toFormat("yyyyMMdd'T'HHmmss'Z'");
+
+const updateRule = (
+  recurrence: string,
+  changes: Partial<Options>,
+  shiftDays: number = 0,
+  until?: string
+) => {
+  const options: Partial<Options> = {
+    ...rrulestr(recurrence).origOptions,
+    ...changes,
+  };
+  options.byweekday = shiftWeekdays(options.byweekday, shiftDays);
+  // DTSTART belongs to the event start
+  delete options.dtstart;
+  // RRule writes every `UNTIL` with `Z`, floating ones are kept as written
+  delete options.until;
+  const nextUntil = until ?? /UNTIL=([^;\s]+)/i.exec(recurrence)?.[1];
+
+  let rule = RRule.optionsToString(options);
+  if (nextUntil && !options.count) {
+    rule += `;UNTIL=${nextUntil}`;
+  }
+  return recurrence.startsWith('RRULE:') ? rule : rule.replace('RRULE:', '');
+};
+
+const getShiftDays = (from: DateTime, to: DateTime) =>
+  Math.round(to.startOf('day').diff(from.startOf('day'), 'days').days);
+
+/** Removes the fields that only describe a generated occurrence */
+const toStandaloneEvent = (instance: EventItem): EventItem => {
+  const event = { ...instance };
+  delete event.originalRecurringEvent;
+  delete event.isFirstOccurrence;
+  delete event.localId;
+  delete event.recurrence;
+  delete event.excludeDates;
+  delete event.recurrenceDates;
+  delete event.excludeRecurrence;
+  delete event.overrides;
+  return event;
+};
+
+const editAll = (
+  master: EventItem,
+  excludeDates: string[],
+  originalStart: DateTime,
+  newStart: DateTime,
+  newEnd: DateTime,
+  zone?: string
+): RecurringEditResult => {
+  const isAllDay = !master.start.dateTime;
+  const shiftDays = getShiftDays(originalStart, newStart);
+
+  // Keep the wall-clock time of the moved instance, across DST changes
+  const moveDate = (date: DateTime) => {
+    const nextDate = date.plus({ days: shiftDays });
+    if (isAllDay) {
+      return nextDate;
+    }
+    return nextDate.set({
+      hour: newStart.hour,
+      minute: newStart.minute,
+      second: newStart.second,
+      millisecond: 0,
+    });
+  };
+
+  const masterStart = moveDate(toDateTime(master.start, zone));
+  const masterEnd = isAllDay
+    ? masterStart.plus({
+        days: Math.round(newEnd.diff(newStart, 'days').days),
+      })
+    : masterStart.plus(newEnd.diff(newStart));
+  const movedExcludeDates = excludeDates.map((date) =>
+    toExcludeDate(moveDate(parseDateTime(date).setZone(zone)))
+  );
+
+  return {
+    master: {
+      ...master,
+      start: toDateOrDateTime(masterStart, master.start),
+      end: toDateOrDateTime(masterEnd, master.end),
+      recurrence: updateRule(master.recurrence!, {}, shiftDays),
+      excludeDates: movedExcludeDates,
+    },
+    excludeDates: {
+      added: movedExcludeDates.filter((date) => !excludeDates.includes(date)),
+      removed: excludeDates.filter((date) => !movedExcludeDates.includes(date)),
+    },
+  };
+};
+
+/**
+ * Applies the edit of a recurring event instance (e.g. the event returned by
+ * `onDragEventEnd`) to its series.
+ *
+ * `instance` must carry `originalStartTime` and `originalRecurringEvent`, as
+ * the occurrences generated by the calendar do. Times are kept in the time
+ * zone of the recurring event, so a series moved across a DST change keeps
+ * its wall-clock time.
+ */
+export const editRecurringEvent = (
+  instance: EventItem,
+  scope: RecurringEditScope
+): RecurringEditResult => {
+  const master = instance.originalRecurringEvent;
+  if (!master?.recurrence || !instance.originalStartTime) {
+    throw new Error(
+      'editRecurringEvent must be used with an instance of a recurring event'
+    );
+  }
+
+  const zone = master.start.timeZone;
+  const originalStart = toDateTime(instance.originalStartTime, zone);
+  const newStart = toDateTime(instance.start, zone);
+  const newEnd = toDateTime(instance.end, zone);
+
+  // Generated instances already exclude themselves from the master
+  const excludeDates = (master.excludeDates ?? []).filter(
+    (date) => parseDateTime(date).toMillis() !== originalStart.toMillis()
+  );
+
+  if (scope === 'this') {
+    const excludeDate = toExcludeDate(originalStart);
+    return {
+      master: { ...master, excludeDates: [...excludeDates, excludeDate] },
+      exception: {
+        ...toStandaloneEvent(instance),
+        recurringEventId: master.id,
+      },
+      excludeDates: { added: [excludeDate], removed: [] },
+    };
+  }
+
+  const masterStart = toDateTime(master.start, zone);
+  const options = rrulestr(master.recurrence).origOptions;
+  const rule = new RRule({ ...options, dtstart: toFloatingDate(masterStart) });
+  const floatingOriginal = toFloatingDate(originalStart);
+  const isFirstOccurrence = !rule.before(floatingOriginal, false);
+
+  if (scope === 'all' || isFirstOccurrence) {
+    return editAll(master, excludeDates, originalStart, newStart, newEnd, zone);
+  }
+
+  // Split the series: the master ends before the edited instance and a new
+  // series starts from it.
+  const countBefore = rule.between(
+    new Date(toFloatingDate(masterStart).getTime() - 1),
+    floatingOriginal,
+    false
+  ).length;
+  const isAllDay = !master.start.dateTime;
+  const masterChanges: Partial<Options> = options.count
+    ? { count: countBefore }
+    : {};
+  const until = options.count
+    ? undefined
+    : toUntil(
+        isAllDay
+          ? originalStart.minus({ days: 1 })
+          : originalStart.minus({ seconds: 1 }),
+        isAllDay
+      );
+
+  const isBefore = (date: string) =>
+    parseDateTime(date).toMillis() < originalStart.toMillis();
+  const splitSeries = editAll(
+    { ...master, start: toDateOrDateTime(originalStart, master.start) },
+    excludeDates.filter((date) => !isBefore(date)),
+    originalStart,
+    newStart,
+    newEnd,
+    zone
+  );
+  const seriesChanges: Partial<Options> = options.count
+    ? { count: options.count - countBefore }
+    : {};
+  const shiftDays = getShiftDays(originalStart, newStart);
+
+  const newSeriesEvent = toStandaloneEvent(instance);
+  delete newSeriesEvent.originalStartTime;
+  delete newSeriesEvent.recurringEventId;
+  const seriesId = newStart.toUTC().toFormat("yyyyMMdd'T'HHmmss'Z'");
+
+  return {
+    master: {
+      ...master,
+      recurrence: updateRule(master.recurrence, masterChanges, 0, until),
+      excludeDates: excludeDates.filter(isBefore),
+    },
+    exception: {
+      ...newSeriesEvent,
+      id: `${master.id}_R${seriesId}`,
+      start: splitSeries.master.start,
+      end: splitSeries.master.end,
+      recurrence: updateRule(master.recurrence, seriesChanges, shiftDays),
+      excludeDates: splitSeries.master.excludeDates,
+    },
+    excludeDates: {
+      added: [],
+      removed: excludeDates.filter((date) => !isBefore(date)),
+    },
+  };
+};
@@ -1,21 +1,58 @@
-import type { DateTime } from 'luxon';
+import { DateTime } from 'luxon';
 import { RRule, RRuleSet, rrulestr } from 'rrule';
 import type { DateType } from '../../types';
 import { forceUpdateZone, parseDateTime } from '../../utils/dateUtils';
 
+export interface RRuleGeneratorOptions {
+  /** Extra occurrences (RDATE) */
+  rDates?: DateType[];
+
+  /** Rule of the occurrences to exclude (EXRULE) */
+  exRule?: string;
+}
+
 export class RRuleGenerator {
   private rule: RRuleSet;
   private dtstart: Date;
 
-  constructor(rrule: string, dtstart: DateType, exDates?: DateType[]) {
+  constructor(
+    rrule: string,
+    dtstart: DateType,
+    exDates?: DateType[],
+    options?: RRuleGeneratorOptions
+  ) {
+    // Rules are evaluated on the wall-clock time of `dtstart`, so dates are
+    // converted to its zone before being moved to UTC
+    const zone = parseDateTime(dtstart).zone;
+    const toRuleDate = (date: DateType) =>
+      forceUpdateZone(parseDateTime(date, { zone }), 'UTC').toJSDate();
+
+    // A UTC `UNTIL` is an instant, moved to the wall clock like the dates
+    const toFloatingRule = (rule: string) =>
+      rule.replace(/UNTIL=(\d{8}T\d{6})Z/i, (_, until: string) => {
+        const date = DateTime.fromFormat(until, "yyyyMMdd'T'HHmmss", {
+          zone: 'UTC',
+        }).setZone(zone);
+        return `UNTIL=${date.toFormat("yyyyMMdd'T'HHmmss")}`;
+      });
+
     this.dtstart = forceUpdateZone(dtstart, 'UTC').toJSDate();
-    const parsedRule = rrulestr(rrule, {
+    const parsedRule = rrulestr(toFloatingRule(rrule), {
       dtstart: this.dtstart,
     });
     const rruleSet = new RRuleSet();
     rruleSet.rrule(new RRule(parsedRule.origOptions));
+    if (options?.exRule) {
+      const parsedExRule = rrulestr(toFloatingRule(options.exRule), {
+        dtstart: this.dtstart,
+      });
+      rruleSet.exrule(new RRule(parsedExRule.origOptions));
+    }
+    options?.rDates?.forEach((d) => {
+      return rruleSet.rdate(toRuleDate(d));
+    });
     exDates?.forEach((d) => {
-      return rruleSet.exdate(forceUpdateZone(d, 'UTC').toJSDate());
+      return rruleSet.exdate(toRuleDate(d));
     });
     this.rule = rruleSet;
   }
@@ -27,10 +64,9 @@ export class RRuleGenerator {
   ): DateTime[] {
     const startDate = parseDateTime(start);
     const endDate = parseDateTime(end);
-    const occurrences = this.rule.between(
+    const occurrences = this.between(
       forceUpdateZone(startDate, 'UTC').toJSDate(),
-      forceUpdateZone(endDate, 'UTC').toJSDate(),
-      true
+      forceUpdateZone(endDate, 'UTC').toJSDate()
     );
 
     return occurrences.map((occurrence) =>
@@ -38,6 +74,11 @@ export class RRuleGenerator {
     );
   }
 
+  /** Occurrences between two wall-clock times encoded as UTC, inclusive */
+  between(start: Date, end: Date): Date[] {
+    return this.rule.between(start, end, true);
+  }
+
   firstOccurrence(timeZone?: string): DateTime | null {
     const occurrences = this.rule.after(this.dtstart, true);
     return occurrences
@@ -45,3 +86,5 @@ export class RRuleGenerator {
       : null;
   }
 }
+
+export { editRecurringEvent } from './editRecurringEvent';
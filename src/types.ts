@@ -80,6 +80,34 @@ export interface ThemeConfigs {
 
   /** Default style of the event */
   eventTitleStyle?: TextStyle;
+
+  /** Border color of the dragging event over a forbidden slot. Default: `#d93025` */
+  invalidDropColor?: string;
+
+  // Month view
+  monthWeekDayBarContainer?: ViewStyle;
+  monthWeekDayName?: TextStyle;
+  monthDayContainer?: ViewStyle;
+  monthDayNumber?: TextStyle;
+  monthDayNumberContainer?: ViewStyle;
+
+  /** Day number of the days outside the current month */
+  monthOutsideDayNumber?: TextStyle;
+
+  /** Default style of the "+N more" label */
+  monthMoreText?: TextStyle;
+
+  // Agenda view
+  agendaDayContainer?: ViewStyle;
+  agendaDayName?: TextStyle;
+  agendaDayNumber?: TextStyle;
+  agendaEventContainer?: ViewStyle;
+  agendaEventTitle?: TextStyle;
+  agendaEventTime?: TextStyle;
+
+  // Resource view
+  resourceHeaderContainer?: ViewStyle;
+  resourceTitle?: TextStyle;
 }
 
 export type GoToDateOptions = {
@@ -110,6 +138,18 @@ export interface CalendarKitHandle {
    * Get visible start date time
    */
   getVisibleStart: () => string;
+  /** Revert the last recorded drag edit, requires `enableHistory` */
+  undo: () => void;
+  /** Apply again the last reverted drag edit, requires `enableHistory` */
+  redo: () => void;
+  canUndo: () => boolean;
+  canRedo: () => boolean;
+  /**
+   * Loads again the weeks loaded by `onLoadRange`, e.g. when the events
+   * changed on the server. The loaded events stay displayed until the
+   * visible weeks are loaded again.
+   */
+  invalidateLoadedRanges: () => void;
 }
 
 /**
@@ -145,6 +185,8 @@ export interface DraggingEventType extends Omit<EventItem, 'id'> {
 export interface OnCreateEventResponse {
   start: DateTimeType;
   end: DateTimeType;
+  /** Target resource, only set when `resources` is provided */
+  resourceId?: string;
 }
 
 export interface ActionsProviderProps {
@@ -175,12 +217,33 @@ export interface ActionsProviderProps {
   /** Callback when the drag event is started */
   onDragEventStart?: (event: OnEventResponse) => void;
 
-  /** Callback when the drag event is ended */
+  /**
+   * Callback when the drag event is ended.
+   *
+   * Events moved between the all-day area and the timeline are converted:
+   * `start` / `end` are dates in the all-day area, or times with
+   * `defaultDuration` in the timeline.
+   *
+   * The edit is recorded in the history (`enableHistory`) once the returned
+   * promise resolves, not when it rejects.
+   */
   onDragEventEnd?: (event: OnEventResponse) => Promise<void> | void;
 
   /** Callback when the event is long pressed */
   onLongPressEvent?: (event: OnEventResponse) => void;
 
+  /** Callback when an event is added to or removed from `selectedEvents` */
+  onSelectedEventsChange?: (events: SelectedEventType[]) => void;
+
+  /**
+   * Callback when the `selectedEvents` are dragged together, with every
+   * updated event. Their relative offsets are kept.
+   *
+   * When the returned promise rejects, the events go back to their place and
+   * the move is not recorded in the history.
+   */
+  onDragEventsEnd?: (events: SelectedEventType[]) => Promise<void> | void;
+
   /** Callback when the selected event is dragged */
   onDragSelectedEventStart?: (event: SelectedEventType) => void;
 
@@ -190,8 +253,15 @@ export interface ActionsProviderProps {
   /** Callback when the drag create event is started */
   onDragCreateEventStart?: (event: OnCreateEventResponse) => void;
 
-  /** Callback when the drag create event is ended */
-  onDragCreateEventEnd?: (event: OnCreateEventResponse) => Promise<void> | void;
+  /**
+   * Callback when the drag create event is ended.
+   *
+   * Return the ID of the created event to link it to the `create` operation
+   * of the history (`enableHistory`), to remove it on undo.
+   */
+  onDragCreateEventEnd?: (
+    event: OnCreateEventResponse
+  ) => Promise<string | void> | string | void;
 
   /** Callback when the calendar is loaded */
   onLoad?: () => void;
@@ -229,6 +299,33 @@ export interface CalendarProviderProps extends ActionsProviderProps {
   /** Calendar width */
   calendarWidth?: number;
 
+  /**
+   * View mode of the calendar
+   *
+   * - 'week': Timeline with `numberOfDays` columns per page.
+   * - 'month': Month grid, render `CalendarMonth` as the child of
+   *   `CalendarContainer`.
+   * - 'agenda': Vertical list of days with events, render `CalendarAgenda`
+   *   as the child of `CalendarContainer`.
+   *
+   * Default: `week`
+   */
+  viewMode?: 'week' | 'month' | 'agenda';
+
+  /**
+   * Orientation of the timeline in the `week` view mode
+   *
+   * - 'vertical': Hours run from top to bottom, days are columns.
+   * - 'horizontal': Hours run from left to right, days (or resources) are
+   *   rows. Render `CalendarHorizontalBody` as the child of
+   *   `CalendarContainer`. `timeIntervalHeight` and `spaceFromTop` /
+   *   `spaceFromBottom` then apply to the X axis, and `hourWidth` is used as
+   *   the height of the hour row and the width of the row labels.
+   *
+   * Default: `vertical`
+   */
+  orientation?: 'vertical' | 'horizontal';
+
   /**
    * Number of days to display
    *
@@ -246,7 +343,8 @@ export interface CalendarProviderProps extends ActionsProviderProps {
   /**
    * First day of the week. (1 - Monday ... 7 - Sunday)
    *
-   * - Default: `1` (Monday)
+   * - Default: `1`, or the first day of the week of the `locale` with
+   * `useLocaleDefaults`
    */
   firstDay?: WeekdayNumbers;
 
@@ -256,17 +354,25 @@ export interface CalendarProviderProps extends ActionsProviderProps {
   /**
    * Minimum display date.
    *
-   * - Default: 2 year ago from today
+   * - Default: none, the range is extended when the user gets close to its
+   * start (2 years ago from today at first)
    */
   minDate?: DateType;
 
   /**
    * Maximum display date.
    *
-   * - Default: 2 year later from today
+   * - Default: none, the range is extended when the user gets close to its
+   * end (2 years later from today at first)
    */
   maxDate?: DateType;
 
+  /**
+   * Callback when the range of dates is extended, without `minDate` or
+   * `maxDate`
+   */
+  onRangeExtended?: (range: DateRange) => void;
+
   /**
    * Initial display date.
    *
@@ -277,6 +383,14 @@ export interface CalendarProviderProps extends ActionsProviderProps {
   /** Hour width */
   hourWidth?: number;
 
+  /**
+   * Extra columns of hour labels in other time zones, shown before the hours
+   * of `timeZone`. Each column is `hourWidth` wide.
+   *
+   * - Default: `[]`
+   */
+  secondaryTimeZones?: SecondaryTimeZone[];
+
   /** Theme of calendar */
   theme?: DeepPartial<ThemeConfigs>;
 
@@ -312,6 +426,30 @@ export interface CalendarProviderProps extends ActionsProviderProps {
    */
   locale?: string;
 
+  /**
+   * Use the hour format and the first day of the week of the `locale` (from
+   * `Intl`, e.g. `h:mm a` and Sunday for `en-US`) when `hourFormat`,
+   * `firstDay` and `initialLocales` don't set them.
+   *
+   * - Default: `false`, `HH:mm` and Monday
+   */
+  useLocaleDefaults?: boolean;
+
+  /**
+   * Calendar system of the day numbers, week numbers and dates of the header
+   * (e.g. `persian`, `hebrew`, `islamic-umalqura`)
+   *
+   * - Default: `gregory`
+   */
+  outputCalendar?: string;
+
+  /**
+   * Show the Gregorian day number above the `outputCalendar` one
+   *
+   * - Default: `false`
+   */
+  dualCalendar?: boolean;
+
   /**
    * Space between header view and time slots view.
    *
@@ -378,17 +516,29 @@ export interface CalendarProviderProps extends ActionsProviderProps {
   /** Enable pinch to scale height of the calendar */
   allowPinchToZoom?: boolean;
 
-  /** Custom time zone */
+  /**
+   * Custom time zone. It can be changed at runtime: the calendar keeps the
+   * same instant in view and moves the events and the now indicator.
+   */
   timeZone?: string;
 
+  /** Callback when `timeZone` is changed, after the calendar is updated */
+  onTimeZoneChange?: (timeZone: string, previousTimeZone: string) => void;
+
   /** Show week number */
   showWeekNumber?: boolean;
 
   /** Show loading progress */
   isLoading?: boolean;
 
-  /** RTL mode */
-  // isRTL?: boolean;
+  /**
+   * Right-to-left layout. Days run from right to left, the time column is
+   * on the right and swiping right moves to the next page. The horizontal
+   * orientation is not mirrored.
+   *
+   * Default: `false`
+   */
+  isRTL?: boolean;
 
   /**
    * Unavailable hours
@@ -427,6 +577,35 @@ export interface CalendarProviderProps extends ActionsProviderProps {
   /** Events list */
   events?: EventItem[];
 
+  /**
+   * Loads the events of a range of days, called for the weeks around the
+   * visible pages (see `pagesPerSide`) that are not loaded yet. The loaded
+   * events are displayed with `events`, an event of `events` replaces the
+   * loaded event with the same `id`.
+   *
+   * Loaded weeks are cached and weeks being loaded are not requested again.
+   * A request is aborted through `signal` when the user pages away from its
+   * range, and the calendar shows the loading progress while requests run.
+   */
+  onLoadRange?: (
+    range: LoadRange,
+    options: LoadRangeOptions
+  ) => Promise<EventItem[]>;
+
+  /**
+   * Callback when the promise of `onLoadRange` is rejected (aborted requests
+   * excluded). The weeks of `range` are requested again on the next page.
+   */
+  onLoadRangeError?: (error: unknown, range: LoadRange) => void;
+
+  /**
+   * Resources (rooms, staff, vehicles...) to display as columns.
+   *
+   * When provided, each page shows a single day split into one column per
+   * resource, events are placed by their `resourceId`.
+   */
+  resources?: ResourceItem[];
+
   /**
    * Auto scroll to current time. Please set to `false` if you want custom
    * initial scroll behavior.
@@ -452,9 +631,57 @@ export interface CalendarProviderProps extends ActionsProviderProps {
    */
   dragStep?: number;
 
+  /**
+   * Minimum duration of the resized and created events, in minutes
+   * (overridden by `EventItem.minDuration`)
+   *
+   * Default is `dragStep`
+   */
+  minEventDuration?: number;
+
+  /**
+   * Maximum duration of the resized and created events, in minutes
+   * (overridden by `EventItem.maxDuration`)
+   *
+   * Default: no limit
+   */
+  maxEventDuration?: number;
+
   /** Selected event */
   selectedEvent?: SelectedEventType;
 
+  /**
+   * Policies applied when a timed event is dropped (moved, resized or
+   * created) over `unavailableHours` or other events:
+   *
+   * - `allow`: the event can be dropped anywhere
+   * - `block`: the drop is rejected, the event goes back to its place
+   * - `snap-to-free`: the event is moved to the nearest free slot of the day
+   *
+   * When `selectedEvents` are dragged together, every timed event is checked
+   * and the drop is rejected if one of them has to be moved to a free slot.
+   *
+   * Default: `{ unavailableHours: 'allow', events: 'allow' }`
+   */
+  dragConstraints?: DragConstraints;
+
+  /**
+   * Validates the slot of an event before it is dropped, after
+   * `dragConstraints`. Called for every event of a group drag and for the
+   * drops in the all-day area. Return `false` or the reason (displayed on
+   * the dragging event) to reject the drop.
+   */
+  validateDrop?: (candidate: DropCandidate) => boolean | string;
+
+  /**
+   * Selected events (requires `allowDragToEdit`).
+   *
+   * When set, long pressing an event adds it to the selection and pressing a
+   * selected event removes it (see `onSelectedEventsChange`). Dragging a
+   * selected event moves all of them together (see `onDragEventsEnd`).
+   */
+  selectedEvents?: SelectedEventType[];
+
   /**
    * Specify the number of pages to render ahead and behind the current page.
    *
@@ -472,16 +699,43 @@ export interface CalendarProviderProps extends ActionsProviderProps {
    */
   defaultDuration?: number;
 
+  /**
+   * Record the drag edits (move, resize and create) to undo / redo them with
+   * `CalendarKitHandle.undo()` / `redo()`.
+   *
+   * Events are controlled by the app, so reverting an edit only calls
+   * `onHistoryChange`, the app applies the change to `events`.
+   *
+   * Default: `false`
+   */
+  enableHistory?: boolean;
+
+  /**
+   * Maximum number of recorded edits
+   *
+   * Default: `50`
+   */
+  historyLimit?: number;
+
+  /** Callback when a drag edit is recorded, undone or redone */
+  onHistoryChange?: (event: HistoryChangeEvent) => void;
+
   /**
    * Determines how events that overlap in time are displayed.
    *
    * - 'no-overlap': Events will be displayed side by side without overlapping.
    * - 'overlap': Events will be displayed on top of each other, potentially
    *   overlapping.
+   * - 'cascade': Overlapping events are stacked, each one offset from the
+   *   one below.
+   * - 'lane': Each `lane` of the events gets its own part of the day width,
+   *   events of a lane are displayed side by side.
+   * - A function laying out the events of a day. It must be memoized (e.g.
+   *   with `useCallback`), a new function lays out all the events again.
    *
    * Default is `no-overlap`
    */
-  overlapType?: 'no-overlap' | 'overlap';
+  overlapType?: OverlapType;
 
   /**
    * Minimum start time difference (in minutes) between overlapping events.
@@ -494,6 +748,25 @@ export interface CalendarProviderProps extends ActionsProviderProps {
   minStartDifference?: number;
 }
 
+export interface DateRange {
+  /** First date of the range (ISO date) */
+  minDate: string;
+  /** Last date of the range (ISO date) */
+  maxDate: string;
+}
+
+export interface LoadRange {
+  /** Start of the range (ISO string in UTC) */
+  start: string;
+  /** End of the range, excluded (ISO string in UTC) */
+  end: string;
+}
+
+export interface LoadRangeOptions {
+  /** Aborted when the user pages away from the range */
+  signal: AbortSignal;
+}
+
 export interface EventItem extends Record<string, any> {
   /** ID for the event. */
   id: string;
@@ -539,6 +812,21 @@ export interface EventItem extends Record<string, any> {
   /** Dates to exclude from the recurring event. */
   excludeDates?: string[];
 
+  /** Extra dates of the recurring event (RDATE). */
+  recurrenceDates?: string[];
+
+  /** Recurrence rule of the dates to exclude (EXRULE). */
+  excludeRecurrence?: string;
+
+  /**
+   * Modified instances of the recurring event (RECURRENCE-ID). Each one
+   * replaces the occurrence starting at its `originalStartTime`.
+   *
+   * Events passed in `events` with `recurringEventId` and `originalStartTime`
+   * replace their occurrence the same way.
+   */
+  overrides?: EventItem[];
+
   /** Original start time of the event. */
   originalStartTime?: DateOrDateTime;
 
@@ -550,6 +838,163 @@ export interface EventItem extends Record<string, any> {
 
   /** Whether the event is the first occurrence of the recurring event. */
   isFirstOccurrence?: boolean;
+
+  /** ID of the resource the event belongs to (resource view) */
+  resourceId?: string;
+
+  /** Lane of the event, lanes never share columns with `overlapType` 'lane' */
+  lane?: string;
+
+  /**
+   * Minimum duration of the event when resizing, in minutes
+   *
+   * Default: `minEventDuration` of the calendar
+   */
+  minDuration?: number;
+
+  /**
+   * Maximum duration of the event when resizing, in minutes
+   *
+   * Default: `maxEventDuration` of the calendar
+   */
+  maxDuration?: number;
+
+  /**
+   * Whether the event can be dragged at all, `false` disables both moving
+   * and resizing
+   *
+   * Default: `true`
+   */
+  editable?: boolean;
+
+  /**
+   * Whether the event can be resized from its top / bottom edges
+   *
+   * Default: `true`
+   */
+  resizable?: boolean;
+
+  /**
+   * Whether the event can be moved to another time or day
+   *
+   * Default: `true`
+   */
+  movable?: boolean;
+}
+
+/** Date in a calendar system, written with the numerals of the locale */
+export interface CalendarDate {
+  day: string;
+  month: string;
+  monthName: string;
+  year: string;
+}
+
+export interface SecondaryTimeZone {
+  /** IANA time zone of the column, e.g. `America/New_York` */
+  timeZone: string;
+
+  /**
+   * Label shown above the column, e.g. `NYC`
+   *
+   * - Default: short name of the time zone, e.g. `EST`
+   */
+  label?: string;
+}
+
+export interface ResourceItem extends Record<string, any> {
+  /** ID of the resource, matched with `EventItem.resourceId` */
+  id: string;
+
+  /** Title displayed in the resource header */
+  title?: string;
+}
+
+/**
+ * Occurrences affected by an edit of a recurring event instance
+ *
+ * - `this`: only the edited instance
+ * - `following`: the edited instance and every later occurrence
+ * - `all`: every occurrence of the series
+ */
+export type RecurringEditScope = 'this' | 'following' | 'all';
+
+export interface RecurringEditResult {
+  /** Recurring (master) event with the updated rule, start or `excludeDates` */
+  master: EventItem;
+
+  /**
+   * Event created by the edit:
+   * - `this`: the edited instance, linked by `recurringEventId`
+   * - `following`: a new recurring event starting at the edited instance
+   * - `all`: `undefined`
+   */
+  exception?: EventItem;
+
+  /** Changes to `master.excludeDates`, as UTC ISO strings */
+  excludeDates: { added: string[]; removed: string[] };
+}
+
+export type DragConstraintPolicy = 'allow' | 'block' | 'snap-to-free';
+
+export interface DragConstraints {
+  /** Policy for the `unavailableHours`. Default: `allow` */
+  unavailableHours?: DragConstraintPolicy;
+
+  /** Policy for the other timed events. Default: `allow` */
+  events?: DragConstraintPolicy;
+}
+
+/**
+ * Slot where an event is about to be dropped, with `start.date` and
+ * `end.date` when it is dropped in the all-day area
+ */
+export interface DropCandidate {
+  start: DateOrDateTime;
+  end: DateOrDateTime;
+
+  /** Target resource, only set when `resources` is provided */
+  resourceId?: string;
+
+  /** Dragged event, `undefined` when an event is created by dragging */
+  event?: SelectedEventType;
+}
+
+/**
+ * Drag edit recorded by `enableHistory`
+ *
+ * - `move`: the event was moved
+ * - `resize`: the start or end of the selected event was dragged
+ * - `create`: an event was created by dragging
+ */
+export interface HistoryOperation {
+  /** Unique ID of the operation */
+  id: string;
+  type: 'move' | 'resize' | 'create';
+
+  /** Event before the edit, `undefined` for `create` */
+  before?: SelectedEventType;
+
+  /**
+   * Event after the edit. For `create`, the dragged range with the `id`
+   * returned by `onDragCreateEventEnd`.
+   */
+  after: SelectedEventType;
+
+  /** Every event moved by a drag of `selectedEvents`, with the dragged one */
+  events?: { before: SelectedEventType; after: SelectedEventType }[];
+}
+
+export interface HistoryChangeEvent {
+  /**
+   * - `record`: `operation` was applied by the drag and recorded
+   * - `undo`: revert `operation`, restore `before` or remove the created event
+   * - `redo`: apply `operation` again with `after`
+   */
+  action: 'record' | 'undo' | 'redo';
+  operation: HistoryOperation;
+  canUndo: boolean;
+  canRedo: boolean;
 }
 
 export interface HighlightDateProps {
@@ -584,6 +1029,10 @@ export interface CalendarHeaderProps {
     index: number;
     startUnix: number;
     extra: Record<string, any>;
+    /** Calendar system of the dates, `undefined` for Gregorian dates */
+    outputCalendar?: string;
+    /** Dates of the days of the item in `outputCalendar` */
+    calendarDates?: CalendarDate[];
   }) => React.ReactElement | null;
 
   /** Custom expand icon */
@@ -628,10 +1077,28 @@ export interface CalendarHeaderProps {
    * Default: `20`
    */
   eventInitialMinutes?: number;
+
+  /**
+   * Height of the resource header row (resource view)
+   *
+   * - Default: `32`
+   */
+  resourceHeaderHeight?: number;
+
+  /** Custom resource header item */
+  renderResource?: (
+    resource: ResourceItem,
+    size: { width: number; height: number }
+  ) => React.ReactNode;
 }
 
 export interface CalendarBodyProps {
-  /** Custom hour text */
+  /**
+   * Custom hour text
+   *
+   * - Default: `HH:mm`, or the hour format of the `locale` with
+   * `useLocaleDefaults`
+   */
   hourFormat?: string;
 
   /** Custom hour text */
@@ -675,16 +1142,127 @@ export interface CalendarBodyProps {
   NowIndicatorComponent?: React.ReactElement | null;
 }
 
+export interface CalendarMonthProps {
+  /**
+   * Height of the week day names bar
+   *
+   * - Default: `28`
+   */
+  weekDayBarHeight?: number;
+
+  /**
+   * Height of an event chip
+   *
+   * - Default: `18`
+   */
+  monthEventHeight?: number;
+
+  /**
+   * Hour format of the timed events
+   *
+   * - Default: `HH:mm`, or the hour format of the `locale` with
+   * `useLocaleDefaults`
+   */
+  hourFormat?: string;
+
+  /** Custom event chip */
+  renderMonthEvent?: (
+    event: PackedEvent | PackedAllDayEvent,
+    size: { width: number; height: number }
+  ) => React.ReactNode;
+}
+
+export interface CalendarAgendaProps {
+  /**
+   * Width of the day label column
+   *
+   * - Default: `64`
+   */
+  agendaDayWidth?: number;
+
+  /**
+   * Height of an event row
+   *
+   * - Default: `48`
+   */
+  agendaEventHeight?: number;
+
+  /**
+   * Hour format of the timed events
+   *
+   * - Default: `HH:mm`, or the hour format of the `locale` with
+   * `useLocaleDefaults`
+   */
+  hourFormat?: string;
+
+  /** Custom event row */
+  renderAgendaEvent?: (
+    event: EventItemInternal,
+    size: { width: number; height: number }
+  ) => React.ReactNode;
+}
+
 export interface RenderHourProps {
   hourStr: string;
   minutes: number;
   style: TextStyle;
+  /** Time zone of a `secondaryTimeZones` column, `undefined` for `timeZone` */
+  timeZone?: string;
 }
 
+/**
+ * Texts of a locale. Missing names, numbering system, hour format and first
+ * day of the week are read from `Intl`, missing texts from `en`.
+ */
 export interface LocaleConfigsProps {
+  /** Short names of the week days, from Sunday */
   weekDayShort: string[];
+  /** Names of the week days, from Sunday */
+  weekDayLong: string[];
+  /** Short names of the months, from January */
+  monthShort: string[];
+  /** Names of the months, from January */
+  monthLong: string[];
   meridiem: { ante: string; post: string };
+  /** Digits of the numbers (e.g. `latn`, `arab`, `deva`) */
+  numberingSystem: string;
+  /** Hour format used when the calendar has no `hourFormat` (e.g. `HH:mm`) */
+  hourFormat: string;
+  /** First day of the week used when the calendar has no `firstDay` */
+  firstDay: WeekdayNumbers;
+  /** Label of the hidden events: `{count}` */
   more: string;
+  allDay: string;
+  /**
+   * Screen reader labels and announcements, `{...}` placeholders are
+   * replaced by their values
+   */
+  accessibility: {
+    /** Label of a timed event: `{title}`, `{date}`, `{start}`, `{end}` */
+    event: string;
+    /** Label of an all-day event: `{title}` */
+    allDayEvent: string;
+    /** Title read for the events without a title */
+    untitledEvent: string;
+    /** Label of the timeline of the visible days: `{date}` */
+    timeline: string;
+    /** Range of dates: `{start}`, `{end}` */
+    dateRange: string;
+    /** Announced when the visible date changes: `{date}` */
+    dateChanged: string;
+    /** Actions of the events: `{minutes}` */
+    moveEarlier: string;
+    moveLater: string;
+    extend: string;
+    shorten: string;
+    select: string;
+    deselect: string;
+    /** Announced when an action is refused, e.g. by `dragConstraints` */
+    actionUnavailable: string;
+    /** Labels of the button expanding the all-day events */
+    expand: string;
+    collapse: string;
+  };
 }
 
 export interface EventItemInternal extends EventItem {
@@ -723,9 +1301,26 @@ export interface PackedEvent extends EventItemInternal {
     widthPercentage?: number;
     xOffsetPercentage?: number;
     index?: number;
+    /** Column index of the event resource (resource view) */
+    resourceIndex?: number;
   };
 }
 
+/**
+ * Lays out the regular events of a day, returns them with their geometry:
+ * `widthPercentage` and `xOffsetPercentage` of the day width, or the
+ * `index` of their column among `total` columns and their `columnSpan`.
+ * Compared by reference, keep the same function between renders.
+ */
+export type EventLayout = (events: EventItemInternal[]) => PackedEvent[];
+
+export type OverlapType =
+  | 'no-overlap'
+  | 'overlap'
+  | 'cascade'
+  | 'lane'
+  | EventLayout;
+
 export interface PackedAllDayEvent extends EventItemInternal {
   _internal: EventItemInternal['_internal'] & {
     rowIndex: number;
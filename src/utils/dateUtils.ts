@@ -1,6 +1,7 @@
-import { DateTime } from 'luxon';
+import { DateTime, Info } from 'luxon';
 import type { DateTimeOptions, WeekdayNumbers } from 'luxon';
-import type { DateType } from '../types';
+import { MILLISECONDS_IN_DAY, MILLISECONDS_IN_MINUTE } from '../constants';
+import type { CalendarDate, DateType, LocaleConfigsProps } from '../types';
 
 export const parseDateTime = (date?: DateType, opts?: DateTimeOptions) => {
   if (date instanceof DateTime) {
@@ -50,10 +51,21 @@ export const diffDays = (date1: DateType, date2: DateType) => {
 
 export const dateTimeToISOString = (date: DateTime) => date.toUTC().toISO();
 
-export const dateToDtStart = (date: DateType) => {
-  const parsedDate = parseDateTime(date).toUTC();
+/**
+ * Formats a date as an iCalendar property, in UTC or with `TZID` when a
+ * (non UTC) `timeZone` is provided.
+ */
+export const dateToDtStart = (
+  date: DateType,
+  timeZone?: string,
+  property: string = 'DTSTART'
+) => {
+  const isUTC = !timeZone || timeZone.toUpperCase() === 'UTC';
+  const parsedDate = isUTC
+    ? parseDateTime(date).toUTC()
+    : parseDateTime(date).setZone(timeZone);
   return [
-    'DTSTART:',
+    isUTC ? `${property}:` : `${property};TZID=${timeZone}:`,
     parsedDate.year,
     parsedDate.month.toString().padStart(2, '0'),
     parsedDate.day.toString().padStart(2, '0'),
@@ -61,14 +73,15 @@ export const dateToDtStart = (date: DateType) => {
     parsedDate.hour.toString().padStart(2, '0'),
     parsedDate.minute.toString().padStart(2, '0'),
     parsedDate.second.toString().padStart(2, '0'),
-    'Z\n',
+    isUTC ? 'Z\n' : '\n',
   ].join('');
 };
 
 export const toHourStr = (
   originalMinutes: number,
   hourFormat: string,
-  meridiem: { ante: string; post: string }
+  meridiem: { ante: string; post: string },
+  numberingSystem?: string
 ): string => {
   const hours = Math.floor(originalMinutes / 60);
   const minutes = Math.floor(originalMinutes % 60);
@@ -87,12 +100,207 @@ export const toHourStr = (
     a: hours >= 12 ? meridiem.post.toLowerCase() : meridiem.ante.toLowerCase(),
   };
 
-  return hourFormat.replace(
+  const hourStr = hourFormat.replace(
     /HH|H|hh|h|kk|k|mm|m|ss|s|A|a/g,
     (match) => formatTokens[match]?.toString() || match
   );
+  return numberingSystem ? localizeDigits(hourStr, numberingSystem) : hourStr;
 };
 
+const digitFormatters = new Map<string, Intl.NumberFormat>();
+
+/** Writes the digits of `value` with a numbering system (e.g. `arab`) */
+export const localizeDigits = (
+  value: string | number,
+  numberingSystem: string
+) => {
+  const text = value.toString();
+  if (numberingSystem === 'latn') {
+    return text;
+  }
+
+  let formatter = digitFormatters.get(numberingSystem);
+  if (!formatter) {
+    formatter = new Intl.NumberFormat(`en-u-nu-${numberingSystem}`, {
+      useGrouping: false,
+    });
+    digitFormatters.set(numberingSystem, formatter);
+  }
+  return text.replace(/[0-9]/g, (digit) => formatter!.format(Number(digit)));
+};
+
+/** Week days of Luxon start on Monday, the locales start on Sunday */
+const toSundayFirst = (weekDays: string[]) => [
+  weekDays[6]!,
+  ...weekDays.slice(0, 6),
+];
+
+/**
+ * Names, numbering system, hour format and first day of the week of a
+ * locale, from `Intl`
+ */
+export const getIntlLocaleConfigs = (
+  locale: string
+): Omit<LocaleConfigsProps, 'more' | 'allDay' | 'accessibility'> => {
+  const [ante = 'am', post = 'pm'] = Info.meridiems({ locale });
+  const timeOptions = new Intl.DateTimeFormat(locale, {
+    hour: 'numeric',
+  }).resolvedOptions();
+  const is12Hour = timeOptions.hourCycle
+    ? timeOptions.hourCycle === 'h11' || timeOptions.hourCycle === 'h12'
+    : !!timeOptions.hour12;
+
+  return {
+    weekDayShort: toSundayFirst(Info.weekdays('short', { locale })),
+    weekDayLong: toSundayFirst(Info.weekdays('long', { locale })),
+    monthShort: Info.months('short', { locale }),
+    monthLong: Info.months('long', { locale }),
+    meridiem: { ante, post },
+    numberingSystem: new Intl.NumberFormat(locale).resolvedOptions()
+      .numberingSystem,
+    hourFormat: is12Hour ? 'h:mm a' : 'HH:mm',
+    firstDay: Info.getStartOfWeek({ locale }),
+  };
+};
+
+/**
+ * Hour format and first day of the week when neither the calendar nor
+ * `initialLocales` set them: `HH:mm` and Monday, or the ones of the locale
+ * with `useLocaleDefaults`
+ */
+export const getLocaleDefaults = (
+  locale: string,
+  useLocaleDefaults: boolean
+): Pick<LocaleConfigsProps, 'hourFormat' | 'firstDay'> => {
+  if (!useLocaleDefaults) {
+    return { hourFormat: 'HH:mm', firstDay: 1 };
+  }
+  const { hourFormat, firstDay } = getIntlLocaleConfigs(locale);
+  return { hourFormat, firstDay };
+};
+
+/** Full date read by screen readers (e.g. `Wednesday, May 1, 2024`) */
+export const toAccessibleDate = (
+  date: DateType,
+  locale: string,
+  outputCalendar?: string
+) =>
+  parseDateTime(date)
+    .reconfigure({ locale, outputCalendar })
+    .toLocaleString(DateTime.DATE_HUGE);
+
+/** Whether dates are displayed in a non-Gregorian calendar system */
+export const isOutputCalendar = (
+  outputCalendar?: string
+): outputCalendar is string =>
+  !!outputCalendar &&
+  outputCalendar !== 'gregory' &&
+  outputCalendar !== 'iso8601';
+
+const calendarFormatters = new Map<string, Intl.DateTimeFormat>();
+
+const formatCalendarParts = (
+  date: Date,
+  options: { locale: string; calendar: string; numberingSystem: string },
+  month: 'numeric' | 'long'
+) => {
+  const { locale, calendar, numberingSystem } = options;
+  const key = [locale, calendar, numberingSystem, month].join('|');
+  let formatter = calendarFormatters.get(key);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat(locale, {
+      calendar,
+      numberingSystem,
+      day: 'numeric',
+      month,
+      year: 'numeric',
+    });
+    calendarFormatters.set(key, formatter);
+  }
+
+  const parts = formatter.formatToParts(date);
+  return (type: string) =>
+    parts.find((part) => part.type === type)?.value ?? '';
+};
+
+/** Day, month and year of a date in the `calendar` system (e.g. `persian`) */
+export const getCalendarDate = (
+  date: DateType,
+  options: { locale: string; calendar: string; numberingSystem: string }
+): CalendarDate => {
+  const jsDate = parseDateTime(date).toJSDate();
+  const getPart = formatCalendarParts(jsDate, options, 'numeric');
+  const getNamePart = formatCalendarParts(jsDate, options, 'long');
+  return {
+    day: getPart('day'),
+    month: getPart('month'),
+    monthName: getNamePart('month'),
+    year: getPart('year') || getPart('relatedYear'),
+  };
+};
+
+const MAX_MONTHS_IN_YEAR = 13;
+
+/**
+ * Week of the year in the `calendar` system, counted from the first day of
+ * its year with weeks starting on `firstDay`
+ */
+export const getCalendarWeekNumber = (
+  date: DateType,
+  calendar: string,
+  firstDay: WeekdayNumbers
+) => {
+  const options = { locale: 'en', calendar, numberingSystem: 'latn' };
+  const current = parseDateTime(date).startOf('day');
+  const { day, year } = getCalendarDate(current, options);
+
+  // Month by month back to the first day of the year, years have at most
+  // 13 months (e.g. leap years of the `hebrew` calendar)
+  let yearStart = current.minus({ days: Number(day) - 1 });
+  for (let month = 0; month < MAX_MONTHS_IN_YEAR; month++) {
+    const previousDay = yearStart.minus({ days: 1 });
+    const previous = getCalendarDate(previousDay, options);
+    const previousDayNumber = Number(previous.day);
+    if (previous.year !== year || !(previousDayNumber >= 1)) {
+      break;
+    }
+    yearStart = previousDay.minus({ days: previousDayNumber - 1 });
+  }
+
+  const offset = (yearStart.weekday - firstDay + 7) % 7;
+  const days = Math.round(current.diff(yearStart, 'days').days);
+  return Math.floor((days + offset) / 7) + 1;
+};
+
+/**
+ * Minutes of the day in `toZone` at `minutes` past the midnight of `date` on
+ * the wall clock of `fromZone`. Labels repeat or skip on the DST transition
+ * days of `toZone`.
+ */
+export const convertDayMinutes = (
+  date: DateType,
+  minutes: number,
+  fromZone: string,
+  toZone: string
+) => {
+  const { year, month, day } = parseDateTime(date);
+  const converted = DateTime.fromObject(
+    { year, month, day },
+    { zone: fromZone }
+  )
+    .plus({ days: Math.floor(minutes / 1440) })
+    .set({
+      hour: Math.floor((minutes % 1440) / 60),
+      minute: minutes % 60,
+    })
+    .setZone(toZone);
+  return converted.hour * 60 + converted.minute;
+};
+
+/** Short name of `zone` at `date`, e.g. `EST` or `GMT+5:30` */
+export const getTimeZoneName = (date: DateType, zone: string, locale: string) =>
+  parseDateTime(date).setZone(zone).setLocale(locale).toFormat('ZZZZ');
+
 export const getWeekNumberOfYear = (date: number, timeZone: string) => {
   'worklet';
   return parseDateTime(date).setZone(timeZone).weekNumber;
@@ -103,3 +311,86 @@ export const forceUpdateZone = (date: DateType, zone: string = 'local') => {
     keepLocalTime: true,
   });
 };
+
+/** Day of `date` in `zone`, as the midnight of the device time zone */
+export const toZonedDay = (date: DateType, zone: string) =>
+  parseDateTime(parseDateTime(date, { zone }).toISODate()).toMillis();
+
+/**
+ * Moves a day (midnight of the device time zone) by `days`. Days are 23 or
+ * 25 hours long on the DST transitions of the device time zone.
+ */
+export const plusDays = (dateUnix: number, days: number) => {
+  'worklet';
+  const nextUnix = dateUnix + days * MILLISECONDS_IN_DAY;
+  const offsetChange =
+    new Date(nextUnix).getTimezoneOffset() -
+    new Date(dateUnix).getTimezoneOffset();
+  return nextUnix + offsetChange * MILLISECONDS_IN_MINUTE;
+};
+
+/** Number of days from `fromUnix` to `toUnix`, across DST transitions */
+export const daysBetween = (fromUnix: number, toUnix: number) => {
+  'worklet';
+  return Math.round((toUnix - fromUnix) / MILLISECONDS_IN_DAY);
+};
+
+/** Minutes between two dates on the wall clock of the device time zone */
+export const wallClockMinutes = (startUnix: number, endUnix: number) => {
+  'worklet';
+  const offsetChange =
+    new Date(startUnix).getTimezoneOffset() -
+    new Date(endUnix).getTimezoneOffset();
+  return (endUnix - startUnix) / MILLISECONDS_IN_MINUTE + offsetChange;
+};
+
+export interface DSTTransition {
+  /** Minutes of the day, on the wall clock before the transition */
+  minutes: number;
+  /** Minutes added to the clock: positive skips an hour, negative repeats it */
+  offsetChange: number;
+}
+
+/**
+ * DST transition of `timeZone` during the day of `dateUnix`, where the
+ * clock skips (23-hour day) or repeats (25-hour day) a part of the day.
+ */
+export const getDSTTransition = (
+  dateUnix: number,
+  timeZone: string
+): DSTTransition | undefined => {
+  const { year, month, day } = parseDateTime(dateUnix);
+  const dayStart = DateTime.fromObject(
+    { year, month, day },
+    { zone: timeZone }
+  );
+  const dayEnd = dayStart.plus({ days: 1 });
+  if (!dayStart.isValid || dayStart.offset === dayEnd.offset) {
+    return undefined;
+  }
+
+  // First minute with the new offset
+  let low = dayStart.toMillis();
+  let high = dayEnd.toMillis();
+  while (high - low > MILLISECONDS_IN_MINUTE) {
+    const middle =
+      low +
+      Math.floor((high - low) / 2 / MILLISECONDS_IN_MINUTE) *
+        MILLISECONDS_IN_MINUTE;
+    if (
+      DateTime.fromMillis(middle, { zone: timeZone }).offset === dayStart.offset
+    ) {
+      low = middle;
+    } else {
+      high = middle;
+    }
+  }
+
+  const wallClock = DateTime.fromMillis(high, { zone: 'UTC' }).plus({
+    minutes: dayStart.offset,
+  });
+  return {
+    minutes: wallClock.hour * 60 + wallClock.minute,
+    offsetChange: dayEnd.offset - dayStart.offset,
+  };
+};
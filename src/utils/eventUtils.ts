@@ -1,29 +1,37 @@
 import type { DateTime, WeekdayNumbers } from 'luxon';
 import {
   DEFAULT_MIN_START_DIFFERENCE,
-  MILLISECONDS_IN_DAY,
   MILLISECONDS_IN_MINUTE,
   MINUTES_IN_DAY,
 } from '../constants';
-import { RRuleGenerator } from '../service/rrule';
+import OccurrenceCache from '../service/rrule/OccurrenceCache';
 import type {
   EventItem,
   EventItemInternal,
   NoOverlapEvent,
   OverlapEvent,
+  OverlapType,
   PackedAllDayEvent,
   PackedEvent,
+  SelectedEventType,
 } from '../types';
-import { forceUpdateZone, parseDateTime, startOfWeek } from './dateUtils';
-
-const isValidEventDates = (event: EventItem): boolean => {
+import {
+  daysBetween,
+  forceUpdateZone,
+  parseDateTime,
+  plusDays,
+  startOfWeek,
+  wallClockMinutes,
+} from './dateUtils';
+
+export const isValidEventDates = (event: EventItem): boolean => {
   return (
     !!(event.start.date && event.end.date) ||
     !!(event.start.dateTime && event.end.dateTime)
   );
 };
 
-const getEventTimes = (
+export const getEventTimes = (
   event: EventItem
 ): { eventStartUnix: number; eventEndUnix: number; isAllDay: boolean } => {
   const isAllDay = Boolean(event.start.date && event.end.date);
@@ -43,7 +51,7 @@ const getEventTimes = (
   }
 };
 
-const isValidEventRange = (
+export const isValidEventRange = (
   eventStartUnix: number,
   eventEndUnix: number,
   minUnix: number,
@@ -87,12 +95,46 @@ export const filterEvents = (
   const allDays: EventItemInternal[] = [];
   const regular: EventItemInternal[] = [];
 
+  // Modified instances passed as events are expanded with their recurring
+  // event, so the occurrence they replace is not displayed twice
+  const recurringIds = new Set(
+    events.filter((event) => event.recurrence).map((event) => event.id)
+  );
+  const overridesById = new Map<string, EventItem[]>();
   for (const event of events) {
-    if (!isValidEventDates(event)) {
-      console.warn('Event has invalid date or dateTime', event);
+    if (
+      event.recurringEventId &&
+      event.originalStartTime &&
+      recurringIds.has(event.recurringEventId)
+    ) {
+      const overrides = overridesById.get(event.recurringEventId) ?? [];
+      overrides.push(event);
+      overridesById.set(event.recurringEventId, overrides);
+    }
+  }
+
+  for (const originalEvent of events) {
+    if (!isValidEventDates(originalEvent)) {
+      console.warn('Event has invalid date or dateTime', originalEvent);
+      continue;
+    }
+    if (
+      originalEvent.recurringEventId &&
+      overridesById.get(originalEvent.recurringEventId)?.includes(originalEvent)
+    ) {
       continue;
     }
 
+    const extraOverrides = originalEvent.recurrence
+      ? overridesById.get(originalEvent.id)
+      : undefined;
+    const event = extraOverrides
+      ? {
+          ...originalEvent,
+          overrides: [...(originalEvent.overrides ?? []), ...extraOverrides],
+        }
+      : originalEvent;
+
     const { eventStartUnix, eventEndUnix, isAllDay } = getEventTimes(event);
     if (
       !isValidEventRange(eventStartUnix, eventEndUnix, minUnix, maxUnix) &&
@@ -123,6 +165,14 @@ export const buildInstanceId = (id: string, date: DateTime) => {
   return `${id}_${date.toUTC().toFormat("yyyyMMdd'T'HHmmss'Z'")}`;
 };
 
+/** Whether the event can be moved by dragging */
+export const isEventMovable = (event: SelectedEventType) =>
+  event.editable !== false && event.movable !== false;
+
+/** Whether the event can be resized by its top / bottom edges */
+export const isEventResizable = (event: SelectedEventType) =>
+  event.editable !== false && event.resizable !== false;
+
 export const divideEvents = (
   event: EventItemInternal,
   timeZone?: string,
@@ -136,17 +186,24 @@ export const divideEvents = (
     zone: event.end.timeZone,
   }).setZone(timeZone);
 
-  const startDayOfEventStart = eventStart.startOf('day');
-  const startDayOfEventEnd = eventEnd.startOf('day');
-  const days = startDayOfEventEnd.diff(startDayOfEventStart, 'days').days + 1;
+  const eventStartUnix = forceUpdateZone(eventStart).toMillis();
+  const eventEndUnix = forceUpdateZone(eventEnd).toMillis();
+  // Calendar days, diffing the DateTimes is slow on long lists of events
+  const days =
+    daysBetween(
+      Date.UTC(eventStart.year, eventStart.month - 1, eventStart.day),
+      Date.UTC(eventEnd.year, eventEnd.month - 1, eventEnd.day)
+    ) + 1;
   for (let i = 0; i < days; i++) {
-    let startUnix = forceUpdateZone(eventStart).toMillis();
-    let endUnix = forceUpdateZone(eventEnd).toMillis();
+    let startUnix = eventStartUnix;
+    let endUnix = eventEndUnix;
     let startMinutes = eventStart.hour * 60 + eventStart.minute;
 
-    const dateObj = parseDateTime(startUnix + i * MILLISECONDS_IN_DAY);
     let id = event.localId;
     if (days > 1) {
+      const dateObj = forceUpdateZone(
+        eventStart.startOf('day').plus({ days: i })
+      );
       if (i === 0) {
         id = `${event.localId}_${startUnix}`;
         endUnix = dateObj.endOf('day').toMillis();
@@ -159,7 +216,8 @@ export const divideEvents = (
         id = `${event.localId}_${startUnix}`;
       }
     }
-    let duration = (endUnix - startUnix) / MILLISECONDS_IN_MINUTE;
+    // Wall-clock minutes, the timeline keeps 24 hours on DST transition days
+    let duration = wallClockMinutes(startUnix, endUnix);
     if (minRegularEventMinutes && duration < minRegularEventMinutes) {
       duration = minRegularEventMinutes;
       endUnix = startUnix + duration * MILLISECONDS_IN_MINUTE;
@@ -191,7 +249,7 @@ const calculateVisibleDuration = (
   for (
     let currentUnix = startUnix;
     currentUnix <= endUnix;
-    currentUnix += MILLISECONDS_IN_DAY
+    currentUnix = plusDays(currentUnix, 1)
   ) {
     const dateTime = parseDateTime(currentUnix, { zone: timeZone });
     if (!hideWeekDays.includes(dateTime.weekday as WeekdayNumbers)) {
@@ -229,8 +287,7 @@ export const divideAllDayEvents = (
     firstDay
   ).toMillis();
   const weekEndUnix = startOfWeek(eventEnd.toISODate(), firstDay).toMillis();
-  const diffWeeks =
-    Math.floor((weekEndUnix - weekStartUnix) / (7 * MILLISECONDS_IN_DAY)) + 1;
+  const diffWeeks = Math.floor(daysBetween(weekStartUnix, weekEndUnix) / 7) + 1;
   const isSameDay = event._internal.startUnix === event._internal.endUnix;
   let eventStartUnix = eventStart.startOf('day').toMillis();
   const eventEndUnix = isSameDay
@@ -264,9 +321,9 @@ export const divideAllDayEvents = (
   }
 
   for (let i = 0; i < diffWeeks; i++) {
-    const weekStart = weekStartUnix + 7 * MILLISECONDS_IN_DAY * i;
+    const weekStart = plusDays(weekStartUnix, 7 * i);
 
-    let nextWeekStart = weekStart + 7 * MILLISECONDS_IN_DAY - 1;
+    let nextWeekStart = plusDays(weekStart, 7) - 1;
     if (eventEndUnix < nextWeekStart) {
       nextWeekStart = eventEndUnix;
     }
@@ -306,57 +363,94 @@ export function processEventOccurrences(
   divideFunction: (
     event: EventItemInternal,
     timeZone: string
-  ) => EventItemInternal[]
+  ) => EventItemInternal[],
+  occurrenceCache?: OccurrenceCache
 ): EventItemInternal[] {
   if (event.recurrence) {
-    const rrule = new RRuleGenerator(
-      event.recurrence,
-      parseDateTime(event.start.dateTime || event.start.date, {
-        zone: event.start.timeZone,
-      }),
-      event.excludeDates
-    );
-
-    const occurrences = rrule.generateOccurrences(
-      parseDateTime(minUnix, { zone: timeZone }),
-      parseDateTime(maxUnix, { zone: timeZone })
+    const cache = occurrenceCache ?? new OccurrenceCache();
+    const { occurrences, firstOccurrence } = cache.getOccurrences(
+      event,
+      minUnix,
+      maxUnix,
+      timeZone
     );
-    const firstOccurrence = rrule.firstOccurrence(event.start.timeZone);
 
     const duration = event._internal.duration;
     const {
       recurrence: originalRrule,
       excludeDates,
+      recurrenceDates,
+      excludeRecurrence,
+      overrides,
       _internal,
       ...rest
     } = event;
-    return occurrences.flatMap((occurrence) => {
-      let eventStart = occurrence;
-      if (event.start.dateTime) {
-        eventStart = parseDateTime(occurrence, {
-          zone: event.start.timeZone,
-        });
+    const originalRecurringEvent: EventItem = {
+      ...rest,
+      recurrence: originalRrule,
+      excludeDates,
+      recurrenceDates,
+      excludeRecurrence,
+      overrides,
+    };
+
+    // All-day overrides are matched by date, the zone of their original
+    // start is not the one of the occurrences
+    const isAllDay = !event.start.dateTime;
+    const getStartKey = (date: DateTime) =>
+      isAllDay ? date.toISODate()! : date.toMillis();
+    const overridesByStart = new Map<number | string, EventItem>();
+    overrides?.forEach((override) => {
+      if (override.originalStartTime && isValidEventDates(override)) {
+        const { dateTime, date, timeZone: zone } = override.originalStartTime;
+        const originalStart = parseDateTime(dateTime || date, { zone });
+        overridesByStart.set(getStartKey(originalStart), override);
+      }
+    });
+
+    const overrideEvents: EventItemInternal[] = [];
+    overridesByStart.forEach((override) => {
+      const { eventStartUnix, eventEndUnix } = getEventTimes(override);
+      if (!isValidEventRange(eventStartUnix, eventEndUnix, minUnix, maxUnix)) {
+        return;
+      }
+      const overrideEvent = createInternalEvent(
+        { ...override, recurringEventId: event.id, originalRecurringEvent },
+        eventStartUnix,
+        eventEndUnix,
+        (eventEndUnix - eventStartUnix) / MILLISECONDS_IN_MINUTE
+      );
+      overrideEvents.push(...divideFunction(overrideEvent, timeZone));
+    });
+
+    const occurrenceEvents = occurrences.flatMap((eventStart) => {
+      if (overridesByStart.has(getStartKey(eventStart))) {
+        return [];
       }
-      const eventEnd = eventStart
-        .plus({ minutes: duration })
-        .setZone(event.end.timeZone);
-      const instanceId = buildInstanceId(event.id, eventStart.toUTC());
+      const eventEnd = parseDateTime(
+        eventStart.toMillis() + duration * MILLISECONDS_IN_MINUTE,
+        { zone: event.end.timeZone }
+      );
+      const utcStart = eventStart.toUTC();
+      const instanceId = buildInstanceId(event.id, utcStart);
+      const start = event.start.dateTime
+        ? {
+            dateTime: eventStart.toISO(),
+            timeZone: cache.getZoneName(eventStart),
+          }
+        : { date: eventStart.toISODate() };
       const recurringEvent: EventItemInternal = {
         ...rest,
-        start: event.start.dateTime
-          ? { dateTime: eventStart.toISO(), timeZone: eventStart.zoneName }
-          : { date: eventStart.toISODate() },
+        start,
         end: event.end.dateTime
           ? {
               dateTime: eventEnd.toISO(),
-              timeZone: eventEnd.zoneName,
+              timeZone: cache.getZoneName(eventEnd),
             }
           : { date: eventEnd.toISODate() },
         id: instanceId,
         localId: instanceId,
-        originalStartTime: event.start.dateTime
-          ? { dateTime: eventStart.toISO(), timeZone: eventStart.zoneName }
-          : { date: eventStart.toISODate() },
+        originalStartTime: start,
         isFirstOccurrence:
           firstOccurrence?.toMillis() === eventStart.toMillis(),
         _internal: {
@@ -365,13 +459,13 @@ export function processEventOccurrences(
           endUnix: eventEnd.toMillis(),
         },
         originalRecurringEvent: {
-          ...rest,
-          recurrence: originalRrule,
-          excludeDates: [...(excludeDates || []), eventStart.toUTC().toISO()],
+          ...originalRecurringEvent,
+          excludeDates: [...(excludeDates || []), utcStart.toISO()],
         },
       };
       return divideFunction(recurringEvent, timeZone);
     });
+    return [...occurrenceEvents, ...overrideEvents];
   } else {
     return divideFunction(event, timeZone);
   }
@@ -397,7 +491,7 @@ export function processAllDayEventMap(
 
     const { packedEvents, maxRowCount } = populateAllDayEvents(eventsForWeek, {
       startDate: weekStart,
-      endDate: weekStart + 7 * MILLISECONDS_IN_DAY - 1,
+      endDate: plusDays(weekStart, 7) - 1,
       timeZone,
       visibleDays,
     });
@@ -409,7 +503,7 @@ export function processAllDayEventMap(
       const eventStart = event._internal.startUnix;
       const eventEnd = event._internal.endUnix;
 
-      for (let day = eventStart; day <= eventEnd; day += MILLISECONDS_IN_DAY) {
+      for (let day = eventStart; day <= eventEnd; day = plusDays(day, 1)) {
         if (visibleDays.includes(day)) {
           eventCountsByDay[day] = (eventCountsByDay[day] || 0) + 1;
           if (!packedAllDayEventsByDay[day]) {
@@ -438,8 +532,8 @@ export function getVisibleDays(
   const visibleDays: number[] = [];
   for (
     let currentDayUnix = weekStart;
-    currentDayUnix < weekStart + 7 * MILLISECONDS_IN_DAY;
-    currentDayUnix += MILLISECONDS_IN_DAY
+    currentDayUnix < plusDays(weekStart, 7);
+    currentDayUnix = plusDays(currentDayUnix, 1)
   ) {
     const dateTime = parseDateTime(currentDayUnix, { zone: timeZone });
     const weekday = dateTime.weekday;
@@ -481,10 +575,17 @@ export const sortEvents = (
   });
 };
 
+// Packing writes its layout into `_internal`, work on copies so the same
+// occurrences can be packed again when their day changes
+const copyEvent = (event: EventItemInternal): EventItemInternal => ({
+  ...event,
+  _internal: { ...event._internal },
+});
+
 const handleNoOverlap = (events: EventItemInternal[]) => {
   const eventColumns: EventItemInternal[][] = [];
   const packedEvents: PackedEvent[] = [];
-  const sortedEvents = sortEvents(events) as NoOverlapEvent[];
+  const sortedEvents = sortEvents(events).map(copyEvent) as NoOverlapEvent[];
   for (const event of sortedEvents) {
     let placed = false;
     for (let i = 0; i < eventColumns.length; i++) {
@@ -644,7 +745,7 @@ const handleOverlap = (
   events: EventItemInternal[],
   minimumStartDifference: number
 ) => {
-  const sortedEvents = overlapSort(events) as OverlapEvent[];
+  const sortedEvents = overlapSort(events).map(copyEvent) as OverlapEvent[];
   const containerEvents: OverlapEvent[] = [];
   for (let i = 0; i < sortedEvents.length; i++) {
     const event = sortedEvents[i];
@@ -698,20 +799,116 @@ const handleOverlap = (
   return packedEvents;
 };
 
+// Offset of each level of the cascade, in percentage of the day width
+const CASCADE_OFFSET = 10;
+const MAX_CASCADE_OFFSET = 50;
+
+/** Stacks the overlapping events, above all the events they overlap */
+const handleCascade = (events: EventItemInternal[]) => {
+  const levels: { event: EventItemInternal; level: number }[] = [];
+  return sortEvents(events).map((event): PackedEvent => {
+    const level = levels.reduce(
+      (max, item) =>
+        hasCollision(item.event, event) ? Math.max(max, item.level + 1) : max,
+      0
+    );
+    levels.push({ event, level });
+    const xOffset = Math.min(level * CASCADE_OFFSET, MAX_CASCADE_OFFSET);
+    return {
+      ...event,
+      _internal: {
+        ...event._internal,
+        widthPercentage: 100 - xOffset,
+        xOffsetPercentage: xOffset,
+      },
+    };
+  });
+};
+
+/** Splits the day width between the lanes, packs their events side by side */
+const handleLane = (events: EventItemInternal[]) => {
+  const lanes = new Map<string, EventItemInternal[]>();
+  events.forEach((event) => {
+    const lane: string = event.lane ?? '';
+    const laneEvents = lanes.get(lane) ?? [];
+    laneEvents.push(event);
+    lanes.set(lane, laneEvents);
+  });
+
+  const laneWidth = 100 / lanes.size;
+  const packedEvents: PackedEvent[] = [];
+  [...lanes.keys()]
+    .sort((a, b) => a.localeCompare(b))
+    .forEach((lane, laneIndex) => {
+      handleNoOverlap(lanes.get(lane)!).forEach((event) => {
+        const {
+          total = 1,
+          index = 0,
+          columnSpan = 1,
+          ...internal
+        } = event._internal;
+        const columnWidth = laneWidth / total;
+        packedEvents.push({
+          ...event,
+          _internal: {
+            ...internal,
+            widthPercentage: columnWidth * columnSpan,
+            xOffsetPercentage: laneIndex * laneWidth + index * columnWidth,
+          },
+        });
+      });
+    });
+  return packedEvents;
+};
+
 export const populateEvents = (
   events: EventItemInternal[],
   {
-    overlap = false,
+    overlapType = 'no-overlap',
     minStartDifference = DEFAULT_MIN_START_DIFFERENCE,
-  }: { overlap?: boolean; minStartDifference?: number } = {}
-) => {
+    resourceIds,
+  }: {
+    overlapType?: OverlapType;
+    minStartDifference?: number;
+    /** Pack the events per resource column, ordered by these IDs */
+    resourceIds?: string[];
+  } = {}
+): PackedEvent[] => {
   if (!events.length) {
     return [];
   }
 
-  if (overlap) {
+  if (resourceIds) {
+    const packedEvents: PackedEvent[] = [];
+    resourceIds.forEach((resourceId, resourceIndex) => {
+      const resourceEvents = events.filter(
+        (event) => event.resourceId === resourceId
+      );
+      populateEvents(resourceEvents, {
+        overlapType,
+        minStartDifference,
+      }).forEach((event) => {
+        packedEvents.push({
+          ...event,
+          _internal: { ...event._internal, resourceIndex },
+        });
+      });
+    });
+    return packedEvents;
+  }
+
+  if (typeof overlapType === 'function') {
+    return overlapType(events.map(copyEvent));
+  }
+  if (overlapType === 'overlap') {
     return handleOverlap(events, minStartDifference * MILLISECONDS_IN_MINUTE);
   }
+  if (overlapType === 'cascade') {
+    return handleCascade(events);
+  }
+  if (overlapType === 'lane') {
+    return handleLane(events);
+  }
 
   return handleNoOverlap(events);
 };
@@ -760,7 +957,7 @@ export const populateAllDayEvents = (
 
       // Collect the visible days the event spans
       const eventVisibleDays: number[] = [];
-      for (let day = eventStart; day <= eventEnd; day += MILLISECONDS_IN_DAY) {
+      for (let day = eventStart; day <= eventEnd; day = plusDays(day, 1)) {
         if (Object.prototype.hasOwnProperty.call(dateToIndexMap, day)) {
           eventVisibleDays.push(day);
         }
@@ -794,3 +991,91 @@ export const populateAllDayEvents = (
   const maxRowCount = rows.length;
   return { packedEvents, maxRowCount };
 };
+
+export interface AgendaSection {
+  dayUnix: number;
+  allDayEvents: EventItemInternal[];
+  events: EventItemInternal[];
+}
+
+interface PrepareAgendaOptions {
+  minDateUnix: number;
+  maxDateUnix: number;
+  timeZone: string;
+  useAllDayEvent?: boolean;
+  minRegularEventMinutes?: number;
+}
+
+export const prepareAgendaSections = (
+  events: EventItem[],
+  options: PrepareAgendaOptions
+): AgendaSection[] => {
+  const { minDateUnix, maxDateUnix, timeZone, minRegularEventMinutes } =
+    options;
+  const minUnix = forceUpdateZone(minDateUnix, timeZone).toMillis();
+  const maxUnix = forceUpdateZone(
+    plusDays(maxDateUnix, 1),
+    timeZone
+  ).toMillis();
+
+  const { regular, allDays } = filterEvents(
+    events,
+    minUnix,
+    maxUnix,
+    options.useAllDayEvent
+  );
+
+  const sections = new Map<number, AgendaSection>();
+  const getSection = (dayUnix: number) => {
+    let section = sections.get(dayUnix);
+    if (!section) {
+      section = { dayUnix, allDayEvents: [], events: [] };
+      sections.set(dayUnix, section);
+    }
+    return section;
+  };
+
+  regular.forEach((event) => {
+    const processedEvents = processEventOccurrences(
+      event,
+      minUnix,
+      maxUnix,
+      timeZone,
+      (e, tz) => divideEvents(e, tz, minRegularEventMinutes)
+    );
+    processedEvents.forEach((evt) => {
+      const dayStart = parseDateTime(evt._internal.startUnix)
+        .startOf('day')
+        .toMillis();
+      if (dayStart >= minDateUnix && dayStart <= maxDateUnix) {
+        getSection(dayStart).events.push(evt);
+      }
+    });
+  });
+
+  allDays.forEach((event) => {
+    const processedEvents = processEventOccurrences(
+      event,
+      minUnix,
+      maxUnix,
+      timeZone,
+      (e, tz) => divideAllDayEvents(e, tz, 1, [])
+    );
+    processedEvents.forEach((evt) => {
+      const { startUnix, endUnix } = evt._internal;
+      for (let day = startUnix; day <= endUnix; day = plusDays(day, 1)) {
+        if (day >= minDateUnix && day <= maxDateUnix) {
+          getSection(day).allDayEvents.push(evt);
+        }
+      }
+    });
+  });
+
+  return Array.from(sections.values())
+    .sort((a, b) => a.dayUnix - b.dayUnix)
+    .map((section) => ({
+      dayUnix: section.dayUnix,
+      allDayEvents: sortEvents(section.allDayEvents),
+      events: sortEvents(section.events),
+    }));
+};
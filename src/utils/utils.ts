@@ -1,7 +1,10 @@
 import type { WeekdayNumbers } from 'luxon';
-import { MILLISECONDS_IN_DAY } from '../constants';
-import type { DateType } from '../types';
-import { parseDateTime, startOfWeek } from './dateUtils';
+import {
+  RANGE_EXTENSION_THRESHOLD_MONTHS,
+  RANGE_EXTENSION_YEARS,
+} from '../constants';
+import type { DateRange, DateType } from '../types';
+import { daysBetween, parseDateTime, plusDays, startOfWeek } from './dateUtils';
 
 type CalendarRangeOptions = {
   minDate: DateType;
@@ -57,7 +60,7 @@ export const prepareCalendarRange = (
         index++;
         visibleDatesArray.push(currentDate);
       }
-      currentDate += MILLISECONDS_IN_DAY;
+      currentDate = plusDays(currentDate, 1);
     }
 
     return {
@@ -75,10 +78,10 @@ export const prepareCalendarRange = (
 
   const minWeekDay = min.weekday;
   const diff = (minWeekDay - firstDay + 7) % 7;
-  const newMin = originalMinDateUnix - diff * MILLISECONDS_IN_DAY;
+  const newMin = plusDays(originalMinDateUnix, -diff);
   const diffMax = (max.weekday - firstDay + 7) % 7;
-  const startOfWeekMax = originalMaxDateUnix - diffMax * MILLISECONDS_IN_DAY;
-  const newMax = startOfWeekMax + MILLISECONDS_IN_DAY * 7;
+  const startOfWeekMax = plusDays(originalMaxDateUnix, -diffMax);
+  const newMax = plusDays(startOfWeekMax, 7);
 
   const visibleDates: Record<
     string,
@@ -101,16 +104,16 @@ export const prepareCalendarRange = (
       index++;
       visibleDatesArray.push(dateUnix);
     }
-    currentDate += MILLISECONDS_IN_DAY;
+    currentDate = plusDays(currentDate, 1);
   }
-  const diffWeeks = Math.floor((newMax - newMin) / (MILLISECONDS_IN_DAY * 7));
+  const diffWeeks = Math.floor(daysBetween(newMin, newMax) / 7);
 
   let diffMinDays = 0;
   let diffMaxDays = 0;
 
   let visibleMaxDateUnix = newMax;
   while (visibleMaxDateUnix > originalMaxDateUnix) {
-    visibleMaxDateUnix -= MILLISECONDS_IN_DAY;
+    visibleMaxDateUnix = plusDays(visibleMaxDateUnix, -1);
     if (visibleDates[visibleMaxDateUnix]) {
       diffMaxDays++;
     }
@@ -121,7 +124,7 @@ export const prepareCalendarRange = (
     if (visibleDates[visibleMinDateUnix]) {
       diffMinDays++;
     }
-    visibleMinDateUnix += MILLISECONDS_IN_DAY;
+    visibleMinDateUnix = plusDays(visibleMinDateUnix, 1);
   }
 
   return {
@@ -151,6 +154,64 @@ export const findNearestNumber = (
   );
 };
 
+/**
+ * Extends the extendable sides of `range` by `RANGE_EXTENSION_YEARS` until
+ * `dateUnix` is far enough from them. Returns `range` when nothing changed.
+ */
+export const extendDateRange = (
+  range: DateRange,
+  dateUnix: number,
+  sides: { min: boolean; max: boolean }
+): DateRange => {
+  const date = parseDateTime(dateUnix);
+  const minUnix = date
+    .minus({ months: RANGE_EXTENSION_THRESHOLD_MONTHS })
+    .toMillis();
+  const maxUnix = date
+    .plus({ months: RANGE_EXTENSION_THRESHOLD_MONTHS })
+    .toMillis();
+
+  let min = parseDateTime(range.minDate);
+  while (sides.min && min.toMillis() > minUnix) {
+    min = min.minus({ years: RANGE_EXTENSION_YEARS });
+  }
+  let max = parseDateTime(range.maxDate);
+  while (sides.max && max.toMillis() < maxUnix) {
+    max = max.plus({ years: RANGE_EXTENSION_YEARS });
+  }
+
+  const minDate = min.toISODate()!;
+  const maxDate = max.toISODate()!;
+  if (minDate === range.minDate && maxDate === range.maxDate) {
+    return range;
+  }
+  return { minDate, maxDate };
+};
+
+/**
+ * Number of visible days added before the first day of `prevData` when the
+ * range is extended backward.
+ */
+export const getPrependedDays = (prevData: DataByMode, data: DataByMode) => {
+  const prevFirstDate = prevData.visibleDatesArray[0];
+  if (prevFirstDate === undefined) {
+    return 0;
+  }
+  return data.visibleDates[prevFirstDate]?.index ?? 0;
+};
+
+/**
+ * Number of months added before the first month of `prevData` when the
+ * range is extended backward.
+ */
+export const getPrependedMonths = (prevData: MonthData, data: MonthData) => {
+  const diffMonths = parseDateTime(prevData.minStartOfMonthUnix).diff(
+    parseDateTime(data.minStartOfMonthUnix),
+    'months'
+  ).months;
+  return Math.max(Math.round(diffMonths), 0);
+};
+
 export const isNumbersEqual = (
   num1: number,
   num2: number,
@@ -184,6 +245,120 @@ export const roundMinutes = (
   return Math[type](minutes / step) * step;
 };
 
+export type MinutesRange = { start: number; end: number };
+
+export const isRangeOverlapping = (
+  start: number,
+  duration: number,
+  range: MinutesRange
+) => start < range.end && start + duration > range.start;
+
+/**
+ * Finds the start nearest to `start`, moving by `step`, where `duration`
+ * minutes fit between `minStart` and `maxEnd` without overlapping `ranges`.
+ */
+export const findFreeStart = (
+  start: number,
+  duration: number,
+  ranges: MinutesRange[],
+  step: number,
+  minStart: number,
+  maxEnd: number
+): number | undefined => {
+  const isFree = (value: number) =>
+    value >= minStart &&
+    value + duration <= maxEnd &&
+    ranges.every((range) => !isRangeOverlapping(value, duration, range));
+
+  const maxSteps = Math.ceil((maxEnd - minStart) / step);
+  for (let i = 0; i <= maxSteps; i++) {
+    if (isFree(start - i * step)) {
+      return start - i * step;
+    }
+    if (isFree(start + i * step)) {
+      return start + i * step;
+    }
+  }
+  return undefined;
+};
+
+type TimelineRect = {
+  top: number;
+  left: number;
+  width: number;
+  height: number;
+};
+
+/**
+ * Maps a rect laid out on the vertical timeline (time on `top` / `height`)
+ * to the current orientation. In RTL, `left` is measured from the right edge.
+ */
+export const orientRect = (
+  rect: TimelineRect,
+  isHorizontal: boolean,
+  isRTL: boolean = false
+) => {
+  'worklet';
+  if (isHorizontal) {
+    return {
+      top: rect.left,
+      left: rect.top,
+      width: rect.height,
+      height: rect.width,
+    };
+  }
+  if (isRTL) {
+    return {
+      top: rect.top,
+      right: rect.left,
+      width: rect.width,
+      height: rect.height,
+    };
+  }
+  return rect;
+};
+
+type GesturePoint = {
+  x: number;
+  y: number;
+  translationX: number;
+  translationY: number;
+};
+
+/**
+ * Maps a gesture point to the days (`x`) and time (`y`) axes of the timeline.
+ * When `rtlWidth` is set, `x` is measured from the right edge of that width.
+ */
+export const toTimelinePoint = (
+  point: GesturePoint,
+  isHorizontal: boolean,
+  rtlWidth: number = 0
+): GesturePoint => {
+  'worklet';
+  if (isHorizontal) {
+    return {
+      x: point.y,
+      y: point.x,
+      translationX: point.translationY,
+      translationY: point.translationX,
+    };
+  }
+  if (rtlWidth > 0) {
+    return {
+      x: rtlWidth - point.x,
+      y: point.y,
+      translationX: -point.translationX,
+      translationY: point.translationY,
+    };
+  }
+  return {
+    x: point.x,
+    y: point.y,
+    translationX: point.translationX,
+    translationY: point.translationY,
+  };
+};
+
 type PrepareMonthDataOptions = {
   minDate: DateType;
   maxDate: DateType;
@@ -226,3 +401,47 @@ export const prepareMonthData = (props: PrepareMonthDataOptions): MonthData => {
     maxStartOfMonthUnix,
   };
 };
+
+export const getMonthIndex = (monthData: MonthData, dateUnix: number) => {
+  const startOfMonth = parseDateTime(dateUnix).startOf('month');
+  const diffMonths = startOfMonth.diff(
+    parseDateTime(monthData.minStartOfMonthUnix),
+    'months'
+  ).months;
+  return clampValues(Math.round(diffMonths), 0, monthData.count);
+};
+
+export const getMonthStartByIndex = (monthData: MonthData, index: number) => {
+  return parseDateTime(monthData.minStartOfMonthUnix)
+    .plus({ months: index })
+    .toMillis();
+};
+
+export type MonthGrid = {
+  /** Start of the weeks displayed in the month page */
+  weekStarts: number[];
+  startOfMonthUnix: number;
+  endOfMonthUnix: number;
+};
+
+export const prepareMonthGrid = (
+  startOfMonthUnix: number,
+  firstDay: WeekdayNumbers
+): MonthGrid => {
+  const startOfMonth = parseDateTime(startOfMonthUnix);
+  const endOfMonth = startOfMonth.endOf('month');
+  const firstWeek = startOfWeek(startOfMonth, firstDay);
+  const lastWeek = startOfWeek(endOfMonth, firstDay);
+  const totalWeeks = Math.round(lastWeek.diff(firstWeek, 'weeks').weeks) + 1;
+
+  const weekStarts: number[] = [];
+  for (let i = 0; i < totalWeeks; i++) {
+    weekStarts.push(firstWeek.plus({ weeks: i }).toMillis());
+  }
+
+  return {
+    weekStarts,
+    startOfMonthUnix,
+    endOfMonthUnix: endOfMonth.toMillis(),
+  };
+};